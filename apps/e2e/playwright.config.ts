@@ -1,4 +1,5 @@
 import { defineConfig, devices } from '@playwright/test';
+import { join, resolve } from 'node:path';
 
 /**
  * Read environment variables from file.
@@ -6,6 +7,14 @@ import { defineConfig, devices } from '@playwright/test';
  */
 // require('dotenv').config();
 
+/**
+ * The app sends emails through the outbox transport during e2e tests, so
+ * tests/utils/mailbox.ts can read them from this directory.
+ */
+const EMAIL_OUTBOX_DIR = resolve(
+  process.env.EMAIL_OUTBOX_DIR ?? join(__dirname, '../web/.outbox'),
+);
+
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
@@ -75,6 +84,10 @@ export default defineConfig({
         command: process.env.PLAYWRIGHT_SERVER_COMMAND,
         url: 'http://localhost:3000',
         reuseExistingServer: !process.env.CI,
+        env: {
+          EMAIL_TRANSPORT: 'outbox',
+          EMAIL_OUTBOX_DIR,
+        },
         stdout: 'pipe',
         stderr: 'pipe',
       }
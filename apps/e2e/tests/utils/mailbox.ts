@@ -1,5 +1,26 @@
 import { Page } from '@playwright/test';
 import { parse } from 'node-html-parser';
+import { readFile, readdir, unlink } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+/**
+ * Reads the emails the app wrote with EMAIL_TRANSPORT=outbox, one JSON
+ * file per message in EMAIL_OUTBOX_DIR. playwright.config.ts starts the
+ * app with the same settings.
+ */
+const OUTBOX_DIR = resolve(
+  process.env.EMAIL_OUTBOX_DIR ?? join(__dirname, '../../../web/.outbox'),
+);
+
+interface OutboxMessage {
+  id: string;
+  sentAt: string;
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
 
 export class Mailbox {
   constructor(private readonly page: Page) {}
@@ -12,16 +33,15 @@ export class Mailbox {
   ) {
     console.log(`Visiting mailbox ${email} ...`);
 
-    const json = await this.getInviteEmail(email, params);
+    const message = await this.getInviteEmail(email, params);
 
-    if (!json?.HTML) {
+    if (!message?.html) {
       throw new Error('Email body was not found');
     }
 
     console.log('Email found');
 
-    const html = json.HTML;
-    const el = parse(html);
+    const el = parse(message.html);
 
     const linkHref = el.querySelector('a')?.getAttribute('href');
 
@@ -40,42 +60,46 @@ export class Mailbox {
       deleteAfter: boolean;
     },
   ) {
-    const url = `http://127.0.0.1:54324/api/v1/search?query=to:${encodeURIComponent(email)}`;
-
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch emails: ${response.statusText}`);
-    }
+    const messages = await this.getMessages(email);
 
-    const json = (await response.json()) as { messages: Array<{ ID: string }> };
+    // File names start with the send time, so the last one is the newest
+    const latest = messages.at(-1);
 
-    if (!json?.messages || !json.messages.length) {
+    if (!latest) {
       return;
     }
 
-    const messageId = json.messages[0]?.ID;
-    const messageUrl = `http://127.0.0.1:54324/api/v1/message/${messageId}`;
-
-    const messageResponse = await fetch(messageUrl);
-
-    if (!messageResponse.ok) {
-      throw new Error(`Failed to fetch email: ${messageResponse.statusText}`);
-    }
-
     // delete message
     if (params.deleteAfter) {
-      console.log(`Deleting email ${messageId} ...`);
+      console.log(`Deleting email ${latest.message.id} ...`);
 
-      const res = await fetch(messageUrl, {
-        method: 'DELETE',
+      await unlink(latest.path).catch((error) => {
+        console.error(`Failed to delete email: ${error}`);
       });
-
-      if (!res.ok) {
-        console.error(`Failed to delete email: ${res.statusText}`);
-      }
     }
 
-    return await messageResponse.json();
+    return latest.message;
+  }
+
+  private async getMessages(email: string) {
+    const files = await readdir(OUTBOX_DIR).catch(() => [] as string[]);
+
+    const messages = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .sort()
+        .map(async (file) => {
+          const path = join(OUTBOX_DIR, file);
+          const message = JSON.parse(
+            await readFile(path, 'utf-8'),
+          ) as OutboxMessage;
+
+          return { path, message };
+        }),
+    );
+
+    return messages.filter(
+      ({ message }) => message.to.toLowerCase() === email.toLowerCase(),
+    );
   }
 }
@@ -13,12 +13,29 @@ import {
   unauthorized,
   validationError,
 } from '~/lib/api/responses';
-
+import {
+  getAuditRequestContext,
+  getChangedValues,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+// An approval rule row as logged in the audit trail
+function toAuditValues(rule: Record<string, unknown>): Record<string, unknown> {
+  return {
+    name: rule.name,
+    conditions: JSON.parse((rule.conditions as string) || '{}'),
+    approverType: rule.approver_type,
+    approverUserId: rule.approver_user_id,
+    level: rule.level,
+    priority: rule.priority,
+    isActive: Boolean(rule.is_active),
+  };
+}
+
 const updateApprovalRuleSchema = z.object({
   name: z.string().min(1, 'Name is required').optional(),
   conditions: z
@@ -198,10 +215,24 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
   updateParams.push(now);
   updateParams.push(id);
 
-  await db
-    .prepare(`UPDATE approval_rules SET ${setClauses.join(', ')} WHERE id = ?`)
-    .bind(...updateParams)
-    .run();
+  await db.batch([
+    db
+      .prepare(`UPDATE approval_rules SET ${setClauses.join(', ')} WHERE id = ?`)
+      .bind(...updateParams),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'approval_rule.updated',
+        entityType: 'approval_rule',
+        entityId: id,
+        ...getChangedValues(toAuditValues(rule), updates),
+      },
+      getAuditRequestContext(request),
+      now
+    ),
+  ]);
 
   // Fetch updated rule
   const updated = await db
@@ -276,7 +307,21 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     return forbidden('Cannot delete approval rules from other organizations');
   }
 
-  await db.prepare('DELETE FROM approval_rules WHERE id = ?').bind(id).run();
+  await db.batch([
+    db.prepare('DELETE FROM approval_rules WHERE id = ?').bind(id),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'approval_rule.deleted',
+        entityType: 'approval_rule',
+        entityId: id,
+        oldValues: toAuditValues(rule),
+      },
+      getAuditRequestContext(request)
+    ),
+  ]);
 
   return noContent();
 }
@@ -12,6 +12,10 @@ import {
   unauthorized,
   validationError,
 } from '~/lib/api/responses';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
 
 
 interface ApprovalRuleRow {
@@ -172,27 +176,49 @@ export async function POST(request: NextRequest) {
   const ruleId = crypto.randomUUID();
   const now = new Date().toISOString();
 
-  await db
-    .prepare(
-      `INSERT INTO approval_rules (
-        id, organization_id, name, conditions, approver_type, approver_user_id,
-        level, priority, is_active, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-    )
-    .bind(
-      ruleId,
-      membership.organization_id,
-      name,
-      JSON.stringify(conditions),
-      approverType,
-      approverUserId || null,
-      level,
-      priority,
-      isActive ? 1 : 0,
-      now,
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO approval_rules (
+          id, organization_id, name, conditions, approver_type, approver_user_id,
+          level, priority, is_active, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        ruleId,
+        membership.organization_id,
+        name,
+        JSON.stringify(conditions),
+        approverType,
+        approverUserId || null,
+        level,
+        priority,
+        isActive ? 1 : 0,
+        now,
+        now
+      ),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'approval_rule.created',
+        entityType: 'approval_rule',
+        entityId: ruleId,
+        newValues: {
+          name,
+          conditions,
+          approverType,
+          approverUserId: approverUserId || null,
+          level,
+          priority,
+          isActive,
+        },
+      },
+      getAuditRequestContext(request),
       now
-    )
-    .run();
+    ),
+  ]);
 
   return created({
     id: ruleId,
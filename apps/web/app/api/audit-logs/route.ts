@@ -0,0 +1,110 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { z } from 'zod';
+
+import { auth } from '~/lib/auth/auth';
+import {
+  badRequest,
+  forbidden,
+  paginated,
+  unauthorized,
+  validationError,
+} from '~/lib/api/responses';
+import {
+  AUDIT_LOG_COLUMNS,
+  type AuditLogRow,
+  buildAuditLogFilter,
+  mapAuditLogRow,
+} from '~/lib/services/audit.service';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '~/lib/types';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+const querySchema = z.object({
+  userId: z.string().optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  startDate: dateSchema.optional(),
+  endDate: dateSchema.optional(),
+  page: z.coerce.number().min(1).default(1),
+  pageSize: z.coerce.number().min(10).max(100).default(25),
+});
+
+/**
+ * GET /api/audit-logs
+ * List the organization's audit log, newest first (admin only)
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const query = querySchema.safeParse({
+    userId: searchParams.get('userId') ?? undefined,
+    entityType: searchParams.get('entityType') ?? undefined,
+    action: searchParams.get('action') ?? undefined,
+    startDate: searchParams.get('startDate') ?? undefined,
+    endDate: searchParams.get('endDate') ?? undefined,
+    page: searchParams.get('page') ?? undefined,
+    pageSize: searchParams.get('pageSize') ?? undefined,
+  });
+
+  if (!query.success) {
+    return validationError(query.error.flatten());
+  }
+
+  const { page, pageSize, ...filters } = query.data;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const membership = await db
+    .prepare(
+      `SELECT organization_id, role FROM organization_members
+       WHERE user_id = ? AND status = 'active'
+       LIMIT 1`
+    )
+    .bind(session.user.id)
+    .first<{ organization_id: string; role: string }>();
+
+  if (!membership) {
+    return badRequest('You are not a member of any organization');
+  }
+
+  if (membership.role !== 'admin') {
+    return forbidden('Only admins can view the audit log');
+  }
+
+  const { where, params } = buildAuditLogFilter(
+    membership.organization_id,
+    filters
+  );
+
+  const [totalResult, rows] = await Promise.all([
+    db
+      .prepare(`SELECT COUNT(*) AS total FROM audit_logs al ${where}`)
+      .bind(...params)
+      .first<{ total: number }>(),
+    db
+      .prepare(
+        `SELECT ${AUDIT_LOG_COLUMNS}
+         FROM audit_logs al
+         LEFT JOIN users u ON u.id = al.user_id
+         ${where}
+         ORDER BY al.created_at DESC
+         LIMIT ? OFFSET ?`
+      )
+      .bind(...params, pageSize, (page - 1) * pageSize)
+      .all<AuditLogRow>(),
+  ]);
+
+  return paginated(
+    rows.results.map(mapAuditLogRow),
+    totalResult?.total ?? 0,
+    page,
+    pageSize
+  );
+}
@@ -2,23 +2,23 @@
 import { NextResponse } from 'next/server';
 import { getCloudflareContext } from '@opennextjs/cloudflare';
 
+import { getEmailTransport } from '~/lib/services/email-transport.service';
+
 /**
  * Check which auth providers are available in the current runtime.
  *
  * Email providers (magic link) require:
- * - Mailgun credentials (API key and domain)
+ * - A configured email transport (e.g. Mailgun API key)
  * - Either D1 database (production) or local development mode
  */
 export async function GET() {
   let hasEmailProvider = false;
 
-  // Check if Mailgun credentials are configured
-  const hasMailgunCredentials = !!(
-    process.env.MAILGUN_API_KEY && process.env.MAILGUN_DOMAIN
-  );
+  // Check if the email transport has its settings
+  const hasEmailTransport = !!getEmailTransport(process.env);
 
-  if (!hasMailgunCredentials) {
-    // No email provider without Mailgun credentials
+  if (!hasEmailTransport) {
+    // No email provider without a way to send the links
     return NextResponse.json({
       emailAvailable: false,
       oauthAvailable: true,
@@ -30,7 +30,7 @@ export async function GET() {
     // Email provider is available when D1 is available (production/preview)
     hasEmailProvider = !!ctx?.env?.DB;
   } catch {
-    // Not in edge runtime - allow email in development if credentials are set
+    // Not in edge runtime - allow email in development if a transport is set
     // This enables local development with magic links
     hasEmailProvider = process.env.NODE_ENV === 'development';
   }
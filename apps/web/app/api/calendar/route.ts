@@ -1,10 +1,17 @@
 import { NextRequest } from 'next/server';
 
 import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { eachDayOfInterval, parseISO } from 'date-fns';
 import { z } from 'zod';
 
 import { auth } from '~/lib/auth/auth';
 import { badRequest, success, unauthorized, validationError } from '~/lib/api/responses';
+import {
+  joinLeaveTypeSettings,
+  leaveTypeSetting,
+} from '~/lib/services/leave-type.service';
+import { loadWorkSchedules } from '~/lib/services/work-schedule.service';
+import { isScheduledWorkDay } from '~/lib/utils/work-schedule';
 
 const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format');
 
@@ -106,10 +113,11 @@ export async function GET(request: NextRequest) {
       u.email as user_email,
       u.image as user_avatar_url,
       lt.code as leave_type_code,
-      lt.color as leave_type_color
+      ${leaveTypeSetting('color')} as leave_type_color
     FROM leave_requests lr
     JOIN users u ON lr.user_id = u.id
     JOIN leave_types lt ON lr.leave_type_id = lt.id
+    ${joinLeaveTypeSettings('lr.organization_id')}
     WHERE lr.organization_id = ?
       AND lr.status = 'approved'
       AND lr.start_date <= ?
@@ -140,10 +148,34 @@ export async function GET(request: NextRequest) {
 
   const result = await db.prepare(query).bind(...params).all<CalendarRow>();
 
-  const absences = (result.results ?? []).map((row: CalendarRow) => ({
+  const rows: CalendarRow[] = result.results ?? [];
+  const workSchedules = await loadWorkSchedules(
+    db,
+    membership.organization_id,
+    [...new Set(rows.map((row: CalendarRow) => row.user_id))]
+  );
+
+  // Days inside the requested range the member is not scheduled to work
+  const getOffDates = (row: CalendarRow) => {
+    const schedules = workSchedules.get(row.user_id);
+
+    if (!schedules) {
+      return [];
+    }
+
+    const from = row.start_date > effectiveStartDate ? row.start_date : effectiveStartDate;
+    const to = row.end_date < effectiveEndDate ? row.end_date : effectiveEndDate;
+
+    return eachDayOfInterval({ start: parseISO(from), end: parseISO(to) })
+      .filter((day) => !isScheduledWorkDay(schedules, day))
+      .map(formatDate);
+  };
+
+  const absences = rows.map((row: CalendarRow) => ({
     id: row.id,
     startDate: row.start_date,
     endDate: row.end_date,
+    offDates: getOffDates(row),
     user: {
       id: row.user_id,
       name: row.user_name,
@@ -13,7 +13,11 @@ import {
   unauthorized,
   validationError,
 } from '~/lib/api/responses';
-
+import {
+  getAuditRequestContext,
+  getChangedValues,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -157,10 +161,32 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
   updateParams.push(id);
 
-  await db
-    .prepare(`UPDATE public_holidays SET ${setClauses.join(', ')} WHERE id = ?`)
-    .bind(...updateParams)
-    .run();
+  await db.batch([
+    db
+      .prepare(`UPDATE public_holidays SET ${setClauses.join(', ')} WHERE id = ?`)
+      .bind(...updateParams),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'holiday.updated',
+        entityType: 'holiday',
+        entityId: id,
+        ...getChangedValues(
+          {
+            date: holiday.date,
+            nameEn: holiday.name_en,
+            nameDe: holiday.name_de,
+            type: holiday.type,
+            isHalfDay: Boolean(holiday.is_half_day),
+          },
+          updates
+        ),
+      },
+      getAuditRequestContext(request)
+    ),
+  ]);
 
   // Fetch updated holiday
   const updated = await db
@@ -233,7 +259,27 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     return forbidden('Cannot delete holidays from other organizations');
   }
 
-  await db.prepare('DELETE FROM public_holidays WHERE id = ?').bind(id).run();
+  await db.batch([
+    db.prepare('DELETE FROM public_holidays WHERE id = ?').bind(id),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'holiday.deleted',
+        entityType: 'holiday',
+        entityId: id,
+        oldValues: {
+          date: holiday.date,
+          nameEn: holiday.name_en,
+          nameDe: holiday.name_de,
+          type: holiday.type,
+          isHalfDay: Boolean(holiday.is_half_day),
+        },
+      },
+      getAuditRequestContext(request)
+    ),
+  ]);
 
   return noContent();
 }
@@ -12,21 +12,15 @@ import {
   unauthorized,
   validationError,
 } from '~/lib/api/responses';
-
-interface HolidayRow {
-  id: string;
-  organization_id: string | null;
-  date: string;
-  name_en: string;
-  name_de: string;
-  bundesland: string | null;
-  type: string;
-  is_half_day: number;
-}
-
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
+import { getHolidays } from '~/lib/services/holiday.service';
+import { getUserLocale } from '~/lib/services/translation.service';
 
 const querySchema = z.object({
-  year: z.coerce.number().min(2020).max(2030).optional(),
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
   country: z.string().min(2).max(5).optional(),
   region: z.string().min(1).max(10).optional(),
   includeCompany: z.coerce.boolean().optional(),
@@ -42,7 +36,8 @@ const createHolidaySchema = z.object({
 
 /**
  * GET /api/holidays
- * Get public holidays for a given year and/or region
+ * Get public holidays for a given year and/or region, named in the
+ * user's locale
  */
 export async function GET(request: NextRequest) {
   const session = await auth();
@@ -83,46 +78,28 @@ export async function GET(request: NextRequest) {
   const effectiveRegion = region ?? membership?.region ?? membership?.bundesland ?? null;
   const effectiveYear = year ?? new Date().getFullYear();
 
-  // Build query based on parameters
-  let sql = `SELECT * FROM public_holidays WHERE strftime('%Y', date) = ?`;
-  const params: (string | number)[] = [String(effectiveYear)];
-
-  if (includeCompany && membership) {
-    // Include system holidays + company-specific holidays
-    sql += ' AND (organization_id IS NULL OR organization_id = ?)';
-    params.push(membership.organization_id);
-    sql += ' AND (organization_id IS NOT NULL OR country = ?)';
-    params.push(effectiveCountry);
-  } else {
-    // Only system holidays
-    sql += ' AND organization_id IS NULL';
-    sql += ' AND country = ?';
-    params.push(effectiveCountry);
-  }
-
-  if (effectiveRegion) {
-    // Get holidays that apply to this region (national or specific to the state)
-    sql += ' AND (bundesland IS NULL OR bundesland = ?)';
-    params.push(effectiveRegion);
-  }
+  const resolved = await getHolidays(db, {
+    country: effectiveCountry,
+    region: effectiveRegion ?? undefined,
+    organizationId:
+      includeCompany && membership ? membership.organization_id : null,
+    startDate: `${effectiveYear}-01-01`,
+    endDate: `${effectiveYear}-12-31`,
+    locale: await getUserLocale(db, session.user.id),
+  });
 
-  sql += ' ORDER BY date ASC';
-
-  const result = await db
-    .prepare(sql)
-    .bind(...params)
-    .all<HolidayRow>();
-
-  const holidays = result.results.map((row: HolidayRow) => ({
-    id: row.id,
-    date: row.date,
-    nameEn: row.name_en,
-    nameDe: row.name_de,
-    region: row.bundesland,
-    type: row.type,
-    isHalfDay: Boolean(row.is_half_day),
-    isCompanyHoliday: row.organization_id !== null,
-    isNational: !row.bundesland,
+  const holidays = resolved.map((holiday) => ({
+    id: holiday.id,
+    date: holiday.date,
+    name: holiday.name,
+    nameEn: holiday.nameEn,
+    nameDe: holiday.nameDe,
+    region: holiday.region,
+    type: holiday.type,
+    isHalfDay: holiday.isHalfDay,
+    isRecurring: holiday.isRecurring,
+    isCompanyHoliday: holiday.organizationId !== null,
+    isNational: !holiday.region,
   }));
 
   return success(holidays);
@@ -173,23 +150,37 @@ export async function POST(request: NextRequest) {
   const holidayId = crypto.randomUUID();
   const now = new Date().toISOString();
 
-  await db
-    .prepare(
-      `INSERT INTO public_holidays (
-        id, organization_id, date, name_en, name_de, type, is_half_day, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
-    )
-    .bind(
-      holidayId,
-      membership.organization_id,
-      date,
-      nameEn,
-      nameDe,
-      type,
-      isHalfDay ? 1 : 0,
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO public_holidays (
+          id, organization_id, date, name_en, name_de, type, is_half_day, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        holidayId,
+        membership.organization_id,
+        date,
+        nameEn,
+        nameDe,
+        type,
+        isHalfDay ? 1 : 0,
+        now
+      ),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'holiday.created',
+        entityType: 'holiday',
+        entityId: holidayId,
+        newValues: { date, nameEn, nameDe, type, isHalfDay },
+      },
+      getAuditRequestContext(request),
       now
-    )
-    .run();
+    ),
+  ]);
 
   return created({
     id: holidayId,
@@ -8,6 +8,15 @@ import {
   success,
   unauthorized,
 } from '~/lib/api/responses';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
+import {
+  joinLeaveTypeSettings,
+  leaveTypeAvailableSql,
+  leaveTypeSetting,
+} from '~/lib/services/leave-type.service';
 
 interface InviteRow {
   id: string;
@@ -82,7 +91,7 @@ export async function GET(
  * Accept an invite (requires authentication)
  */
 export async function POST(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ token: string }> }
 ) {
   const session = await auth();
@@ -220,10 +229,14 @@ export async function POST(
   // Get all active leave types
   const leaveTypes = await db
     .prepare(
-      `SELECT id, code, default_days_per_year
-       FROM leave_types
-       WHERE organization_id IS NULL AND is_active = 1`
+      `SELECT lt.id, lt.code,
+              ${leaveTypeSetting('default_days_per_year')} as default_days_per_year
+       FROM leave_types lt
+       ${joinLeaveTypeSettings('?')}
+       WHERE ${leaveTypeAvailableSql('?')}
+         AND ${leaveTypeSetting('is_active')} = 1`
     )
+    .bind(invite.organization_id, invite.organization_id)
     .all<{ id: string; code: string; default_days_per_year: number | null }>();
 
   for (const leaveType of leaveTypes.results || []) {
@@ -255,6 +268,27 @@ export async function POST(
     );
   }
 
+  // 5. Record the new member in the audit log
+  statements.push(
+    prepareAuditLog(
+      db,
+      {
+        organizationId: invite.organization_id,
+        userId: session.user.id,
+        action: 'member.joined',
+        entityType: 'organization_member',
+        entityId: memberId,
+        newValues: {
+          inviteId: invite.id,
+          role: invite.role,
+          teamId: invite.team_id,
+        },
+      },
+      getAuditRequestContext(request),
+      now
+    )
+  );
+
   // Execute all statements in batch
   await db.batch(statements);
 
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+import { auth } from '~/lib/auth/auth';
+import { isPlatformOperator } from '~/lib/auth/platform-operator';
+import {
+  forbidden,
+  notFound,
+  success,
+  unauthorized,
+} from '~/lib/api/responses';
+import { getJob } from '~/lib/jobs';
+import { getJobRuns } from '~/lib/services/job.service';
+
+interface RouteParams {
+  params: Promise<{ name: string }>;
+}
+
+/**
+ * GET /api/jobs/[name]
+ * Get the run history of a scheduled job
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { name } = await params;
+  const job = getJob(name);
+
+  if (!job) {
+    return notFound('Job');
+  }
+
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  // Jobs span all organizations, so organization admins can't use them
+  if (!isPlatformOperator(env, session.user.email)) {
+    return forbidden('Only platform operators can view scheduled jobs');
+  }
+
+  return success(await getJobRuns(db, job.name));
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { z } from 'zod';
+
+import { auth } from '~/lib/auth/auth';
+import { isPlatformOperator } from '~/lib/auth/platform-operator';
+import {
+  forbidden,
+  notFound,
+  success,
+  unauthorized,
+  validationError,
+} from '~/lib/api/responses';
+import { getJob } from '~/lib/jobs';
+import { runJob } from '~/lib/services/job.service';
+
+interface RouteParams {
+  params: Promise<{ name: string }>;
+}
+
+const runJobSchema = z.object({
+  force: z.boolean().optional().default(false),
+});
+
+/**
+ * POST /api/jobs/[name]/run
+ * Run a scheduled job for the current period now. The run is skipped if
+ * the job already succeeded for the period; `force` re-runs it and is
+ * only available in development, for testing jobs locally.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { name } = await params;
+  const job = getJob(name);
+
+  if (!job) {
+    return notFound('Job');
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = runJobSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return validationError(parsed.error.flatten());
+  }
+
+  if (parsed.data.force && process.env.NODE_ENV !== 'development') {
+    return forbidden('Jobs can only be forced in development');
+  }
+
+  const { env } = getCloudflareContext();
+
+  // Jobs span all organizations, so organization admins can't use them
+  if (!isPlatformOperator(env, session.user.email)) {
+    return forbidden('Only platform operators can run scheduled jobs');
+  }
+
+  const outcome = await runJob(env, job, {
+    trigger: 'manual',
+    triggeredBy: session.user.id,
+    force: parsed.data.force,
+  });
+
+  return success(outcome);
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+import { auth } from '~/lib/auth/auth';
+import { isPlatformOperator } from '~/lib/auth/platform-operator';
+import {
+  forbidden,
+  success,
+  unauthorized,
+} from '~/lib/api/responses';
+import { JOBS } from '~/lib/jobs';
+import { getLatestJobRuns } from '~/lib/services/job.service';
+import { getPeriodKey } from '~/lib/utils/job-schedule';
+
+/**
+ * GET /api/jobs
+ * List the scheduled jobs with their latest run
+ */
+export async function GET(_request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  // Jobs span all organizations, so organization admins can't use them
+  if (!isPlatformOperator(env, session.user.email)) {
+    return forbidden('Only platform operators can view scheduled jobs');
+  }
+
+  const latestRuns = await getLatestJobRuns(db);
+  const now = new Date();
+
+  return success(
+    JOBS.map((job) => ({
+      name: job.name,
+      description: job.description,
+      schedule: job.schedule,
+      hour: job.hour ?? 0,
+      currentPeriod: getPeriodKey(job.schedule, now),
+      lastRun: latestRuns[job.name] ?? null,
+    }))
+  );
+}
@@ -0,0 +1,189 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { z } from 'zod';
+
+import { auth } from '~/lib/auth/auth';
+import {
+  badRequest,
+  created,
+  forbidden,
+  notFound,
+  unauthorized,
+  validationError,
+} from '~/lib/api/responses';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
+import type { BalanceAdjustment } from '~/lib/types';
+
+interface RouteParams {
+  params: Promise<{ balanceId: string }>;
+}
+
+// Roles that can post balance adjustments
+const BALANCE_MANAGER_ROLES = ['admin', 'hr'];
+
+const adjustmentSchema = z
+  .object({
+    kind: z.enum(['bonus', 'correction', 'payout']),
+    days: z.coerce
+      .number()
+      .min(-365)
+      .max(365)
+      .refine((days) => days !== 0, 'Days cannot be zero'),
+    reason: z
+      .string()
+      .trim()
+      .min(1, 'A reason is required')
+      .max(500, 'Reason must be less than 500 characters'),
+  })
+  .refine((data) => data.kind !== 'bonus' || data.days > 0, {
+    message: 'Bonus days must be positive',
+    path: ['days'],
+  })
+  .refine((data) => data.kind !== 'payout' || data.days < 0, {
+    message: 'Paid-out days must be negative',
+    path: ['days'],
+  });
+
+/**
+ * POST /api/leave-balances/[balanceId]/adjustments
+ * Post a signed adjustment to a member's leave balance (admin/HR only).
+ * Adjustments are ledger entries; the balance's `adjustment` is their sum
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = adjustmentSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return validationError(parsed.error.flatten());
+  }
+
+  const { kind, days, reason } = parsed.data;
+  const { balanceId } = await params;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const membership = await db
+    .prepare(
+      `SELECT organization_id, role FROM organization_members
+       WHERE user_id = ? AND status = 'active'
+       LIMIT 1`
+    )
+    .bind(session.user.id)
+    .first<{ organization_id: string; role: string }>();
+
+  if (!membership) {
+    return badRequest('You are not a member of any organization');
+  }
+
+  if (!BALANCE_MANAGER_ROLES.includes(membership.role)) {
+    return forbidden('Only admins and HR can adjust leave balances');
+  }
+
+  const balance = await db
+    .prepare(
+      `SELECT id, organization_id, user_id, year, entitled, carried_over,
+              adjustment, used, pending
+       FROM leave_balances WHERE id = ?`
+    )
+    .bind(balanceId)
+    .first<{
+      id: string;
+      organization_id: string;
+      user_id: string;
+      year: number;
+      entitled: number;
+      carried_over: number;
+      adjustment: number;
+      used: number;
+      pending: number;
+    }>();
+
+  if (!balance) {
+    return notFound('Leave balance');
+  }
+
+  if (balance.organization_id !== membership.organization_id) {
+    return forbidden('Cannot adjust leave balances of other organizations');
+  }
+
+  const adjustmentId = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const remaining =
+    balance.entitled +
+    balance.carried_over +
+    balance.adjustment -
+    balance.used -
+    balance.pending;
+
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO leave_balance_adjustments (
+          id, organization_id, balance_id, user_id, kind, days, reason,
+          created_by, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        adjustmentId,
+        balance.organization_id,
+        balance.id,
+        balance.user_id,
+        kind,
+        days,
+        reason,
+        session.user.id,
+        now
+      ),
+    db
+      .prepare(
+        `UPDATE leave_balances
+         SET adjustment = adjustment + ?, updated_at = ?
+         WHERE id = ?`
+      )
+      .bind(days, now, balance.id),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: balance.organization_id,
+        userId: session.user.id,
+        action: 'balance.adjusted',
+        entityType: 'leave_balance',
+        entityId: balance.id,
+        oldValues: { adjustment: balance.adjustment, remaining },
+        newValues: {
+          adjustment: balance.adjustment + days,
+          remaining: remaining + days,
+          adjustmentId,
+          kind,
+          days,
+          reason,
+        },
+      },
+      getAuditRequestContext(request),
+      now
+    ),
+  ]);
+
+  const adjustment: BalanceAdjustment = {
+    id: adjustmentId,
+    balanceId: balance.id,
+    userId: balance.user_id,
+    kind,
+    days,
+    reason,
+    createdBy: { id: session.user.id, name: session.user.name ?? null },
+    createdAt: now,
+  };
+
+  return created(adjustment);
+}
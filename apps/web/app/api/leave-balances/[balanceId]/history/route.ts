@@ -0,0 +1,86 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+import { auth } from '~/lib/auth/auth';
+import {
+  badRequest,
+  forbidden,
+  notFound,
+  success,
+  unauthorized,
+} from '~/lib/api/responses';
+import { getBalanceLedger } from '~/lib/services/balance.service';
+
+interface RouteParams {
+  params: Promise<{ balanceId: string }>;
+}
+
+// Roles that can see other members' balances
+const BALANCE_VIEWER_ROLES = ['admin', 'hr', 'manager'];
+
+/**
+ * GET /api/leave-balances/[balanceId]/history
+ * Get the transactions of a leave balance: entitlement, carryover,
+ * adjustments and approved leave, with the running balance
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { balanceId } = await params;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const balance = await db
+    .prepare(
+      `SELECT id, organization_id, user_id, leave_type_id, year, entitled,
+              carried_over, carryover_expired, carryover_expires_at
+       FROM leave_balances WHERE id = ?`
+    )
+    .bind(balanceId)
+    .first<{
+      id: string;
+      organization_id: string;
+      user_id: string;
+      leave_type_id: string;
+      year: number;
+      entitled: number;
+      carried_over: number;
+      carryover_expired: number;
+      carryover_expires_at: string | null;
+    }>();
+
+  if (!balance) {
+    return notFound('Leave balance');
+  }
+
+  if (balance.user_id !== session.user.id) {
+    const membership = await db
+      .prepare(
+        `SELECT organization_id, role FROM organization_members
+         WHERE user_id = ? AND status = 'active'
+         LIMIT 1`
+      )
+      .bind(session.user.id)
+      .first<{ organization_id: string; role: string }>();
+
+    if (!membership) {
+      return badRequest('You are not a member of any organization');
+    }
+
+    if (
+      membership.organization_id !== balance.organization_id ||
+      !BALANCE_VIEWER_ROLES.includes(membership.role)
+    ) {
+      return forbidden("Cannot view other members' leave balances");
+    }
+  }
+
+  const ledger = await getBalanceLedger(db, balance);
+
+  return success(ledger);
+}
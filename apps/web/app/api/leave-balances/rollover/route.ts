@@ -0,0 +1,122 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { z } from 'zod';
+
+import { auth } from '~/lib/auth/auth';
+import {
+  badRequest,
+  created,
+  forbidden,
+  success,
+  unauthorized,
+  validationError,
+} from '~/lib/api/responses';
+import {
+  applyRollover,
+  getRolloverHistory,
+  planRollover,
+} from '~/lib/services/rollover.service';
+
+const fromYearSchema = z.coerce.number().int().min(2020).max(2100);
+
+const rolloverSchema = z.object({
+  fromYear: fromYearSchema,
+});
+
+/**
+ * Get the current user's organization if they are an admin.
+ */
+async function getAdminMembership(db: CloudflareEnv['DB'], userId: string) {
+  return db
+    .prepare(
+      `SELECT organization_id, role FROM organization_members
+       WHERE user_id = ? AND status = 'active'
+       LIMIT 1`
+    )
+    .bind(userId)
+    .first<{ organization_id: string; role: string }>();
+}
+
+/**
+ * GET /api/leave-balances/rollover
+ * Preview the year-end rollover from `fromYear` (default: last year) to the
+ * following year, together with the organization's past rollover runs
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const fromYear = fromYearSchema.safeParse(
+    request.nextUrl.searchParams.get('fromYear') ??
+      new Date().getFullYear() - 1
+  );
+
+  if (!fromYear.success) {
+    return validationError(fromYear.error.flatten());
+  }
+
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const membership = await getAdminMembership(db, session.user.id);
+
+  if (!membership) {
+    return badRequest('You are not a member of any organization');
+  }
+
+  if (membership.role !== 'admin') {
+    return forbidden('Only admins can manage the year-end rollover');
+  }
+
+  const [plan, history] = await Promise.all([
+    planRollover(db, membership.organization_id, fromYear.data),
+    getRolloverHistory(db, membership.organization_id),
+  ]);
+
+  return success({ ...plan, history });
+}
+
+/**
+ * POST /api/leave-balances/rollover
+ * Run (or re-run) the year-end rollover from `fromYear` to the following year
+ */
+export async function POST(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = rolloverSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return validationError(parsed.error.flatten());
+  }
+
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const membership = await getAdminMembership(db, session.user.id);
+
+  if (!membership) {
+    return badRequest('You are not a member of any organization');
+  }
+
+  if (membership.role !== 'admin') {
+    return forbidden('Only admins can manage the year-end rollover');
+  }
+
+  const { rolloverId, plan } = await applyRollover(
+    db,
+    membership.organization_id,
+    parsed.data.fromYear,
+    { trigger: 'manual', triggeredBy: session.user.id }
+  );
+
+  return created({ id: rolloverId, ...plan });
+}
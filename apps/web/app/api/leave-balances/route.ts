@@ -3,12 +3,30 @@ import { NextRequest } from 'next/server';
 import { getCloudflareContext } from '@opennextjs/cloudflare';
 
 import { auth } from '~/lib/auth/auth';
-import { success, unauthorized } from '~/lib/api/responses';
+import {
+  badRequest,
+  forbidden,
+  success,
+  unauthorized,
+} from '~/lib/api/responses';
+import {
+  getCarryoverStatus,
+  loadCarryoverDaysTaken,
+} from '~/lib/services/carryover.service';
+import {
+  joinLeaveTypeSettings,
+  joinLeaveTypeTranslation,
+  leaveTypeSetting,
+} from '~/lib/services/leave-type.service';
+import { getUserLocale, localize } from '~/lib/services/translation.service';
 
+// Roles that can see other members' balances
+const BALANCE_VIEWER_ROLES = ['admin', 'hr', 'manager'];
 
 /**
  * GET /api/leave-balances
- * Get leave balances for the current user
+ * Get leave balances for the current user, or for another member
+ * (?userId=) as admin, HR or manager
  */
 export async function GET(request: NextRequest) {
   const session = await auth();
@@ -22,8 +40,44 @@ export async function GET(request: NextRequest) {
 
   const searchParams = request.nextUrl.searchParams;
   const year = searchParams.get('year') || new Date().getFullYear().toString();
+  const userId = searchParams.get('userId') ?? session.user.id;
 
-  // Get balances with leave type details
+  if (userId !== session.user.id) {
+    const membership = await db
+      .prepare(
+        `SELECT organization_id, role FROM organization_members
+         WHERE user_id = ? AND status = 'active'
+         LIMIT 1`
+      )
+      .bind(session.user.id)
+      .first<{ organization_id: string; role: string }>();
+
+    if (!membership) {
+      return badRequest('You are not a member of any organization');
+    }
+
+    if (!BALANCE_VIEWER_ROLES.includes(membership.role)) {
+      return forbidden("Cannot view other members' leave balances");
+    }
+
+    const targetMember = await db
+      .prepare(
+        `SELECT id FROM organization_members
+         WHERE user_id = ? AND organization_id = ?
+         LIMIT 1`
+      )
+      .bind(userId, membership.organization_id)
+      .first();
+
+    if (!targetMember) {
+      return badRequest('User is not a member of this organization');
+    }
+  }
+
+  const locale = await getUserLocale(db, session.user.id);
+
+  // Get balances with leave type details, leaving out balances of archived
+  // leave types that were never used
   const results = await db
     .prepare(
       `SELECT
@@ -31,23 +85,45 @@ export async function GET(request: NextRequest) {
         lt.code as leave_type_code,
         lt.name_en as leave_type_name_en,
         lt.name_de as leave_type_name_de,
-        lt.color as leave_type_color,
+        ltt.name as leave_type_translated_name,
+        ${leaveTypeSetting('color')} as leave_type_color,
         lt.icon as leave_type_icon,
         lt.has_allowance as leave_type_has_allowance
       FROM leave_balances lb
       JOIN leave_types lt ON lb.leave_type_id = lt.id
+      ${joinLeaveTypeSettings('lb.organization_id')}
+      ${joinLeaveTypeTranslation('?')}
       WHERE lb.user_id = ? AND lb.year = ?
-      ORDER BY lt.sort_order`
+        AND (lt.archived_at IS NULL OR lb.used > 0 OR lb.pending > 0)
+      ORDER BY ${leaveTypeSetting('sort_order')}`
     )
-    .bind(session.user.id, parseInt(year))
+    .bind(locale, userId, parseInt(year))
     .all();
 
+  const carryoverDaysTaken = await loadCarryoverDaysTaken(
+    db,
+    results.results.map((row: Record<string, unknown>) => ({
+      id: row.id as string,
+      organizationId: row.organization_id as string,
+      userId: row.user_id as string,
+      leaveTypeId: row.leave_type_id as string,
+      year: row.year as number,
+      expiresAt: row.carryover_expires_at as string | null,
+    }))
+  );
+
   // Transform results
   const balances = results.results.map((row: Record<string, unknown>) => ({
     id: row.id,
     leaveTypeId: row.leave_type_id,
     leaveType: {
       code: row.leave_type_code,
+      name: localize(
+        row.leave_type_name_en as string,
+        row.leave_type_name_de as string,
+        locale,
+        row.leave_type_translated_name as string | null
+      ),
       nameEn: row.leave_type_name_en,
       nameDe: row.leave_type_name_de,
       color: row.leave_type_color,
@@ -66,6 +142,13 @@ export async function GET(request: NextRequest) {
       (row.adjustment as number) -
       (row.used as number) -
       (row.pending as number),
+    carryover: getCarryoverStatus({
+      carriedOver: row.carried_over as number,
+      expiresAt: row.carryover_expires_at as string | null,
+      expiredAt: row.carryover_expired_at as string | null,
+      expired: row.carryover_expired as number,
+      daysTakenBeforeExpiry: carryoverDaysTaken.get(row.id as string) ?? 0,
+    }),
     notes: row.notes,
   }));
 
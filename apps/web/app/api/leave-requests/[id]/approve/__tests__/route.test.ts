@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+
+// Mock dependencies
+vi.mock('~/lib/auth/auth', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+vi.mock('~/lib/emails', () => ({
+  sendLeaveRequestApprovedEmail: vi.fn(),
+  sendLeaveRequestSubmittedEmail: vi.fn(),
+  sendTeamAbsenceNotificationEmail: vi.fn(),
+}));
+
+vi.mock('~/lib/services/notification.service', () => ({
+  notifyLeaveRequest: vi.fn(),
+}));
+
+vi.mock('~/lib/services/translation.service', () => ({
+  getLocalizedNames: vi.fn(),
+}));
+
+vi.mock('~/lib/services/approval.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('~/lib/services/approval.service')>()),
+  loadApprovalContext: vi.fn(),
+  loadApprovedLevels: vi.fn(),
+  resolveApprovalChain: vi.fn(),
+}));
+
+// Import mocked modules
+import { auth } from '~/lib/auth/auth';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import {
+  sendLeaveRequestApprovedEmail,
+  sendLeaveRequestSubmittedEmail,
+} from '~/lib/emails';
+import {
+  loadApprovalContext,
+  loadApprovedLevels,
+  resolveApprovalChain,
+} from '~/lib/services/approval.service';
+import { notifyLeaveRequest } from '~/lib/services/notification.service';
+import { getLocalizedNames } from '~/lib/services/translation.service';
+
+const leaveRequest = {
+  id: 'lr-1',
+  organization_id: 'org-1',
+  user_id: 'employee-1',
+  user_name: 'Employee',
+  leave_type_id: 'lt-vacation',
+  leave_type_code: 'vacation',
+  status: 'pending',
+  start_date: '2026-03-02',
+  end_date: '2026-03-04',
+  work_days: 3,
+  work_days_by_year: '{"2026":3}',
+  approval_chain: null,
+  reason: null,
+};
+
+// Manager first, then HR
+const chain = [
+  { level: 1, rule: null, approverIds: ['manager-1'] },
+  { level: 2, rule: null, approverIds: ['hr-1'] },
+];
+
+// Helper to create a mock NextRequest
+function createMockRequest(body: unknown = {}): NextRequest {
+  return new NextRequest(
+    'http://localhost:3000/api/leave-requests/lr-1/approve',
+    {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
+
+const routeParams = { params: Promise.resolve({ id: 'lr-1' }) };
+
+// Helper to create mock D1 database
+function createMockDb() {
+  const mockStatement = {
+    bind: vi.fn().mockReturnThis(),
+    first: vi.fn(),
+    all: vi.fn().mockResolvedValue({ results: [] }),
+    run: vi.fn(),
+  };
+
+  return {
+    prepare: vi.fn((_sql: string) => mockStatement),
+    batch: vi.fn().mockResolvedValue([]),
+    mockStatement,
+  };
+}
+
+function mockSession(userId: string) {
+  vi.mocked(auth).mockResolvedValue({
+    user: { id: userId, email: `${userId}@test.com`, name: userId },
+  } as Awaited<ReturnType<typeof auth>>);
+}
+
+describe('POST /api/leave-requests/[id]/approve', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+
+  // SQL of the statements prepared so far, in order
+  const preparedSql = () => mockDb.prepare.mock.calls.map(([sql]) => sql);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = createMockDb();
+
+    vi.mocked(getCloudflareContext).mockReturnValue({
+      env: { DB: mockDb },
+      ctx: { waitUntil: vi.fn() },
+    } as unknown as ReturnType<typeof getCloudflareContext>);
+
+    // Membership and leave request, then leave type, employee and approver
+    // for the notifications
+    mockDb.mockStatement.first
+      .mockResolvedValueOnce({ organization_id: 'org-1', role: 'manager' })
+      .mockResolvedValueOnce(leaveRequest)
+      .mockResolvedValueOnce({
+        code: 'vacation',
+        name_en: 'Vacation',
+        name_de: 'Urlaub',
+      })
+      .mockResolvedValueOnce({ name: 'Employee', email: 'employee@test.com' })
+      .mockResolvedValueOnce({ name: 'Approver' });
+
+    vi.mocked(loadApprovalContext).mockResolvedValue({
+      rules: [],
+      members: [],
+      teamMembers: [],
+    });
+    vi.mocked(resolveApprovalChain).mockReturnValue(chain);
+    vi.mocked(getLocalizedNames).mockResolvedValue({
+      en: 'Vacation',
+      de: 'Urlaub',
+    });
+    vi.mocked(notifyLeaveRequest).mockResolvedValue();
+    vi.mocked(sendLeaveRequestApprovedEmail).mockResolvedValue();
+    vi.mocked(sendLeaveRequestSubmittedEmail).mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should return 401 when user is not authenticated', async () => {
+    vi.mocked(auth).mockResolvedValue(null);
+
+    const response = await POST(createMockRequest(), routeParams);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 403 for approvers of another level', async () => {
+    mockSession('hr-1');
+    vi.mocked(loadApprovedLevels).mockResolvedValue(new Map());
+
+    const response = await POST(createMockRequest(), routeParams);
+
+    expect(response.status).toBe(403);
+    expect(mockDb.batch).not.toHaveBeenCalled();
+  });
+
+  describe('Multi-level approval', () => {
+    it('should keep the request pending until the last level approves', async () => {
+      mockSession('manager-1');
+      vi.mocked(loadApprovedLevels).mockResolvedValue(new Map());
+
+      const response = await POST(createMockRequest(), routeParams);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data).toMatchObject({
+        status: 'pending',
+        level: 1,
+        nextLevel: 2,
+      });
+      expect(mockDb.batch).toHaveBeenCalled();
+      expect(
+        preparedSql().some((sql) => sql.includes("status = 'approved'"))
+      ).toBe(false);
+      expect(
+        preparedSql().some((sql) => sql.includes('UPDATE leave_balances'))
+      ).toBe(false);
+    });
+
+    it('should hand the request over to the next level', async () => {
+      mockSession('manager-1');
+      vi.mocked(loadApprovedLevels).mockResolvedValue(new Map());
+      mockDb.mockStatement.all.mockResolvedValue({
+        results: [{ email: 'hr-1@test.com', name: 'HR' }],
+      });
+
+      await POST(createMockRequest(), routeParams);
+
+      expect(notifyLeaveRequest).toHaveBeenCalledWith(
+        mockDb,
+        expect.objectContaining({
+          type: 'approval_needed',
+          userIds: ['hr-1'],
+        })
+      );
+      expect(sendLeaveRequestSubmittedEmail).toHaveBeenCalledWith(
+        expect.anything(),
+        'hr-1@test.com',
+        expect.anything()
+      );
+    });
+
+    it('should approve the request on the last level', async () => {
+      mockSession('hr-1');
+      vi.mocked(loadApprovedLevels).mockResolvedValue(new Map([['lr-1', [1]]]));
+
+      const response = await POST(createMockRequest(), routeParams);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data).toMatchObject({ status: 'approved', level: 2 });
+      expect(sendLeaveRequestApprovedEmail).toHaveBeenCalled();
+    });
+
+    it('should book the balance only while the request is still pending', async () => {
+      mockSession('hr-1');
+      vi.mocked(loadApprovedLevels).mockResolvedValue(new Map([['lr-1', [1]]]));
+
+      await POST(createMockRequest(), routeParams);
+
+      const sql = preparedSql();
+      const bookingIndex = sql.findIndex((statement) =>
+        statement.includes('UPDATE leave_balances')
+      );
+      const statusIndex = sql.findIndex((statement) =>
+        statement.includes("SET status = 'approved'")
+      );
+
+      expect(sql[bookingIndex]).toContain("status = 'pending'");
+      expect(bookingIndex).toBeLessThan(statusIndex);
+    });
+
+    it('should return 409 when the level was already decided', async () => {
+      mockSession('manager-1');
+      vi.mocked(loadApprovedLevels).mockResolvedValue(new Map());
+      mockDb.batch.mockRejectedValue(
+        new Error(
+          'UNIQUE constraint failed: leave_approvals.leave_request_id, leave_approvals.level'
+        )
+      );
+
+      const response = await POST(createMockRequest(), routeParams);
+
+      expect(response.status).toBe(409);
+      expect(notifyLeaveRequest).not.toHaveBeenCalled();
+    });
+  });
+});
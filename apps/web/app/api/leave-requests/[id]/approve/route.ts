@@ -3,20 +3,37 @@ import { NextRequest } from 'next/server';
 import { getCloudflareContext } from '@opennextjs/cloudflare';
 import { z } from 'zod';
 
-import { auth } from '~/lib/auth/auth';
 import {
-  success,
-  unauthorized,
+  badRequest,
+  conflict,
   forbidden,
   notFound,
-  badRequest,
+  success,
+  unauthorized,
   validationError,
 } from '~/lib/api/responses';
+import { auth } from '~/lib/auth/auth';
 import {
   sendLeaveRequestApprovedEmail,
+  sendLeaveRequestSubmittedEmail,
   sendTeamAbsenceNotificationEmail,
 } from '~/lib/emails';
-
+import {
+  getCurrentApprovalStep,
+  loadApprovalContext,
+  loadApprovedLevels,
+  resolveApprovalChain,
+} from '~/lib/services/approval.service';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
+import {
+  parseWorkDaysByYear,
+  prepareBalanceBooking,
+} from '~/lib/services/balance.service';
+import { notifyLeaveRequest } from '~/lib/services/notification.service';
+import { getLocalizedNames } from '~/lib/services/translation.service';
 
 const approveSchema = z.object({
   comment: z.string().max(500).optional(),
@@ -28,7 +45,7 @@ interface RouteParams {
 
 /**
  * POST /api/leave-requests/[id]/approve
- * Approve a leave request
+ * Approve the current level of a leave request's approval chain
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   const session = await auth();
@@ -63,17 +80,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     return forbidden('Not a member of any organization');
   }
 
-  // Only admins and managers can approve
-  if (currentMembership.role !== 'admin' && currentMembership.role !== 'manager') {
-    return forbidden('Only admins and managers can approve leave requests');
-  }
-
   // Get the leave request
   const leaveRequest = await db
     .prepare(
-      `SELECT lr.*, u.name as user_name
+      `SELECT lr.*, u.name as user_name, lt.code as leave_type_code
        FROM leave_requests lr
        JOIN users u ON lr.user_id = u.id
+       JOIN leave_types lt ON lr.leave_type_id = lt.id
        WHERE lr.id = ?`
     )
     .bind(id)
@@ -98,49 +111,128 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     return badRequest('Cannot approve your own leave request');
   }
 
+  // Only the approvers of the current level in the approval chain may act
+  const approvalContext = await loadApprovalContext(
+    db,
+    currentMembership.organization_id
+  );
+  const chain = resolveApprovalChain(approvalContext, {
+    userId: leaveRequest.user_id as string,
+    leaveTypeId: leaveRequest.leave_type_id as string,
+    leaveTypeCode: leaveRequest.leave_type_code as string,
+    workDays: leaveRequest.work_days as number,
+    approvalChain: leaveRequest.approval_chain as string | null,
+  });
+  const approvedLevels = (await loadApprovedLevels(db, [id])).get(id) ?? [];
+  const currentStep =
+    getCurrentApprovalStep(chain, approvedLevels) ?? chain[chain.length - 1]!;
+
+  if (!currentStep.approverIds.includes(session.user.id)) {
+    return forbidden('You are not an approver for this leave request');
+  }
+
+  // The request stays pending until every level has approved
+  const nextStep = getCurrentApprovalStep(chain, [
+    ...approvedLevels,
+    currentStep.level,
+  ]);
+  const isFinalApproval = nextStep === null;
+
   const now = new Date().toISOString();
   const approvalId = crypto.randomUUID();
 
-  // Create approval record and update leave request in a batch
-  await db.batch([
+  const batchStatements = [
     // Create approval record
     db
       .prepare(
         `INSERT INTO leave_approvals (
-          id, leave_request_id, approver_id, decision, comment, decided_at, created_at
-        ) VALUES (?, ?, ?, 'approved', ?, ?, ?)`
-      )
-      .bind(approvalId, id, session.user.id, comment || null, now, now),
-
-    // Update leave request status
-    db
-      .prepare(
-        `UPDATE leave_requests SET status = 'approved', updated_at = ? WHERE id = ?`
-      )
-      .bind(now, id),
-
-    // Update leave balance - deduct from pending and add to used
-    db
-      .prepare(
-        `UPDATE leave_balances
-         SET pending = pending - ?,
-             used = used + ?,
-             updated_at = ?
-         WHERE organization_id = ?
-           AND user_id = ?
-           AND leave_type_id = ?
-           AND year = ?`
+          id, leave_request_id, approval_rule_id, approver_id, level,
+          decision, comment, decided_at, created_at
+        ) VALUES (?, ?, ?, ?, ?, 'approved', ?, ?, ?)`
       )
       .bind(
-        leaveRequest.work_days,
-        leaveRequest.work_days,
+        approvalId,
+        id,
+        currentStep.rule?.id ?? null,
+        session.user.id,
+        currentStep.level,
+        comment || null,
         now,
-        leaveRequest.organization_id,
-        leaveRequest.user_id,
-        leaveRequest.leave_type_id,
-        new Date(leaveRequest.start_date as string).getFullYear()
+        now
+      ),
+  ];
+
+  if (isFinalApproval) {
+    batchStatements.push(
+      // Update leave balance - deduct from pending and add to used, unless
+      // the request stopped being pending in the meantime
+      ...prepareBalanceBooking(
+        db,
+        {
+          userId: leaveRequest.user_id as string,
+          leaveTypeId: leaveRequest.leave_type_id as string,
+          workDaysByYear: parseWorkDaysByYear(
+            leaveRequest.work_days_by_year as string | null,
+            leaveRequest.start_date as string,
+            leaveRequest.work_days as number
+          ),
+          pendingRequestId: id,
+        },
+        { pending: -1, used: 1 },
+        now
       ),
-  ]);
+
+      // Update leave request status
+      db
+        .prepare(
+          `UPDATE leave_requests SET status = 'approved', updated_at = ?
+           WHERE id = ? AND status = 'pending'`
+        )
+        .bind(now, id)
+    );
+  } else {
+    batchStatements.push(
+      db
+        .prepare(`UPDATE leave_requests SET updated_at = ? WHERE id = ?`)
+        .bind(now, id)
+    );
+  }
+
+  batchStatements.push(
+    prepareAuditLog(
+      db,
+      {
+        organizationId: currentMembership.organization_id,
+        userId: session.user.id,
+        action: 'leave_request.approved',
+        entityType: 'leave_request',
+        entityId: id,
+        oldValues: { status: leaveRequest.status },
+        newValues: {
+          status: isFinalApproval ? 'approved' : 'pending',
+          level: currentStep.level,
+          comment: comment || null,
+        },
+      },
+      getAuditRequestContext(request),
+      now
+    )
+  );
+
+  // Each level is decided once (unique per request and level), so a
+  // concurrent decision on the same level fails the whole batch
+  try {
+    await db.batch(batchStatements);
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('UNIQUE constraint failed')
+    ) {
+      return conflict('This approval level has already been decided');
+    }
+
+    throw error;
+  }
 
   // Get additional data for emails
   const leaveType = await db
@@ -158,12 +250,102 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     .bind(session.user.id)
     .first<{ name: string }>();
 
+  // Everyone notified gets the leave type in their own locale
+  const leaveTypeNames = leaveType
+    ? await getLocalizedNames(
+        db,
+        'leave_type',
+        leaveRequest.leave_type_id as string,
+        leaveType.name_en,
+        leaveType.name_de
+      )
+    : null;
+
+  // Hand the request over to the next level's approvers
+  if (!isFinalApproval && nextStep) {
+    if (employee && leaveTypeNames && nextStep.approverIds.length > 0) {
+      ctx.waitUntil(
+        notifyLeaveRequest(db, {
+          organizationId: currentMembership.organization_id,
+          leaveRequestId: id,
+          type: 'approval_needed',
+          userIds: nextStep.approverIds,
+          details: {
+            employeeName: employee.name || employee.email,
+            leaveType: leaveTypeNames,
+            startDate: leaveRequest.start_date as string,
+            endDate: leaveRequest.end_date as string,
+            workDays: leaveRequest.work_days as number,
+          },
+        }).catch((error) => {
+          console.error('Failed to create approval notifications:', error);
+        })
+      );
+
+      const placeholders = nextStep.approverIds.map(() => '?').join(',');
+      const nextApprovers = await db
+        .prepare(`SELECT email, name FROM users WHERE id IN (${placeholders})`)
+        .bind(...nextStep.approverIds)
+        .all<{ email: string; name: string }>();
+
+      const emailPromises = nextApprovers.results.map(
+        (nextApprover: { email: string; name: string }) =>
+          sendLeaveRequestSubmittedEmail(env, nextApprover.email, {
+            employeeName: employee.name || employee.email,
+            employeeEmail: employee.email,
+            leaveType: leaveTypeNames,
+            startDate: leaveRequest.start_date as string,
+            endDate: leaveRequest.end_date as string,
+            workDays: leaveRequest.work_days as number,
+            reason: (leaveRequest.reason as string | null) || undefined,
+          }).catch((error) => {
+            console.error(
+              `Failed to send email to ${nextApprover.email}:`,
+              error
+            );
+          })
+      );
+
+      ctx.waitUntil(Promise.all(emailPromises));
+    }
+
+    return success({
+      id,
+      status: 'pending',
+      level: currentStep.level,
+      nextLevel: nextStep.level,
+      approvedBy: session.user.id,
+      approvedAt: now,
+    });
+  }
+
   // Send approval notification email to employee using waitUntil
-  if (employee && leaveType && approver) {
+  if (employee && leaveTypeNames && approver) {
+    const notificationDetails = {
+      employeeName: employee.name || employee.email,
+      leaveType: leaveTypeNames,
+      startDate: leaveRequest.start_date as string,
+      endDate: leaveRequest.end_date as string,
+      workDays: leaveRequest.work_days as number,
+      approverName: approver.name,
+    };
+
+    ctx.waitUntil(
+      notifyLeaveRequest(db, {
+        organizationId: currentMembership.organization_id,
+        leaveRequestId: id,
+        type: 'leave_approved',
+        userIds: [leaveRequest.user_id as string],
+        details: notificationDetails,
+      }).catch((error) => {
+        console.error('Failed to create approval notification:', error);
+      })
+    );
+
     const approvalEmailPromise = sendLeaveRequestApprovedEmail(env, {
       employeeName: employee.name || employee.email,
       employeeEmail: employee.email,
-      leaveType: leaveType.name_en,
+      leaveType: leaveTypeNames,
       startDate: leaveRequest.start_date as string,
       endDate: leaveRequest.end_date as string,
       workDays: leaveRequest.work_days as number,
@@ -178,7 +360,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Send team absence notifications to team members
     const teamMembers = await db
       .prepare(
-        `SELECT DISTINCT u.email, u.name, t.name as team_name
+        `SELECT DISTINCT u.id, u.email, u.name, t.name as team_name
          FROM team_members tm
          JOIN teams t ON tm.team_id = t.id
          JOIN team_members tm2 ON tm.team_id = tm2.team_id
@@ -192,23 +374,41 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         leaveRequest.user_id,
         leaveRequest.organization_id
       )
-      .all<{ email: string; name: string; team_name: string }>();
+      .all<{ id: string; email: string; name: string; team_name: string }>();
 
     if (teamMembers.results.length > 0) {
-      const teamEmailPromises = teamMembers.results.map((member: { email: string; name: string; team_name: string }) =>
-        sendTeamAbsenceNotificationEmail(env, {
-          recipientName: member.name || member.email,
-          recipientEmail: member.email,
-          employeeName: employee.name || employee.email,
-          leaveType: leaveType.name_en,
-          startDate: leaveRequest.start_date as string,
-          endDate: leaveRequest.end_date as string,
-          teamName: member.team_name,
+      ctx.waitUntil(
+        notifyLeaveRequest(db, {
+          organizationId: currentMembership.organization_id,
+          leaveRequestId: id,
+          type: 'team_absence',
+          userIds: teamMembers.results.map(
+            (member: { id: string }) => member.id
+          ),
+          details: notificationDetails,
         }).catch((error) => {
-          console.error(`Failed to send team notification to ${member.email}:`, error);
+          console.error('Failed to create team absence notifications:', error);
         })
       );
 
+      const teamEmailPromises = teamMembers.results.map(
+        (member: { email: string; name: string; team_name: string }) =>
+          sendTeamAbsenceNotificationEmail(env, {
+            recipientName: member.name || member.email,
+            recipientEmail: member.email,
+            employeeName: employee.name || employee.email,
+            leaveType: leaveTypeNames,
+            startDate: leaveRequest.start_date as string,
+            endDate: leaveRequest.end_date as string,
+            teamName: member.team_name,
+          }).catch((error) => {
+            console.error(
+              `Failed to send team notification to ${member.email}:`,
+              error
+            );
+          })
+      );
+
       ctx.waitUntil(Promise.all(teamEmailPromises));
     }
   }
@@ -216,6 +416,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   return success({
     id,
     status: 'approved',
+    level: currentStep.level,
     approvedBy: session.user.id,
     approvedAt: now,
   });
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { DELETE, GET, POST } from '../route';
+
+// Mock dependencies
+vi.mock('~/lib/auth/auth', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+vi.mock('~/lib/services/approval.service', () => ({
+  loadApprovalContext: vi.fn(),
+  resolveApprovalChain: vi.fn(),
+}));
+
+// Import mocked modules
+import { auth } from '~/lib/auth/auth';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import {
+  loadApprovalContext,
+  resolveApprovalChain,
+} from '~/lib/services/approval.service';
+
+const DOCUMENT_KEY =
+  'leave-documents/org-1/lr-1/3f1c2a9e-7b1d-4c55-9a2e-1d0b6c8e4f10/certificate.pdf';
+
+const leaveRequest = {
+  id: 'lr-1',
+  organization_id: 'org-1',
+  user_id: 'employee-1',
+  leave_type_id: 'lt-sick',
+  leave_type_code: 'sick',
+  work_days: 4,
+  status: 'approved',
+  approval_chain: null,
+  document_url: DOCUMENT_KEY,
+  document_uploaded_at: '2026-01-01T00:00:00.000Z',
+};
+
+// Helper to create a mock NextRequest
+function createMockRequest(method: string): NextRequest {
+  return new NextRequest(
+    'http://localhost:3000/api/leave-requests/lr-1/document',
+    method === 'POST'
+      ? {
+          method,
+          body: new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d]),
+          headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Length': '5',
+            'X-File-Name': 'certificate.pdf',
+          },
+        }
+      : { method }
+  );
+}
+
+const routeParams = { params: Promise.resolve({ id: 'lr-1' }) };
+
+// Helper to create mock D1 database
+function createMockDb() {
+  const mockStatement = {
+    bind: vi.fn().mockReturnThis(),
+    // D1 returns null when there is no row
+    first: vi.fn().mockResolvedValue(null),
+    all: vi.fn(),
+    run: vi.fn(),
+  };
+
+  return {
+    prepare: vi.fn(() => mockStatement),
+    batch: vi.fn().mockResolvedValue([]),
+    mockStatement,
+  };
+}
+
+function createMockR2() {
+  return {
+    get: vi.fn().mockResolvedValue({
+      body: new Blob(['%PDF-']).stream(),
+      size: 5,
+      httpMetadata: { contentType: 'application/pdf' },
+      arrayBuffer: () => new Blob(['%PDF-']).arrayBuffer(),
+    }),
+    put: vi.fn(),
+    delete: vi.fn(),
+  };
+}
+
+/**
+ * Sign in as a user with a role in the request's organization. Pass a
+ * decision for users who are neither the employee, HR nor in the
+ * approval chain but have decided on the request.
+ */
+function mockMember(
+  db: ReturnType<typeof createMockDb>,
+  userId: string,
+  role: string | null,
+  decision?: { id: string }
+) {
+  vi.mocked(auth).mockResolvedValue({
+    user: { id: userId, email: `${userId}@test.com`, name: userId },
+  } as Awaited<ReturnType<typeof auth>>);
+
+  db.mockStatement.first
+    .mockResolvedValueOnce(leaveRequest)
+    .mockResolvedValueOnce(role ? { role } : null);
+
+  if (decision) {
+    db.mockStatement.first.mockResolvedValueOnce(decision);
+  }
+}
+
+describe('/api/leave-requests/[id]/document', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockR2: ReturnType<typeof createMockR2>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = createMockDb();
+    mockR2 = createMockR2();
+
+    vi.mocked(getCloudflareContext).mockReturnValue({
+      env: { DB: mockDb, R2: mockR2 },
+      ctx: { waitUntil: vi.fn() },
+    } as unknown as ReturnType<typeof getCloudflareContext>);
+
+    vi.mocked(loadApprovalContext).mockResolvedValue({
+      rules: [],
+      members: [],
+      teamMembers: [],
+    });
+    vi.mocked(resolveApprovalChain).mockReturnValue([
+      { level: 1, rule: null, approverIds: ['manager-1'] },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('GET', () => {
+    it('should return 401 when user is not authenticated', async () => {
+      vi.mocked(auth).mockResolvedValue(null);
+
+      const response = await GET(createMockRequest('GET'), routeParams);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should let the employee download their document', async () => {
+      mockMember(mockDb, 'employee-1', 'employee');
+
+      const response = await GET(createMockRequest('GET'), routeParams);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Disposition')).toBe(
+        'attachment; filename="certificate.pdf"'
+      );
+      expect(mockR2.get).toHaveBeenCalledWith(DOCUMENT_KEY);
+    });
+
+    it('should let HR and approvers download the document', async () => {
+      mockMember(mockDb, 'hr-1', 'hr');
+      expect((await GET(createMockRequest('GET'), routeParams)).status).toBe(
+        200
+      );
+
+      mockMember(mockDb, 'manager-1', 'manager');
+      expect((await GET(createMockRequest('GET'), routeParams)).status).toBe(
+        200
+      );
+    });
+
+    it('should let members who decided on the request download it', async () => {
+      mockMember(mockDb, 'manager-2', 'manager', { id: 'approval-1' });
+
+      const response = await GET(createMockRequest('GET'), routeParams);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return 403 for other members of the organization', async () => {
+      mockMember(mockDb, 'employee-2', 'employee');
+
+      const response = await GET(createMockRequest('GET'), routeParams);
+
+      expect(response.status).toBe(403);
+      expect(mockR2.get).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for users outside the organization', async () => {
+      mockMember(mockDb, 'outsider-1', null);
+
+      const response = await GET(createMockRequest('GET'), routeParams);
+
+      expect(response.status).toBe(404);
+      expect(mockR2.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST', () => {
+    it('should return 403 for approvers who are not the employee or HR', async () => {
+      mockMember(mockDb, 'manager-1', 'manager');
+
+      const response = await POST(createMockRequest('POST'), routeParams);
+
+      expect(response.status).toBe(403);
+      expect(mockR2.put).not.toHaveBeenCalled();
+    });
+
+    it('should store the upload of the employee', async () => {
+      mockMember(mockDb, 'employee-1', 'employee');
+
+      const response = await POST(createMockRequest('POST'), routeParams);
+
+      expect(response.status).toBe(201);
+      expect(mockR2.put).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^leave-documents\/org-1\/lr-1\/.+\/certificate\.pdf$/
+        ),
+        expect.anything(),
+        expect.objectContaining({
+          httpMetadata: { contentType: 'application/pdf' },
+        })
+      );
+      // The replaced document is removed
+      expect(mockR2.delete).toHaveBeenCalledWith(DOCUMENT_KEY);
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should return 403 for other members of the organization', async () => {
+      mockMember(mockDb, 'employee-2', 'employee');
+
+      const response = await DELETE(createMockRequest('DELETE'), routeParams);
+
+      expect(response.status).toBe(403);
+      expect(mockR2.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+import { auth } from '~/lib/auth/auth';
+import {
+  badRequest,
+  forbidden,
+  notFound,
+  success,
+  unauthorized,
+} from '~/lib/api/responses';
+import { sendDocumentReminder } from '~/lib/services/document.service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/leave-requests/[id]/document/reminder
+ * Remind the employee to upload the missing document of a leave request
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const leaveRequest = await db
+    .prepare('SELECT id, organization_id FROM leave_requests WHERE id = ?')
+    .bind(id)
+    .first<{ id: string; organization_id: string }>();
+
+  if (!leaveRequest) {
+    return notFound('Leave request');
+  }
+
+  const membership = await db
+    .prepare(
+      `SELECT role FROM organization_members
+       WHERE user_id = ? AND organization_id = ? AND status = 'active'
+       LIMIT 1`
+    )
+    .bind(session.user.id, leaveRequest.organization_id)
+    .first<{ role: string }>();
+
+  if (!membership) {
+    return notFound('Leave request');
+  }
+
+  if (!['admin', 'hr'].includes(membership.role)) {
+    return forbidden('Only admins and HR can send document reminders');
+  }
+
+  const sent = await sendDocumentReminder(env, id);
+
+  if (!sent) {
+    return badRequest('This leave request has no outstanding document');
+  }
+
+  return success({ sent: true });
+}
@@ -0,0 +1,328 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+import { auth } from '~/lib/auth/auth';
+import {
+  badRequest,
+  created,
+  forbidden,
+  noContent,
+  notFound,
+  unauthorized,
+} from '~/lib/api/responses';
+import {
+  ALLOWED_DOCUMENT_TYPES,
+  MAX_DOCUMENT_SIZE,
+  canAccessLeaveDocument,
+  canManageLeaveDocument,
+  getDocumentInfo,
+  getDocumentKey,
+  isAllowedDocumentType,
+  matchesFileSignature,
+  type LeaveDocumentSubject,
+} from '~/lib/services/document.service';
+import type { MemberRole } from '~/lib/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface LeaveRequestRow {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  leave_type_id: string;
+  leave_type_code: string;
+  work_days: number;
+  status: string;
+  approval_chain: string | null;
+  document_url: string | null;
+  document_uploaded_at: string | null;
+}
+
+// Statuses for which a document can still be attached or removed
+const DOCUMENT_EDITABLE_STATUSES = ['pending', 'approved'];
+
+/**
+ * Get the name of an uploaded file from the URI-encoded X-File-Name
+ * header.
+ */
+function getUploadFileName(header: string | null): string {
+  try {
+    return header ? decodeURIComponent(header) : 'document';
+  } catch {
+    return 'document';
+  }
+}
+
+/**
+ * Load a leave request and the current user's membership in its
+ * organization. Returns null if the user can't see the request at all.
+ */
+async function loadRequestForUser(
+  db: CloudflareEnv['DB'],
+  leaveRequestId: string,
+  userId: string
+) {
+  const leaveRequest = await db
+    .prepare(
+      `SELECT lr.id, lr.organization_id, lr.user_id, lr.leave_type_id,
+              lr.work_days, lr.status, lr.approval_chain,
+              lr.document_url, lr.document_uploaded_at,
+              lt.code as leave_type_code
+       FROM leave_requests lr
+       JOIN leave_types lt ON lr.leave_type_id = lt.id
+       WHERE lr.id = ?`
+    )
+    .bind(leaveRequestId)
+    .first<LeaveRequestRow>();
+
+  if (!leaveRequest) {
+    return null;
+  }
+
+  const membership = await db
+    .prepare(
+      `SELECT role FROM organization_members
+       WHERE user_id = ? AND organization_id = ? AND status = 'active'
+       LIMIT 1`
+    )
+    .bind(userId, leaveRequest.organization_id)
+    .first<{ role: MemberRole }>();
+
+  if (!membership) {
+    return null;
+  }
+
+  const subject: LeaveDocumentSubject = {
+    id: leaveRequest.id,
+    organizationId: leaveRequest.organization_id,
+    userId: leaveRequest.user_id,
+    leaveTypeId: leaveRequest.leave_type_id,
+    leaveTypeCode: leaveRequest.leave_type_code,
+    workDays: leaveRequest.work_days,
+    approvalChain: leaveRequest.approval_chain,
+  };
+
+  return { leaveRequest, subject, role: membership.role };
+}
+
+/**
+ * GET /api/leave-requests/[id]/document
+ * Download the document attached to a leave request
+ * Only the employee, their approvers and HR may access it
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const loaded = await loadRequestForUser(db, id, session.user.id);
+
+  if (!loaded) {
+    return notFound('Leave request');
+  }
+
+  const { leaveRequest, subject, role } = loaded;
+
+  if (!(await canAccessLeaveDocument(db, subject, session.user.id, role))) {
+    return forbidden('You are not allowed to access this document');
+  }
+
+  if (!leaveRequest.document_url) {
+    return notFound('Document');
+  }
+
+  const object = await env.R2.get(leaveRequest.document_url);
+
+  if (!object) {
+    return notFound('Document');
+  }
+
+  const fileName =
+    getDocumentInfo(id, leaveRequest.document_url, null)?.fileName ??
+    'document';
+
+  return new Response(object.body as ReadableStream, {
+    headers: {
+      'Content-Type':
+        object.httpMetadata?.contentType ?? 'application/octet-stream',
+      'Content-Length': String(object.size),
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
+
+/**
+ * POST /api/leave-requests/[id]/document
+ * Upload a document (PDF or image) for a leave request, replacing any
+ * existing one. Expects the file as the raw request body with its type in
+ * Content-Type, its size in Content-Length and its name in X-File-Name.
+ * The body is streamed into R2 without being buffered.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const loaded = await loadRequestForUser(db, id, session.user.id);
+
+  if (!loaded) {
+    return notFound('Leave request');
+  }
+
+  const { leaveRequest, subject, role } = loaded;
+
+  if (!canManageLeaveDocument(subject, session.user.id, role)) {
+    return forbidden('Only the employee or HR can upload documents');
+  }
+
+  if (!DOCUMENT_EDITABLE_STATUSES.includes(leaveRequest.status)) {
+    return badRequest(
+      'Documents can only be attached to pending or approved leave requests'
+    );
+  }
+
+  const contentType = request.headers
+    .get('content-type')
+    ?.split(';')[0]
+    ?.trim()
+    .toLowerCase();
+
+  if (!contentType || !isAllowedDocumentType(contentType)) {
+    return badRequest(
+      `Unsupported file type. Allowed types: ${ALLOWED_DOCUMENT_TYPES.join(', ')}`
+    );
+  }
+
+  // R2 needs the length of a streamed body up front, and it rejects a body
+  // that does not match it, so the header also bounds what is stored
+  const contentLengthHeader = request.headers.get('content-length');
+
+  if (!contentLengthHeader) {
+    return badRequest('The upload needs a Content-Length header');
+  }
+
+  const contentLength = Number(contentLengthHeader);
+
+  if (!request.body || !contentLength) {
+    return badRequest('File is empty');
+  }
+
+  if (!Number.isInteger(contentLength) || contentLength > MAX_DOCUMENT_SIZE) {
+    return badRequest('File is too large (max. 10 MB)');
+  }
+
+  const key = getDocumentKey(
+    leaveRequest.organization_id,
+    id,
+    getUploadFileName(request.headers.get('x-file-name'))
+  );
+
+  try {
+    await env.R2.put(key, request.body, {
+      httpMetadata: { contentType },
+      customMetadata: {
+        leaveRequestId: id,
+        uploadedBy: session.user.id,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to store document:', error);
+    return badRequest('The upload was incomplete');
+  }
+
+  const head = await env.R2.get(key, { range: { offset: 0, length: 12 } });
+  const header = head
+    ? new Uint8Array(await head.arrayBuffer())
+    : new Uint8Array();
+
+  if (!matchesFileSignature(contentType, header)) {
+    await env.R2.delete(key);
+    return badRequest('File content does not match its type');
+  }
+
+  const now = new Date().toISOString();
+
+  await db
+    .prepare(
+      `UPDATE leave_requests
+       SET document_url = ?, document_uploaded_at = ?, updated_at = ?
+       WHERE id = ?`
+    )
+    .bind(key, now, now, id)
+    .run();
+
+  // Remove the document this upload replaced
+  if (leaveRequest.document_url) {
+    await env.R2.delete(leaveRequest.document_url);
+  }
+
+  return created(getDocumentInfo(id, key, now));
+}
+
+/**
+ * DELETE /api/leave-requests/[id]/document
+ * Remove the document attached to a leave request
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const loaded = await loadRequestForUser(db, id, session.user.id);
+
+  if (!loaded) {
+    return notFound('Leave request');
+  }
+
+  const { leaveRequest, subject, role } = loaded;
+
+  if (!canManageLeaveDocument(subject, session.user.id, role)) {
+    return forbidden('Only the employee or HR can remove documents');
+  }
+
+  if (!DOCUMENT_EDITABLE_STATUSES.includes(leaveRequest.status)) {
+    return badRequest(
+      'Documents can only be removed from pending or approved leave requests'
+    );
+  }
+
+  if (!leaveRequest.document_url) {
+    return notFound('Document');
+  }
+
+  await db
+    .prepare(
+      `UPDATE leave_requests
+       SET document_url = NULL, document_uploaded_at = NULL, updated_at = ?
+       WHERE id = ?`
+    )
+    .bind(new Date().toISOString(), id)
+    .run();
+
+  await env.R2.delete(leaveRequest.document_url);
+
+  return noContent();
+}
@@ -3,17 +3,32 @@ import { NextRequest } from 'next/server';
 import { getCloudflareContext } from '@opennextjs/cloudflare';
 import { z } from 'zod';
 
-import { auth } from '~/lib/auth/auth';
 import {
-  success,
-  unauthorized,
+  badRequest,
+  conflict,
   forbidden,
   notFound,
-  badRequest,
+  success,
+  unauthorized,
   validationError,
 } from '~/lib/api/responses';
+import { auth } from '~/lib/auth/auth';
 import { sendLeaveRequestRejectedEmail } from '~/lib/emails';
-
+import {
+  loadApprovalContext,
+  loadApprovedLevels,
+  resolveApprovers,
+} from '~/lib/services/approval.service';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
+import {
+  parseWorkDaysByYear,
+  prepareBalanceBooking,
+} from '~/lib/services/balance.service';
+import { notifyLeaveRequest } from '~/lib/services/notification.service';
+import { getLocalizedNames } from '~/lib/services/translation.service';
 
 const rejectSchema = z.object({
   reason: z.string().min(1, 'Reason is required').max(500),
@@ -60,17 +75,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     return forbidden('Not a member of any organization');
   }
 
-  // Only admins and managers can reject
-  if (currentMembership.role !== 'admin' && currentMembership.role !== 'manager') {
-    return forbidden('Only admins and managers can reject leave requests');
-  }
-
   // Get the leave request
   const leaveRequest = await db
     .prepare(
-      `SELECT lr.*, u.name as user_name
+      `SELECT lr.*, u.name as user_name, lt.code as leave_type_code
        FROM leave_requests lr
        JOIN users u ON lr.user_id = u.id
+       JOIN leave_types lt ON lr.leave_type_id = lt.id
        WHERE lr.id = ?`
     )
     .bind(id)
@@ -95,47 +106,108 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     return badRequest('Cannot reject your own leave request');
   }
 
+  // Only the approvers of the current level in the approval chain may act
+  const approvalContext = await loadApprovalContext(
+    db,
+    currentMembership.organization_id
+  );
+  const approvedLevels = (await loadApprovedLevels(db, [id])).get(id) ?? [];
+  const currentStep = resolveApprovers(
+    approvalContext,
+    {
+      userId: leaveRequest.user_id as string,
+      leaveTypeId: leaveRequest.leave_type_id as string,
+      leaveTypeCode: leaveRequest.leave_type_code as string,
+      workDays: leaveRequest.work_days as number,
+      approvalChain: leaveRequest.approval_chain as string | null,
+    },
+    approvedLevels
+  );
+
+  if (!currentStep.approverIds.includes(session.user.id)) {
+    return forbidden('You are not an approver for this leave request');
+  }
+
   const now = new Date().toISOString();
   const approvalId = crypto.randomUUID();
 
   // Create rejection record and update leave request in a batch
-  await db.batch([
+  const batchStatements = [
     // Create approval record with rejection
     db
       .prepare(
         `INSERT INTO leave_approvals (
-          id, leave_request_id, approver_id, decision, comment, decided_at, created_at
-        ) VALUES (?, ?, ?, 'rejected', ?, ?, ?)`
+          id, leave_request_id, approval_rule_id, approver_id, level,
+          decision, comment, decided_at, created_at
+        ) VALUES (?, ?, ?, ?, ?, 'rejected', ?, ?, ?)`
       )
-      .bind(approvalId, id, session.user.id, reason, now, now),
+      .bind(
+        approvalId,
+        id,
+        currentStep.rule?.id ?? null,
+        session.user.id,
+        currentStep.level,
+        reason,
+        now,
+        now
+      ),
+
+    // Return pending days to available balance, unless the request stopped
+    // being pending in the meantime
+    ...prepareBalanceBooking(
+      db,
+      {
+        userId: leaveRequest.user_id as string,
+        leaveTypeId: leaveRequest.leave_type_id as string,
+        workDaysByYear: parseWorkDaysByYear(
+          leaveRequest.work_days_by_year as string | null,
+          leaveRequest.start_date as string,
+          leaveRequest.work_days as number
+        ),
+        pendingRequestId: id,
+      },
+      { pending: -1 },
+      now
+    ),
 
     // Update leave request status
     db
       .prepare(
-        `UPDATE leave_requests SET status = 'rejected', updated_at = ? WHERE id = ?`
+        `UPDATE leave_requests SET status = 'rejected', updated_at = ?
+         WHERE id = ? AND status = 'pending'`
       )
       .bind(now, id),
 
-    // Return pending days to available balance
-    db
-      .prepare(
-        `UPDATE leave_balances
-         SET pending = pending - ?,
-             updated_at = ?
-         WHERE organization_id = ?
-           AND user_id = ?
-           AND leave_type_id = ?
-           AND year = ?`
-      )
-      .bind(
-        leaveRequest.work_days,
-        now,
-        leaveRequest.organization_id,
-        leaveRequest.user_id,
-        leaveRequest.leave_type_id,
-        new Date(leaveRequest.start_date as string).getFullYear()
-      ),
-  ]);
+    prepareAuditLog(
+      db,
+      {
+        organizationId: currentMembership.organization_id,
+        userId: session.user.id,
+        action: 'leave_request.rejected',
+        entityType: 'leave_request',
+        entityId: id,
+        oldValues: { status: leaveRequest.status },
+        newValues: { status: 'rejected', level: currentStep.level, reason },
+      },
+      getAuditRequestContext(request),
+      now
+    ),
+  ];
+
+  // Each level is decided once (unique per request and level), so a
+  // concurrent decision on the same level fails the whole batch
+  try {
+    await db.batch(batchStatements);
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('UNIQUE constraint failed')
+    ) {
+      return conflict('This approval level has already been decided');
+    }
+
+    throw error;
+  }
 
   // Get additional data for email
   const leaveType = await db
@@ -155,10 +227,39 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
   // Send rejection notification email to employee using waitUntil
   if (employee && leaveType && rejecter) {
+    // The employee sees the leave type in their own locale
+    const leaveTypeNames = await getLocalizedNames(
+      db,
+      'leave_type',
+      leaveRequest.leave_type_id as string,
+      leaveType.name_en,
+      leaveType.name_de
+    );
+
+    ctx.waitUntil(
+      notifyLeaveRequest(db, {
+        organizationId: currentMembership.organization_id,
+        leaveRequestId: id,
+        type: 'leave_rejected',
+        userIds: [leaveRequest.user_id as string],
+        details: {
+          employeeName: employee.name || employee.email,
+          leaveType: leaveTypeNames,
+          startDate: leaveRequest.start_date as string,
+          endDate: leaveRequest.end_date as string,
+          workDays: leaveRequest.work_days as number,
+          approverName: rejecter.name,
+          reason,
+        },
+      }).catch((error) => {
+        console.error('Failed to create rejection notification:', error);
+      })
+    );
+
     const rejectionEmailPromise = sendLeaveRequestRejectedEmail(env, {
       employeeName: employee.name || employee.email,
       employeeEmail: employee.email,
-      leaveType: leaveType.name_en,
+      leaveType: leaveTypeNames,
       startDate: leaveRequest.start_date as string,
       endDate: leaveRequest.end_date as string,
       workDays: leaveRequest.work_days as number,
@@ -12,6 +12,32 @@ import {
   badRequest,
   validationError,
 } from '~/lib/api/responses';
+import {
+  getCurrentApprovalStep,
+  loadApprovalContext,
+  resolveApprovalChain,
+} from '~/lib/services/approval.service';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
+import {
+  parseWorkDaysByYear,
+  prepareBalanceBooking,
+} from '~/lib/services/balance.service';
+import {
+  canAccessLeaveDocument,
+  canManageLeaveDocument,
+  getDocumentInfo,
+  getDocumentStatus,
+} from '~/lib/services/document.service';
+import {
+  joinLeaveTypeSettings,
+  joinLeaveTypeTranslation,
+  leaveTypeSetting,
+} from '~/lib/services/leave-type.service';
+import { getUserLocale, localize } from '~/lib/services/translation.service';
+import type { MemberRole } from '~/lib/types';
 
 
 interface LeaveRequestRow {
@@ -24,28 +50,41 @@ interface LeaveRequestRow {
   start_half_day: string | null;
   end_half_day: string | null;
   work_days: number;
+  work_days_by_year: string | null;
+  exceeds_balance: number;
   reason: string | null;
   status: string;
+  approval_chain: string | null;
   submitted_at: string;
   created_at: string;
+  document_url: string | null;
+  document_uploaded_at: string | null;
+  document_required: number;
+  document_due_date: string | null;
   user_name: string | null;
   user_email: string;
   user_avatar_url: string | null;
   leave_type_code: string;
   leave_type_name_en: string;
   leave_type_name_de: string;
+  leave_type_translated_name: string | null;
   leave_type_color: string;
 }
 
 interface ApprovalRow {
   id: string;
   action: string;
+  level: number;
   comment: string | null;
   created_at: string;
+  decided_at: string | null;
   approver_id: string;
   approver_name: string | null;
+  is_automatic: number;
 }
 
+type ApprovalStepStatus = 'approved' | 'rejected' | 'current' | 'upcoming';
+
 const updateSchema = z.object({
   status: z.enum(['withdrawn', 'cancelled']).optional(),
   reason: z.string().max(500).optional(),
@@ -70,6 +109,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   const { env } = getCloudflareContext();
   const db = env.DB;
 
+  const locale = await getUserLocale(db, session.user.id);
+
   // Get the leave request
   const leaveRequest = await db
     .prepare(
@@ -81,13 +122,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         lt.code as leave_type_code,
         lt.name_en as leave_type_name_en,
         lt.name_de as leave_type_name_de,
-        lt.color as leave_type_color
+        ltt.name as leave_type_translated_name,
+        ${leaveTypeSetting('color')} as leave_type_color
       FROM leave_requests lr
       JOIN users u ON lr.user_id = u.id
       JOIN leave_types lt ON lr.leave_type_id = lt.id
+      ${joinLeaveTypeSettings('lr.organization_id')}
+      ${joinLeaveTypeTranslation('?')}
       WHERE lr.id = ?`
     )
-    .bind(id)
+    .bind(locale, id)
     .first<LeaveRequestRow>();
 
   if (!leaveRequest) {
@@ -97,14 +141,14 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   // Verify user has access (same org)
   const membership = await db
     .prepare(
-      `SELECT organization_id FROM organization_members
+      `SELECT organization_id, role FROM organization_members
        WHERE user_id = ? AND status = 'active'
        LIMIT 1`
     )
     .bind(session.user.id)
-    .first<{ organization_id: string }>();
+    .first<{ organization_id: string; role: MemberRole }>();
 
-  if (membership?.organization_id !== leaveRequest.organization_id) {
+  if (!membership || membership.organization_id !== leaveRequest.organization_id) {
     return forbidden('Cannot view leave requests from other organizations');
   }
 
@@ -123,6 +167,88 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     .bind(id)
     .all<ApprovalRow>();
 
+  // Build the approval timeline: the full chain while the request is
+  // pending, otherwise the levels that were actually decided
+  const decisionsByLevel = new Map<number, ApprovalRow>();
+  for (const approval of [...approvals.results].reverse()) {
+    if (approval.action === 'approved' || approval.action === 'rejected') {
+      decisionsByLevel.set(approval.level, approval);
+    }
+  }
+
+  let stepLevels: Array<{
+    level: number;
+    ruleName: string | null;
+    approverType: string | null;
+  }>;
+  let currentLevel: number | null = null;
+
+  if (leaveRequest.status === 'pending') {
+    const approvalContext = await loadApprovalContext(
+      db,
+      leaveRequest.organization_id
+    );
+    const chain = resolveApprovalChain(approvalContext, {
+      userId: leaveRequest.user_id,
+      leaveTypeId: leaveRequest.leave_type_id,
+      leaveTypeCode: leaveRequest.leave_type_code,
+      workDays: leaveRequest.work_days,
+      approvalChain: leaveRequest.approval_chain,
+    });
+    const approvedLevels = [...decisionsByLevel.values()]
+      .filter((approval) => approval.action === 'approved')
+      .map((approval) => approval.level);
+
+    currentLevel = getCurrentApprovalStep(chain, approvedLevels)?.level ?? null;
+    stepLevels = chain.map((step) => ({
+      level: step.level,
+      ruleName: step.rule?.name ?? null,
+      approverType: step.rule?.approverType ?? null,
+    }));
+  } else {
+    stepLevels = [...decisionsByLevel.keys()]
+      .sort((a, b) => a - b)
+      .map((level) => ({ level, ruleName: null, approverType: null }));
+  }
+
+  const approvalSteps = stepLevels.map((step) => {
+    const decision = decisionsByLevel.get(step.level);
+    let stepStatus: ApprovalStepStatus = 'upcoming';
+
+    if (decision) {
+      stepStatus = decision.action as ApprovalStepStatus;
+    } else if (step.level === currentLevel) {
+      stepStatus = 'current';
+    }
+
+    return {
+      ...step,
+      status: stepStatus,
+      decidedAt: decision?.decided_at ?? null,
+      approver: decision
+        ? { id: decision.approver_id, name: decision.approver_name }
+        : null,
+    };
+  });
+
+  // Documents (e.g. sick notes) are only visible to the employee, their
+  // approvers and HR
+  const documentSubject = {
+    id: leaveRequest.id,
+    organizationId: leaveRequest.organization_id,
+    userId: leaveRequest.user_id,
+    leaveTypeId: leaveRequest.leave_type_id,
+    leaveTypeCode: leaveRequest.leave_type_code,
+    workDays: leaveRequest.work_days,
+    approvalChain: leaveRequest.approval_chain,
+  };
+  const canAccessDocument = await canAccessLeaveDocument(
+    db,
+    documentSubject,
+    session.user.id,
+    membership.role
+  );
+
   return success({
     id: leaveRequest.id,
     status: leaveRequest.status,
@@ -131,6 +257,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     startHalfDay: leaveRequest.start_half_day,
     endHalfDay: leaveRequest.end_half_day,
     workDays: leaveRequest.work_days,
+    workDaysByYear: parseWorkDaysByYear(
+      leaveRequest.work_days_by_year,
+      leaveRequest.start_date,
+      leaveRequest.work_days
+    ),
+    exceedsBalance: Boolean(leaveRequest.exceeds_balance),
     reason: leaveRequest.reason,
     submittedAt: leaveRequest.submitted_at,
     createdAt: leaveRequest.created_at,
@@ -143,15 +275,44 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     leaveType: {
       id: leaveRequest.leave_type_id,
       code: leaveRequest.leave_type_code,
+      name: localize(
+        leaveRequest.leave_type_name_en,
+        leaveRequest.leave_type_name_de,
+        locale,
+        leaveRequest.leave_type_translated_name
+      ),
       nameEn: leaveRequest.leave_type_name_en,
       nameDe: leaveRequest.leave_type_name_de,
       color: leaveRequest.leave_type_color,
     },
+    document: canAccessDocument
+      ? getDocumentInfo(
+          leaveRequest.id,
+          leaveRequest.document_url,
+          leaveRequest.document_uploaded_at
+        )
+      : null,
+    hasDocument: Boolean(leaveRequest.document_url),
+    documentRequired: Boolean(leaveRequest.document_required),
+    documentDueDate: leaveRequest.document_due_date,
+    documentStatus: getDocumentStatus(
+      Boolean(leaveRequest.document_required),
+      leaveRequest.document_due_date,
+      leaveRequest.document_url
+    ),
+    canManageDocument: canManageLeaveDocument(
+      documentSubject,
+      session.user.id,
+      membership.role
+    ),
+    approvalSteps,
     approvals: approvals.results.map((a: ApprovalRow) => ({
       id: a.id,
       action: a.action,
+      level: a.level,
       comment: a.comment,
       createdAt: a.created_at,
+      isAutomatic: Boolean(a.is_automatic),
       approver: {
         id: a.approver_id,
         name: a.approver_name,
@@ -179,7 +340,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     return validationError(parsed.error.flatten());
   }
 
-  const { status, reason: _reason } = parsed.data;
+  const { status, reason } = parsed.data;
   const { env } = getCloudflareContext();
   const db = env.DB;
 
@@ -210,6 +371,30 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
   const isAdmin = membership.role === 'admin';
 
   const now = new Date().toISOString();
+  const bookingTarget = {
+    userId: leaveRequest.user_id,
+    leaveTypeId: leaveRequest.leave_type_id,
+    workDaysByYear: parseWorkDaysByYear(
+      leaveRequest.work_days_by_year,
+      leaveRequest.start_date,
+      leaveRequest.work_days
+    ),
+  };
+  const auditLog = prepareAuditLog(
+    db,
+    {
+      organizationId: leaveRequest.organization_id,
+      userId: session.user.id,
+      action:
+        status === 'withdrawn' ? 'leave_request.withdrawn' : 'leave_request.cancelled',
+      entityType: 'leave_request',
+      entityId: id,
+      oldValues: { status: leaveRequest.status },
+      newValues: { status, reason: reason ?? null },
+    },
+    getAuditRequestContext(request),
+    now
+  );
 
   if (status === 'withdrawn') {
     if (!isOwner) {
@@ -227,24 +412,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         .bind(now, id),
 
       // Return pending days to available balance
-      db
-        .prepare(
-          `UPDATE leave_balances
-           SET pending = pending - ?,
-               updated_at = ?
-           WHERE organization_id = ?
-             AND user_id = ?
-             AND leave_type_id = ?
-             AND year = ?`
-        )
-        .bind(
-          leaveRequest.work_days,
-          now,
-          leaveRequest.organization_id,
-          leaveRequest.user_id,
-          leaveRequest.leave_type_id,
-          new Date(leaveRequest.start_date as string).getFullYear()
-        ),
+      ...prepareBalanceBooking(db, bookingTarget, { pending: -1 }, now),
+      auditLog,
     ]);
   } else if (status === 'cancelled') {
     if (!isOwner && !isAdmin) {
@@ -269,24 +438,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         .bind(now, session.user.id, now, id),
 
       // Return used days to available balance
-      db
-        .prepare(
-          `UPDATE leave_balances
-           SET used = used - ?,
-               updated_at = ?
-           WHERE organization_id = ?
-             AND user_id = ?
-             AND leave_type_id = ?
-             AND year = ?`
-        )
-        .bind(
-          leaveRequest.work_days,
-          now,
-          leaveRequest.organization_id,
-          leaveRequest.user_id,
-          leaveRequest.leave_type_id,
-          new Date(leaveRequest.start_date as string).getFullYear()
-        ),
+      ...prepareBalanceBooking(db, bookingTarget, { used: -1 }, now),
+      auditLog,
     ]);
   } else {
     return badRequest('Invalid status update');
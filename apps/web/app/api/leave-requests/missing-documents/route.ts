@@ -0,0 +1,123 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+import { auth } from '~/lib/auth/auth';
+import {
+  badRequest,
+  forbidden,
+  success,
+  unauthorized,
+} from '~/lib/api/responses';
+import { getDocumentStatus } from '~/lib/services/document.service';
+import {
+  joinLeaveTypeSettings,
+  leaveTypeSetting,
+} from '~/lib/services/leave-type.service';
+
+interface MissingDocumentRow {
+  id: string;
+  user_id: string;
+  start_date: string;
+  end_date: string;
+  work_days: number;
+  status: string;
+  document_required: number;
+  document_due_date: string | null;
+  document_url: string | null;
+  document_reminder_sent_at: string | null;
+  user_name: string | null;
+  user_email: string;
+  user_avatar: string | null;
+  leave_type_id: string;
+  leave_type_code: string;
+  leave_type_name_en: string;
+  leave_type_name_de: string;
+  leave_type_color: string;
+}
+
+/**
+ * GET /api/leave-requests/missing-documents
+ * List pending and approved leave requests whose required document
+ * (e.g. sick note) has not been provided yet, oldest due date first
+ */
+export async function GET(_request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const membership = await db
+    .prepare(
+      `SELECT organization_id, role FROM organization_members
+       WHERE user_id = ? AND status = 'active'
+       LIMIT 1`
+    )
+    .bind(session.user.id)
+    .first<{ organization_id: string; role: string }>();
+
+  if (!membership) {
+    return badRequest('You are not a member of any organization');
+  }
+
+  if (!['admin', 'hr'].includes(membership.role)) {
+    return forbidden('Only admins and HR can view missing documents');
+  }
+
+  const result = await db
+    .prepare(
+      `SELECT lr.id, lr.user_id, lr.start_date, lr.end_date, lr.work_days,
+              lr.status, lr.document_required, lr.document_due_date,
+              lr.document_url, lr.document_reminder_sent_at,
+              u.name as user_name, u.email as user_email, u.image as user_avatar,
+              lt.id as leave_type_id, lt.code as leave_type_code,
+              lt.name_en as leave_type_name_en, lt.name_de as leave_type_name_de,
+              ${leaveTypeSetting('color')} as leave_type_color
+       FROM leave_requests lr
+       JOIN users u ON lr.user_id = u.id
+       JOIN leave_types lt ON lr.leave_type_id = lt.id
+       ${joinLeaveTypeSettings('lr.organization_id')}
+       WHERE lr.organization_id = ?
+         AND lr.status IN ('pending', 'approved')
+         AND lr.document_required = 1
+         AND lr.document_url IS NULL
+       ORDER BY lr.document_due_date ASC, lr.start_date ASC`
+    )
+    .bind(membership.organization_id)
+    .all<MissingDocumentRow>();
+
+  return success(
+    result.results.map((row: MissingDocumentRow) => ({
+      id: row.id,
+      userId: row.user_id,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      workDays: row.work_days,
+      status: row.status,
+      documentDueDate: row.document_due_date,
+      documentStatus: getDocumentStatus(
+        Boolean(row.document_required),
+        row.document_due_date,
+        row.document_url
+      ),
+      documentReminderSentAt: row.document_reminder_sent_at,
+      user: {
+        id: row.user_id,
+        name: row.user_name,
+        email: row.user_email,
+        avatarUrl: row.user_avatar,
+      },
+      leaveType: {
+        id: row.leave_type_id,
+        code: row.leave_type_code,
+        nameEn: row.leave_type_name_en,
+        nameDe: row.leave_type_name_de,
+        color: row.leave_type_color,
+      },
+    }))
+  );
+}
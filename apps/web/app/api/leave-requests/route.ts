@@ -12,7 +12,51 @@ import {
   unauthorized,
   validationError,
 } from '~/lib/api/responses';
-import { calculateWorkDays } from '~/lib/utils/leave-calculations';
+import {
+  canApprove,
+  getAutoApprovalReason,
+  isPotentialApprover,
+  loadApprovalContext,
+  loadApprovedLevels,
+  resolveApprovalChain,
+  snapshotApprovalChain,
+  type AutoApprovalReason,
+} from '~/lib/services/approval.service';
+import {
+  getBalanceShortfalls,
+  parseWorkDaysByYear,
+  prepareBalanceBooking,
+} from '~/lib/services/balance.service';
+import {
+  getDocumentRequirement,
+  getDocumentStatus,
+  sendDocumentReminder,
+} from '~/lib/services/document.service';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
+import { getCoverageConflicts } from '~/lib/services/coverage.service';
+import { getHolidays } from '~/lib/services/holiday.service';
+import {
+  joinLeaveTypeSettings,
+  joinLeaveTypeTranslation,
+  leaveTypeAvailableSql,
+  leaveTypeSetting,
+} from '~/lib/services/leave-type.service';
+import { notifyLeaveRequest } from '~/lib/services/notification.service';
+import {
+  getLocalizedNames,
+  getUserLocale,
+  localize,
+} from '~/lib/services/translation.service';
+import { getWorkSchedules } from '~/lib/services/work-schedule.service';
+import {
+  calculateWorkDaysByYear,
+  validateHalfDays,
+  type HalfDayError,
+} from '~/lib/utils/leave-calculations';
+import { getWorkDayPredicate } from '~/lib/utils/work-schedule';
 import {
   sendLeaveRequestApprovedEmail,
   sendLeaveRequestSubmittedEmail,
@@ -34,6 +78,24 @@ const createLeaveRequestSchema = z.object({
   { message: 'End date must be after or equal to start date', path: ['endDate'] }
 );
 
+// Comment of the system approval recorded for auto-approved requests
+const AUTO_APPROVAL_COMMENTS: Record<AutoApprovalReason, string> = {
+  approval_not_required: 'Approved automatically: the organization does not require approval',
+  leave_type_not_requiring_approval:
+    'Approved automatically: this leave type does not require approval',
+  within_threshold: 'Approved automatically: within the auto-approval threshold',
+};
+
+const HALF_DAY_ERROR_MESSAGES: Record<HalfDayError, string> = {
+  half_days_not_allowed: 'This leave type cannot be taken as half days',
+  invalid_single_day_half_days:
+    'A single day can only be taken as the morning, the afternoon or both',
+  invalid_start_half_day:
+    'A request over several days can only start in the afternoon',
+  invalid_end_half_day:
+    'A request over several days can only end in the morning',
+};
+
 /**
  * GET /api/leave-requests
  * Get leave requests for the current user
@@ -61,7 +123,14 @@ export async function GET(request: NextRequest) {
     .bind(session.user.id)
     .first<{ organization_id: string; role: string }>();
 
-  const isApprover = member && ['admin', 'manager', 'hr'].includes(member.role);
+  const currentUserId = session.user.id;
+  const approvalContext = member
+    ? await loadApprovalContext(db, member.organization_id)
+    : null;
+  const isApprover =
+    approvalContext !== null &&
+    isPotentialApprover(approvalContext, currentUserId);
+  const locale = await getUserLocale(db, currentUserId);
 
   // Build query - include user data for approval workflows
   let query = `
@@ -70,17 +139,20 @@ export async function GET(request: NextRequest) {
       lt.code as leave_type_code,
       lt.name_en as leave_type_name_en,
       lt.name_de as leave_type_name_de,
-      lt.color as leave_type_color,
+      ltt.name as leave_type_translated_name,
+      ${leaveTypeSetting('color')} as leave_type_color,
       u.id as user_id,
       u.name as user_name,
       u.email as user_email,
       u.image as user_avatar_url
     FROM leave_requests lr
     JOIN leave_types lt ON lr.leave_type_id = lt.id
+    ${joinLeaveTypeSettings('lr.organization_id')}
+    ${joinLeaveTypeTranslation('?')}
     JOIN users u ON lr.user_id = u.id
   `;
 
-  const params: unknown[] = [];
+  const params: unknown[] = [locale];
 
   // For pending status with approver role, show all org requests (excluding own)
   // Otherwise, show only user's own requests
@@ -108,12 +180,43 @@ export async function GET(request: NextRequest) {
 
   const results = await db.prepare(query).bind(...params).all();
 
+  // Approvers only see the pending requests waiting on their approval level
+  let rows = results.results;
+
+  if (status === 'pending' && isApprover && approvalContext) {
+    const approvedLevels = await loadApprovedLevels(
+      db,
+      rows.map((row: Record<string, unknown>) => row.id as string)
+    );
+
+    rows = rows.filter((row: Record<string, unknown>) =>
+      canApprove(
+        approvalContext,
+        {
+          userId: row.user_id as string,
+          leaveTypeId: row.leave_type_id as string,
+          leaveTypeCode: row.leave_type_code as string,
+          workDays: row.work_days as number,
+          approvalChain: row.approval_chain as string | null,
+        },
+        currentUserId,
+        approvedLevels.get(row.id as string) ?? []
+      )
+    );
+  }
+
   // Transform results
-  const requests = results.results.map((row: Record<string, unknown>) => ({
+  const requests = rows.map((row: Record<string, unknown>) => ({
     id: row.id,
     leaveTypeId: row.leave_type_id,
     leaveType: {
       code: row.leave_type_code,
+      name: localize(
+        row.leave_type_name_en as string,
+        row.leave_type_name_de as string,
+        locale,
+        row.leave_type_translated_name as string | null
+      ),
       nameEn: row.leave_type_name_en,
       nameDe: row.leave_type_name_de,
       color: row.leave_type_color,
@@ -129,9 +232,22 @@ export async function GET(request: NextRequest) {
     startHalfDay: row.start_half_day,
     endHalfDay: row.end_half_day,
     workDays: row.work_days,
+    workDaysByYear: parseWorkDaysByYear(
+      row.work_days_by_year as string | null,
+      row.start_date as string,
+      row.work_days as number
+    ),
+    exceedsBalance: Boolean(row.exceeds_balance),
     reason: row.reason,
     status: row.status,
     documentUrl: row.document_url,
+    documentRequired: Boolean(row.document_required),
+    documentDueDate: row.document_due_date,
+    documentStatus: getDocumentStatus(
+      Boolean(row.document_required),
+      row.document_due_date as string | null,
+      row.document_url as string | null
+    ),
     submittedAt: row.submitted_at,
     createdAt: row.created_at,
   }));
@@ -210,36 +326,96 @@ export async function POST(request: NextRequest) {
 
   // Get organization's country/region for holiday calculation
   const org = await db
-    .prepare('SELECT country, region, bundesland FROM organizations WHERE id = ?')
+    .prepare(
+      `SELECT country, region, bundesland, sick_leave_au_threshold,
+              require_approval, auto_approve_threshold, block_below_min_coverage
+       FROM organizations WHERE id = ?`
+    )
     .bind(organizationId)
-    .first<{ country: string; region: string | null; bundesland: string | null }>();
-
-  const orgCountry = org?.country ?? 'DE';
-  const orgRegion = org?.region ?? org?.bundesland ?? null;
-
-  // Get holidays for the organization's region
-  const holidayResults = await db
+    .first<{
+      country: string;
+      region: string | null;
+      bundesland: string | null;
+      sick_leave_au_threshold: number | null;
+      require_approval: number | null;
+      auto_approve_threshold: number | null;
+      block_below_min_coverage: number | null;
+    }>();
+
+  // Get leave type details for the half-day rules, document requirement
+  // and emails
+  const leaveType = await db
     .prepare(
-      `SELECT date FROM public_holidays
-       WHERE (organization_id IS NULL OR organization_id = ?)
-       AND (organization_id IS NOT NULL OR country = ?)
-       AND (bundesland IS NULL OR bundesland = ?)
-       AND date BETWEEN ? AND ?`
+      `SELECT lt.code, lt.name_en, lt.name_de, lt.requires_document,
+              lt.document_required_after_days, lt.requires_approval, lt.has_allowance,
+              ${leaveTypeSetting('allow_negative')} as allow_negative,
+              ${leaveTypeSetting('allow_half_days')} as allow_half_days,
+              ${leaveTypeSetting('is_active')} as is_active
+       FROM leave_types lt
+       ${joinLeaveTypeSettings('?')}
+       WHERE lt.id = ? AND ${leaveTypeAvailableSql('?')}`
     )
-    .bind(organizationId, orgCountry, orgRegion, startDate, endDate)
-    .all();
+    .bind(organizationId, leaveTypeId, organizationId)
+    .first<{
+      code: string;
+      name_en: string;
+      name_de: string;
+      requires_document: number;
+      document_required_after_days: number | null;
+      requires_approval: number | null;
+      has_allowance: number | null;
+      allow_negative: number | null;
+      allow_half_days: number | null;
+      is_active: number | null;
+    }>();
+
+  if (!leaveType?.is_active) {
+    return badRequest('This leave type is not available');
+  }
 
-  const holidays = holidayResults.results.map(
-    (row: Record<string, unknown>) => row.date as string
+  const halfDayError = validateHalfDays(
+    startDate,
+    endDate,
+    startHalfDay || null,
+    endHalfDay || null,
+    Boolean(leaveType.allow_half_days)
   );
 
-  // Calculate work days
-  const workDays = calculateWorkDays(
+  if (halfDayError) {
+    return badRequest(HALF_DAY_ERROR_MESSAGES[halfDayError], {
+      reason: halfDayError,
+      leaveType: leaveType.code,
+    });
+  }
+
+  const orgCountry = org?.country ?? 'DE';
+  const orgRegion = org?.region ?? org?.bundesland ?? null;
+
+  // Get holidays for the organization's region and the member's schedule
+  const [holidays, workSchedules] = await Promise.all([
+    getHolidays(db, {
+      country: orgCountry,
+      region: orgRegion,
+      organizationId,
+      startDate,
+      endDate,
+    }),
+    getWorkSchedules(db, organizationId, targetUserId),
+  ]);
+
+  // Calculate work days per calendar year, so requests spanning New Year
+  // are booked against both years' balances
+  const workDaysByYear = calculateWorkDaysByYear(
     startDate,
     endDate,
     holidays,
     startHalfDay || null,
-    endHalfDay || null
+    endHalfDay || null,
+    getWorkDayPredicate(workSchedules)
+  );
+  const workDays = Object.values(workDaysByYear).reduce(
+    (sum, days) => sum + days,
+    0
   );
 
   if (workDays <= 0) {
@@ -271,10 +447,98 @@ export async function POST(request: NextRequest) {
     return badRequest('You already have a leave request for this period');
   }
 
+  // Check that the requester's teams keep their minimum coverage. Admins
+  // filing leave for others are only warned
+  const coverageConflicts = await getCoverageConflicts(db, {
+    organizationId,
+    userId: targetUserId,
+    startDate,
+    endDate,
+    holidays,
+  });
+
+  if (
+    coverageConflicts.length > 0 &&
+    org?.block_below_min_coverage &&
+    !isAdminCreatingForOther
+  ) {
+    const conflictDates = [
+      ...new Set(coverageConflicts.map((conflict) => conflict.date)),
+    ];
+
+    return badRequest(
+      `Team coverage would drop below the minimum on ${conflictDates.join(', ')}`
+    );
+  }
+
+  // Sick notes etc. are required once the absence exceeds the threshold
+  const documentRequirement = getDocumentRequirement(
+    {
+      leaveTypeCode: leaveType.code,
+      requiresDocument: Boolean(leaveType.requires_document),
+      documentRequiredAfterDays: leaveType.document_required_after_days,
+      sickLeaveAuThreshold: org?.sick_leave_au_threshold ?? null,
+    },
+    startDate,
+    endDate
+  );
+
+  const bookingTarget = {
+    userId: targetUserId,
+    leaveTypeId,
+    workDaysByYear,
+  };
+
+  // Leave types with an allowance cannot exceed the remaining balance,
+  // unless they may go negative; such requests are flagged instead
+  const balanceShortfalls = leaveType.has_allowance
+    ? await getBalanceShortfalls(db, bookingTarget)
+    : [];
+
+  if (balanceShortfalls.length > 0 && !leaveType.allow_negative) {
+    const shortfall = balanceShortfalls[0]!;
+
+    return badRequest(
+      `Only ${shortfall.available} days are available in ${shortfall.year}`,
+      {
+        reason: 'insufficient_balance',
+        leaveType: leaveType.code,
+        shortfalls: balanceShortfalls,
+      }
+    );
+  }
+
+  const exceedsBalance = balanceShortfalls.length > 0;
+
+  // Requests needing no approval are approved on submission, unless an
+  // approver should look at a coverage or balance shortfall first
+  const autoApprovalReason =
+    isAdminCreatingForOther || coverageConflicts.length > 0 || exceedsBalance
+      ? null
+      : getAutoApprovalReason(
+          {
+            requireApproval: org?.require_approval !== 0,
+            autoApproveThreshold: org?.auto_approve_threshold ?? null,
+            leaveTypeRequiresApproval: leaveType.requires_approval !== 0,
+          },
+          workDays
+        );
+  const isApproved = isAdminCreatingForOther || autoApprovalReason !== null;
+
+  // Pending requests keep the approval chain they were submitted with
+  const approvalChain = isApproved
+    ? null
+    : resolveApprovalChain(await loadApprovalContext(db, organizationId), {
+        userId: targetUserId,
+        leaveTypeId,
+        leaveTypeCode: leaveType.code,
+        workDays,
+      });
+
   // Create the leave request
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
-  const status = isAdminCreatingForOther ? 'approved' : 'pending';
+  const status = isApproved ? 'approved' : 'pending';
 
   const batchStatements = [
     db
@@ -282,8 +546,10 @@ export async function POST(request: NextRequest) {
         `INSERT INTO leave_requests (
           id, organization_id, user_id, leave_type_id,
           start_date, end_date, start_half_day, end_half_day,
-          work_days, reason, status, submitted_at, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          work_days, work_days_by_year, exceeds_balance, reason, status,
+          approval_chain, document_required, document_due_date,
+          submitted_at, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       )
       .bind(
         id,
@@ -295,8 +561,13 @@ export async function POST(request: NextRequest) {
         startHalfDay || null,
         endHalfDay || null,
         workDays,
+        JSON.stringify(workDaysByYear),
+        exceedsBalance ? 1 : 0,
         reason || null,
         status,
+        approvalChain ? snapshotApprovalChain(approvalChain) : null,
+        documentRequirement.required ? 1 : 0,
+        documentRequirement.dueDate,
         now,
         now,
         now
@@ -314,45 +585,70 @@ export async function POST(request: NextRequest) {
           ) VALUES (?, ?, ?, 'approved', ?, ?, ?)`
         )
         .bind(approvalId, id, session.user.id, null, now, now),
+      ...prepareBalanceBooking(db, bookingTarget, { used: 1 }, now)
+    );
+  } else if (autoApprovalReason) {
+    batchStatements.push(
       db
         .prepare(
-          `UPDATE leave_balances
-           SET used = used + ?, updated_at = ?
-           WHERE user_id = ? AND leave_type_id = ? AND year = ?`
+          `INSERT INTO leave_approvals (
+            id, leave_request_id, approver_id, decision, comment,
+            is_automatic, decided_at, created_at
+          ) VALUES (?, ?, ?, 'approved', ?, 1, ?, ?)`
         )
         .bind(
-          workDays,
-          now,
+          crypto.randomUUID(),
+          id,
           targetUserId,
-          leaveTypeId,
-          new Date(startDate).getFullYear()
-        )
+          AUTO_APPROVAL_COMMENTS[autoApprovalReason],
+          now,
+          now
+        ),
+      ...prepareBalanceBooking(db, bookingTarget, { used: 1 }, now)
     );
   } else {
     batchStatements.push(
-      db
-        .prepare(
-          `UPDATE leave_balances
-           SET pending = pending + ?, updated_at = ?
-           WHERE user_id = ? AND leave_type_id = ? AND year = ?`
-        )
-        .bind(
-          workDays,
-          now,
-          targetUserId,
-          leaveTypeId,
-          new Date(startDate).getFullYear()
-        )
+      ...prepareBalanceBooking(db, bookingTarget, { pending: 1 }, now)
     );
   }
 
+  batchStatements.push(
+    prepareAuditLog(
+      db,
+      {
+        organizationId,
+        userId: session.user.id,
+        action: 'leave_request.created',
+        entityType: 'leave_request',
+        entityId: id,
+        newValues: {
+          userId: targetUserId,
+          leaveTypeId,
+          startDate,
+          endDate,
+          startHalfDay: startHalfDay || null,
+          endHalfDay: endHalfDay || null,
+          workDays,
+          status,
+          reason: reason || null,
+          autoApprovalReason,
+        },
+      },
+      getAuditRequestContext(request),
+      now
+    )
+  );
+
   await db.batch(batchStatements);
 
-  // Get leave type details for email
-  const leaveType = await db
-    .prepare('SELECT code, name_en, name_de FROM leave_types WHERE id = ?')
-    .bind(leaveTypeId)
-    .first<{ code: string; name_en: string; name_de: string }>();
+  // Ask the employee for the required document right away
+  if (documentRequirement.required) {
+    ctx.waitUntil(
+      sendDocumentReminder(env, id).catch((error) => {
+        console.error('Failed to send document reminder:', error);
+      })
+    );
+  }
 
   // Get user's name for email
   const user = await db
@@ -360,21 +656,57 @@ export async function POST(request: NextRequest) {
     .bind(targetUserId)
     .first<{ name: string; email: string }>();
 
-  if (isAdminCreatingForOther) {
-    const approver = await db
-      .prepare('SELECT name FROM users WHERE id = ?')
-      .bind(session.user.id)
-      .first<{ name: string }>();
+  if (isApproved) {
+    // Auto-approved requests have no approver to name
+    const approver = isAdminCreatingForOther
+      ? await db
+          .prepare('SELECT name FROM users WHERE id = ?')
+          .bind(session.user.id)
+          .first<{ name: string }>()
+      : null;
+
+    if (user && (approver || autoApprovalReason)) {
+      // The employee and team members get the leave type in their own locale
+      const leaveTypeNames = await getLocalizedNames(
+        db,
+        'leave_type',
+        leaveTypeId,
+        leaveType.name_en,
+        leaveType.name_de
+      );
+
+      const notificationDetails = {
+        employeeName: user.name || user.email,
+        leaveType: leaveTypeNames,
+        startDate,
+        endDate,
+        workDays,
+        approverName: approver?.name,
+      };
+
+      ctx.waitUntil(
+        notifyLeaveRequest(db, {
+          organizationId,
+          leaveRequestId: id,
+          type: 'leave_approved',
+          userIds: [targetUserId],
+          details: notificationDetails,
+        }).catch((error) => {
+          console.error('Failed to create approval notification:', error);
+        })
+      );
 
-    if (user && leaveType && approver) {
       const approvalEmailPromise = sendLeaveRequestApprovedEmail(env, {
         employeeName: user.name || user.email,
         employeeEmail: user.email,
-        leaveType: leaveType.name_en,
+        leaveType: leaveTypeNames,
         startDate,
         endDate,
         workDays,
-        approverName: approver.name,
+        approverName: approver?.name,
+        comment: autoApprovalReason
+          ? AUTO_APPROVAL_COMMENTS[autoApprovalReason]
+          : undefined,
       }).catch((error) => {
         console.error('Failed to send approval email:', error);
       });
@@ -383,7 +715,7 @@ export async function POST(request: NextRequest) {
 
       const teamMembers = await db
         .prepare(
-          `SELECT DISTINCT u.email, u.name, t.name as team_name
+          `SELECT DISTINCT u.id, u.email, u.name, t.name as team_name
            FROM team_members tm
            JOIN teams t ON tm.team_id = t.id
            JOIN team_members tm2 ON tm.team_id = tm2.team_id
@@ -393,16 +725,28 @@ export async function POST(request: NextRequest) {
            AND t.organization_id = ?`
         )
         .bind(targetUserId, targetUserId, organizationId)
-        .all<{ email: string; name: string; team_name: string }>();
+        .all<{ id: string; email: string; name: string; team_name: string }>();
 
       if (teamMembers.results.length > 0) {
+        ctx.waitUntil(
+          notifyLeaveRequest(db, {
+            organizationId,
+            leaveRequestId: id,
+            type: 'team_absence',
+            userIds: teamMembers.results.map((member: { id: string }) => member.id),
+            details: notificationDetails,
+          }).catch((error) => {
+            console.error('Failed to create team absence notifications:', error);
+          })
+        );
+
         const teamEmailPromises = teamMembers.results.map(
           (member: { email: string; name: string; team_name: string }) =>
             sendTeamAbsenceNotificationEmail(env, {
               recipientName: member.name || member.email,
               recipientEmail: member.email,
               employeeName: user.name || user.email,
-              leaveType: leaveType.name_en,
+              leaveType: leaveTypeNames,
               startDate,
               endDate,
               teamName: member.team_name,
@@ -414,27 +758,55 @@ export async function POST(request: NextRequest) {
         ctx.waitUntil(Promise.all(teamEmailPromises));
       }
     }
-  } else {
-    // Get all admins and managers to notify about this request
-    const approvers = await db
-      .prepare(
-        `SELECT u.email, u.name FROM organization_members om
-         JOIN users u ON om.user_id = u.id
-         WHERE om.organization_id = ?
-         AND om.status = 'active'
-         AND om.role IN ('admin', 'manager')
-         AND om.user_id != ?`
-      )
-      .bind(organizationId, session.user.id)
-      .all<{ email: string; name: string }>();
+  } else if (approvalChain) {
+    // Notify the approvers of the first level of the approval chain
+    const { approverIds } = approvalChain[0]!;
+
+    let approvers: { results: Array<{ email: string; name: string }> } = {
+      results: [],
+    };
+    if (approverIds.length > 0) {
+      const placeholders = approverIds.map(() => '?').join(',');
+      approvers = await db
+        .prepare(`SELECT email, name FROM users WHERE id IN (${placeholders})`)
+        .bind(...approverIds)
+        .all<{ email: string; name: string }>();
+    }
+
+    if (user && approverIds.length > 0) {
+      // Each approver gets the leave type in their own locale
+      const leaveTypeNames = await getLocalizedNames(
+        db,
+        'leave_type',
+        leaveTypeId,
+        leaveType.name_en,
+        leaveType.name_de
+      );
+
+      ctx.waitUntil(
+        notifyLeaveRequest(db, {
+          organizationId,
+          leaveRequestId: id,
+          type: 'approval_needed',
+          userIds: approverIds,
+          details: {
+            employeeName: user.name || user.email,
+            leaveType: leaveTypeNames,
+            startDate,
+            endDate,
+            workDays,
+          },
+        }).catch((error) => {
+          console.error('Failed to create approval notifications:', error);
+        })
+      );
 
-    // Send notification emails to all approvers using waitUntil
-    if (user && leaveType && approvers.results.length > 0) {
+      // Send notification emails to all approvers using waitUntil
       const emailPromises = approvers.results.map((approver: { email: string; name: string }) =>
         sendLeaveRequestSubmittedEmail(env, approver.email, {
           employeeName: user.name || user.email,
           employeeEmail: user.email,
-          leaveType: leaveType.name_en,
+          leaveType: leaveTypeNames,
           startDate,
           endDate,
           workDays,
@@ -449,5 +821,12 @@ export async function POST(request: NextRequest) {
     }
   }
 
-  return created({ id, status, workDays });
+  return created({
+    id,
+    status,
+    workDays,
+    workDaysByYear,
+    exceedsBalance,
+    coverageConflicts,
+  });
 }
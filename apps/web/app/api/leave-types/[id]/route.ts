@@ -0,0 +1,269 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { z } from 'zod';
+
+import { auth } from '~/lib/auth/auth';
+import {
+  badRequest,
+  forbidden,
+  noContent,
+  notFound,
+  success,
+  unauthorized,
+  validationError,
+} from '~/lib/api/responses';
+import {
+  getAuditRequestContext,
+  getChangedValues,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
+import {
+  joinLeaveTypeSettings,
+  joinLeaveTypeTranslation,
+  LEAVE_TYPE_COLUMNS_SQL,
+  LEAVE_TYPE_TRANSLATION_COLUMNS_SQL,
+  leaveTypeAvailableSql,
+  type LeaveTypeRow,
+  type LocalizedLeaveTypeRow,
+  mapLeaveTypeRow,
+  mapLocalizedLeaveTypeRow,
+  prepareLeaveTypeUpdate,
+} from '~/lib/services/leave-type.service';
+import {
+  getTranslations,
+  getUserLocale,
+  prepareTranslations,
+  TRANSLATION_LOCALES,
+} from '~/lib/services/translation.service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// What an organization can change about a system leave type
+const updateLeaveTypeSettingsSchema = z
+  .object({
+    isActive: z.boolean().optional(),
+    color: z
+      .string()
+      .regex(/^#([0-9a-fA-F]{3}){1,2}$/, 'Invalid color format')
+      .optional(),
+    defaultDaysPerYear: z.number().int().min(0).max(366).nullable().optional(),
+    allowHalfDays: z.boolean().optional(),
+    allowNegative: z.boolean().optional(),
+    allowCarryover: z.boolean().optional(),
+    maxCarryoverDays: z.number().int().min(0).max(366).nullable().optional(),
+    sortOrder: z.number().int().min(0).optional(),
+  })
+  .strict();
+
+const translationSchema = z.object({
+  locale: z.enum(TRANSLATION_LOCALES as [string, ...string[]]),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).nullable().default(null),
+});
+
+// What an organization can change about its own leave types; the code and
+// whether the type has an allowance are fixed once balances exist
+const updateCustomLeaveTypeSchema = updateLeaveTypeSettingsSchema.extend({
+  nameEn: z.string().trim().min(1, 'English name is required').max(100).optional(),
+  nameDe: z.string().trim().min(1, 'German name is required').max(100).optional(),
+  descriptionEn: z.string().trim().max(500).nullable().optional(),
+  descriptionDe: z.string().trim().max(500).nullable().optional(),
+  icon: z.string().min(1).max(50).optional(),
+  isPaid: z.boolean().optional(),
+  requiresApproval: z.boolean().optional(),
+  requiresDocument: z.boolean().optional(),
+  documentRequiredAfterDays: z.number().int().min(0).max(365).nullable().optional(),
+  translations: z.array(translationSchema).optional(),
+});
+
+/**
+ * PATCH /api/leave-types/[id]
+ * Update a leave type for the organization
+ * System leave types only take the organization's settings, which are
+ * stored as overrides since the types are shared by all organizations
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const member = await db
+    .prepare(
+      `SELECT organization_id, role FROM organization_members
+       WHERE user_id = ? AND status = 'active' LIMIT 1`
+    )
+    .bind(session.user.id)
+    .first<{ organization_id: string; role: string }>();
+
+  if (!member) {
+    return unauthorized('No active organization membership found');
+  }
+
+  if (member.role !== 'admin' && member.role !== 'owner') {
+    return forbidden('Only admins can modify leave types');
+  }
+
+  const locale = await getUserLocale(db, session.user.id);
+
+  const row = await db
+    .prepare(
+      `SELECT ${LEAVE_TYPE_COLUMNS_SQL}, ${LEAVE_TYPE_TRANSLATION_COLUMNS_SQL}
+       FROM leave_types lt
+       ${joinLeaveTypeSettings('?')}
+       ${joinLeaveTypeTranslation('?')}
+       WHERE lt.id = ? AND ${leaveTypeAvailableSql('?')}
+         AND lt.archived_at IS NULL`
+    )
+    .bind(member.organization_id, locale, id, member.organization_id)
+    .first<LocalizedLeaveTypeRow>();
+
+  if (!row) {
+    return notFound('Leave type');
+  }
+
+  const leaveType = mapLocalizedLeaveTypeRow(row, locale);
+
+  // Translations belong to the organization's own leave types only
+  if (leaveType.organizationId) {
+    leaveType.translations =
+      (await getTranslations(db, 'leave_type', [id])).get(id) ?? [];
+  }
+
+  const schema = leaveType.organizationId
+    ? updateCustomLeaveTypeSchema
+    : updateLeaveTypeSettingsSchema;
+  const parsed = schema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return validationError(parsed.error.flatten());
+  }
+
+  // System leave types never get translations, their schema rejects them
+  const { translations, ...changes }: z.infer<
+    typeof updateCustomLeaveTypeSchema
+  > = parsed.data;
+
+  const { oldValues, newValues } = getChangedValues(
+    { ...leaveType },
+    parsed.data
+  );
+
+  if (Object.keys(newValues).length === 0) {
+    return badRequest('Leave type is already in the requested state');
+  }
+
+  await db.batch([
+    prepareLeaveTypeUpdate(db, member.organization_id, leaveType, changes),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: member.organization_id,
+        userId: session.user.id,
+        action: 'leave_type.updated',
+        entityType: 'leave_type',
+        entityId: id,
+        oldValues,
+        newValues,
+      },
+      getAuditRequestContext(request)
+    ),
+    ...(translations && newValues.translations
+      ? prepareTranslations(db, 'leave_type', id, translations)
+      : []),
+  ]);
+
+  return success({ ...leaveType, ...newValues });
+}
+
+/**
+ * DELETE /api/leave-types/[id]
+ * Archive a custom leave type
+ * The type can no longer be requested, but requests and balances that
+ * reference it keep their history
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const member = await db
+    .prepare(
+      `SELECT organization_id, role FROM organization_members
+       WHERE user_id = ? AND status = 'active' LIMIT 1`
+    )
+    .bind(session.user.id)
+    .first<{ organization_id: string; role: string }>();
+
+  if (!member) {
+    return unauthorized('No active organization membership found');
+  }
+
+  if (member.role !== 'admin' && member.role !== 'owner') {
+    return forbidden('Only admins can archive leave types');
+  }
+
+  const row = await db
+    .prepare(
+      `SELECT ${LEAVE_TYPE_COLUMNS_SQL}
+       FROM leave_types lt
+       ${joinLeaveTypeSettings('?')}
+       WHERE lt.id = ? AND ${leaveTypeAvailableSql('?')}
+         AND lt.archived_at IS NULL`
+    )
+    .bind(member.organization_id, id, member.organization_id)
+    .first<LeaveTypeRow>();
+
+  if (!row) {
+    return notFound('Leave type');
+  }
+
+  const leaveType = mapLeaveTypeRow(row);
+
+  if (!leaveType.organizationId) {
+    return forbidden(
+      'System leave types cannot be archived, deactivate them instead'
+    );
+  }
+
+  const now = new Date().toISOString();
+
+  await db.batch([
+    db
+      .prepare(
+        `UPDATE leave_types
+         SET archived_at = ?, is_active = 0, updated_at = datetime('now')
+         WHERE id = ? AND organization_id = ?`
+      )
+      .bind(now, id, member.organization_id),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: member.organization_id,
+        userId: session.user.id,
+        action: 'leave_type.archived',
+        entityType: 'leave_type',
+        entityId: id,
+        oldValues: { archivedAt: null, isActive: leaveType.isActive },
+        newValues: { archivedAt: now, isActive: false },
+      },
+      getAuditRequestContext(request)
+    ),
+  ]);
+
+  return noContent();
+}
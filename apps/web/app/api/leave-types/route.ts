@@ -1,14 +1,76 @@
 import { NextRequest } from 'next/server';
 
 import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { z } from 'zod';
 
 import { auth } from '~/lib/auth/auth';
-import { badRequest, success, unauthorized } from '~/lib/api/responses';
-
+import {
+  conflict,
+  created,
+  forbidden,
+  success,
+  unauthorized,
+  validationError,
+} from '~/lib/api/responses';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
+import {
+  joinLeaveTypeSettings,
+  joinLeaveTypeTranslation,
+  LEAVE_TYPE_COLUMNS_SQL,
+  LEAVE_TYPE_TRANSLATION_COLUMNS_SQL,
+  leaveTypeAvailableSql,
+  leaveTypeSetting,
+  type LocalizedLeaveTypeRow,
+  mapLocalizedLeaveTypeRow,
+  prepareCreateLeaveType,
+  prepareLeaveTypeBalances,
+} from '~/lib/services/leave-type.service';
+import {
+  getTranslations,
+  getUserLocale,
+  prepareTranslations,
+  TRANSLATION_LOCALES,
+} from '~/lib/services/translation.service';
+
+const translationSchema = z.object({
+  locale: z.enum(TRANSLATION_LOCALES as [string, ...string[]]),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).nullable().default(null),
+});
+
+const createLeaveTypeSchema = z.object({
+  code: z
+    .string()
+    .regex(
+      /^[a-z][a-z0-9_]{1,31}$/,
+      'Code must be 2-32 lowercase letters, digits or underscores'
+    ),
+  nameEn: z.string().trim().min(1, 'English name is required').max(100),
+  nameDe: z.string().trim().min(1, 'German name is required').max(100),
+  descriptionEn: z.string().trim().max(500).nullable().default(null),
+  descriptionDe: z.string().trim().max(500).nullable().default(null),
+  color: z.string().regex(/^#([0-9a-fA-F]{3}){1,2}$/, 'Invalid color format'),
+  icon: z.string().min(1).max(50).default('calendar'),
+  isPaid: z.boolean().default(true),
+  requiresApproval: z.boolean().default(true),
+  requiresDocument: z.boolean().default(false),
+  documentRequiredAfterDays: z.number().int().min(0).max(365).nullable().default(null),
+  hasAllowance: z.boolean().default(false),
+  defaultDaysPerYear: z.number().int().min(0).max(366).nullable().default(null),
+  allowNegative: z.boolean().default(false),
+  allowHalfDays: z.boolean().default(true),
+  allowCarryover: z.boolean().default(false),
+  maxCarryoverDays: z.number().int().min(0).max(366).nullable().default(null),
+  translations: z.array(translationSchema).default([]),
+});
 
 /**
  * GET /api/leave-types
- * Get available leave types for the user's organization
+ * Get available leave types for the user's organization, named in the
+ * user's locale
  */
 export async function GET(_request: NextRequest) {
   const session = await auth();
@@ -30,104 +92,143 @@ export async function GET(_request: NextRequest) {
     .first<{ organization_id: string }>();
 
   const organizationId = member?.organization_id;
+  const locale = await getUserLocale(db, session.user.id);
 
-  // Get leave types (system defaults + organization-specific)
-  // For admin view, show all leave types regardless of active status
+  // Get leave types (system defaults + organization-specific) with the
+  // organization's settings. For admin view, show all leave types
+  // regardless of active status, but not archived ones
   const results = await db
     .prepare(
-      `SELECT * FROM leave_types
-       WHERE organization_id IS NULL OR organization_id = ?
-       ORDER BY sort_order`
+      `SELECT ${LEAVE_TYPE_COLUMNS_SQL}, ${LEAVE_TYPE_TRANSLATION_COLUMNS_SQL}
+       FROM leave_types lt
+       ${joinLeaveTypeSettings('?')}
+       ${joinLeaveTypeTranslation('?')}
+       WHERE ${leaveTypeAvailableSql('?')} AND lt.archived_at IS NULL
+       ORDER BY ${leaveTypeSetting('sort_order')}`
     )
-    .bind(organizationId ?? null)
-    .all();
-
-  // Transform results
-  const leaveTypes = results.results.map((row: Record<string, unknown>) => ({
-    id: row.id,
-    code: row.code,
-    nameEn: row.name_en,
-    nameDe: row.name_de,
-    descriptionEn: row.description_en,
-    descriptionDe: row.description_de,
-    color: row.color,
-    icon: row.icon,
-    isPaid: Boolean(row.is_paid),
-    requiresApproval: Boolean(row.requires_approval),
-    requiresDocument: Boolean(row.requires_document),
-    documentRequiredAfterDays: row.document_required_after_days,
-    hasAllowance: Boolean(row.has_allowance),
-    defaultDaysPerYear: row.default_days_per_year,
-    allowNegative: Boolean(row.allow_negative),
-    allowHalfDays: Boolean(row.allow_half_days),
-    allowCarryover: Boolean(row.allow_carryover),
-    maxCarryoverDays: row.max_carryover_days,
-    isActive: Boolean(row.is_active),
-    sortOrder: row.sort_order,
+    .bind(organizationId ?? null, locale, organizationId ?? null)
+    .all<LocalizedLeaveTypeRow>();
+
+  // The organization's own types come with their translations for editing
+  const translations = await getTranslations(
+    db,
+    'leave_type',
+    results.results
+      .filter((row: LocalizedLeaveTypeRow) => row.organization_id)
+      .map((row: LocalizedLeaveTypeRow) => row.id)
+  );
+
+  const leaveTypes = results.results.map((row: LocalizedLeaveTypeRow) => ({
+    ...mapLocalizedLeaveTypeRow(row, locale),
+    ...(row.organization_id && {
+      translations: translations.get(row.id) ?? [],
+    }),
   }));
 
   return success(leaveTypes);
 }
 
 /**
- * PATCH /api/leave-types
- * Update a leave type's active status
+ * POST /api/leave-types
+ * Create a custom leave type for the organization
+ * Members get a balance for it if it has an allowance
  */
-export async function PATCH(request: NextRequest) {
-  try {
-    const session = await auth();
-
-    if (!session?.user?.id) {
-      return unauthorized('Not authenticated');
-    }
-
-    const { env } = getCloudflareContext();
-    const db = env.DB;
-
-    // Get user's organization and check admin status
-    const member = await db
-      .prepare(
-        `SELECT organization_id, role FROM organization_members
-         WHERE user_id = ? AND status = 'active' LIMIT 1`
-      )
-      .bind(session.user.id)
-      .first<{ organization_id: string; role: string }>();
-
-    if (!member) {
-      return unauthorized('No active organization membership found');
-    }
-
-    // Only admins can modify leave types
-    if (member.role !== 'admin' && member.role !== 'owner') {
-      return unauthorized('Only admins can modify leave types');
-    }
-
-    const body = await request.json();
-    const { id, isActive } = body;
-
-    if (!id || typeof isActive !== 'boolean') {
-      return badRequest('Invalid request body: id and isActive are required');
-    }
-
-    // Update the leave type's is_active status
-    // Note: For system-wide leave types (organization_id IS NULL), this affects all orgs
-    // TODO: Add organization_leave_type_settings table for per-org overrides
-    const result = await db
-      .prepare(
-        `UPDATE leave_types SET is_active = ?, updated_at = datetime('now') WHERE id = ?`
+export async function POST(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const member = await db
+    .prepare(
+      `SELECT organization_id, role FROM organization_members
+       WHERE user_id = ? AND status = 'active' LIMIT 1`
+    )
+    .bind(session.user.id)
+    .first<{ organization_id: string; role: string }>();
+
+  if (!member) {
+    return unauthorized('No active organization membership found');
+  }
+
+  if (member.role !== 'admin' && member.role !== 'owner') {
+    return forbidden('Only admins can create leave types');
+  }
+
+  const parsed = createLeaveTypeSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return validationError(parsed.error.flatten());
+  }
+
+  const { translations, ...input } = parsed.data;
+
+  // Codes identify leave types in approval rules and reports, so they may
+  // not clash with a system default or another of the organization's types
+  const existing = await db
+    .prepare(
+      `SELECT id FROM leave_types lt
+       WHERE lt.code = ? AND ${leaveTypeAvailableSql('?')}`
+    )
+    .bind(input.code, member.organization_id)
+    .first();
+
+  if (existing) {
+    return conflict('A leave type with this code already exists');
+  }
+
+  const id = crypto.randomUUID();
+  const year = new Date().getFullYear();
+
+  const statements = [
+    prepareCreateLeaveType(db, member.organization_id, id, input),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: member.organization_id,
+        userId: session.user.id,
+        action: 'leave_type.created',
+        entityType: 'leave_type',
+        entityId: id,
+        newValues: { ...input, translations },
+      },
+      getAuditRequestContext(request)
+    ),
+    ...prepareTranslations(db, 'leave_type', id, translations),
+  ];
+
+  if (input.hasAllowance) {
+    statements.push(
+      prepareLeaveTypeBalances(
+        db,
+        member.organization_id,
+        id,
+        year,
+        input.defaultDaysPerYear ?? 0
       )
-      .bind(isActive ? 1 : 0, id)
-      .run();
-
-    if (!result.meta.changes) {
-      return badRequest('Leave type not found or already in requested state');
-    }
-
-    return success({ id, isActive });
-  } catch (error) {
-    console.error('Error updating leave type:', error);
-    return badRequest(
-      `Failed to update leave type: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
   }
+
+  await db.batch(statements);
+
+  const locale = await getUserLocale(db, session.user.id);
+
+  const row = await db
+    .prepare(
+      `SELECT ${LEAVE_TYPE_COLUMNS_SQL}, ${LEAVE_TYPE_TRANSLATION_COLUMNS_SQL}
+       FROM leave_types lt
+       ${joinLeaveTypeSettings('?')}
+       ${joinLeaveTypeTranslation('?')}
+       WHERE lt.id = ?`
+    )
+    .bind(member.organization_id, locale, id)
+    .first<LocalizedLeaveTypeRow>();
+
+  return created(
+    row ? { ...mapLocalizedLeaveTypeRow(row, locale), translations } : { id }
+  );
 }
@@ -12,7 +12,11 @@ import {
   badRequest,
   validationError,
 } from '~/lib/api/responses';
-
+import {
+  getAuditRequestContext,
+  getChangedValues,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
 
 const updateMemberSchema = z.object({
   role: z.enum(['admin', 'manager', 'member']).optional(),
@@ -68,10 +72,17 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
   // Get the target member
   const targetMember = await db
     .prepare(
-      `SELECT id, user_id, role, organization_id FROM organization_members WHERE id = ?`
+      `SELECT id, user_id, role, status, organization_id
+       FROM organization_members WHERE id = ?`
     )
     .bind(memberId)
-    .first<{ id: string; user_id: string; role: string; organization_id: string }>();
+    .first<{
+      id: string;
+      user_id: string;
+      role: string;
+      status: string;
+      organization_id: string;
+    }>();
 
   if (!targetMember) {
     return notFound('Member not found');
@@ -105,14 +116,32 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     return badRequest('No updates provided');
   }
 
+  const now = new Date().toISOString();
   updates.push('updated_at = ?');
-  values.push(new Date().toISOString());
+  values.push(now);
   values.push(memberId);
 
-  await db
-    .prepare(`UPDATE organization_members SET ${updates.join(', ')} WHERE id = ?`)
-    .bind(...values)
-    .run();
+  await db.batch([
+    db
+      .prepare(`UPDATE organization_members SET ${updates.join(', ')} WHERE id = ?`)
+      .bind(...values),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: targetMember.organization_id,
+        userId: session.user.id,
+        action: 'member.updated',
+        entityType: 'organization_member',
+        entityId: memberId,
+        ...getChangedValues(
+          { role: targetMember.role, status: targetMember.status },
+          { role, status }
+        ),
+      },
+      getAuditRequestContext(request),
+      now
+    ),
+  ]);
 
   // Fetch updated member
   const updatedMember = await db
@@ -184,10 +213,17 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   // Get the target member
   const targetMember = await db
     .prepare(
-      `SELECT id, user_id, organization_id FROM organization_members WHERE id = ?`
+      `SELECT id, user_id, role, status, organization_id
+       FROM organization_members WHERE id = ?`
     )
     .bind(memberId)
-    .first<{ id: string; user_id: string; organization_id: string }>();
+    .first<{
+      id: string;
+      user_id: string;
+      role: string;
+      status: string;
+      organization_id: string;
+    }>();
 
   if (!targetMember) {
     return notFound('Member not found');
@@ -203,23 +239,44 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     return badRequest('Cannot remove yourself from the organization');
   }
 
-  // Set status to inactive instead of hard delete
-  await db
-    .prepare(
-      `UPDATE organization_members SET status = 'inactive', updated_at = ? WHERE id = ?`
-    )
-    .bind(new Date().toISOString(), memberId)
-    .run();
-
-  // Also remove from all teams
-  await db
-    .prepare(
-      `DELETE FROM team_members WHERE user_id = ? AND team_id IN (
-        SELECT id FROM teams WHERE organization_id = ?
-      )`
-    )
-    .bind(targetMember.user_id, targetMember.organization_id)
-    .run();
+  const now = new Date().toISOString();
+
+  await db.batch([
+    // Set status to inactive instead of hard delete
+    db
+      .prepare(
+        `UPDATE organization_members SET status = 'inactive', updated_at = ? WHERE id = ?`
+      )
+      .bind(now, memberId),
+
+    // Also remove from all teams
+    db
+      .prepare(
+        `DELETE FROM team_members WHERE user_id = ? AND team_id IN (
+          SELECT id FROM teams WHERE organization_id = ?
+        )`
+      )
+      .bind(targetMember.user_id, targetMember.organization_id),
+
+    prepareAuditLog(
+      db,
+      {
+        organizationId: targetMember.organization_id,
+        userId: session.user.id,
+        action: 'member.removed',
+        entityType: 'organization_member',
+        entityId: memberId,
+        oldValues: {
+          userId: targetMember.user_id,
+          role: targetMember.role,
+          status: targetMember.status,
+        },
+        newValues: { status: 'inactive' },
+      },
+      getAuditRequestContext(request),
+      now
+    ),
+  ]);
 
   return success({ removed: true });
 }
@@ -13,7 +13,12 @@ import {
   validationError,
 } from '~/lib/api/responses';
 import { sendMemberInvitationEmail } from '~/lib/emails';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
 import { getSiteUrl } from '~/lib/services/email.service';
+import { getUserLocale } from '~/lib/services/translation.service';
 
 
 const inviteSchema = z.object({
@@ -141,24 +146,38 @@ export async function POST(request: NextRequest) {
   const now = new Date().toISOString();
   const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(); // 7 days
 
-  await db
-    .prepare(
-      `INSERT INTO organization_invites (
-        id, organization_id, email, role, token, invited_by, expires_at, created_at, team_id
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
-    )
-    .bind(
-      inviteId,
-      membership.organization_id,
-      normalizedEmail,
-      role,
-      token,
-      session.user.id,
-      expiresAt,
-      now,
-      teamId
-    )
-    .run();
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO organization_invites (
+          id, organization_id, email, role, token, invited_by, expires_at, created_at, team_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        inviteId,
+        membership.organization_id,
+        normalizedEmail,
+        role,
+        token,
+        session.user.id,
+        expiresAt,
+        now,
+        teamId
+      ),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'member.invited',
+        entityType: 'member_invite',
+        entityId: inviteId,
+        newValues: { email: normalizedEmail, role, teamId, expiresAt },
+      },
+      getAuditRequestContext(request),
+      now
+    ),
+  ]);
 
   // Get organization name and inviter name for email
   const organization = await db
@@ -184,6 +203,7 @@ export async function POST(request: NextRequest) {
       role,
       inviteUrl,
       expiresAt,
+      locale: await getUserLocale(db, session.user.id),
     }).catch((error) => {
       console.error('Failed to send invitation email:', error);
     });
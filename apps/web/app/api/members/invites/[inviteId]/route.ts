@@ -12,6 +12,10 @@ import {
   unauthorized,
   validationError,
 } from '~/lib/api/responses';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
 
 const updateInviteSchema = z.object({
   teamId: z.string().nullable(),
@@ -66,12 +70,12 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
   // Check if invite exists and belongs to user's organization
   const invite = await db
     .prepare(
-      `SELECT id, email FROM organization_invites
+      `SELECT id, email, team_id FROM organization_invites
        WHERE id = ? AND organization_id = ? AND accepted_at IS NULL AND expires_at > datetime('now')
        LIMIT 1`
     )
     .bind(inviteId, membership.organization_id)
-    .first<{ id: string; email: string }>();
+    .first<{ id: string; email: string; team_id: string | null }>();
 
   if (!invite) {
     return notFound('Invite not found or already accepted');
@@ -94,14 +98,28 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
   }
 
   // Update the invite's team assignment
-  await db
-    .prepare(
-      `UPDATE organization_invites
-       SET team_id = ?
-       WHERE id = ?`
-    )
-    .bind(teamId, inviteId)
-    .run();
+  await db.batch([
+    db
+      .prepare(
+        `UPDATE organization_invites
+         SET team_id = ?
+         WHERE id = ?`
+      )
+      .bind(teamId, inviteId),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'member.invite_updated',
+        entityType: 'member_invite',
+        entityId: inviteId,
+        oldValues: { teamId: invite.team_id },
+        newValues: { teamId },
+      },
+      getAuditRequestContext(request)
+    ),
+  ]);
 
   return success({
     id: inviteId,
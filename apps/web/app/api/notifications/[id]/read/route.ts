@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+import { auth } from '~/lib/auth/auth';
+import { notFound, success, unauthorized } from '~/lib/api/responses';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/notifications/[id]/read
+ * Mark one of the current user's notifications as read
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const notification = await db
+    .prepare('SELECT id, read_at FROM notifications WHERE id = ? AND user_id = ?')
+    .bind(id, session.user.id)
+    .first<{ id: string; read_at: string | null }>();
+
+  if (!notification) {
+    return notFound('Notification');
+  }
+
+  // Keep the time it was first read
+  const readAt = notification.read_at ?? new Date().toISOString();
+
+  if (!notification.read_at) {
+    await db
+      .prepare('UPDATE notifications SET read_at = ? WHERE id = ?')
+      .bind(readAt, id)
+      .run();
+  }
+
+  return success({ id, readAt });
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+import { auth } from '~/lib/auth/auth';
+import { success, unauthorized } from '~/lib/api/responses';
+
+/**
+ * POST /api/notifications/read-all
+ * Mark all of the current user's unread notifications as read
+ */
+export async function POST(_request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+  const now = new Date().toISOString();
+
+  const result = await db
+    .prepare(
+      `UPDATE notifications SET read_at = ?
+       WHERE user_id = ? AND read_at IS NULL`
+    )
+    .bind(now, session.user.id)
+    .run();
+
+  return success({ updated: result.meta.changes ?? 0, readAt: now });
+}
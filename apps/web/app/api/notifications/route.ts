@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { z } from 'zod';
+
+import { auth } from '~/lib/auth/auth';
+import {
+  success,
+  unauthorized,
+  validationError,
+} from '~/lib/api/responses';
+import {
+  getNotificationTranslator,
+  mapNotificationRow,
+  type NotificationRow,
+} from '~/lib/services/notification.service';
+import { getUserLocale } from '~/lib/services/translation.service';
+
+const querySchema = z.object({
+  unreadOnly: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true'),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+/**
+ * GET /api/notifications
+ * List the current user's notifications, newest first and in their
+ * locale, with the number of unread ones
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const query = querySchema.safeParse({
+    unreadOnly: searchParams.get('unreadOnly') ?? undefined,
+    limit: searchParams.get('limit') ?? undefined,
+  });
+
+  if (!query.success) {
+    return validationError(query.error.flatten());
+  }
+
+  const { unreadOnly, limit } = query.data;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const [rows, unread] = await Promise.all([
+    db
+      .prepare(
+        `SELECT * FROM notifications
+         WHERE user_id = ? ${unreadOnly ? 'AND read_at IS NULL' : ''}
+         ORDER BY created_at DESC
+         LIMIT ?`
+      )
+      .bind(session.user.id, limit)
+      .all<NotificationRow>(),
+    db
+      .prepare(
+        `SELECT COUNT(*) AS count FROM notifications
+         WHERE user_id = ? AND read_at IS NULL`
+      )
+      .bind(session.user.id)
+      .first<{ count: number }>(),
+  ]);
+
+  // Messages are rendered in the user's current locale
+  const locale = await getUserLocale(db, session.user.id);
+  const t = await getNotificationTranslator(locale);
+
+  return success({
+    notifications: rows.results.map((row: NotificationRow) =>
+      mapNotificationRow(row, locale, t)
+    ),
+    unreadCount: unread?.count ?? 0,
+  });
+}
@@ -5,6 +5,10 @@ import { z } from 'zod';
 import { auth } from '~/lib/auth/auth';
 import { badRequest, created, unauthorized } from '~/lib/api/responses';
 import { sendMemberInvitationEmail } from '~/lib/emails';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
 import { getSiteUrl } from '~/lib/services/email.service';
 
 type TableInfoRow = { name: string };
@@ -415,29 +419,24 @@ export async function POST(request: NextRequest) {
     }
 
     // 7. Create audit log entry
-    const auditId = crypto.randomUUID();
     statements.push(
-      db
-        .prepare(
-          `INSERT INTO audit_logs (
-             id, organization_id, user_id, action, entity_type, entity_id,
-             new_values, created_at
-           ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
-        )
-        .bind(
-          auditId,
-          orgId,
+      prepareAuditLog(
+        db,
+        {
+          organizationId: orgId,
           userId,
-          'organization.created',
-          'organization',
-          orgId,
-          JSON.stringify({
+          action: 'organization.created',
+          entityType: 'organization',
+          entityId: orgId,
+          newValues: {
             name: data.organizationName,
             country: data.country,
             region: data.region,
-          }),
-          now
-        )
+          },
+        },
+        getAuditRequestContext(request),
+        now
+      )
     );
 
     // Execute all statements in batch
@@ -460,6 +459,8 @@ export async function POST(request: NextRequest) {
           role: invite.role,
           inviteUrl,
           expiresAt: invite.expiresAt,
+          // Invitees without an account get it in the owner's locale
+          locale,
         }).catch((error) => {
           console.error(`Failed to send invitation email to ${invite.email}:`, error);
         });
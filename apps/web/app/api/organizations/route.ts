@@ -13,7 +13,11 @@ import {
   unauthorized,
   validationError,
 } from '~/lib/api/responses';
-
+import {
+  getAuditRequestContext,
+  getChangedValues,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
 
 // Validation schema for creating an organization
 const createOrganizationSchema = z.object({
@@ -36,9 +40,11 @@ const updateOrganizationSchema = z.object({
   carryoverEnabled: z.boolean().optional(),
   carryoverMaxDays: z.coerce.number().min(0).max(30).optional(),
   carryoverExpiryDate: z.string().regex(/^\d{2}-\d{2}$/).optional(),
+  carryoverReminderDays: z.coerce.number().int().min(0).max(90).optional(),
   sickLeaveAuThreshold: z.coerce.number().min(1).max(7).optional(),
   requireApproval: z.boolean().optional(),
   autoApproveThreshold: z.coerce.number().min(0).max(10).nullable().optional(),
+  blockBelowMinCoverage: z.boolean().optional(),
 });
 
 /**
@@ -85,9 +91,11 @@ export async function GET(_request: NextRequest) {
     carryoverEnabled: Boolean(result.carryover_enabled),
     carryoverMaxDays: result.carryover_max_days,
     carryoverExpiryDate: result.carryover_expiry_date,
+    carryoverReminderDays: result.carryover_reminder_days,
     sickLeaveAuThreshold: result.sick_leave_au_threshold,
     requireApproval: Boolean(result.require_approval),
     autoApproveThreshold: result.auto_approve_threshold,
+    blockBelowMinCoverage: Boolean(result.block_below_min_coverage),
     memberRole: result.member_role,
   };
 
@@ -176,6 +184,20 @@ export async function POST(request: NextRequest) {
         ) VALUES (?, ?, ?, 'admin', 'active', ?, ?, ?)`
       )
       .bind(memberId, orgId, userId, now, now, now),
+
+    prepareAuditLog(
+      db,
+      {
+        organizationId: orgId,
+        userId,
+        action: 'organization.created',
+        entityType: 'organization',
+        entityId: orgId,
+        newValues: { name, slug, country, region, defaultVacationDays },
+      },
+      getAuditRequestContext(request),
+      now
+    ),
   ]);
 
   // Copy default leave types for the organization
@@ -270,17 +292,18 @@ export async function PATCH(request: NextRequest) {
     updates.country !== undefined ||
     updates.region !== undefined;
 
+  // The settings before the update, for the audit log
+  const previous = await db
+    .prepare('SELECT * FROM organizations WHERE id = ?')
+    .bind(membership.organization_id)
+    .first<Record<string, unknown>>();
+
   let currentCountry: string | null = null;
   let currentRegion: string | null = null;
 
   if (hasLocationUpdates) {
-    const current = await db
-      .prepare('SELECT country, region FROM organizations WHERE id = ?')
-      .bind(membership.organization_id)
-      .first<{ country: string; region: string | null }>();
-
-    currentCountry = current?.country ?? 'DE';
-    currentRegion = current?.region ?? null;
+    currentCountry = (previous?.country as string | undefined) ?? 'DE';
+    currentRegion = (previous?.region as string | null | undefined) ?? null;
   }
 
   let nextCountry = currentCountry ?? 'DE';
@@ -341,6 +364,10 @@ export async function PATCH(request: NextRequest) {
     setClauses.push('carryover_expiry_date = ?');
     params.push(updates.carryoverExpiryDate);
   }
+  if (updates.carryoverReminderDays !== undefined) {
+    setClauses.push('carryover_reminder_days = ?');
+    params.push(updates.carryoverReminderDays);
+  }
   if (updates.sickLeaveAuThreshold !== undefined) {
     setClauses.push('sick_leave_au_threshold = ?');
     params.push(updates.sickLeaveAuThreshold);
@@ -353,6 +380,10 @@ export async function PATCH(request: NextRequest) {
     setClauses.push('auto_approve_threshold = ?');
     params.push(updates.autoApproveThreshold);
   }
+  if (updates.blockBelowMinCoverage !== undefined) {
+    setClauses.push('block_below_min_coverage = ?');
+    params.push(updates.blockBelowMinCoverage ? 1 : 0);
+  }
 
   if (setClauses.length === 0) {
     return badRequest('No fields to update');
@@ -377,6 +408,23 @@ export async function PATCH(request: NextRequest) {
     return badRequest('Organization not found');
   }
 
+  const { updated_at: _previousUpdatedAt, ...previousSettings } = previous ?? {};
+  const { updated_at: _updatedAt, ...updatedSettings } = updated;
+
+  await prepareAuditLog(
+    db,
+    {
+      organizationId: membership.organization_id,
+      userId: session.user.id,
+      action: 'organization.updated',
+      entityType: 'organization',
+      entityId: membership.organization_id,
+      ...getChangedValues(previousSettings, updatedSettings),
+    },
+    getAuditRequestContext(request),
+    now
+  ).run();
+
   return success({
     id: updated.id,
     name: updated.name,
@@ -387,8 +435,10 @@ export async function PATCH(request: NextRequest) {
     carryoverEnabled: Boolean(updated.carryover_enabled),
     carryoverMaxDays: updated.carryover_max_days,
     carryoverExpiryDate: updated.carryover_expiry_date,
+    carryoverReminderDays: updated.carryover_reminder_days,
     sickLeaveAuThreshold: updated.sick_leave_au_threshold,
     requireApproval: Boolean(updated.require_approval),
     autoApproveThreshold: updated.auto_approve_threshold,
+    blockBelowMinCoverage: Boolean(updated.block_below_min_coverage),
   });
 }
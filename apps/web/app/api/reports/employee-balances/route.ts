@@ -11,7 +11,10 @@ import {
   unauthorized,
   validationError,
 } from '~/lib/api/responses';
-
+import {
+  getCarryoverStatus,
+  loadCarryoverDaysTaken,
+} from '~/lib/services/carryover.service';
 
 const querySchema = z.object({
   year: z.coerce.number().min(2020).max(2030).optional(),
@@ -107,6 +110,11 @@ export async function GET(request: NextRequest) {
       lb.used,
       lb.pending,
       (lb.entitled + lb.carried_over + lb.adjustment - lb.used - lb.pending) as remaining,
+      lb.carryover_expires_at,
+      lb.carryover_expired_at,
+      lb.carryover_expired,
+      lb.id as balance_id,
+      lb.leave_type_id,
       lt.name_en as leave_type_name,
       lt.code as leave_type_code
     FROM organization_members om
@@ -164,6 +172,20 @@ export async function GET(request: NextRequest) {
     .bind(...dataParams)
     .all<Record<string, unknown>>();
 
+  const carryoverDaysTaken = await loadCarryoverDaysTaken(
+    db,
+    dataResult.results
+      .filter((row: Record<string, unknown>) => row.balance_id !== null)
+      .map((row: Record<string, unknown>) => ({
+        id: row.balance_id as string,
+        organizationId: membership.organization_id,
+        userId: row.user_id as string,
+        leaveTypeId: row.leave_type_id as string,
+        year: effectiveYear,
+        expiresAt: row.carryover_expires_at as string | null,
+      }))
+  );
+
   const employees = dataResult.results.map((row: Record<string, unknown>) => ({
     userId: row.user_id,
     name: row.name || row.email,
@@ -183,6 +205,14 @@ export async function GET(request: NextRequest) {
           used: row.used,
           pending: row.pending,
           remaining: row.remaining,
+          carryover: getCarryoverStatus({
+            carriedOver: row.carried_over as number,
+            expiresAt: row.carryover_expires_at as string | null,
+            expiredAt: row.carryover_expired_at as string | null,
+            expired: row.carryover_expired as number,
+            daysTakenBeforeExpiry:
+              carryoverDaysTaken.get(row.balance_id as string) ?? 0,
+          }),
         }
       : null,
   }));
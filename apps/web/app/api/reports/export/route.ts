@@ -5,15 +5,29 @@ import { z } from 'zod';
 
 import { auth } from '~/lib/auth/auth';
 import { badRequest, forbidden, unauthorized } from '~/lib/api/responses';
-
+import {
+  AUDIT_LOG_COLUMNS,
+  type AuditLogRow,
+  buildAuditLogFilter,
+} from '~/lib/services/audit.service';
+import { getDocumentStatus } from '~/lib/services/document.service';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '~/lib/types';
 
 const querySchema = z.object({
-  type: z.enum(['balances', 'requests', 'summary']),
+  type: z.enum(['balances', 'requests', 'summary', 'audit']),
   year: z.coerce.number().min(2020).max(2030).optional(),
   startDate: z.string().optional(),
   endDate: z.string().optional(),
+  // Audit log filters
+  userId: z.string().optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
 });
 
+// Quote a value for a CSV cell
+const csvCell = (value: unknown) =>
+  `"${String(value ?? '').replace(/"/g, '""')}"`;
+
 /**
  * GET /api/reports/export
  * Export report data as CSV
@@ -31,13 +45,17 @@ export async function GET(request: NextRequest) {
     year: searchParams.get('year') ?? undefined,
     startDate: searchParams.get('startDate') ?? undefined,
     endDate: searchParams.get('endDate') ?? undefined,
+    userId: searchParams.get('userId') ?? undefined,
+    entityType: searchParams.get('entityType') ?? undefined,
+    action: searchParams.get('action') ?? undefined,
   });
 
   if (!query.success) {
     return new NextResponse('Invalid parameters', { status: 400 });
   }
 
-  const { type, year, startDate, endDate } = query.data;
+  const { type, year, startDate, endDate, userId, entityType, action } =
+    query.data;
   const { env } = getCloudflareContext();
   const db = env.DB;
 
@@ -60,6 +78,10 @@ export async function GET(request: NextRequest) {
     return forbidden('Only admins, managers, and HR can export reports');
   }
 
+  if (type === 'audit' && membership.role !== 'admin') {
+    return forbidden('Only admins can export the audit log');
+  }
+
   const effectiveYear = year ?? new Date().getFullYear();
   const effectiveStartDate = startDate ?? `${effectiveYear}-01-01`;
   const effectiveEndDate = endDate ?? `${effectiveYear}-12-31`;
@@ -112,7 +134,10 @@ export async function GET(request: NextRequest) {
           lr.work_days,
           lr.status,
           lr.reason,
-          lr.submitted_at
+          lr.submitted_at,
+          lr.document_required,
+          lr.document_due_date,
+          lr.document_url
         FROM leave_requests lr
         JOIN users u ON lr.user_id = u.id
         JOIN leave_types lt ON lr.leave_type_id = lt.id
@@ -125,13 +150,58 @@ export async function GET(request: NextRequest) {
       .all<Record<string, unknown>>();
 
     csvContent =
-      'Name,Email,Leave Type,Start Date,End Date,Work Days,Status,Reason,Submitted At\n';
+      'Name,Email,Leave Type,Start Date,End Date,Work Days,Status,Reason,Submitted At,Document,Document Due\n';
     result.results.forEach((row: Record<string, unknown>) => {
       const reason = String(row.reason || '').replace(/"/g, '""');
-      csvContent += `"${row.name || ''}","${row.email}","${row.leave_type}","${row.start_date}","${row.end_date}",${row.work_days},"${row.status}","${reason}","${row.submitted_at}"\n`;
+      const documentStatus = getDocumentStatus(
+        Boolean(row.document_required),
+        (row.document_due_date as string | null) ?? null,
+        (row.document_url as string | null) ?? null
+      );
+      csvContent += `"${row.name || ''}","${row.email}","${row.leave_type}","${row.start_date}","${row.end_date}",${row.work_days},"${row.status}","${reason}","${row.submitted_at}","${documentStatus}","${row.document_due_date || ''}"\n`;
     });
 
     filename = `leave-requests-${effectiveStartDate}-to-${effectiveEndDate}.csv`;
+  } else if (type === 'audit') {
+    // Export the audit log with the same filters as the log viewer
+    const { where, params } = buildAuditLogFilter(membership.organization_id, {
+      userId,
+      entityType,
+      action,
+      startDate,
+      endDate,
+    });
+    const result = await db
+      .prepare(
+        `SELECT ${AUDIT_LOG_COLUMNS}
+         FROM audit_logs al
+         LEFT JOIN users u ON u.id = al.user_id
+         ${where}
+         ORDER BY al.created_at DESC`
+      )
+      .bind(...params)
+      .all<AuditLogRow>();
+
+    csvContent =
+      'Timestamp,User,Email,Action,Entity Type,Entity ID,Old Values,New Values,IP Address,User Agent\n';
+    result.results.forEach((row: AuditLogRow) => {
+      csvContent += `${[
+        row.created_at,
+        row.user_name,
+        row.user_email,
+        row.action,
+        row.entity_type,
+        row.entity_id,
+        row.old_values,
+        row.new_values,
+        row.ip_address,
+        row.user_agent,
+      ]
+        .map(csvCell)
+        .join(',')}\n`;
+    });
+
+    filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
   } else {
     // Export summary
     const usageByType = await db
@@ -11,6 +11,10 @@ import {
   unauthorized,
   validationError,
 } from '~/lib/api/responses';
+import {
+  joinLeaveTypeSettings,
+  leaveTypeSetting,
+} from '~/lib/services/leave-type.service';
 
 
 const querySchema = z.object({
@@ -79,13 +83,14 @@ export async function GET(request: NextRequest) {
       lt.code,
       lt.name_en,
       lt.name_de,
-      lt.color,
+      ${leaveTypeSetting('color')} as color,
       COUNT(lr.id) as request_count,
       COALESCE(SUM(lr.work_days), 0) as total_days,
       COUNT(CASE WHEN lr.status = 'approved' THEN 1 END) as approved_count,
       COUNT(CASE WHEN lr.status = 'pending' THEN 1 END) as pending_count,
       COUNT(CASE WHEN lr.status = 'rejected' THEN 1 END) as rejected_count
     FROM leave_types lt
+    ${joinLeaveTypeSettings('?')}
     LEFT JOIN leave_requests lr ON lt.id = lr.leave_type_id
       AND lr.organization_id = ?
       AND lr.start_date >= ?
@@ -94,6 +99,7 @@ export async function GET(request: NextRequest) {
   `;
 
   const usageParams: (string | number)[] = [
+    membership.organization_id,
     membership.organization_id,
     effectiveStartDate,
     effectiveEndDate,
@@ -170,6 +176,21 @@ export async function GET(request: NextRequest) {
     .bind(membership.organization_id, today, today)
     .first<{ count: number }>();
 
+  // Get requests whose required document has not been provided yet
+  const missingDocuments = await db
+    .prepare(
+      `SELECT
+        COUNT(*) as missing,
+        COUNT(CASE WHEN document_due_date < ? THEN 1 END) as overdue
+       FROM leave_requests
+       WHERE organization_id = ?
+         AND status IN ('pending', 'approved')
+         AND document_required = 1
+         AND document_url IS NULL`
+    )
+    .bind(today, membership.organization_id)
+    .first<{ missing: number; overdue: number }>();
+
   // Get team breakdown (if teams exist)
   const teamBreakdown = await db
     .prepare(
@@ -205,6 +226,8 @@ export async function GET(request: NextRequest) {
       approvedRequests: stats?.approved_requests ?? 0,
       employeesWithLeave: stats?.employees_with_leave ?? 0,
       employeesOnLeaveToday: onLeaveToday?.count ?? 0,
+      missingDocuments: missingDocuments?.missing ?? 0,
+      overdueDocuments: missingDocuments?.overdue ?? 0,
     },
     byLeaveType: usageByType.results.map((row: Record<string, unknown>) => ({
       leaveTypeId: row.leave_type_id,
@@ -4,6 +4,8 @@ import { getCloudflareContext } from '@opennextjs/cloudflare';
 
 import { auth } from '~/lib/auth/auth';
 import { forbidden, success, unauthorized } from '~/lib/api/responses';
+import { loadWorkSchedules } from '~/lib/services/work-schedule.service';
+import { isScheduledWorkDay } from '~/lib/utils/work-schedule';
 
 
 interface TeamAvailabilityRow {
@@ -136,6 +138,9 @@ export async function GET(_: NextRequest) {
     )
     .all<TeamAvailabilityRow>();
 
+  const workSchedules = await loadWorkSchedules(db, membership.organization_id);
+  const today = new Date().toISOString().split('T')[0]!;
+
   const members = result.results.map((row: TeamAvailabilityRow) => ({
     id: row.id,
     role: row.role,
@@ -171,6 +176,10 @@ export async function GET(_: NextRequest) {
             startDate: row.next_leave_start_date,
           }
         : null,
+    workingToday: isScheduledWorkDay(
+      workSchedules.get(row.user_id) ?? [],
+      today
+    ),
   }));
 
   return success(members);
@@ -0,0 +1,122 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { z } from 'zod';
+
+import { auth } from '~/lib/auth/auth';
+import {
+  badRequest,
+  forbidden,
+  success,
+  unauthorized,
+  validationError,
+} from '~/lib/api/responses';
+import {
+  isPotentialApprover,
+  loadApprovalContext,
+} from '~/lib/services/approval.service';
+import { getCoverageConflicts } from '~/lib/services/coverage.service';
+import { getHolidays } from '~/lib/services/holiday.service';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format');
+
+const querySchema = z
+  .object({
+    userId: z.string().optional(),
+    startDate: dateSchema,
+    endDate: dateSchema,
+    leaveRequestId: z.string().optional(),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: 'endDate must be after or equal to startDate',
+    path: ['endDate'],
+  });
+
+/**
+ * GET /api/team-coverage
+ * Get the days on which a member's absence would drop one of their teams
+ * below its minimum coverage.
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const parsed = querySchema.safeParse({
+    userId: searchParams.get('userId') ?? undefined,
+    startDate: searchParams.get('startDate') ?? undefined,
+    endDate: searchParams.get('endDate') ?? undefined,
+    leaveRequestId: searchParams.get('leaveRequestId') ?? undefined,
+  });
+
+  if (!parsed.success) {
+    return validationError(parsed.error.flatten());
+  }
+
+  const { startDate, endDate, leaveRequestId } = parsed.data;
+  const userId = parsed.data.userId ?? session.user.id;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const membership = await db
+    .prepare(
+      `SELECT organization_id, role FROM organization_members
+       WHERE user_id = ? AND status = 'active'
+       LIMIT 1`
+    )
+    .bind(session.user.id)
+    .first<{ organization_id: string; role: string }>();
+
+  if (!membership) {
+    return badRequest('You are not a member of any organization');
+  }
+
+  if (userId !== session.user.id && !['admin', 'manager', 'hr'].includes(membership.role)) {
+    const approvalContext = await loadApprovalContext(
+      db,
+      membership.organization_id
+    );
+
+    if (!isPotentialApprover(approvalContext, session.user.id)) {
+      return forbidden('You cannot view the team coverage of other members');
+    }
+  }
+
+  const org = await db
+    .prepare(
+      `SELECT country, region, bundesland, block_below_min_coverage
+       FROM organizations WHERE id = ?`
+    )
+    .bind(membership.organization_id)
+    .first<{
+      country: string;
+      region: string | null;
+      bundesland: string | null;
+      block_below_min_coverage: number | null;
+    }>();
+
+  const holidays = await getHolidays(db, {
+    country: org?.country ?? 'DE',
+    region: org?.region ?? org?.bundesland ?? null,
+    organizationId: membership.organization_id,
+    startDate,
+    endDate,
+  });
+
+  const conflicts = await getCoverageConflicts(db, {
+    organizationId: membership.organization_id,
+    userId,
+    startDate,
+    endDate,
+    holidays,
+    excludeLeaveRequestId: leaveRequestId,
+  });
+
+  return success({
+    conflicts,
+    isBlocking: conflicts.length > 0 && Boolean(org?.block_below_min_coverage),
+  });
+}
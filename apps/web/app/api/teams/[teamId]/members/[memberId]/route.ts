@@ -10,6 +10,10 @@ import {
   success,
   unauthorized,
 } from '~/lib/api/responses';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
 
 interface RouteParams {
   params: Promise<{ teamId: string; memberId: string }>;
@@ -19,7 +23,7 @@ interface RouteParams {
  * DELETE /api/teams/[teamId]/members/[memberId]
  * Remove a member from a team
  */
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
   const session = await auth();
 
   if (!session?.user?.id) {
@@ -74,10 +78,23 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
   }
 
   // Remove the member from the team
-  await db
-    .prepare(`DELETE FROM team_members WHERE team_id = ? AND user_id = ?`)
-    .bind(teamId, memberId)
-    .run();
+  await db.batch([
+    db
+      .prepare(`DELETE FROM team_members WHERE team_id = ? AND user_id = ?`)
+      .bind(teamId, memberId),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'team.member_removed',
+        entityType: 'team',
+        entityId: teamId,
+        oldValues: { memberId },
+      },
+      getAuditRequestContext(request)
+    ),
+  ]);
 
   return success({ removed: true, teamId, memberId });
 }
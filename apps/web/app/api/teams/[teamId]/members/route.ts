@@ -12,6 +12,10 @@ import {
   unauthorized,
   validationError,
 } from '~/lib/api/responses';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
 
 interface TeamMemberRow {
   user_id: string;
@@ -222,6 +226,22 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       .bind(crypto.randomUUID(), teamId, userId, now)
   );
 
+  statements.push(
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'team.member_added',
+        entityType: 'team',
+        entityId: teamId,
+        newValues: { memberIds: validMemberIds },
+      },
+      getAuditRequestContext(request),
+      now
+    )
+  );
+
   await db.batch(statements);
 
   return success({
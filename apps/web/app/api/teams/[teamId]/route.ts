@@ -10,6 +10,10 @@ import {
   success,
   unauthorized,
 } from '~/lib/api/responses';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
 
 interface RouteParams {
   params: Promise<{ teamId: string }>;
@@ -19,7 +23,7 @@ interface RouteParams {
  * DELETE /api/teams/[teamId]
  * Delete a team and all its member associations
  */
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
   const session = await auth();
 
   if (!session?.user?.id) {
@@ -52,10 +56,17 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
   // Verify team exists and belongs to user's organization
   const team = await db
     .prepare(
-      `SELECT id, name FROM teams WHERE id = ? AND organization_id = ? LIMIT 1`
+      `SELECT id, name, description, color, min_coverage
+       FROM teams WHERE id = ? AND organization_id = ? LIMIT 1`
     )
     .bind(teamId, membership.organization_id)
-    .first<{ id: string; name: string }>();
+    .first<{
+      id: string;
+      name: string;
+      description: string | null;
+      color: string | null;
+      min_coverage: number | null;
+    }>();
 
   if (!team) {
     return notFound('Team');
@@ -65,6 +76,23 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
   await db.batch([
     db.prepare(`DELETE FROM team_members WHERE team_id = ?`).bind(teamId),
     db.prepare(`DELETE FROM teams WHERE id = ?`).bind(teamId),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'team.deleted',
+        entityType: 'team',
+        entityId: teamId,
+        oldValues: {
+          name: team.name,
+          description: team.description,
+          color: team.color,
+          minCoverage: team.min_coverage,
+        },
+      },
+      getAuditRequestContext(request)
+    ),
   ]);
 
   return success({ deleted: true, teamId, teamName: team.name });
@@ -13,6 +13,10 @@ import {
   unauthorized,
   validationError,
 } from '~/lib/api/responses';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
 
 
 interface TeamRow {
@@ -34,7 +38,7 @@ const createTeamSchema = z.object({
     .regex(/^#([0-9a-fA-F]{3}){1,2}$/, 'Invalid color format')
     .optional()
     .nullable(),
-  minCoverage: z.coerce.number().int().min(1).optional().nullable(),
+  minCoverage: z.coerce.number().int().min(0).optional().nullable(),
   memberIds: z.array(z.string()).optional(),
 });
 
@@ -208,6 +212,28 @@ export async function POST(request: NextRequest) {
     statements.push(...memberStatements);
   }
 
+  statements.push(
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'team.created',
+        entityType: 'team',
+        entityId: teamId,
+        newValues: {
+          name,
+          description: description || null,
+          color: color || '#6366F1',
+          minCoverage: minCoverage ?? 1,
+          memberIds: validMemberIds,
+        },
+      },
+      getAuditRequestContext(request),
+      now
+    )
+  );
+
   await db.batch(statements);
 
   return created({
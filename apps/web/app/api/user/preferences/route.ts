@@ -10,7 +10,7 @@ import {
   unauthorized,
   validationError,
 } from '~/lib/api/responses';
-
+import { parseNotificationPreferences } from '~/lib/services/notification.service';
 
 // Notification preferences schema
 const notificationPreferencesSchema = z.object({
@@ -63,18 +63,10 @@ export async function GET() {
     return badRequest('User not found');
   }
 
-  // Parse notification preferences from JSON
-  let notificationPreferences = {};
-  if (user.notification_preferences) {
-    try {
-      notificationPreferences = JSON.parse(user.notification_preferences);
-    } catch {
-      // Invalid JSON, use empty object
-    }
-  }
-
   return success({
-    notificationPreferences,
+    notificationPreferences: parseNotificationPreferences(
+      user.notification_preferences
+    ),
     locale: user.locale || 'de',
     timezone: user.timezone || 'Europe/Berlin',
   });
@@ -156,17 +148,10 @@ export async function PATCH(request: NextRequest) {
     return badRequest('User not found');
   }
 
-  let notificationPreferences = {};
-  if (user.notification_preferences) {
-    try {
-      notificationPreferences = JSON.parse(user.notification_preferences);
-    } catch {
-      // Invalid JSON, use empty object
-    }
-  }
-
   return success({
-    notificationPreferences,
+    notificationPreferences: parseNotificationPreferences(
+      user.notification_preferences
+    ),
     locale: user.locale || 'de',
     timezone: user.timezone || 'Europe/Berlin',
   });
@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+import { auth } from '~/lib/auth/auth';
+import {
+  badRequest,
+  forbidden,
+  noContent,
+  notFound,
+  unauthorized,
+} from '~/lib/api/responses';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/work-schedules/[id]
+ * Remove a work schedule; the member's previous schedule applies again
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const membership = await db
+    .prepare(
+      `SELECT organization_id, role FROM organization_members
+       WHERE user_id = ? AND status = 'active'
+       LIMIT 1`
+    )
+    .bind(session.user.id)
+    .first<{ organization_id: string; role: string }>();
+
+  if (!membership) {
+    return badRequest('You are not a member of any organization');
+  }
+
+  if (!['admin', 'hr'].includes(membership.role)) {
+    return forbidden('Only admins and HR can manage work schedules');
+  }
+
+  const schedule = await db
+    .prepare(
+      `SELECT organization_id, user_id, effective_from, weekday_hours,
+              alternate_weekday_hours
+       FROM work_schedules WHERE id = ?`
+    )
+    .bind(id)
+    .first<{
+      organization_id: string;
+      user_id: string;
+      effective_from: string;
+      weekday_hours: string;
+      alternate_weekday_hours: string | null;
+    }>();
+
+  if (!schedule) {
+    return notFound('Work schedule');
+  }
+
+  if (schedule.organization_id !== membership.organization_id) {
+    return forbidden('Cannot delete work schedules from other organizations');
+  }
+
+  await db.batch([
+    db.prepare('DELETE FROM work_schedules WHERE id = ?').bind(id),
+    prepareAuditLog(
+      db,
+      {
+        organizationId: schedule.organization_id,
+        userId: session.user.id,
+        action: 'work_schedule.deleted',
+        entityType: 'work_schedule',
+        entityId: `${schedule.user_id}:${schedule.effective_from}`,
+        oldValues: {
+          userId: schedule.user_id,
+          effectiveFrom: schedule.effective_from,
+          weekdayHours: JSON.parse(schedule.weekday_hours),
+          alternateWeekdayHours: schedule.alternate_weekday_hours
+            ? JSON.parse(schedule.alternate_weekday_hours)
+            : null,
+        },
+      },
+      getAuditRequestContext(request)
+    ),
+  ]);
+
+  return noContent();
+}
@@ -0,0 +1,202 @@
+import { NextRequest } from 'next/server';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { z } from 'zod';
+
+import { auth } from '~/lib/auth/auth';
+import {
+  badRequest,
+  created,
+  forbidden,
+  success,
+  unauthorized,
+  validationError,
+} from '~/lib/api/responses';
+import {
+  getAuditRequestContext,
+  prepareAuditLog,
+} from '~/lib/services/audit.service';
+import { getWorkSchedules } from '~/lib/services/work-schedule.service';
+
+// Roles that can see and manage everyone's work schedules
+const SCHEDULE_MANAGER_ROLES = ['admin', 'hr'];
+const SCHEDULE_VIEWER_ROLES = ['admin', 'hr', 'manager'];
+
+const weekdayHoursSchema = z
+  .array(z.coerce.number().min(0).max(24))
+  .length(7, 'Hours are required for all seven weekdays');
+
+const saveWorkScheduleSchema = z
+  .object({
+    userId: z.string().min(1),
+    effectiveFrom: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format'),
+    weekdayHours: weekdayHoursSchema,
+    alternateWeekdayHours: weekdayHoursSchema.nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      [...data.weekdayHours, ...(data.alternateWeekdayHours ?? [])].some(
+        (hours) => hours > 0
+      ),
+    {
+      message: 'The schedule needs at least one working day',
+      path: ['weekdayHours'],
+    }
+  );
+
+/**
+ * GET /api/work-schedules
+ * Get the work schedules of a member (default: the current user)
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const userId = request.nextUrl.searchParams.get('userId') ?? session.user.id;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const membership = await db
+    .prepare(
+      `SELECT organization_id, role FROM organization_members
+       WHERE user_id = ? AND status = 'active'
+       LIMIT 1`
+    )
+    .bind(session.user.id)
+    .first<{ organization_id: string; role: string }>();
+
+  if (!membership) {
+    return badRequest('You are not a member of any organization');
+  }
+
+  if (
+    userId !== session.user.id &&
+    !SCHEDULE_VIEWER_ROLES.includes(membership.role)
+  ) {
+    return forbidden("Cannot view other members' work schedules");
+  }
+
+  const schedules = await getWorkSchedules(
+    db,
+    membership.organization_id,
+    userId
+  );
+
+  return success(schedules);
+}
+
+/**
+ * POST /api/work-schedules
+ * Add a member's work schedule from a date, replacing the one starting
+ * on the same date
+ */
+export async function POST(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = saveWorkScheduleSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return validationError(parsed.error.flatten());
+  }
+
+  const { userId, effectiveFrom, weekdayHours, alternateWeekdayHours } =
+    parsed.data;
+  const { env } = getCloudflareContext();
+  const db = env.DB;
+
+  const membership = await db
+    .prepare(
+      `SELECT organization_id, role FROM organization_members
+       WHERE user_id = ? AND status = 'active'
+       LIMIT 1`
+    )
+    .bind(session.user.id)
+    .first<{ organization_id: string; role: string }>();
+
+  if (!membership) {
+    return badRequest('You are not a member of any organization');
+  }
+
+  if (!SCHEDULE_MANAGER_ROLES.includes(membership.role)) {
+    return forbidden('Only admins and HR can manage work schedules');
+  }
+
+  const targetMember = await db
+    .prepare(
+      `SELECT id FROM organization_members
+       WHERE user_id = ? AND organization_id = ?
+       LIMIT 1`
+    )
+    .bind(userId, membership.organization_id)
+    .first();
+
+  if (!targetMember) {
+    return badRequest('User is not a member of this organization');
+  }
+
+  const now = new Date().toISOString();
+  const scheduleId = crypto.randomUUID();
+
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO work_schedules (
+          id, organization_id, user_id, effective_from, weekday_hours,
+          alternate_weekday_hours, created_by, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(organization_id, user_id, effective_from) DO UPDATE SET
+          weekday_hours = excluded.weekday_hours,
+          alternate_weekday_hours = excluded.alternate_weekday_hours,
+          created_by = excluded.created_by,
+          updated_at = excluded.updated_at`
+      )
+      .bind(
+        scheduleId,
+        membership.organization_id,
+        userId,
+        effectiveFrom,
+        JSON.stringify(weekdayHours),
+        alternateWeekdayHours ? JSON.stringify(alternateWeekdayHours) : null,
+        session.user.id,
+        now,
+        now
+      ),
+    // A replaced schedule keeps its id, so it is logged by member and date
+    prepareAuditLog(
+      db,
+      {
+        organizationId: membership.organization_id,
+        userId: session.user.id,
+        action: 'work_schedule.saved',
+        entityType: 'work_schedule',
+        entityId: `${userId}:${effectiveFrom}`,
+        newValues: {
+          userId,
+          effectiveFrom,
+          weekdayHours,
+          alternateWeekdayHours: alternateWeekdayHours ?? null,
+        },
+      },
+      getAuditRequestContext(request),
+      now
+    ),
+  ]);
+
+  const schedules = await getWorkSchedules(
+    db,
+    membership.organization_id,
+    userId
+  );
+
+  return created(schedules);
+}
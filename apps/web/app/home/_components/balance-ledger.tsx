@@ -0,0 +1,124 @@
+'use client';
+
+import { format, parseISO } from 'date-fns';
+
+import { Skeleton } from '@kit/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@kit/ui/table';
+import { Trans } from '@kit/ui/trans';
+import { cn } from '@kit/ui/utils';
+
+import { useBalanceHistory } from '~/lib/hooks';
+import type { BalanceLedgerEntry } from '~/lib/types';
+
+interface BalanceLedgerProps {
+  balanceId: string | null;
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+function LedgerEntryDescription({ entry }: { entry: BalanceLedgerEntry }) {
+  if (entry.type === 'leave' && entry.leaveRequest) {
+    return (
+      <Trans
+        i18nKey="leave:balance.ledger.leave"
+        values={{
+          startDate: formatDate(entry.leaveRequest.startDate),
+          endDate: formatDate(entry.leaveRequest.endDate),
+        }}
+      />
+    );
+  }
+
+  if (entry.type === 'adjustment' && entry.adjustment) {
+    return (
+      <div className="space-y-0.5">
+        <div>
+          <Trans i18nKey={`leave:balance.ledger.kinds.${entry.adjustment.kind}`} />
+        </div>
+        <div className="text-muted-foreground text-xs">
+          {entry.adjustment.reason}
+          {entry.adjustment.createdBy?.name ? (
+            <>
+              {' · '}
+              <Trans
+                i18nKey="leave:balance.ledger.postedBy"
+                values={{ name: entry.adjustment.createdBy.name }}
+              />
+            </>
+          ) : null}
+        </div>
+      </div>
+    );
+  }
+
+  return <Trans i18nKey={`leave:balance.ledger.types.${entry.type}`} />;
+}
+
+/**
+ * Transaction history of a leave balance, from the entitlement through
+ * every adjustment and approved request, with the running balance.
+ */
+export function BalanceLedger({ balanceId }: BalanceLedgerProps) {
+  const { data: entries, isLoading } = useBalanceHistory(balanceId);
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (!entries || entries.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        <Trans i18nKey="leave:balance.ledger.empty" />
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>
+            <Trans i18nKey="leave:balance.ledger.date" />
+          </TableHead>
+          <TableHead>
+            <Trans i18nKey="leave:balance.ledger.transaction" />
+          </TableHead>
+          <TableHead className="text-right">
+            <Trans i18nKey="leave:balance.ledger.days" />
+          </TableHead>
+          <TableHead className="text-right">
+            <Trans i18nKey="leave:balance.ledger.balance" />
+          </TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={entry.id}>
+            <TableCell className="whitespace-nowrap">{formatDate(entry.date)}</TableCell>
+            <TableCell>
+              <LedgerEntryDescription entry={entry} />
+            </TableCell>
+            <TableCell
+              className={cn(
+                'text-right tabular-nums',
+                entry.days < 0 && 'text-destructive'
+              )}
+            >
+              {entry.days > 0 ? `+${entry.days}` : entry.days}
+            </TableCell>
+            <TableCell className="text-right font-medium tabular-nums">
+              {entry.balance}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -7,6 +7,8 @@ import { AppLogo } from '~/components/app-logo';
 import { ProfileAccountDropdownContainer } from '~/components/personal-account-dropdown-container';
 import { navigationConfig } from '~/config/navigation.config';
 
+import { NotificationBell } from './notification-bell';
+
 export function HomeMenuNavigation() {
   const routes = navigationConfig.routes.reduce<
     Array<{
@@ -40,6 +42,8 @@ export function HomeMenuNavigation() {
       </div>
 
       <div className={'flex justify-end space-x-2.5'}>
+        <NotificationBell align="end" />
+
         <div>
           <ProfileAccountDropdownContainer showProfileName={false} />
         </div>
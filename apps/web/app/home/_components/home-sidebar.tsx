@@ -15,6 +15,8 @@ import { AppLogo } from '~/components/app-logo';
 import { ProfileAccountDropdownContainer } from '~/components/personal-account-dropdown-container';
 import { navigationConfig } from '~/config/navigation.config';
 
+import { NotificationBell } from './notification-bell';
+
 function SidebarLogo() {
   const { state } = useSidebar();
   const isCollapsed = state === 'collapsed';
@@ -28,6 +30,17 @@ function SidebarLogo() {
   );
 }
 
+function SidebarNotificationBell() {
+  const { state } = useSidebar();
+
+  // No room next to the logo in the collapsed sidebar
+  if (state === 'collapsed') {
+    return null;
+  }
+
+  return <NotificationBell />;
+}
+
 export function HomeSidebar(props: {
   account?: {
     id: string | null;
@@ -43,6 +56,8 @@ export function HomeSidebar(props: {
           <div>
             <SidebarLogo />
           </div>
+
+          <SidebarNotificationBell />
         </div>
       </SidebarHeader>
 
@@ -1,35 +1,55 @@
 'use client';
 
+import { format, parseISO } from 'date-fns';
+import { Clock, History } from 'lucide-react';
+
+import { Button } from '@kit/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@kit/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@kit/ui/dialog';
 import { Progress } from '@kit/ui/progress';
 import { Skeleton } from '@kit/ui/skeleton';
 import { Trans } from '@kit/ui/trans';
 
 import { useLeaveBalances } from '~/lib/hooks';
+import type { CarryoverStatus } from '~/lib/types';
+
+import { BalanceLedger } from './balance-ledger';
 
 interface LeaveBalanceCardProps {
+  balanceId: string;
   leaveType: {
     code: string;
-    nameEn: string;
+    name: string;
     nameDe: string;
     color: string;
   };
   entitled: number;
   carriedOver: number;
+  adjustment: number;
   used: number;
   pending: number;
   remaining: number;
+  carryover?: CarryoverStatus;
 }
 
 function LeaveBalanceCard({
+  balanceId,
   leaveType,
   entitled,
   carriedOver,
+  adjustment,
   used,
   pending,
   remaining,
+  carryover,
 }: LeaveBalanceCardProps) {
-  const total = entitled + carriedOver;
+  const total = entitled + carriedOver + adjustment;
   const usedPercentage = total > 0 ? ((used + pending) / total) * 100 : 0;
 
   return (
@@ -41,8 +61,34 @@ function LeaveBalanceCard({
             style={{ backgroundColor: leaveType.color }}
           />
           <CardTitle className="text-base">
-            <Trans i18nKey={`leave:types.${leaveType.code}`} />
+            <Trans
+              i18nKey={`leave:types.${leaveType.code}`}
+              defaults={leaveType.name}
+            />
           </CardTitle>
+          <Dialog>
+            <DialogTrigger asChild>
+              <Button variant="ghost" size="icon" className="ml-auto h-6 w-6">
+                <History className="h-3.5 w-3.5" />
+                <span className="sr-only">
+                  <Trans i18nKey="leave:balance.ledger.title" />
+                </span>
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>
+                  <Trans
+                    i18nKey={`leave:types.${leaveType.code}`}
+                    defaults={leaveType.name}
+                  />
+                  {' · '}
+                  <Trans i18nKey="leave:balance.ledger.title" />
+                </DialogTitle>
+              </DialogHeader>
+              <BalanceLedger balanceId={balanceId} />
+            </DialogContent>
+          </Dialog>
         </div>
       </CardHeader>
       <CardContent>
@@ -77,6 +123,31 @@ function LeaveBalanceCard({
             </>
           )}
 
+          {carryover?.expiresAt && carryover.expiring > 0 && (
+            <div className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-500">
+              <Clock className="h-3 w-3" />
+              <Trans
+                i18nKey="leave:balance.carryoverExpiring"
+                values={{
+                  days: carryover.expiring,
+                  date: format(parseISO(carryover.expiresAt), 'MMM d, yyyy'),
+                }}
+              />
+            </div>
+          )}
+
+          {carryover?.expiresAt && carryover.expired > 0 && (
+            <div className="text-muted-foreground text-xs">
+              <Trans
+                i18nKey="leave:balance.carryoverForfeited"
+                values={{
+                  days: carryover.expired,
+                  date: format(parseISO(carryover.expiresAt), 'MMM d, yyyy'),
+                }}
+              />
+            </div>
+          )}
+
           {total === 0 && used > 0 && (
             <div className="text-muted-foreground text-xs">
               <Trans i18nKey="leave:balance.used" />: {used}{' '}
@@ -143,22 +214,25 @@ export function LeaveBalanceOverview() {
   return (
     <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
       {balances.map((balance) => {
-        const total = balance.entitled + balance.carriedOver;
+        const total = balance.entitled + balance.carriedOver + balance.adjustment;
         const remaining = total - balance.used - balance.pending;
         return (
           <LeaveBalanceCard
             key={balance.id}
+            balanceId={balance.id}
             leaveType={{
               code: balance.leaveType?.code || 'unknown',
-              nameEn: balance.leaveType?.nameEn || 'Unknown',
+              name: balance.leaveType?.name || 'Unknown',
               nameDe: balance.leaveType?.nameDe || 'Unbekannt',
               color: balance.leaveType?.color || '#6B7280',
             }}
             entitled={balance.entitled}
             carriedOver={balance.carriedOver}
+            adjustment={balance.adjustment}
             used={balance.used}
             pending={balance.pending}
             remaining={remaining}
+            carryover={balance.carryover}
           />
         );
       })}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { differenceInMinutes, format } from 'date-fns';
+import { Bell } from 'lucide-react';
+
+import { Button } from '@kit/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@kit/ui/popover';
+import { Trans } from '@kit/ui/trans';
+import { cn } from '@kit/ui/utils';
+
+import pathsConfig from '~/config/paths.config';
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotifications,
+} from '~/lib/hooks';
+import type { Notification } from '~/lib/types';
+
+/**
+ * Page a notification leads to, if any.
+ */
+function getNotificationLink(notification: Notification): string | null {
+  switch (notification.type) {
+    case 'approval_needed':
+      return pathsConfig.app.approvals;
+    case 'team_absence':
+      return pathsConfig.app.calendar;
+    case 'carryover_expiry':
+      return pathsConfig.app.leave;
+  }
+
+  if (notification.entityType === 'leave_request' && notification.entityId) {
+    return `${pathsConfig.app.leave}/${notification.entityId}`;
+  }
+
+  return null;
+}
+
+function NotificationTime({ createdAt }: { createdAt: string }) {
+  const date = new Date(createdAt);
+
+  if (differenceInMinutes(new Date(), date) < 1) {
+    return <Trans i18nKey="common:justNow" />;
+  }
+
+  return <>{format(date, 'MMM d, HH:mm')}</>;
+}
+
+/**
+ * Bell with the number of unread notifications, opening the latest
+ * notifications. Opening a notification marks it as read.
+ */
+export function NotificationBell({
+  align = 'start',
+  className,
+}: {
+  align?: 'start' | 'end';
+  className?: string;
+}) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+
+  const { data } = useNotifications();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.readAt) {
+      markRead.mutate(notification.id);
+    }
+
+    const link = getNotificationLink(notification);
+
+    if (link) {
+      setOpen(false);
+      router.push(link);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('relative', className)}
+          data-test="notification-bell"
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="bg-destructive text-destructive-foreground absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full px-1 text-[10px] font-medium">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">
+            <Trans i18nKey="common:notifications" />
+          </span>
+        </Button>
+      </PopoverTrigger>
+
+      <PopoverContent align={align} className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <h4 className="text-sm font-medium">
+            <Trans i18nKey="common:notifications" />
+          </h4>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              disabled={markAllRead.isPending}
+              onClick={() => markAllRead.mutate()}
+            >
+              <Trans i18nKey="common:markAllAsRead" />
+            </Button>
+          )}
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="text-muted-foreground px-4 py-6 text-center text-sm">
+            <Trans i18nKey="common:noNotifications" />
+          </p>
+        ) : (
+          <ul className="max-h-96 divide-y overflow-y-auto">
+            {notifications.map((notification) => (
+              <li key={notification.id}>
+                <button
+                  type="button"
+                  className="hover:bg-muted flex w-full gap-3 px-4 py-3 text-left"
+                  onClick={() => handleSelect(notification)}
+                >
+                  <span
+                    className={cn(
+                      'mt-1.5 h-2 w-2 shrink-0 rounded-full',
+                      !notification.readAt && 'bg-primary'
+                    )}
+                  />
+                  <span className="space-y-0.5">
+                    <span
+                      className={cn(
+                        'block text-sm',
+                        !notification.readAt && 'font-medium'
+                      )}
+                    >
+                      {notification.title}
+                    </span>
+                    {notification.body && (
+                      <span className="text-muted-foreground block text-xs">
+                        {notification.body}
+                      </span>
+                    )}
+                    <span className="text-muted-foreground block text-xs">
+                      <NotificationTime createdAt={notification.createdAt} />
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,437 @@
+'use client';
+
+import { useState } from 'react';
+
+import { format } from 'date-fns';
+import { Download } from 'lucide-react';
+
+import { Badge } from '@kit/ui/badge';
+import { Button } from '@kit/ui/button';
+import { Card, CardContent } from '@kit/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@kit/ui/dialog';
+import { Input } from '@kit/ui/input';
+import { Label } from '@kit/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@kit/ui/select';
+import { Skeleton } from '@kit/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@kit/ui/table';
+import { Trans } from '@kit/ui/trans';
+import { cn } from '@kit/ui/utils';
+
+import {
+  getAuditLogSearchParams,
+  useAuditLogs,
+  useMembers,
+} from '~/lib/hooks';
+import type { AuditLogFilters } from '~/lib/hooks/use-audit-logs';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  type AuditAction,
+  type AuditEntityType,
+  type AuditLogEntry,
+} from '~/lib/types';
+import {
+  type AuditValueChangeKind,
+  diffAuditValues,
+  formatAuditValue,
+} from '~/lib/utils/audit-diff';
+
+const PAGE_SIZE = 25;
+
+// Select items cannot have an empty value
+const ALL = 'all';
+
+const CHANGE_STYLES: Record<AuditValueChangeKind, string> = {
+  added: 'bg-green-50 dark:bg-green-950/30',
+  removed: 'bg-red-50 dark:bg-red-950/30',
+  changed: 'bg-amber-50 dark:bg-amber-950/30',
+  unchanged: '',
+};
+
+const formatTimestamp = (timestamp: string) =>
+  format(new Date(timestamp), 'MMM d, yyyy HH:mm:ss');
+
+function AuditEntryDialog({
+  entry,
+  onClose,
+}: {
+  entry: AuditLogEntry | null;
+  onClose: () => void;
+}) {
+  const changes = entry ? diffAuditValues(entry.oldValues, entry.newValues) : [];
+
+  return (
+    <Dialog open={!!entry} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{entry?.action}</DialogTitle>
+          <DialogDescription>
+            {entry && (
+              <>
+                {formatTimestamp(entry.createdAt)} ·{' '}
+                {entry.user?.name ?? entry.user?.email ?? (
+                  <Trans i18nKey="admin:audit.system" />
+                )}
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {entry && (
+          <div className="space-y-4">
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">
+                <Trans i18nKey="admin:audit.entity" />
+              </dt>
+              <dd className="font-mono break-all">
+                <Trans i18nKey={`admin:audit.entityTypes.${entry.entityType}`} />{' '}
+                · {entry.entityId}
+              </dd>
+              <dt className="text-muted-foreground">
+                <Trans i18nKey="admin:audit.ipAddress" />
+              </dt>
+              <dd className="font-mono">{entry.ipAddress ?? '—'}</dd>
+              <dt className="text-muted-foreground">
+                <Trans i18nKey="admin:audit.userAgent" />
+              </dt>
+              <dd className="break-all">{entry.userAgent ?? '—'}</dd>
+            </dl>
+
+            {changes.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                <Trans i18nKey="admin:audit.noChanges" />
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>
+                      <Trans i18nKey="admin:audit.field" />
+                    </TableHead>
+                    <TableHead>
+                      <Trans i18nKey="admin:audit.oldValue" />
+                    </TableHead>
+                    <TableHead>
+                      <Trans i18nKey="admin:audit.newValue" />
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map((change) => (
+                    <TableRow
+                      key={change.field}
+                      className={CHANGE_STYLES[change.kind]}
+                    >
+                      <TableCell className="font-mono text-xs">
+                        {change.field}
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          'font-mono text-xs break-all',
+                          change.kind !== 'unchanged' &&
+                            change.kind !== 'added' &&
+                            'line-through text-muted-foreground'
+                        )}
+                      >
+                        {formatAuditValue(change.oldValue)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs break-all">
+                        {formatAuditValue(change.newValue)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function AuditLogViewer() {
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [page, setPage] = useState(1);
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+
+  const { data: members = [] } = useMembers();
+  const { data, isLoading } = useAuditLogs(filters, page, PAGE_SIZE);
+
+  const updateFilters = (update: Partial<AuditLogFilters>) => {
+    setFilters((current) => ({ ...current, ...update }));
+    setPage(1);
+  };
+
+  const handleExport = () => {
+    const params = getAuditLogSearchParams(filters);
+    params.set('type', 'audit');
+    window.open(`/api/reports/export?${params.toString()}`, '_blank');
+  };
+
+  const entries = data?.data ?? [];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="grid gap-4 pt-6 sm:grid-cols-2 lg:grid-cols-5">
+          <div className="space-y-2">
+            <Label>
+              <Trans i18nKey="admin:audit.filters.user" />
+            </Label>
+            <Select
+              value={filters.userId ?? ALL}
+              onValueChange={(value) =>
+                updateFilters({ userId: value === ALL ? undefined : value })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>
+                  <Trans i18nKey="admin:audit.filters.allUsers" />
+                </SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.user.id} value={member.user.id}>
+                    {member.user.name ?? member.user.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              <Trans i18nKey="admin:audit.filters.entityType" />
+            </Label>
+            <Select
+              value={filters.entityType ?? ALL}
+              onValueChange={(value) =>
+                updateFilters({
+                  entityType: value === ALL ? undefined : (value as AuditEntityType),
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>
+                  <Trans i18nKey="admin:audit.filters.allEntityTypes" />
+                </SelectItem>
+                {AUDIT_ENTITY_TYPES.map((entityType) => (
+                  <SelectItem key={entityType} value={entityType}>
+                    <Trans i18nKey={`admin:audit.entityTypes.${entityType}`} />
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              <Trans i18nKey="admin:audit.filters.action" />
+            </Label>
+            <Select
+              value={filters.action ?? ALL}
+              onValueChange={(value) =>
+                updateFilters({
+                  action: value === ALL ? undefined : (value as AuditAction),
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>
+                  <Trans i18nKey="admin:audit.filters.allActions" />
+                </SelectItem>
+                {AUDIT_ACTIONS.map((action) => (
+                  <SelectItem key={action} value={action} className="font-mono">
+                    {action}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="audit-start-date">
+              <Trans i18nKey="admin:audit.filters.startDate" />
+            </Label>
+            <Input
+              id="audit-start-date"
+              type="date"
+              value={filters.startDate ?? ''}
+              max={filters.endDate}
+              onChange={(e) =>
+                updateFilters({ startDate: e.target.value || undefined })
+              }
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="audit-end-date">
+              <Trans i18nKey="admin:audit.filters.endDate" />
+            </Label>
+            <Input
+              id="audit-end-date"
+              type="date"
+              value={filters.endDate ?? ''}
+              min={filters.startDate}
+              onChange={(e) =>
+                updateFilters({ endDate: e.target.value || undefined })
+              }
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <p className="text-muted-foreground text-sm">
+          <Trans
+            i18nKey="admin:audit.entryCount"
+            values={{ count: data?.total ?? 0 }}
+          />
+        </p>
+        <Button variant="outline" onClick={handleExport}>
+          <Download className="mr-2 h-4 w-4" />
+          <Trans i18nKey="admin:audit.export" />
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground">
+              <Trans i18nKey="admin:audit.noEntries" />
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>
+                    <Trans i18nKey="admin:audit.timestamp" />
+                  </TableHead>
+                  <TableHead>
+                    <Trans i18nKey="admin:audit.user" />
+                  </TableHead>
+                  <TableHead>
+                    <Trans i18nKey="admin:audit.action" />
+                  </TableHead>
+                  <TableHead>
+                    <Trans i18nKey="admin:audit.entity" />
+                  </TableHead>
+                  <TableHead>
+                    <Trans i18nKey="admin:audit.ipAddress" />
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow
+                    key={entry.id}
+                    className="cursor-pointer"
+                    onClick={() => setSelectedEntry(entry)}
+                  >
+                    <TableCell className="whitespace-nowrap">
+                      {formatTimestamp(entry.createdAt)}
+                    </TableCell>
+                    <TableCell>
+                      {entry.user ? (
+                        <div>
+                          <p className="font-medium">
+                            {entry.user.name ?? entry.user.email}
+                          </p>
+                          {entry.user.name && (
+                            <p className="text-sm text-muted-foreground">
+                              {entry.user.email}
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">
+                          <Trans i18nKey="admin:audit.system" />
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="font-mono">
+                        {entry.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Trans i18nKey={`admin:audit.entityTypes.${entry.entityType}`} />
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {entry.ipAddress ?? '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {data && data.totalPages > 1 && (
+            <div className="mt-4 flex items-center justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page === 1}
+                onClick={() => setPage((p) => p - 1)}
+              >
+                <Trans i18nKey="admin:audit.previous" />
+              </Button>
+              <span className="text-sm">
+                <Trans
+                  i18nKey="admin:audit.page"
+                  values={{ page, totalPages: data.totalPages }}
+                />
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= data.totalPages}
+                onClick={() => setPage((p) => p + 1)}
+              >
+                <Trans i18nKey="admin:audit.next" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AuditEntryDialog
+        entry={selectedEntry}
+        onClose={() => setSelectedEntry(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { PageBody, PageHeader } from '@kit/ui/page';
+import { Trans } from '@kit/ui/trans';
+
+import { AuditLogViewer } from './_components/audit-log-viewer';
+
+export default function AdminAuditPage() {
+  return (
+    <>
+      <PageHeader
+        title={<Trans i18nKey="admin:audit.title" />}
+        description={<Trans i18nKey="admin:audit.description" />}
+      />
+
+      <PageBody>
+        <AuditLogViewer />
+      </PageBody>
+    </>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+
+import Link from 'next/link';
+
+import { format } from 'date-fns';
+import { CheckCircle2, Loader2, Mail } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Badge } from '@kit/ui/badge';
+import { Button } from '@kit/ui/button';
+import { Card, CardContent } from '@kit/ui/card';
+import { Skeleton } from '@kit/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@kit/ui/table';
+import { Trans } from '@kit/ui/trans';
+
+import { useMissingLeaveDocuments, useSendDocumentReminder } from '~/lib/hooks';
+
+const formatDate = (date: string) => format(new Date(date), 'MMM d, yyyy');
+
+export function MissingDocumentsQueue() {
+  const { data: documents, isLoading, error } = useMissingLeaveDocuments();
+  const sendReminder = useSendDocumentReminder();
+  const [remindingId, setRemindingId] = useState<string | null>(null);
+
+  const handleRemind = async (id: string) => {
+    setRemindingId(id);
+    try {
+      await sendReminder.mutateAsync(id);
+      toast.success(<Trans i18nKey="admin:documents.reminderSent" />);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send reminder');
+    } finally {
+      setRemindingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="space-y-2 p-4">
+          {[...Array(5)].map((_, i) => (
+            <Skeleton key={i} className="h-12 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-10 text-center">
+          <p className="text-muted-foreground">{error.message}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!documents || documents.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center py-10 text-center">
+          <CheckCircle2 className="mb-3 h-10 w-10 text-green-600" />
+          <p className="text-muted-foreground">
+            <Trans i18nKey="admin:documents.empty" />
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>
+                <Trans i18nKey="admin:documents.employee" />
+              </TableHead>
+              <TableHead>
+                <Trans i18nKey="admin:documents.leaveType" />
+              </TableHead>
+              <TableHead>
+                <Trans i18nKey="admin:documents.period" />
+              </TableHead>
+              <TableHead>
+                <Trans i18nKey="admin:documents.dueDate" />
+              </TableHead>
+              <TableHead>
+                <Trans i18nKey="admin:documents.status" />
+              </TableHead>
+              <TableHead>
+                <Trans i18nKey="admin:documents.lastReminder" />
+              </TableHead>
+              <TableHead className="w-[1%]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {documents.map((document) => (
+              <TableRow key={document.id}>
+                <TableCell>
+                  <Link
+                    href={`/home/leave/${document.id}`}
+                    className="font-medium hover:underline"
+                  >
+                    {document.user.name || document.user.email}
+                  </Link>
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="h-3 w-3 rounded-full"
+                      style={{ backgroundColor: document.leaveType.color }}
+                    />
+                    {document.leaveType.nameEn}
+                  </div>
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {formatDate(document.startDate)} - {formatDate(document.endDate)}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {document.documentDueDate
+                    ? formatDate(document.documentDueDate)
+                    : '-'}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={
+                      document.documentStatus === 'overdue'
+                        ? 'destructive'
+                        : 'outline'
+                    }
+                  >
+                    <Trans
+                      i18nKey={
+                        document.documentStatus === 'overdue'
+                          ? 'admin:documents.overdue'
+                          : 'admin:documents.missing'
+                      }
+                    />
+                  </Badge>
+                </TableCell>
+                <TableCell className="whitespace-nowrap text-muted-foreground">
+                  {document.documentReminderSentAt ? (
+                    formatDate(document.documentReminderSentAt)
+                  ) : (
+                    <Trans i18nKey="admin:documents.never" />
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRemind(document.id)}
+                    disabled={remindingId !== null}
+                  >
+                    {remindingId === document.id ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Mail className="mr-2 h-4 w-4" />
+                    )}
+                    <Trans i18nKey="admin:documents.remind" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,19 @@
+import { PageBody, PageHeader } from '@kit/ui/page';
+import { Trans } from '@kit/ui/trans';
+
+import { MissingDocumentsQueue } from './_components/missing-documents-queue';
+
+export default function AdminDocumentsPage() {
+  return (
+    <>
+      <PageHeader
+        title={<Trans i18nKey="admin:documents.title" />}
+        description={<Trans i18nKey="admin:documents.description" />}
+      />
+
+      <PageBody>
+        <MissingDocumentsQueue />
+      </PageBody>
+    </>
+  );
+}
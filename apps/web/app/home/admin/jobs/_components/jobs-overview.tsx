@@ -0,0 +1,279 @@
+'use client';
+
+import { useState } from 'react';
+
+import { format } from 'date-fns';
+import { History, Loader2, Play } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Badge } from '@kit/ui/badge';
+import { Button } from '@kit/ui/button';
+import { Card, CardContent } from '@kit/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@kit/ui/dialog';
+import { Skeleton } from '@kit/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@kit/ui/table';
+import { Trans } from '@kit/ui/trans';
+
+import { useJobRuns, useJobs, useRunJob } from '~/lib/hooks';
+import type { JobRunStatus } from '~/lib/types';
+
+const STATUS_VARIANTS: Record<
+  JobRunStatus,
+  'default' | 'secondary' | 'destructive'
+> = {
+  running: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive',
+};
+
+const formatTimestamp = (timestamp: string) =>
+  format(new Date(timestamp), 'MMM d, yyyy HH:mm');
+
+function JobRunStatusBadge({ status }: { status: JobRunStatus }) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status]}>
+      <Trans i18nKey={`admin:jobs.statuses.${status}`} />
+    </Badge>
+  );
+}
+
+function JobHistoryDialog({
+  jobName,
+  onClose,
+}: {
+  jobName: string | null;
+  onClose: () => void;
+}) {
+  const { data: runs, isLoading } = useJobRuns(jobName);
+
+  return (
+    <Dialog open={!!jobName} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            <Trans i18nKey="admin:jobs.history" />
+          </DialogTitle>
+          <DialogDescription className="font-mono">{jobName}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : !runs || runs.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">
+            <Trans i18nKey="admin:jobs.noRuns" />
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>
+                  <Trans i18nKey="admin:jobs.period" />
+                </TableHead>
+                <TableHead>
+                  <Trans i18nKey="admin:jobs.status" />
+                </TableHead>
+                <TableHead>
+                  <Trans i18nKey="admin:jobs.trigger" />
+                </TableHead>
+                <TableHead>
+                  <Trans i18nKey="admin:jobs.attempts" />
+                </TableHead>
+                <TableHead>
+                  <Trans i18nKey="admin:jobs.processed" />
+                </TableHead>
+                <TableHead>
+                  <Trans i18nKey="admin:jobs.startedAt" />
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map((run) => (
+                <TableRow key={run.id}>
+                  <TableCell className="font-mono">{run.periodKey}</TableCell>
+                  <TableCell>
+                    <JobRunStatusBadge status={run.status} />
+                    {run.error && (
+                      <p className="mt-1 text-xs text-destructive">{run.error}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Trans i18nKey={`admin:jobs.triggers.${run.trigger}`} />
+                  </TableCell>
+                  <TableCell>{run.attempts}</TableCell>
+                  <TableCell>{run.processedCount}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {formatTimestamp(run.startedAt)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function JobsOverview() {
+  const { data: jobs, isLoading, error } = useJobs();
+  const runJob = useRunJob();
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+  const [historyJob, setHistoryJob] = useState<string | null>(null);
+
+  const handleRun = async (name: string) => {
+    setRunningJob(name);
+    try {
+      const outcome = await runJob.mutateAsync(name);
+
+      if (outcome.status === 'skipped') {
+        toast.info(<Trans i18nKey="admin:jobs.runSkipped" />);
+      } else if (outcome.status === 'failed') {
+        toast.error(outcome.error ?? <Trans i18nKey="admin:jobs.runFailed" />);
+      } else {
+        toast.success(<Trans i18nKey="admin:jobs.runSucceeded" />);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to run job');
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="space-y-2 p-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-12 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-10 text-center">
+          <p className="text-muted-foreground">{error.message}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>
+                  <Trans i18nKey="admin:jobs.job" />
+                </TableHead>
+                <TableHead>
+                  <Trans i18nKey="admin:jobs.schedule" />
+                </TableHead>
+                <TableHead>
+                  <Trans i18nKey="admin:jobs.lastRun" />
+                </TableHead>
+                <TableHead>
+                  <Trans i18nKey="admin:jobs.status" />
+                </TableHead>
+                <TableHead>
+                  <Trans i18nKey="admin:jobs.processed" />
+                </TableHead>
+                <TableHead className="w-[1%]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs?.map((job) => (
+                <TableRow key={job.name}>
+                  <TableCell>
+                    <p className="font-mono font-medium">{job.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {job.description}
+                    </p>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <Trans
+                      i18nKey={`admin:jobs.schedules.${job.schedule}`}
+                      values={{ hour: String(job.hour).padStart(2, '0') }}
+                    />
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {job.lastRun ? (
+                      <>
+                        <p>{formatTimestamp(job.lastRun.startedAt)}</p>
+                        <p className="font-mono text-xs text-muted-foreground">
+                          {job.lastRun.periodKey}
+                        </p>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">
+                        <Trans i18nKey="admin:jobs.neverRun" />
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {job.lastRun && (
+                      <JobRunStatusBadge status={job.lastRun.status} />
+                    )}
+                  </TableCell>
+                  <TableCell>{job.lastRun?.processedCount ?? '-'}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryJob(job.name)}
+                      >
+                        <History className="mr-2 h-4 w-4" />
+                        <Trans i18nKey="admin:jobs.history" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRun(job.name)}
+                        disabled={runningJob !== null}
+                      >
+                        {runningJob === job.name ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Play className="mr-2 h-4 w-4" />
+                        )}
+                        <Trans i18nKey="admin:jobs.runNow" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <JobHistoryDialog
+        jobName={historyJob}
+        onClose={() => setHistoryJob(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+import { redirect } from 'next/navigation';
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+import { PageBody, PageHeader } from '@kit/ui/page';
+import { Trans } from '@kit/ui/trans';
+
+import { auth } from '~/lib/auth/auth';
+import { isPlatformOperator } from '~/lib/auth/platform-operator';
+
+import { JobsOverview } from './_components/jobs-overview';
+
+export default async function AdminJobsPage() {
+  const session = await auth();
+  const { env } = getCloudflareContext();
+
+  // Jobs span all organizations, so only platform operators see them
+  if (!isPlatformOperator(env, session?.user?.email)) {
+    redirect('/home');
+  }
+
+  return (
+    <>
+      <PageHeader
+        title={<Trans i18nKey="admin:jobs.title" />}
+        description={<Trans i18nKey="admin:jobs.description" />}
+      />
+
+      <PageBody>
+        <JobsOverview />
+      </PageBody>
+    </>
+  );
+}
@@ -0,0 +1,616 @@
+'use client';
+
+import { Fragment, useEffect } from 'react';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+import { z } from 'zod';
+
+import { Button } from '@kit/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@kit/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@kit/ui/form';
+import { Input } from '@kit/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@kit/ui/select';
+import { Switch } from '@kit/ui/switch';
+import { Trans } from '@kit/ui/trans';
+
+import { LOCALES, LOCALE_LABELS } from '~/lib/i18n/locales.config';
+import type { LocalizedLeaveType } from '~/lib/types';
+import { apiFetch } from '~/lib/utils/csrf';
+
+// Lucide icons offered for leave types, as used by the system defaults
+const LEAVE_TYPE_ICONS = [
+  'calendar',
+  'palmtree',
+  'thermometer',
+  'baby',
+  'heart',
+  'heart-handshake',
+  'users',
+  'star',
+  'clock',
+  'graduation-cap',
+  'calendar-off',
+];
+
+// Locales without a name_* column, named through translations
+const TRANSLATION_LOCALES = LOCALES.filter(
+  (locale) => locale !== 'en' && locale !== 'de'
+);
+
+// Empty day inputs are stored as null, e.g. no carryover limit
+const optionalDays = z.coerce.number().int().min(0).max(366).nullable();
+
+const leaveTypeFormSchema = z.object({
+  code: z
+    .string()
+    .regex(
+      /^[a-z][a-z0-9_]{1,31}$/,
+      'Code must be 2-32 lowercase letters, digits or underscores'
+    ),
+  nameEn: z.string().trim().min(1, 'English name is required'),
+  nameDe: z.string().trim().min(1, 'German name is required'),
+  descriptionEn: z.string(),
+  descriptionDe: z.string(),
+  color: z.string().regex(/^#([0-9a-fA-F]{3}){1,2}$/, 'Invalid color format'),
+  icon: z.string(),
+  isPaid: z.boolean(),
+  requiresApproval: z.boolean(),
+  requiresDocument: z.boolean(),
+  documentRequiredAfterDays: optionalDays,
+  hasAllowance: z.boolean(),
+  defaultDaysPerYear: optionalDays,
+  allowNegative: z.boolean(),
+  allowHalfDays: z.boolean(),
+  allowCarryover: z.boolean(),
+  maxCarryoverDays: optionalDays,
+  // One entry per TRANSLATION_LOCALES; left empty for no translation
+  translations: z.array(
+    z.object({
+      locale: z.string(),
+      name: z.string().trim().max(100),
+      description: z.string().trim().max(500),
+    })
+  ),
+});
+
+type LeaveTypeFormData = z.infer<typeof leaveTypeFormSchema>;
+
+const EMPTY_FORM: LeaveTypeFormData = {
+  code: '',
+  nameEn: '',
+  nameDe: '',
+  descriptionEn: '',
+  descriptionDe: '',
+  color: '#3B82F6',
+  icon: 'calendar',
+  isPaid: true,
+  requiresApproval: true,
+  requiresDocument: false,
+  documentRequiredAfterDays: null,
+  hasAllowance: false,
+  defaultDaysPerYear: null,
+  allowNegative: false,
+  allowHalfDays: true,
+  allowCarryover: false,
+  maxCarryoverDays: null,
+  translations: TRANSLATION_LOCALES.map((locale) => ({
+    locale,
+    name: '',
+    description: '',
+  })),
+};
+
+function toFormData(leaveType: LocalizedLeaveType): LeaveTypeFormData {
+  return {
+    code: leaveType.code,
+    nameEn: leaveType.nameEn,
+    nameDe: leaveType.nameDe,
+    descriptionEn: leaveType.descriptionEn ?? '',
+    descriptionDe: leaveType.descriptionDe ?? '',
+    color: leaveType.color,
+    icon: leaveType.icon,
+    isPaid: leaveType.isPaid,
+    requiresApproval: leaveType.requiresApproval,
+    requiresDocument: leaveType.requiresDocument,
+    documentRequiredAfterDays: leaveType.documentRequiredAfterDays,
+    hasAllowance: leaveType.hasAllowance,
+    defaultDaysPerYear: leaveType.defaultDaysPerYear,
+    allowNegative: leaveType.allowNegative,
+    allowHalfDays: leaveType.allowHalfDays,
+    allowCarryover: leaveType.allowCarryover,
+    maxCarryoverDays: leaveType.maxCarryoverDays,
+    translations: TRANSLATION_LOCALES.map((locale) => {
+      const translation = leaveType.translations?.find(
+        (t) => t.locale === locale
+      );
+
+      return {
+        locale,
+        name: translation?.name ?? '',
+        description: translation?.description ?? '',
+      };
+    }),
+  };
+}
+
+interface LeaveTypeDialogProps {
+  open: boolean;
+  /** Leave type to edit, or null to create a custom one */
+  leaveType: LocalizedLeaveType | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (leaveType: LocalizedLeaveType) => void;
+}
+
+/**
+ * Create a custom leave type or edit an existing one. System defaults are
+ * shared by all organizations, so only their settings can be changed.
+ */
+export function LeaveTypeDialog({
+  open,
+  leaveType,
+  onOpenChange,
+  onSaved,
+}: LeaveTypeDialogProps) {
+  const isSystem = leaveType !== null && leaveType.organizationId === null;
+
+  const form = useForm<LeaveTypeFormData>({
+    resolver: zodResolver(leaveTypeFormSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(leaveType ? toFormData(leaveType) : EMPTY_FORM);
+    }
+  }, [open, leaveType, form]);
+
+  const requiresDocument = form.watch('requiresDocument');
+  const hasAllowance = form.watch('hasAllowance');
+  const allowCarryover = form.watch('allowCarryover');
+
+  const onSubmit = async (data: LeaveTypeFormData) => {
+    const settings = {
+      color: data.color,
+      defaultDaysPerYear: data.defaultDaysPerYear,
+      allowNegative: data.allowNegative,
+      allowHalfDays: data.allowHalfDays,
+      allowCarryover: data.allowCarryover,
+      maxCarryoverDays: data.maxCarryoverDays,
+    };
+    const definition = {
+      nameEn: data.nameEn,
+      nameDe: data.nameDe,
+      descriptionEn: data.descriptionEn.trim() || null,
+      descriptionDe: data.descriptionDe.trim() || null,
+      icon: data.icon,
+      isPaid: data.isPaid,
+      requiresApproval: data.requiresApproval,
+      requiresDocument: data.requiresDocument,
+      documentRequiredAfterDays: data.documentRequiredAfterDays,
+      translations: data.translations
+        .filter((translation) => translation.name)
+        .map((translation) => ({
+          ...translation,
+          description: translation.description || null,
+        })),
+    };
+
+    const { data: saved, error } = leaveType
+      ? await apiFetch<LocalizedLeaveType>(`/api/leave-types/${leaveType.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(
+            isSystem ? settings : { ...settings, ...definition }
+          ),
+        })
+      : await apiFetch<LocalizedLeaveType>('/api/leave-types', {
+          method: 'POST',
+          body: JSON.stringify({
+            ...settings,
+            ...definition,
+            code: data.code,
+            hasAllowance: data.hasAllowance,
+          }),
+        });
+
+    if (error || !saved) {
+      toast.error(error ?? 'Failed to save leave type');
+      return;
+    }
+
+    toast.success(leaveType ? 'Leave type updated' : 'Leave type created');
+    onSaved(saved);
+    onOpenChange(false);
+  };
+
+  const renderSwitch = (
+    name:
+      | 'isPaid'
+      | 'requiresApproval'
+      | 'requiresDocument'
+      | 'hasAllowance'
+      | 'allowNegative'
+      | 'allowHalfDays'
+      | 'allowCarryover',
+    disabled = false
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between rounded-lg border p-3">
+          <FormLabel>
+            <Trans i18nKey={`admin:leaveTypes.${name}`} />
+          </FormLabel>
+          <FormControl>
+            <Switch
+              checked={field.value}
+              disabled={disabled}
+              onCheckedChange={field.onChange}
+            />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            <Trans
+              i18nKey={
+                leaveType ? 'admin:leaveTypes.edit' : 'admin:leaveTypes.create'
+              }
+            />
+          </DialogTitle>
+          <DialogDescription>
+            <Trans
+              i18nKey={
+                isSystem
+                  ? 'admin:leaveTypes.systemTypeHelp'
+                  : 'admin:leaveTypes.customTypeHelp'
+              }
+            />
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="nameEn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <Trans i18nKey="admin:leaveTypes.nameEn" />
+                    </FormLabel>
+                    <FormControl>
+                      <Input disabled={isSystem} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="nameDe"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <Trans i18nKey="admin:leaveTypes.nameDe" />
+                    </FormLabel>
+                    <FormControl>
+                      <Input disabled={isSystem} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <Trans i18nKey="admin:leaveTypes.code" />
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        disabled={leaveType !== null}
+                        placeholder="sabbatical"
+                        {...field}
+                      />
+                    </FormControl>
+                    {!leaveType && (
+                      <FormDescription>
+                        <Trans i18nKey="admin:leaveTypes.codeHelp" />
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="color"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        <Trans i18nKey="admin:leaveTypes.color" />
+                      </FormLabel>
+                      <FormControl>
+                        <Input type="color" className="h-9 p-1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="icon"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        <Trans i18nKey="admin:leaveTypes.icon" />
+                      </FormLabel>
+                      <Select
+                        value={field.value}
+                        disabled={isSystem}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {LEAVE_TYPE_ICONS.map((icon) => (
+                            <SelectItem key={icon} value={icon}>
+                              {icon}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="descriptionEn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <Trans i18nKey="admin:leaveTypes.descriptionEn" />
+                    </FormLabel>
+                    <FormControl>
+                      <Input disabled={isSystem} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="descriptionDe"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <Trans i18nKey="admin:leaveTypes.descriptionDe" />
+                    </FormLabel>
+                    <FormControl>
+                      <Input disabled={isSystem} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {!isSystem &&
+                TRANSLATION_LOCALES.map((locale, index) => (
+                  <Fragment key={locale}>
+                    <FormField
+                      control={form.control}
+                      name={`translations.${index}.name`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            <Trans
+                              i18nKey="admin:leaveTypes.translatedName"
+                              values={{ language: LOCALE_LABELS[locale] }}
+                            />
+                          </FormLabel>
+                          <FormControl>
+                            <Input {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name={`translations.${index}.description`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            <Trans
+                              i18nKey="admin:leaveTypes.translatedDescription"
+                              values={{ language: LOCALE_LABELS[locale] }}
+                            />
+                          </FormLabel>
+                          <FormControl>
+                            <Input {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </Fragment>
+                ))}
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              {renderSwitch('isPaid', isSystem)}
+              {renderSwitch('requiresApproval', isSystem)}
+              {renderSwitch('allowHalfDays')}
+              {renderSwitch('requiresDocument', isSystem)}
+            </div>
+
+            {requiresDocument && (
+              <FormField
+                control={form.control}
+                name="documentRequiredAfterDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <Trans i18nKey="admin:leaveTypes.documentAfterDays" />
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        disabled={isSystem}
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.value === '' ? null : e.target.value
+                          )
+                        }
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              {renderSwitch('hasAllowance', leaveType !== null)}
+              {hasAllowance && renderSwitch('allowNegative')}
+            </div>
+
+            {hasAllowance && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="defaultDaysPerYear"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        <Trans i18nKey="admin:leaveTypes.defaultDays" />
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          {...field}
+                          value={field.value ?? ''}
+                          onChange={(e) =>
+                            field.onChange(
+                              e.target.value === '' ? null : e.target.value
+                            )
+                          }
+                        />
+                      </FormControl>
+                      {!leaveType && (
+                        <FormDescription>
+                          <Trans i18nKey="admin:leaveTypes.allowanceHelp" />
+                        </FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {renderSwitch('allowCarryover')}
+                </div>
+
+                {allowCarryover && (
+                  <FormField
+                    control={form.control}
+                    name="maxCarryoverDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          <Trans i18nKey="admin:leaveTypes.maxCarryover" />
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            {...field}
+                            value={field.value ?? ''}
+                            onChange={(e) =>
+                              field.onChange(
+                                e.target.value === '' ? null : e.target.value
+                              )
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </>
+            )}
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                <Trans i18nKey="common:cancel" />
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                <Trans
+                  i18nKey={
+                    leaveType
+                      ? 'admin:leaveTypes.save'
+                      : 'admin:leaveTypes.create'
+                  }
+                />
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react';
 
-import { AlertCircle, Calendar, Check, Plus, X } from 'lucide-react';
+import { AlertCircle, Archive, Calendar, Check, Edit2, Plus, X } from 'lucide-react';
 
 import { Alert, AlertDescription } from '@kit/ui/alert';
 import {
@@ -22,27 +22,10 @@ import { Skeleton } from '@kit/ui/skeleton';
 import { Switch } from '@kit/ui/switch';
 import { Trans } from '@kit/ui/trans';
 
+import type { LocalizedLeaveType as LeaveType } from '~/lib/types';
 import { apiFetch } from '~/lib/utils/csrf';
 
-interface LeaveType {
-  id: string;
-  code: string;
-  nameEn: string;
-  nameDe: string;
-  descriptionEn: string | null;
-  color: string;
-  icon: string;
-  isPaid: boolean;
-  requiresApproval: boolean;
-  requiresDocument: boolean;
-  documentRequiredAfterDays: number | null;
-  hasAllowance: boolean;
-  defaultDaysPerYear: number | null;
-  allowHalfDays: boolean;
-  allowCarryover: boolean;
-  isActive: boolean;
-  sortOrder: number;
-}
+import { LeaveTypeDialog } from './leave-type-dialog';
 
 export function LeaveTypesManagement() {
   const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
@@ -54,6 +37,13 @@ export function LeaveTypesManagement() {
   // Toggle confirmation state
   const [togglingLeaveType, setTogglingLeaveType] = useState<LeaveType | null>(null);
 
+  // Create/edit dialog state; a null leave type creates a custom one
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingLeaveType, setEditingLeaveType] = useState<LeaveType | null>(null);
+
+  // Archive confirmation state
+  const [archivingLeaveType, setArchivingLeaveType] = useState<LeaveType | null>(null);
+
   useEffect(() => {
     async function fetchLeaveTypes() {
       try {
@@ -77,6 +67,49 @@ export function LeaveTypesManagement() {
     setTogglingLeaveType(leaveType);
   }
 
+  function openCreateDialog() {
+    setEditingLeaveType(null);
+    setIsDialogOpen(true);
+  }
+
+  function openEditDialog(leaveType: LeaveType) {
+    setEditingLeaveType(leaveType);
+    setIsDialogOpen(true);
+  }
+
+  function handleSaved(saved: LeaveType) {
+    setLeaveTypes((prev) =>
+      prev.some((lt) => lt.id === saved.id)
+        ? prev.map((lt) => (lt.id === saved.id ? saved : lt))
+        : [...prev, saved]
+    );
+  }
+
+  async function handleConfirmArchive() {
+    if (!archivingLeaveType) return;
+
+    const { id } = archivingLeaveType;
+    setUpdatingIds((prev) => new Set(prev).add(id));
+    setUpdateError(null);
+    setArchivingLeaveType(null);
+
+    const { error } = await apiFetch(`/api/leave-types/${id}`, {
+      method: 'DELETE',
+    });
+
+    if (error) {
+      setUpdateError(error);
+    } else {
+      setLeaveTypes((prev) => prev.filter((lt) => lt.id !== id));
+    }
+
+    setUpdatingIds((prev) => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  }
+
   async function handleConfirmToggle() {
     if (!togglingLeaveType) return;
 
@@ -85,9 +118,9 @@ export function LeaveTypesManagement() {
     setUpdateError(null);
     setTogglingLeaveType(null);
 
-    const { error } = await apiFetch('/api/leave-types', {
+    const { error } = await apiFetch(`/api/leave-types/${id}`, {
       method: 'PATCH',
-      body: JSON.stringify({ id, isActive: !currentStatus }),
+      body: JSON.stringify({ isActive: !currentStatus }),
     });
 
     if (error) {
@@ -145,12 +178,11 @@ export function LeaveTypesManagement() {
       {/* Header actions */}
       <div className="flex items-center justify-between">
         <p className="text-muted-foreground">
-          Manage the leave types available in your organization. These are the
-          system defaults - you can customize them for your organization.
+          <Trans i18nKey="admin:leaveTypes.intro" />
         </p>
-        <Button disabled>
+        <Button onClick={openCreateDialog}>
           <Plus className="mr-2 h-4 w-4" />
-          Add Custom Type
+          <Trans i18nKey="admin:leaveTypes.add" />
         </Button>
       </div>
 
@@ -185,9 +217,18 @@ export function LeaveTypesManagement() {
                     </CardDescription>
                   </div>
                 </div>
-                <Badge variant={leaveType.isActive ? 'default' : 'secondary'}>
-                  {leaveType.isActive ? 'Active' : 'Inactive'}
-                </Badge>
+                <div className="flex flex-col items-end gap-1">
+                  <Badge variant={leaveType.isActive ? 'default' : 'secondary'}>
+                    {leaveType.isActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                  <Badge variant="outline">
+                    {leaveType.organizationId ? (
+                      <Trans i18nKey="admin:leaveTypes.custom" />
+                    ) : (
+                      <Trans i18nKey="admin:leaveTypes.system" />
+                    )}
+                  </Badge>
+                </div>
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -257,6 +298,29 @@ export function LeaveTypesManagement() {
                   onCheckedChange={() => openToggleConfirmation(leaveType)}
                 />
               </div>
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={updatingIds.has(leaveType.id)}
+                  onClick={() => openEditDialog(leaveType)}
+                >
+                  <Edit2 className="mr-2 h-4 w-4" />
+                  <Trans i18nKey="admin:leaveTypes.edit" />
+                </Button>
+                {leaveType.organizationId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={updatingIds.has(leaveType.id)}
+                    onClick={() => setArchivingLeaveType(leaveType)}
+                  >
+                    <Archive className="mr-2 h-4 w-4" />
+                    <Trans i18nKey="admin:leaveTypes.archive" />
+                  </Button>
+                )}
+              </div>
             </CardContent>
           </Card>
         ))}
@@ -279,6 +343,44 @@ export function LeaveTypesManagement() {
         </Card>
       )}
 
+      <LeaveTypeDialog
+        open={isDialogOpen}
+        leaveType={editingLeaveType}
+        onOpenChange={setIsDialogOpen}
+        onSaved={handleSaved}
+      />
+
+      {/* Archive Confirmation Dialog */}
+      <AlertDialog
+        open={!!archivingLeaveType}
+        onOpenChange={(open) => !open && setArchivingLeaveType(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              <Trans i18nKey="admin:leaveTypes.archiveDialog.title" />
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              <Trans
+                i18nKey="admin:leaveTypes.archiveDialog.description"
+                values={{ leaveTypeName: archivingLeaveType?.nameEn || '' }}
+              />
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>
+              <Trans i18nKey="common:cancel" defaults="Cancel" />
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmArchive}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              <Trans i18nKey="admin:leaveTypes.archiveDialog.confirm" />
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Toggle Active Confirmation Dialog */}
       <AlertDialog
         open={!!togglingLeaveType}
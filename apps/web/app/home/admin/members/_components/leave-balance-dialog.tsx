@@ -0,0 +1,229 @@
+'use client';
+
+import { useState } from 'react';
+
+import { toast } from 'sonner';
+
+import { Button } from '@kit/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@kit/ui/dialog';
+import { Input } from '@kit/ui/input';
+import { Label } from '@kit/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@kit/ui/select';
+import { Skeleton } from '@kit/ui/skeleton';
+import { Textarea } from '@kit/ui/textarea';
+import { Trans } from '@kit/ui/trans';
+import { cn } from '@kit/ui/utils';
+
+import { useAdjustBalance, useLeaveBalances } from '~/lib/hooks';
+import type { BalanceAdjustmentKind } from '~/lib/types';
+
+import { BalanceLedger } from '../../../_components/balance-ledger';
+
+const ADJUSTMENT_KINDS: BalanceAdjustmentKind[] = ['bonus', 'correction', 'payout'];
+
+interface LeaveBalanceDialogProps {
+  member: { userId: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function LeaveBalanceDialog({ member, onOpenChange }: LeaveBalanceDialogProps) {
+  const { data: balances = [], isLoading } = useLeaveBalances({
+    userId: member?.userId,
+  });
+  const adjustBalance = useAdjustBalance();
+
+  const [selectedBalanceId, setSelectedBalanceId] = useState<string | null>(null);
+  const [kind, setKind] = useState<BalanceAdjustmentKind>('bonus');
+  const [days, setDays] = useState('');
+  const [reason, setReason] = useState('');
+
+  const selectedBalance =
+    balances.find((balance) => balance.id === selectedBalanceId) ?? balances[0];
+
+  const resetForm = () => {
+    setKind('bonus');
+    setDays('');
+    setReason('');
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setSelectedBalanceId(null);
+      resetForm();
+    }
+    onOpenChange(open);
+  };
+
+  const handleSave = async () => {
+    if (!selectedBalance) return;
+
+    // Paid-out days always leave the balance
+    const amount = kind === 'payout' ? -Math.abs(Number(days)) : Number(days);
+
+    try {
+      await adjustBalance.mutateAsync({
+        balanceId: selectedBalance.id,
+        kind,
+        days: amount,
+        reason,
+      });
+      toast.success('Leave balance adjusted');
+      resetForm();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to adjust leave balance'
+      );
+    }
+  };
+
+  return (
+    <Dialog open={!!member} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            <Trans
+              i18nKey="admin:members.balances.title"
+              values={{ name: member?.name ?? '' }}
+            />
+          </DialogTitle>
+          <DialogDescription>
+            <Trans i18nKey="admin:members.balances.description" />
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !selectedBalance ? (
+          <p className="text-muted-foreground text-sm">
+            <Trans i18nKey="admin:members.balances.noBalances" />
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-wrap gap-2">
+              {balances.map((balance) => (
+                <Button
+                  key={balance.id}
+                  variant="outline"
+                  size="sm"
+                  className={cn(
+                    balance.id === selectedBalance.id && 'border-primary bg-muted'
+                  )}
+                  onClick={() => setSelectedBalanceId(balance.id)}
+                >
+                  <div
+                    className="mr-2 h-2 w-2 rounded-full"
+                    style={{ backgroundColor: balance.leaveType?.color }}
+                  />
+                  <Trans
+                    i18nKey={`leave:types.${balance.leaveType?.code}`}
+                    defaults={balance.leaveType?.name}
+                  />
+                  <span className="text-muted-foreground ml-2 tabular-nums">
+                    {balance.remaining}
+                  </span>
+                </Button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">
+                <Trans i18nKey="leave:balance.ledger.title" />
+              </h4>
+              <BalanceLedger balanceId={selectedBalance.id} />
+            </div>
+
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium">
+                <Trans i18nKey="admin:members.balances.newAdjustment" />
+              </h4>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="adjustment-kind">
+                    <Trans i18nKey="admin:members.balances.kind" />
+                  </Label>
+                  <Select
+                    value={kind}
+                    onValueChange={(value) => setKind(value as BalanceAdjustmentKind)}
+                  >
+                    <SelectTrigger id="adjustment-kind">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ADJUSTMENT_KINDS.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          <Trans i18nKey={`leave:balance.ledger.kinds.${value}`} />
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="adjustment-days">
+                    <Trans i18nKey="admin:members.balances.days" />
+                  </Label>
+                  <Input
+                    id="adjustment-days"
+                    type="number"
+                    step={0.5}
+                    min={kind === 'bonus' || kind === 'payout' ? 0.5 : undefined}
+                    value={days}
+                    onChange={(e) => setDays(e.target.value)}
+                  />
+                  <p className="text-muted-foreground text-xs">
+                    <Trans i18nKey={`admin:members.balances.daysHint.${kind}`} />
+                  </p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjustment-reason">
+                  <Trans i18nKey="admin:members.balances.reason" />
+                </Label>
+                <Textarea
+                  id="adjustment-reason"
+                  className="resize-none"
+                  maxLength={500}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            <Trans i18nKey="common:cancel" defaults="Cancel" />
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={
+              !selectedBalance ||
+              !Number(days) ||
+              !reason.trim() ||
+              adjustBalance.isPending
+            }
+          >
+            {adjustBalance.isPending ? (
+              <Trans i18nKey="admin:members.balances.saving" />
+            ) : (
+              <Trans i18nKey="admin:members.balances.save" />
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,7 +3,16 @@
 import { useState } from 'react';
 
 import { format } from 'date-fns';
-import { Mail, MoreHorizontal, Plus, Shield, User, UserMinus } from 'lucide-react';
+import {
+  CalendarClock,
+  Mail,
+  MoreHorizontal,
+  Plus,
+  Scale,
+  Shield,
+  User,
+  UserMinus,
+} from 'lucide-react';
 import { toast } from 'sonner';
 
 import { Avatar, AvatarFallback, AvatarImage } from '@kit/ui/avatar';
@@ -65,6 +74,9 @@ import {
 } from '~/lib/hooks/use-members';
 import { collectEmails } from '~/lib/utils/email-input';
 
+import { LeaveBalanceDialog } from './leave-balance-dialog';
+import { WorkScheduleDialog } from './work-schedule-dialog';
+
 const roleColors: Record<OrganizationRole, 'default' | 'secondary' | 'outline'> = {
   admin: 'default',
   manager: 'secondary',
@@ -111,6 +123,18 @@ export function MembersManagement() {
   } | null>(null);
   const [isCancellingInvite, setIsCancellingInvite] = useState(false);
 
+  // Work schedule dialog state
+  const [scheduleMember, setScheduleMember] = useState<{
+    userId: string;
+    name: string;
+  } | null>(null);
+
+  // Leave balance dialog state
+  const [balanceMember, setBalanceMember] = useState<{
+    userId: string;
+    name: string;
+  } | null>(null);
+
   const handleInvite = async (emailsOverride?: string[]) => {
     const emailsToInvite =
       emailsOverride?.length ? emailsOverride : collectEmails(inviteEmails, inviteEmailInput);
@@ -473,6 +497,28 @@ export function MembersManagement() {
                               <User className="mr-2 h-4 w-4" />
                               <Trans i18nKey="admin:members.actions.viewProfile" />
                             </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() =>
+                                setScheduleMember({
+                                  userId: member.user.id,
+                                  name: displayName,
+                                })
+                              }
+                            >
+                              <CalendarClock className="mr-2 h-4 w-4" />
+                              <Trans i18nKey="admin:members.actions.workSchedule" />
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() =>
+                                setBalanceMember({
+                                  userId: member.user.id,
+                                  name: displayName,
+                                })
+                              }
+                            >
+                              <Scale className="mr-2 h-4 w-4" />
+                              <Trans i18nKey="admin:members.actions.balances" />
+                            </DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem
                               onClick={() => handleRoleChange(member.id, 'admin')}
@@ -517,6 +563,16 @@ export function MembersManagement() {
         </CardContent>
       </Card>
 
+      <WorkScheduleDialog
+        member={scheduleMember}
+        onOpenChange={(open) => !open && setScheduleMember(null)}
+      />
+
+      <LeaveBalanceDialog
+        member={balanceMember}
+        onOpenChange={(open) => !open && setBalanceMember(null)}
+      />
+
       {/* Remove Member Confirmation Dialog */}
       <AlertDialog
         open={!!removingMember}
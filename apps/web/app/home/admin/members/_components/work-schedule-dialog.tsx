@@ -0,0 +1,285 @@
+'use client';
+
+import { useState } from 'react';
+
+import { format } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Badge } from '@kit/ui/badge';
+import { Button } from '@kit/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@kit/ui/dialog';
+import { Input } from '@kit/ui/input';
+import { Label } from '@kit/ui/label';
+import { Skeleton } from '@kit/ui/skeleton';
+import { Switch } from '@kit/ui/switch';
+import { Trans } from '@kit/ui/trans';
+
+import {
+  useDeleteWorkSchedule,
+  useSaveWorkSchedule,
+  useWorkSchedules,
+} from '~/lib/hooks';
+import {
+  DEFAULT_WEEKDAY_HOURS,
+  getEffectiveSchedule,
+  getScheduleSummary,
+} from '~/lib/utils/work-schedule';
+
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+
+interface WorkScheduleDialogProps {
+  member: { userId: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function WeekdayHoursInputs({
+  idPrefix,
+  hours,
+  onChange,
+}: {
+  idPrefix: string;
+  hours: number[];
+  onChange: (hours: number[]) => void;
+}) {
+  return (
+    <div className="grid grid-cols-7 gap-2">
+      {WEEKDAYS.map((weekday, index) => (
+        <div key={weekday} className="space-y-1">
+          <Label htmlFor={`${idPrefix}-${weekday}`} className="text-xs">
+            <Trans i18nKey={`admin:members.workSchedule.weekdays.${weekday}`} />
+          </Label>
+          <Input
+            id={`${idPrefix}-${weekday}`}
+            type="number"
+            min={0}
+            max={24}
+            step={0.5}
+            value={hours[index]}
+            onChange={(e) =>
+              onChange(
+                hours.map((value, i) =>
+                  i === index ? Number(e.target.value) || 0 : value
+                )
+              )
+            }
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function WorkScheduleDialog({ member, onOpenChange }: WorkScheduleDialogProps) {
+  const { data: schedules = [], isLoading } = useWorkSchedules(member?.userId);
+  const saveWorkSchedule = useSaveWorkSchedule();
+  const deleteWorkSchedule = useDeleteWorkSchedule();
+
+  const [effectiveFrom, setEffectiveFrom] = useState(() =>
+    format(new Date(), 'yyyy-MM-dd')
+  );
+  const [weekdayHours, setWeekdayHours] = useState<number[]>(DEFAULT_WEEKDAY_HOURS);
+  const [isAlternating, setIsAlternating] = useState(false);
+  const [alternateWeekdayHours, setAlternateWeekdayHours] =
+    useState<number[]>(DEFAULT_WEEKDAY_HOURS);
+
+  const currentSchedule = getEffectiveSchedule(schedules, new Date());
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setEffectiveFrom(format(new Date(), 'yyyy-MM-dd'));
+      setWeekdayHours(DEFAULT_WEEKDAY_HOURS);
+      setIsAlternating(false);
+      setAlternateWeekdayHours(DEFAULT_WEEKDAY_HOURS);
+    }
+    onOpenChange(open);
+  };
+
+  const handleSave = async () => {
+    if (!member) return;
+
+    try {
+      await saveWorkSchedule.mutateAsync({
+        userId: member.userId,
+        effectiveFrom,
+        weekdayHours,
+        alternateWeekdayHours: isAlternating ? alternateWeekdayHours : null,
+      });
+      toast.success('Work schedule saved');
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save work schedule'
+      );
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteWorkSchedule.mutateAsync(id);
+      toast.success('Work schedule removed');
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to remove work schedule'
+      );
+    }
+  };
+
+  return (
+    <Dialog open={!!member} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            <Trans
+              i18nKey="admin:members.workSchedule.title"
+              values={{ name: member?.name ?? '' }}
+            />
+          </DialogTitle>
+          <DialogDescription>
+            <Trans i18nKey="admin:members.workSchedule.description" />
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">
+              <Trans i18nKey="admin:members.workSchedule.history" />
+            </h4>
+            {isLoading ? (
+              <Skeleton className="h-16 w-full" />
+            ) : schedules.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                <Trans i18nKey="admin:members.workSchedule.noSchedules" />
+              </p>
+            ) : (
+              <ul className="divide-y rounded-md border">
+                {[...schedules].reverse().map((schedule) => {
+                  const summary = getScheduleSummary(schedule);
+
+                  return (
+                    <li
+                      key={schedule.id}
+                      className="flex items-center justify-between gap-4 px-3 py-2 text-sm"
+                    >
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">
+                            <Trans
+                              i18nKey="admin:members.workSchedule.effectiveFromDate"
+                              values={{
+                                date: format(new Date(schedule.effectiveFrom), 'MMM d, yyyy'),
+                              }}
+                            />
+                          </span>
+                          {schedule.id === currentSchedule?.id ? (
+                            <Badge variant="secondary">
+                              <Trans i18nKey="admin:members.workSchedule.current" />
+                            </Badge>
+                          ) : null}
+                          {schedule.alternateWeekdayHours ? (
+                            <Badge variant="outline">
+                              <Trans i18nKey="admin:members.workSchedule.alternating" />
+                            </Badge>
+                          ) : null}
+                        </div>
+                        <p className="text-muted-foreground">
+                          <Trans
+                            i18nKey="admin:members.workSchedule.summary"
+                            values={summary}
+                          />
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(schedule.id)}
+                        disabled={deleteWorkSchedule.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">
+                          <Trans i18nKey="admin:members.workSchedule.delete" />
+                        </span>
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <h4 className="text-sm font-medium">
+              <Trans i18nKey="admin:members.workSchedule.newSchedule" />
+            </h4>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-effective-from">
+                <Trans i18nKey="admin:members.workSchedule.effectiveFrom" />
+              </Label>
+              <Input
+                id="schedule-effective-from"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="w-48"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>
+                <Trans i18nKey="admin:members.workSchedule.hoursPerDay" />
+              </Label>
+              <WeekdayHoursInputs
+                idPrefix="schedule-week"
+                hours={weekdayHours}
+                onChange={setWeekdayHours}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="schedule-alternating"
+                checked={isAlternating}
+                onCheckedChange={setIsAlternating}
+              />
+              <Label htmlFor="schedule-alternating">
+                <Trans i18nKey="admin:members.workSchedule.alternateWeeks" />
+              </Label>
+            </div>
+            {isAlternating ? (
+              <div className="space-y-2">
+                <Label>
+                  <Trans i18nKey="admin:members.workSchedule.secondWeek" />
+                </Label>
+                <WeekdayHoursInputs
+                  idPrefix="schedule-alternate-week"
+                  hours={alternateWeekdayHours}
+                  onChange={setAlternateWeekdayHours}
+                />
+              </div>
+            ) : null}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            <Trans i18nKey="common:cancel" defaults="Cancel" />
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!effectiveFrom || saveWorkSchedule.isPending}
+          >
+            {saveWorkSchedule.isPending ? (
+              <Trans i18nKey="admin:members.workSchedule.saving" />
+            ) : (
+              <Trans i18nKey="admin:members.workSchedule.save" />
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -34,9 +34,11 @@ const policiesSchema = z.object({
   carryoverEnabled: z.boolean(),
   carryoverMaxDays: z.coerce.number().min(0).max(30),
   carryoverExpiryDate: z.string().regex(/^\d{2}-\d{2}$/),
+  carryoverReminderDays: z.coerce.number().int().min(0).max(90),
   sickLeaveAuThreshold: z.coerce.number().min(1).max(7),
   requireApproval: z.boolean(),
   autoApproveThreshold: z.coerce.number().min(0).max(10).nullable(),
+  blockBelowMinCoverage: z.boolean(),
 });
 
 type PoliciesFormData = z.infer<typeof policiesSchema>;
@@ -48,9 +50,11 @@ interface Organization {
   carryoverEnabled: boolean;
   carryoverMaxDays: number;
   carryoverExpiryDate: string;
+  carryoverReminderDays: number;
   sickLeaveAuThreshold: number;
   requireApproval: boolean;
   autoApproveThreshold: number | null;
+  blockBelowMinCoverage: boolean;
 }
 
 export function PoliciesManagement() {
@@ -66,9 +70,11 @@ export function PoliciesManagement() {
       carryoverEnabled: true,
       carryoverMaxDays: 5,
       carryoverExpiryDate: '03-31',
+      carryoverReminderDays: 30,
       sickLeaveAuThreshold: 3,
       requireApproval: true,
       autoApproveThreshold: null,
+      blockBelowMinCoverage: false,
     },
   });
 
@@ -90,9 +96,11 @@ export function PoliciesManagement() {
             carryoverEnabled: data.data.carryoverEnabled ?? true,
             carryoverMaxDays: data.data.carryoverMaxDays || 5,
             carryoverExpiryDate: data.data.carryoverExpiryDate || '03-31',
+            carryoverReminderDays: data.data.carryoverReminderDays ?? 30,
             sickLeaveAuThreshold: data.data.sickLeaveAuThreshold || 3,
             requireApproval: data.data.requireApproval ?? true,
             autoApproveThreshold: data.data.autoApproveThreshold,
+            blockBelowMinCoverage: data.data.blockBelowMinCoverage ?? false,
           });
         }
       } catch (err) {
@@ -288,6 +296,24 @@ export function PoliciesManagement() {
                       </FormItem>
                     )}
                   />
+
+                  <FormField
+                    control={form.control}
+                    name="carryoverReminderDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Expiry Reminder (days before)</FormLabel>
+                        <FormControl>
+                          <Input type="number" {...field} className="w-32" />
+                        </FormControl>
+                        <FormDescription>
+                          Employees with unused carried-over days are reminded
+                          this many days before they expire (0 = no reminder)
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </>
               )}
             </CardContent>
@@ -389,6 +415,43 @@ export function PoliciesManagement() {
             </CardContent>
           </Card>
 
+          {/* Team Coverage Policy */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Team Coverage</CardTitle>
+              <CardDescription>
+                Configure what happens when leave would leave a team below its
+                minimum coverage
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="blockBelowMinCoverage"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between gap-x-4 rounded-lg border p-4">
+                    <div className="flex-1 space-y-0.5 text-left">
+                      <FormLabel className="text-base">
+                        Block Requests Below Minimum Coverage
+                      </FormLabel>
+                      <FormDescription>
+                        Reject leave requests that would leave a team with
+                        fewer members working than its minimum. When off,
+                        requests are submitted with a warning for approvers
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
           <Separator />
 
           {/* Submit */}
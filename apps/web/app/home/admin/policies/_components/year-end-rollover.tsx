@@ -0,0 +1,317 @@
+'use client';
+
+import { useState } from 'react';
+
+import { format } from 'date-fns';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@kit/ui/alert-dialog';
+import { Badge } from '@kit/ui/badge';
+import { Button } from '@kit/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@kit/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@kit/ui/select';
+import { Skeleton } from '@kit/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@kit/ui/table';
+import { Trans } from '@kit/ui/trans';
+
+import { useRolloverPreview, useRunRollover } from '~/lib/hooks';
+
+const ACTION_VARIANTS = {
+  created: 'default',
+  updated: 'secondary',
+  unchanged: 'outline',
+} as const;
+
+export function YearEndRollover() {
+  const currentYear = new Date().getFullYear();
+  const [fromYear, setFromYear] = useState(currentYear - 1);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const { data: preview, isLoading, error } = useRolloverPreview(fromYear);
+  const runRollover = useRunRollover();
+
+  const toYear = fromYear + 1;
+  const hasRun = preview?.history.some((run) => run.fromYear === fromYear);
+
+  const handleRun = async () => {
+    try {
+      await runRollover.mutateAsync(fromYear);
+      toast.success(<Trans i18nKey="admin:rollover.runSuccess" />);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to run rollover');
+    } finally {
+      setIsConfirmOpen(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto mt-6 max-w-2xl">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>
+                <Trans i18nKey="admin:rollover.title" />
+              </CardTitle>
+              <CardDescription>
+                <Trans i18nKey="admin:rollover.description" />
+              </CardDescription>
+            </div>
+            <Select
+              value={String(fromYear)}
+              onValueChange={(value) => setFromYear(Number(value))}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[currentYear - 2, currentYear - 1, currentYear].map((year) => (
+                  <SelectItem key={year} value={String(year)}>
+                    <Trans
+                      i18nKey="admin:rollover.yearRange"
+                      values={{ from: year, to: year + 1 }}
+                    />
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : error ? (
+            <p className="text-center text-muted-foreground">{error.message}</p>
+          ) : preview ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {!preview.policy.carryoverEnabled ? (
+                  <Trans i18nKey="admin:rollover.carryoverDisabled" />
+                ) : preview.policy.carryoverMaxDays !== null ? (
+                  <Trans
+                    i18nKey="admin:rollover.policySummary"
+                    values={{
+                      max: preview.policy.carryoverMaxDays,
+                      expiry: `${toYear}-${preview.policy.carryoverExpiryDate}`,
+                    }}
+                  />
+                ) : (
+                  <Trans
+                    i18nKey="admin:rollover.policySummaryUnlimited"
+                    values={{
+                      expiry: `${toYear}-${preview.policy.carryoverExpiryDate}`,
+                    }}
+                  />
+                )}
+              </p>
+
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                {(
+                  [
+                    ['balancesCreated', preview.totals.balancesCreated],
+                    ['balancesUpdated', preview.totals.balancesUpdated],
+                    ['carriedOver', preview.totals.carriedOver],
+                    ['forfeited', preview.totals.forfeited],
+                  ] as const
+                ).map(([key, value]) => (
+                  <div key={key} className="rounded-lg border p-3">
+                    <p className="text-2xl font-bold">{value}</p>
+                    <p className="text-xs text-muted-foreground">
+                      <Trans i18nKey={`admin:rollover.${key}`} />
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {preview.items.length === 0 ? (
+                <p className="py-4 text-center text-muted-foreground">
+                  <Trans i18nKey="admin:rollover.noMembers" />
+                </p>
+              ) : (
+                <div className="max-h-96 overflow-y-auto rounded-lg border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>
+                          <Trans i18nKey="admin:rollover.employee" />
+                        </TableHead>
+                        <TableHead>
+                          <Trans i18nKey="admin:rollover.leaveType" />
+                        </TableHead>
+                        <TableHead className="text-right">
+                          <Trans i18nKey="admin:rollover.remaining" />
+                        </TableHead>
+                        <TableHead className="text-right">
+                          <Trans i18nKey="admin:rollover.carryover" />
+                        </TableHead>
+                        <TableHead>
+                          <Trans i18nKey="admin:rollover.action" />
+                        </TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.items.map((item) => (
+                        <TableRow key={`${item.userId}:${item.leaveTypeId}`}>
+                          <TableCell className="font-medium">
+                            {item.userName || item.userEmail}
+                          </TableCell>
+                          <TableCell>{item.leaveTypeName}</TableCell>
+                          <TableCell className="text-right">
+                            {item.previousRemaining}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {item.carriedOver}
+                            {item.forfeited > 0 && (
+                              <span className="ml-1 text-xs text-destructive">
+                                (-{item.forfeited})
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={ACTION_VARIANTS[item.action]}>
+                              <Trans
+                                i18nKey={`admin:rollover.actions.${item.action}`}
+                              />
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => setIsConfirmOpen(true)}
+                  disabled={runRollover.isPending || preview.items.length === 0}
+                >
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  <Trans
+                    i18nKey={
+                      hasRun ? 'admin:rollover.rerun' : 'admin:rollover.run'
+                    }
+                  />
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">
+                  <Trans i18nKey="admin:rollover.history" />
+                </h4>
+                {preview.history.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    <Trans i18nKey="admin:rollover.noHistory" />
+                  </p>
+                ) : (
+                  <ul className="divide-y rounded-lg border text-sm">
+                    {preview.history.map((run) => (
+                      <li
+                        key={run.id}
+                        className="flex items-center justify-between gap-4 p-3"
+                      >
+                        <div>
+                          <p className="font-medium">
+                            <Trans
+                              i18nKey="admin:rollover.yearRange"
+                              values={{ from: run.fromYear, to: run.toYear }}
+                            />
+                          </p>
+                          <p className="text-muted-foreground">
+                            {format(new Date(run.createdAt), 'MMM d, yyyy HH:mm')}
+                            {' · '}
+                            {run.triggeredBy?.name ?? (
+                              <Trans
+                                i18nKey={`admin:rollover.triggers.${run.trigger}`}
+                              />
+                            )}
+                          </p>
+                        </div>
+                        <div className="text-right text-muted-foreground">
+                          <p>
+                            +{run.balancesCreated} / ~{run.balancesUpdated}
+                          </p>
+                          <p>
+                            {run.totalCarriedOver}{' '}
+                            <Trans i18nKey="admin:rollover.carriedOver" />
+                          </p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              <Trans i18nKey="admin:rollover.title" />
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              <Trans
+                i18nKey="admin:rollover.runConfirm"
+                values={{ from: fromYear, to: toYear }}
+              />
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={runRollover.isPending}>
+              <Trans i18nKey="common:cancel" />
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                handleRun();
+              }}
+              disabled={runRollover.isPending}
+            >
+              {runRollover.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              <Trans
+                i18nKey={hasRun ? 'admin:rollover.rerun' : 'admin:rollover.run'}
+              />
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
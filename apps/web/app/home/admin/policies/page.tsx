@@ -2,6 +2,7 @@ import { PageBody, PageHeader } from '@kit/ui/page';
 import { Trans } from '@kit/ui/trans';
 
 import { PoliciesManagement } from './_components/policies-management';
+import { YearEndRollover } from './_components/year-end-rollover';
 
 
 export default function AdminPoliciesPage() {
@@ -14,6 +15,7 @@ export default function AdminPoliciesPage() {
 
       <PageBody>
         <PoliciesManagement />
+        <YearEndRollover />
       </PageBody>
     </>
   );
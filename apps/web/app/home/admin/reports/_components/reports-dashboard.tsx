@@ -2,7 +2,10 @@
 
 import { useEffect, useState } from 'react';
 
+import Link from 'next/link';
+
 import {
+  AlertTriangle,
   BarChart3,
   Calendar,
   ChevronLeft,
@@ -14,6 +17,7 @@ import {
   Users,
 } from 'lucide-react';
 
+import { Alert, AlertDescription, AlertTitle } from '@kit/ui/alert';
 import { Badge } from '@kit/ui/badge';
 import { Button } from '@kit/ui/button';
 import {
@@ -41,6 +45,9 @@ import {
 } from '@kit/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@kit/ui/tabs';
 
+import pathsConfig from '~/config/paths.config';
+import type { CarryoverStatus } from '~/lib/types';
+
 interface LeaveSummary {
   period: {
     startDate: string;
@@ -54,6 +61,8 @@ interface LeaveSummary {
     approvedRequests: number;
     employeesWithLeave: number;
     employeesOnLeaveToday: number;
+    missingDocuments: number;
+    overdueDocuments: number;
   };
   byLeaveType: Array<{
     leaveTypeId: string;
@@ -97,6 +106,7 @@ interface EmployeeBalance {
     used: number;
     pending: number;
     remaining: number;
+    carryover: CarryoverStatus;
   } | null;
 }
 
@@ -327,6 +337,29 @@ export function ReportsDashboard() {
         </Card>
       </div>
 
+      {/* Missing documents */}
+      {!isLoadingSummary && (summary?.summary.missingDocuments ?? 0) > 0 && (
+        <Alert
+          variant={
+            (summary?.summary.overdueDocuments ?? 0) > 0 ? 'destructive' : 'warning'
+          }
+        >
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Missing documents</AlertTitle>
+          <AlertDescription>
+            {summary?.summary.missingDocuments} leave request(s) are waiting for a
+            required document, {summary?.summary.overdueDocuments} of them
+            overdue.{' '}
+            <Link
+              href={pathsConfig.app.adminDocuments}
+              className="font-medium underline"
+            >
+              Review
+            </Link>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Tabs for different views */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList>
@@ -538,6 +571,12 @@ export function ReportsDashboard() {
                           </TableCell>
                           <TableCell className="text-right">
                             {employee.balance?.carriedOver ?? '-'}
+                            {!!employee.balance?.carryover.expiring && (
+                              <p className="text-xs text-amber-600">
+                                {employee.balance.carryover.expiring} expiring{' '}
+                                {employee.balance.carryover.expiresAt}
+                              </p>
+                            )}
                           </TableCell>
                           <TableCell className="text-right">
                             {employee.balance?.used ?? '-'}
@@ -7,6 +7,7 @@ import { Check, CheckCircle, Loader2, MoreHorizontal, X } from 'lucide-react';
 import { toast } from 'sonner';
 
 import { Avatar, AvatarFallback, AvatarImage } from '@kit/ui/avatar';
+import { Badge } from '@kit/ui/badge';
 import { Button } from '@kit/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@kit/ui/card';
 import {
@@ -39,9 +40,12 @@ import {
   usePendingApprovals,
   useApproveLeaveRequest,
   useRejectLeaveRequest,
+  useTeamCoverage,
 } from '~/lib/hooks';
 import type { LeaveRequest } from '~/lib/types';
 
+import { CoverageConflictsAlert } from '../../leave/_components/coverage-conflicts-alert';
+
 interface PendingRequest {
   id: string;
   user: {
@@ -52,11 +56,13 @@ interface PendingRequest {
   };
   leaveType: {
     code: string;
+    name: string;
     color: string;
   };
   startDate: string;
   endDate: string;
   workDays: number;
+  exceedsBalance: boolean;
   reason?: string | null;
   submittedAt: string;
 }
@@ -71,6 +77,12 @@ interface ApprovalDialogProps {
 
 function ApprovalDialog({ request, action, isSubmitting, onClose, onConfirm }: ApprovalDialogProps) {
   const [comment, setComment] = useState('');
+  const { data: coverage } = useTeamCoverage({
+    userId: request?.user.id,
+    startDate: request?.startDate,
+    endDate: request?.endDate,
+    leaveRequestId: request?.id,
+  });
 
   const handleConfirm = async () => {
     if (action === 'reject' && !comment.trim()) {
@@ -95,7 +107,11 @@ function ApprovalDialog({ request, action, isSubmitting, onClose, onConfirm }: A
             )}
           </DialogTitle>
           <DialogDescription>
-            <Trans i18nKey={`leave:types.${request.leaveType.code}`} /> request from{' '}
+            <Trans
+              i18nKey={`leave:types.${request.leaveType.code}`}
+              defaults={request.leaveType.name}
+            />{' '}
+            request from{' '}
             {request.user.name}
             <br />
             {format(new Date(request.startDate), 'MMM d')} -{' '}
@@ -103,7 +119,10 @@ function ApprovalDialog({ request, action, isSubmitting, onClose, onConfirm }: A
           </DialogDescription>
         </DialogHeader>
 
-        <div className="py-4">
+        <div className="space-y-4 py-4">
+          {coverage ? (
+            <CoverageConflictsAlert conflicts={coverage.conflicts} />
+          ) : null}
           <Textarea
             placeholder={
               action === 'approve'
@@ -217,11 +236,13 @@ export function ApprovalQueue() {
     },
     leaveType: {
       code: req.leaveType?.code || 'unknown',
+      name: req.leaveType?.name || 'Unknown',
       color: req.leaveType?.color || '#6B7280',
     },
     startDate: req.startDate,
     endDate: req.endDate,
     workDays: req.workDays,
+    exceedsBalance: req.exceedsBalance,
     reason: req.reason,
     submittedAt: req.submittedAt || req.createdAt,
   }));
@@ -337,7 +358,10 @@ export function ApprovalQueue() {
                         className="h-2 w-2 rounded-full"
                         style={{ backgroundColor: request.leaveType.color }}
                       />
-                      <Trans i18nKey={`leave:types.${request.leaveType.code}`} />
+                      <Trans
+                        i18nKey={`leave:types.${request.leaveType.code}`}
+                        defaults={request.leaveType.name}
+                      />
                     </div>
                   </TableCell>
                   <TableCell>
@@ -346,6 +370,11 @@ export function ApprovalQueue() {
                   </TableCell>
                   <TableCell>
                     {request.workDays} <Trans i18nKey="leave:balance.days" />
+                    {request.exceedsBalance ? (
+                      <Badge variant="outline" className="ml-2 border-amber-500 text-amber-600">
+                        <Trans i18nKey="leave:approvals.exceedsBalance" />
+                      </Badge>
+                    ) : null}
                   </TableCell>
                   <TableCell className="text-muted-foreground text-sm">
                     {format(new Date(request.submittedAt), 'MMM d')}
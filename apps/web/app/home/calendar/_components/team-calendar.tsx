@@ -39,6 +39,7 @@ interface CalendarAbsence {
   leaveType: { code: string; color: string };
   startDate: string;
   endDate: string;
+  offDates: string[];
 }
 
 interface CalendarDayProps {
@@ -66,7 +67,10 @@ function CalendarDay({ date, currentMonth, holidays, absences }: CalendarDayProp
   const isHoliday = holidays.some((h) => h.date === dateStr);
   const holiday = holidays.find((h) => h.date === dateStr);
   const dayAbsences = absences.filter(
-    (a) => dateStr >= a.startDate && dateStr <= a.endDate
+    (a) =>
+      dateStr >= a.startDate &&
+      dateStr <= a.endDate &&
+      !a.offDates.includes(dateStr)
   );
 
   return (
@@ -176,7 +180,7 @@ export function TeamCalendar() {
     if (!holidaysData) return [];
     return holidaysData.map((h) => ({
       date: h.date,
-      name: h.nameEn, // TODO: Use locale to determine which name to show
+      name: h.name,
     }));
   }, [holidaysData]);
 
@@ -203,6 +207,7 @@ export function TeamCalendar() {
         id: absence.id,
         startDate: absence.startDate,
         endDate: absence.endDate,
+        offDates: absence.offDates,
         leaveType: absence.leaveType,
         user: {
           id: absence.user.id,
@@ -4,7 +4,17 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 
 import { format } from 'date-fns';
-import { ArrowLeft, Calendar, Clock, FileText, Loader2, User } from 'lucide-react';
+import {
+  ArrowLeft,
+  Calendar,
+  CheckCircle2,
+  Circle,
+  Clock,
+  FileText,
+  Loader2,
+  User,
+  XCircle,
+} from 'lucide-react';
 import { toast } from 'sonner';
 
 import { Avatar, AvatarFallback, AvatarImage } from '@kit/ui/avatar';
@@ -23,6 +33,8 @@ import {
 } from '~/lib/hooks';
 import type { LeaveRequestStatus } from '~/lib/types';
 
+import { LeaveRequestDocument } from './leave-request-document';
+
 const statusVariants: Record<
   LeaveRequestStatus,
   'default' | 'secondary' | 'destructive' | 'outline'
@@ -168,7 +180,10 @@ export function LeaveRequestDetail({ id }: LeaveRequestDetailProps) {
               style={{ backgroundColor: request.leaveType.color }}
             />
             <span className="text-lg font-medium">
-              <Trans i18nKey={`leave:types.${request.leaveType.code}`} />
+              <Trans
+                i18nKey={`leave:types.${request.leaveType.code}`}
+                defaults={request.leaveType.name}
+              />
             </span>
           </div>
 
@@ -224,6 +239,18 @@ export function LeaveRequestDetail({ id }: LeaveRequestDetailProps) {
                       <Trans i18nKey={request.workDays === 1 ? 'leave:balance.day' : 'leave:balance.days'} />
                     </span>
                   </p>
+                  {Object.keys(request.workDaysByYear).length > 1 && (
+                    <p className="text-sm text-muted-foreground">
+                      <Trans
+                        i18nKey="leave:detail.workDaysByYear"
+                        values={{
+                          breakdown: Object.entries(request.workDaysByYear)
+                            .map(([year, days]) => `${year}: ${days}`)
+                            .join(' · '),
+                        }}
+                      />
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -290,6 +317,74 @@ export function LeaveRequestDetail({ id }: LeaveRequestDetailProps) {
         </CardContent>
       </Card>
 
+      {/* Document Card */}
+      <LeaveRequestDocument
+        leaveRequestId={request.id}
+        status={request.status}
+        document={request.document}
+        hasDocument={request.hasDocument}
+        canManage={request.canManageDocument}
+        documentStatus={request.documentStatus ?? 'not_required'}
+        documentDueDate={request.documentDueDate}
+      />
+
+      {/* Approval Steps Card */}
+      {request.approvalSteps && request.approvalSteps.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              <Trans i18nKey="leave:detail.approvalSteps" />
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-4">
+              {request.approvalSteps.map((step) => (
+                <li key={step.level} className="flex items-start gap-3">
+                  {step.status === 'approved' ? (
+                    <CheckCircle2 className="mt-0.5 h-5 w-5 text-green-500" />
+                  ) : step.status === 'rejected' ? (
+                    <XCircle className="mt-0.5 h-5 w-5 text-red-500" />
+                  ) : step.status === 'current' ? (
+                    <Clock className="mt-0.5 h-5 w-5 text-yellow-500" />
+                  ) : (
+                    <Circle className="mt-0.5 h-5 w-5 text-muted-foreground" />
+                  )}
+                  <div className="flex-1">
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium">
+                        <Trans
+                          i18nKey="leave:detail.approvalLevel"
+                          values={{ level: step.level }}
+                        />
+                        {step.approverType && (
+                          <span className="font-normal text-muted-foreground">
+                            {' '}
+                            &middot;{' '}
+                            <Trans
+                              i18nKey={`leave:detail.approverTypes.${step.approverType}`}
+                            />
+                          </span>
+                        )}
+                      </p>
+                      <Badge variant="outline">
+                        <Trans i18nKey={`leave:detail.stepStatus.${step.status}`} />
+                      </Badge>
+                    </div>
+                    {step.approver && (
+                      <p className="text-sm text-muted-foreground">
+                        {step.approver.name || 'Unknown'}
+                        {step.decidedAt &&
+                          ` · ${format(new Date(step.decidedAt), 'MMM d, yyyy')}`}
+                      </p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Approval History Card */}
       <Card>
         <CardHeader>
@@ -319,7 +414,11 @@ export function LeaveRequestDetail({ id }: LeaveRequestDetailProps) {
                     <div className="flex-1">
                       <div className="flex items-center justify-between">
                         <p className="font-medium">
-                          {approval.approver?.name || 'Unknown'}
+                          {approval.isAutomatic ? (
+                            <Trans i18nKey="leave:detail.autoApproved" />
+                          ) : (
+                            approval.approver?.name || 'Unknown'
+                          )}
                         </p>
                         <p className="text-sm text-muted-foreground">
                           {format(new Date(approval.createdAt), 'MMM d, yyyy \'at\' h:mm a')}
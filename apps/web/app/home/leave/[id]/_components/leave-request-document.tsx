@@ -0,0 +1,209 @@
+'use client';
+
+import { useRef } from 'react';
+
+import { format } from 'date-fns';
+import {
+  AlertTriangle,
+  Download,
+  FileText,
+  Loader2,
+  Lock,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Alert, AlertDescription } from '@kit/ui/alert';
+import { Button } from '@kit/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@kit/ui/card';
+import { Trans } from '@kit/ui/trans';
+
+import { useDeleteLeaveDocument, useUploadLeaveDocument } from '~/lib/hooks';
+import type { DocumentStatus } from '~/lib/types';
+
+// Mirrors the checks in /api/leave-requests/[id]/document
+const ACCEPTED_FILE_TYPES = 'application/pdf,image/jpeg,image/png,image/webp';
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+interface LeaveRequestDocumentProps {
+  leaveRequestId: string;
+  status: string;
+  document: {
+    fileName: string;
+    uploadedAt: string | null;
+    url: string;
+  } | null;
+  hasDocument: boolean;
+  canManage: boolean;
+  documentStatus: DocumentStatus;
+  documentDueDate: string | null;
+}
+
+export function LeaveRequestDocument({
+  leaveRequestId,
+  status,
+  document,
+  hasDocument,
+  canManage,
+  documentStatus,
+  documentDueDate,
+}: LeaveRequestDocumentProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadDocument = useUploadLeaveDocument();
+  const deleteDocument = useDeleteLeaveDocument();
+
+  const isEditable = canManage && (status === 'pending' || status === 'approved');
+  const isBusy = uploadDocument.isPending || deleteDocument.isPending;
+  const isOutstanding =
+    documentStatus === 'missing' || documentStatus === 'overdue';
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      toast.error('File is too large (max. 10 MB)');
+      return;
+    }
+
+    try {
+      await uploadDocument.mutateAsync({ id: leaveRequestId, file });
+      toast.success('Document uploaded');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to upload document');
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await deleteDocument.mutateAsync(leaveRequestId);
+      toast.success('Document removed');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove document');
+    }
+  };
+
+  // Nothing to show to users who can neither see nor add a document
+  if (!document && !hasDocument && !isEditable && !isOutstanding) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          <Trans i18nKey="leave:detail.document" />
+        </CardTitle>
+        {isEditable && (
+          <CardDescription>
+            <Trans i18nKey="leave:detail.documentHint" />
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isOutstanding && documentDueDate && (
+          <Alert variant={documentStatus === 'overdue' ? 'destructive' : 'warning'}>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <Trans
+                i18nKey={
+                  documentStatus === 'overdue'
+                    ? 'leave:detail.documentOverdue'
+                    : 'leave:detail.documentRequired'
+                }
+                values={{
+                  date: format(new Date(documentDueDate), 'MMM d, yyyy'),
+                }}
+              />
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {document ? (
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+            <div className="flex min-w-0 items-center gap-3">
+              <FileText className="h-5 w-5 shrink-0 text-muted-foreground" />
+              <div className="min-w-0">
+                <p className="truncate font-medium">{document.fileName}</p>
+                {document.uploadedAt && (
+                  <p className="text-sm text-muted-foreground">
+                    <Trans
+                      i18nKey="leave:detail.documentUploadedOn"
+                      values={{
+                        date: format(new Date(document.uploadedAt), 'MMM d, yyyy'),
+                      }}
+                    />
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex shrink-0 gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={document.url}>
+                  <Download className="mr-2 h-4 w-4" />
+                  <Trans i18nKey="leave:detail.viewDocument" />
+                </a>
+              </Button>
+              {isEditable && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleRemove}
+                  disabled={isBusy}
+                >
+                  {deleteDocument.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : hasDocument ? (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Lock className="h-4 w-4" />
+            <Trans i18nKey="leave:detail.documentRestricted" />
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            <Trans i18nKey="leave:detail.noDocument" />
+          </p>
+        )}
+
+        {isEditable && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILE_TYPES}
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isBusy}
+            >
+              {uploadDocument.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              <Trans
+                i18nKey={
+                  document ? 'leave:detail.replaceDocument' : 'leave:detail.uploadDocument'
+                }
+              />
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
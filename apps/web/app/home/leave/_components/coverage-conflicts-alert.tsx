@@ -0,0 +1,62 @@
+'use client';
+
+import { format } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+
+import { Alert, AlertDescription, AlertTitle } from '@kit/ui/alert';
+import { Trans } from '@kit/ui/trans';
+
+import type { CoverageConflict } from '~/lib/types';
+
+interface CoverageConflictsAlertProps {
+  conflicts: CoverageConflict[];
+  isBlocking?: boolean;
+}
+
+/**
+ * Lists the days on which a leave request would leave a team below its
+ * minimum coverage.
+ */
+export function CoverageConflictsAlert({
+  conflicts,
+  isBlocking = false,
+}: CoverageConflictsAlertProps) {
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert
+      variant={isBlocking ? 'destructive' : 'default'}
+      className={isBlocking ? undefined : 'border-amber-500 text-amber-900 dark:text-amber-200'}
+    >
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        <Trans
+          i18nKey={
+            isBlocking
+              ? 'leave:coverage.blockedTitle'
+              : 'leave:coverage.warningTitle'
+          }
+        />
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-1 space-y-0.5 text-sm">
+          {conflicts.map((conflict) => (
+            <li key={`${conflict.date}-${conflict.teamId}`}>
+              <Trans
+                i18nKey="leave:coverage.conflict"
+                values={{
+                  date: format(new Date(conflict.date), 'EEE, MMM d'),
+                  team: conflict.teamName,
+                  available: conflict.available,
+                  minCoverage: conflict.minCoverage,
+                }}
+              />
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -179,7 +179,10 @@ export function LeaveRequestsList() {
                         className="h-2 w-2 rounded-full"
                         style={{ backgroundColor: request.leaveType?.color || '#6B7280' }}
                       />
-                      <Trans i18nKey={`leave:types.${leaveTypeName}`} />
+                      <Trans
+                        i18nKey={`leave:types.${leaveTypeName}`}
+                        defaults={request.leaveType?.name}
+                      />
                     </div>
                   </TableCell>
                   <TableCell>{dateRange}</TableCell>
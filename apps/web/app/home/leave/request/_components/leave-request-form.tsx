@@ -1,5 +1,7 @@
 'use client';
 
+import { useEffect } from 'react';
+
 import { useRouter } from 'next/navigation';
 
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -36,8 +38,19 @@ import { Trans } from '@kit/ui/trans';
 import { cn } from '@kit/ui/utils';
 
 import pathsConfig from '~/config/paths.config';
-import { useLeaveTypes, useHolidays, useCreateLeaveRequest } from '~/lib/hooks';
+import {
+  HalfDayRuleError,
+  InsufficientBalanceError,
+  useLeaveTypes,
+  useHolidays,
+  useCreateLeaveRequest,
+  useTeamCoverage,
+  useWorkSchedules,
+} from '~/lib/hooks';
 import { calculateWorkDays } from '~/lib/utils/leave-calculations';
+import { getWorkDayPredicate } from '~/lib/utils/work-schedule';
+
+import { CoverageConflictsAlert } from '../../_components/coverage-conflicts-alert';
 
 interface LeaveRequestFormProps {
   /** Create the leave request on behalf of a specific user (admins only). */
@@ -78,6 +91,7 @@ export function LeaveRequestForm({
   // Fetch leave types and holidays from API
   const { data: leaveTypes, isLoading: isLoadingTypes } = useLeaveTypes();
   const { data: holidays, isLoading: isLoadingHolidays } = useHolidays();
+  const { data: workSchedules } = useWorkSchedules(userId);
   const createLeaveRequest = useCreateLeaveRequest();
 
   const form = useForm<FormData>({
@@ -90,6 +104,7 @@ export function LeaveRequestForm({
     },
   });
 
+  const watchLeaveTypeId = form.watch('leaveTypeId');
   const watchStartDate = form.watch('startDate');
   const watchEndDate = form.watch('endDate');
   const watchStartHalfDay = form.watch('startHalfDay');
@@ -99,8 +114,30 @@ export function LeaveRequestForm({
     ? { from: watchStartDate, to: watchEndDate }
     : undefined;
 
-  // Convert holidays to date strings for calculation
-  const holidayDates = holidays?.map((h) => h.date) || [];
+  const isSingleDay =
+    watchStartDate &&
+    watchEndDate &&
+    format(watchStartDate, 'yyyy-MM-dd') === format(watchEndDate, 'yyyy-MM-dd');
+  const allowHalfDays =
+    leaveTypes?.find((type) => type.id === watchLeaveTypeId)?.allowHalfDays ?? true;
+
+  // Reset half days the leave type or the date range no longer allows: a
+  // request over several days starts in the afternoon and ends in the morning
+  useEffect(() => {
+    if (
+      watchStartHalfDay !== 'full' &&
+      (!allowHalfDays || (!isSingleDay && watchStartHalfDay === 'morning'))
+    ) {
+      form.setValue('startHalfDay', 'full');
+    }
+
+    if (
+      watchEndHalfDay !== 'full' &&
+      (!allowHalfDays || isSingleDay || watchEndHalfDay === 'afternoon')
+    ) {
+      form.setValue('endHalfDay', 'full');
+    }
+  }, [form, allowHalfDays, isSingleDay, watchStartHalfDay, watchEndHalfDay]);
 
   // Calculate work days
   const workDays =
@@ -108,15 +145,24 @@ export function LeaveRequestForm({
       ? calculateWorkDays(
           format(watchStartDate, 'yyyy-MM-dd'),
           format(watchEndDate, 'yyyy-MM-dd'),
-          holidayDates,
+          holidays ?? [],
           watchStartHalfDay === 'full' ? null : watchStartHalfDay,
-          watchEndHalfDay === 'full' ? null : watchEndHalfDay
+          watchEndHalfDay === 'full' ? null : watchEndHalfDay,
+          getWorkDayPredicate(workSchedules ?? [])
         )
       : 0;
 
+  // Warn (or stop) before the request leaves a team understaffed
+  const { data: coverage } = useTeamCoverage({
+    userId,
+    startDate: watchStartDate ? format(watchStartDate, 'yyyy-MM-dd') : undefined,
+    endDate: watchEndDate ? format(watchEndDate, 'yyyy-MM-dd') : undefined,
+  });
+  const isBlockedByCoverage = Boolean(coverage?.isBlocking) && !userId;
+
   const onSubmit = async (data: FormData) => {
     try {
-      await createLeaveRequest.mutateAsync({
+      const created = await createLeaveRequest.mutateAsync({
         userId,
         leaveTypeId: data.leaveTypeId,
         startDate: format(data.startDate, 'yyyy-MM-dd'),
@@ -126,7 +172,11 @@ export function LeaveRequestForm({
         reason: data.reason,
       });
 
-      toast.success('Leave request submitted successfully');
+      toast.success(
+        created.status === 'approved' && !userId
+          ? 'Leave request approved automatically'
+          : 'Leave request submitted successfully'
+      );
 
       if (onSuccess) {
         onSuccess();
@@ -134,6 +184,30 @@ export function LeaveRequestForm({
         router.push(pathsConfig.app.leave);
       }
     } catch (error) {
+      if (error instanceof InsufficientBalanceError && error.shortfalls[0]) {
+        toast.error(
+          <Trans
+            i18nKey="leave:request.insufficientBalanceAvailable"
+            values={{
+              available: error.shortfalls[0].available,
+              requested: error.shortfalls[0].requested,
+              year: error.shortfalls[0].year,
+            }}
+          />
+        );
+        return;
+      }
+
+      if (error instanceof HalfDayRuleError) {
+        toast.error(
+          <Trans
+            i18nKey={`leave:request.halfDayErrors.${error.reason}`}
+            defaults={error.message}
+          />
+        );
+        return;
+      }
+
       toast.error(error instanceof Error ? error.message : 'Failed to submit leave request');
     }
   };
@@ -149,11 +223,6 @@ export function LeaveRequestForm({
   const isLoading = isLoadingTypes || isLoadingHolidays;
   const isSubmitting = createLeaveRequest.isPending;
 
-  const isSingleDay =
-    watchStartDate &&
-    watchEndDate &&
-    format(watchStartDate, 'yyyy-MM-dd') === format(watchEndDate, 'yyyy-MM-dd');
-
   if (isLoading) {
     const loadingSkeleton = (
       <div className="space-y-6">
@@ -208,17 +277,22 @@ export function LeaveRequestForm({
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {leaveTypes?.map((type) => (
-                        <SelectItem key={type.id} value={type.id}>
-                          <div className="flex items-center gap-2">
-                            <div
-                              className="h-2 w-2 rounded-full"
-                              style={{ backgroundColor: type.color }}
-                            />
-                            <Trans i18nKey={`leave:types.${type.code}`} />
-                          </div>
-                        </SelectItem>
-                      ))}
+                      {leaveTypes
+                        ?.filter((type) => type.isActive)
+                        .map((type) => (
+                          <SelectItem key={type.id} value={type.id}>
+                            <div className="flex items-center gap-2">
+                              <div
+                                className="h-2 w-2 rounded-full"
+                                style={{ backgroundColor: type.color }}
+                              />
+                              <Trans
+                                i18nKey={`leave:types.${type.code}`}
+                                defaults={type.name}
+                              />
+                            </div>
+                          </SelectItem>
+                        ))}
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -302,7 +376,7 @@ export function LeaveRequestForm({
             />
 
             {/* Half Day Options */}
-            {watchStartDate && watchEndDate && (
+            {watchStartDate && watchEndDate && allowHalfDays && (
               <div className="grid gap-4 sm:grid-cols-2">
                 <FormField
                   control={form.control}
@@ -322,7 +396,7 @@ export function LeaveRequestForm({
                       <FormControl>
                         <RadioGroup
                           onValueChange={field.onChange}
-                          defaultValue={field.value}
+                          value={field.value}
                           className="flex flex-wrap gap-4"
                         >
                           <FormItem className="flex items-center space-x-2 space-y-0">
@@ -333,14 +407,16 @@ export function LeaveRequestForm({
                               <Trans i18nKey="leave:request.fullDay" />
                             </FormLabel>
                           </FormItem>
-                          <FormItem className="flex items-center space-x-2 space-y-0">
-                            <FormControl>
-                              <RadioGroupItem value="morning" />
-                            </FormControl>
-                            <FormLabel className="font-normal">
-                              <Trans i18nKey="leave:request.morning" />
-                            </FormLabel>
-                          </FormItem>
+                          {isSingleDay && (
+                            <FormItem className="flex items-center space-x-2 space-y-0">
+                              <FormControl>
+                                <RadioGroupItem value="morning" />
+                              </FormControl>
+                              <FormLabel className="font-normal">
+                                <Trans i18nKey="leave:request.morning" />
+                              </FormLabel>
+                            </FormItem>
+                          )}
                           <FormItem className="flex items-center space-x-2 space-y-0">
                             <FormControl>
                               <RadioGroupItem value="afternoon" />
@@ -369,7 +445,7 @@ export function LeaveRequestForm({
                         <FormControl>
                           <RadioGroup
                             onValueChange={field.onChange}
-                            defaultValue={field.value}
+                            value={field.value}
                             className="flex flex-wrap gap-4"
                           >
                             <FormItem className="flex items-center space-x-2 space-y-0">
@@ -388,14 +464,6 @@ export function LeaveRequestForm({
                                 <Trans i18nKey="leave:request.morning" />
                               </FormLabel>
                             </FormItem>
-                            <FormItem className="flex items-center space-x-2 space-y-0">
-                              <FormControl>
-                                <RadioGroupItem value="afternoon" />
-                              </FormControl>
-                              <FormLabel className="font-normal">
-                                <Trans i18nKey="leave:request.afternoon" />
-                              </FormLabel>
-                            </FormItem>
                           </RadioGroup>
                         </FormControl>
                         <FormMessage />
@@ -416,6 +484,13 @@ export function LeaveRequestForm({
               </div>
             )}
 
+            {coverage ? (
+              <CoverageConflictsAlert
+                conflicts={coverage.conflicts}
+                isBlocking={isBlockedByCoverage}
+              />
+            ) : null}
+
             {/* Reason */}
             <FormField
               control={form.control}
@@ -449,7 +524,7 @@ export function LeaveRequestForm({
           >
             <Trans i18nKey="leave:request.cancel" />
           </Button>
-          <Button type="submit" disabled={isSubmitting}>
+          <Button type="submit" disabled={isSubmitting || isBlockedByCoverage}>
             {isSubmitting ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -35,6 +35,9 @@ import {
   SelectValue,
 } from '@kit/ui/select';
 
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '~/lib/types';
+import { getCsrfToken } from '~/lib/utils/csrf';
+
 // Notification preferences schema
 const notificationPreferencesSchema = z.object({
   emailOnApproval: z.boolean(),
@@ -48,15 +51,7 @@ const notificationPreferencesSchema = z.object({
 
 type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
 
-const defaultPreferences: NotificationPreferences = {
-  emailOnApproval: true,
-  emailOnRejection: true,
-  emailOnRequestSubmitted: true,
-  emailOnTeamAbsence: false,
-  emailDigestFrequency: 'immediate',
-  emailOnApprovalNeeded: true,
-  emailOnUpcomingLeave: true,
-};
+const defaultPreferences: NotificationPreferences = DEFAULT_NOTIFICATION_PREFERENCES;
 
 interface NotificationSettingsProps {
   userId: string;
@@ -77,8 +72,8 @@ export function NotificationSettings({ userId: _userId }: NotificationSettingsPr
       try {
         const response = await fetch('/api/user/preferences');
         if (response.ok) {
-          const data = await response.json();
-          if (data.notificationPreferences) {
+          const { data } = await response.json();
+          if (data?.notificationPreferences) {
             form.reset({
               ...defaultPreferences,
               ...data.notificationPreferences,
@@ -100,7 +95,10 @@ export function NotificationSettings({ userId: _userId }: NotificationSettingsPr
     try {
       const response = await fetch('/api/user/preferences', {
         method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          'x-csrf-token': getCsrfToken(),
+        },
         body: JSON.stringify({ notificationPreferences: data }),
       });
 
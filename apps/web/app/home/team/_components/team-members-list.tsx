@@ -62,6 +62,7 @@ interface TeamMemberAvailability {
   teamNames: string[];
   currentAbsence: { id: string; type: string; endDate: string } | null;
   nextAbsence: { id: string; startDate: string; type: string } | null;
+  workingToday: boolean;
 }
 
 const roleLabels: Record<string, string> = {
@@ -369,6 +370,10 @@ export function TeamMembersList() {
                                 'MMM d'
                               )}
                           </Badge>
+                        ) : !member.workingToday ? (
+                          <Badge variant="outline" className="text-muted-foreground">
+                            <Trans i18nKey="teams:notWorkingToday" />
+                          </Badge>
                         ) : (
                           <Badge variant="outline" className="text-green-600">
                             Available
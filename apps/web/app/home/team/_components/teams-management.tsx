@@ -145,6 +145,7 @@ export function TeamsManagement() {
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [teamName, setTeamName] = useState('');
   const [teamDescription, setTeamDescription] = useState('');
+  const [teamMinCoverage, setTeamMinCoverage] = useState(1);
   const [teamColor, setTeamColor] = useState(TEAM_COLORS[0]?.value ?? '#3B82F6');
   const [isCreating, setIsCreating] = useState(false);
   const [selectedMemberIds, setSelectedMemberIds] = useState<string[]>([]);
@@ -247,6 +248,7 @@ export function TeamsManagement() {
   const resetForm = () => {
     setTeamName('');
     setTeamDescription('');
+    setTeamMinCoverage(1);
     setTeamColor(TEAM_COLORS[0]?.value ?? '#3B82F6');
     setSelectedMemberIds([]);
   };
@@ -310,6 +312,7 @@ export function TeamsManagement() {
           name: trimmedName,
           description: teamDescription.trim() || null,
           color: teamColor,
+          minCoverage: teamMinCoverage,
           memberIds: selectedMemberIds,
         }),
       });
@@ -638,6 +641,31 @@ export function TeamsManagement() {
                 />
               </div>
 
+              <div className="grid gap-2">
+                <Label htmlFor="team-min-coverage">
+                  <Trans
+                    i18nKey="admin:teams.createDialog.minCoverage"
+                    defaults="Minimum Coverage"
+                  />
+                </Label>
+                <Input
+                  id="team-min-coverage"
+                  type="number"
+                  min={0}
+                  value={teamMinCoverage}
+                  onChange={(event) =>
+                    setTeamMinCoverage(Math.max(0, Number(event.target.value) || 0))
+                  }
+                  className="w-32"
+                />
+                <p className="text-muted-foreground text-xs">
+                  <Trans
+                    i18nKey="admin:teams.createDialog.minCoverageDescription"
+                    defaults="Members of this team who must be working on any day, 0 to not check"
+                  />
+                </p>
+              </div>
+
               <div className="grid gap-2">
                 <Label htmlFor="team-color">
                   <Trans i18nKey="admin:teams.color" defaults="Team Color" />
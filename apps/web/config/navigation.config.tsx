@@ -12,6 +12,9 @@ import {
   Calendar,
   Shield,
   BarChart3,
+  FileWarning,
+  Timer,
+  ScrollText,
 } from 'lucide-react';
 import { z } from 'zod';
 
@@ -91,6 +94,21 @@ const routes = [
         path: pathsConfig.app.adminReports,
         Icon: <BarChart3 className={iconClasses} />,
       },
+      {
+        label: 'common:routes.documents',
+        path: pathsConfig.app.adminDocuments,
+        Icon: <FileWarning className={iconClasses} />,
+      },
+      {
+        label: 'common:routes.jobs',
+        path: pathsConfig.app.adminJobs,
+        Icon: <Timer className={iconClasses} />,
+      },
+      {
+        label: 'common:routes.audit',
+        path: pathsConfig.app.adminAudit,
+        Icon: <ScrollText className={iconClasses} />,
+      },
     ],
   },
   {
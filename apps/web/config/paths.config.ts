@@ -28,6 +28,9 @@ const PathsSchema = z.object({
     adminHolidays: z.string().min(1),
     adminApprovals: z.string().min(1),
     adminReports: z.string().min(1),
+    adminDocuments: z.string().min(1),
+    adminJobs: z.string().min(1),
+    adminAudit: z.string().min(1),
   }),
   legal: z.object({
     termsOfService: z.string().min(1),
@@ -67,6 +70,9 @@ const pathsConfig = PathsSchema.parse({
     adminHolidays: '/home/admin/holidays',
     adminApprovals: '/home/admin/approvals',
     adminReports: '/home/admin/reports',
+    adminDocuments: '/home/admin/documents',
+    adminJobs: '/home/admin/jobs',
+    adminAudit: '/home/admin/audit',
   },
   legal: {
     termsOfService: '/terms',
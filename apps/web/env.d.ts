@@ -20,6 +20,14 @@ declare global {
     MAILGUN_API_KEY: string;
     MAILGUN_DOMAIN: string;
     AUTH_EMAIL_FROM: string;
+    // Email transport (see lib/services/email-transport.service.ts)
+    EMAIL_TRANSPORT?: string;
+    EMAIL_HTTP_URL?: string;
+    EMAIL_HTTP_AUTH_HEADER?: string;
+    EMAIL_HTTP_AUTH_TOKEN?: string;
+    EMAIL_OUTBOX_DIR?: string;
+    // Emails allowed to run scheduled jobs (see lib/auth/platform-operator.ts)
+    PLATFORM_OPERATOR_EMAILS?: string;
   }
 
   namespace NodeJS {
@@ -32,6 +40,12 @@ declare global {
       AUTH_MICROSOFT_ENTRA_ID_TENANT_ID?: string;
       AUTH_RESEND_KEY?: string;
       AUTH_EMAIL_FROM?: string;
+      EMAIL_TRANSPORT?: string;
+      EMAIL_HTTP_URL?: string;
+      EMAIL_HTTP_AUTH_HEADER?: string;
+      EMAIL_HTTP_AUTH_TOKEN?: string;
+      EMAIL_OUTBOX_DIR?: string;
+      PLATFORM_OPERATOR_EMAILS?: string;
     }
   }
 }
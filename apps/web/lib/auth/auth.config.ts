@@ -2,7 +2,9 @@ import type { NextAuthConfig } from 'next-auth';
 import Google from 'next-auth/providers/google';
 import MicrosoftEntraID from 'next-auth/providers/microsoft-entra-id';
 
-import { MailgunProvider } from './mailgun-provider';
+import { getEmailTransport } from '~/lib/services/email-transport.service';
+
+import { MagicLinkProvider } from './magic-link-provider';
 
 type AuthEnv = Record<string, string | undefined>;
 
@@ -14,7 +16,7 @@ const isProduction = process.env.NODE_ENV === 'production';
  * Providers:
  * - Google OAuth
  * - Microsoft Entra ID (Azure AD)
- * - Magic Link via Mailgun
+ * - Magic Link via the configured email transport
  */
 export function getAuthConfig(env: AuthEnv): NextAuthConfig {
   return {
@@ -44,10 +46,9 @@ export function getAuthConfig(env: AuthEnv): NextAuthConfig {
       issuer: `https://login.microsoftonline.com/${env.AUTH_MICROSOFT_ENTRA_ID_TENANT_ID ?? 'common'}/v2.0`,
       }),
 
-      // Magic Link via Mailgun
-      MailgunProvider({
-        apiKey: env.MAILGUN_API_KEY ?? '',
-        domain: env.MAILGUN_DOMAIN ?? 'mg.zeitpal.com',
+      // Magic Link via the configured email transport
+      MagicLinkProvider({
+        transport: getEmailTransport(env),
         from: env.AUTH_EMAIL_FROM ?? 'ZeitPal <noreply@zeitpal.com>',
       }),
     ],
@@ -14,7 +14,7 @@ type AuthEnv = Record<string, string | undefined>;
  * Cloudflare Pages edge runtime.
  *
  * In development (Node.js runtime), we use a simpler setup without D1.
- * Note: Email providers (Mailgun) are only available when D1 is available,
+ * Note: Email providers (magic links) are only available when D1 is available,
  * as they require an adapter to store verification tokens.
  */
 async function getAuth() {
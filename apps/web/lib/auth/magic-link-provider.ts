@@ -1,5 +1,7 @@
 import type { EmailConfig } from 'next-auth/providers/email';
 
+import type { EmailTransport } from '~/lib/services/email-transport.service';
+
 /**
  * Email templates for magic link authentication
  */
@@ -121,17 +123,19 @@ function generateHtmlEmail(
 }
 
 /**
- * Mailgun Email Provider for NextAuth
+ * Magic Link Email Provider for NextAuth
  *
- * Sends magic link authentication emails via Mailgun API.
+ * Sends magic link authentication emails through the configured email
+ * transport (see email-transport.service).
  * Supports English and German based on NEXT_PUBLIC_DEFAULT_LOCALE.
  */
-export function MailgunProvider(options: {
-  apiKey: string;
-  domain: string;
+export function MagicLinkProvider(options: {
+  transport: EmailTransport | null;
   from?: string;
 }): EmailConfig {
   return {
+    // Kept from when this was Mailgun only, as sign-in links and the
+    // accounts of existing users refer to the provider by its id
     id: 'mailgun',
     type: 'email',
     name: 'Email',
@@ -151,32 +155,21 @@ export function MailgunProvider(options: {
       const t = emailTemplates[locale];
       const fromAddress = from ?? options.from ?? 'ZeitPal <noreply@zeitpal.com>';
 
-      // Use native fetch for edge runtime compatibility
-      const apiUrl = `https://api.eu.mailgun.net/v3/${options.domain}/messages`;
-
-      const formData = new FormData();
-      formData.append('from', fromAddress);
-      formData.append('to', email);
-      formData.append('subject', t.subject(siteName));
-      formData.append('text', t.textEmail(siteName, url));
-      formData.append('html', generateHtmlEmail(siteName, url, locale));
+      if (!options.transport) {
+        console.error('Email transport not configured');
+        throw new Error('Failed to send verification email');
+      }
 
       try {
-        const response = await fetch(apiUrl, {
-          method: 'POST',
-          headers: {
-            Authorization: `Basic ${btoa(`api:${options.apiKey}`)}`,
-          },
-          body: formData,
+        await options.transport.send({
+          from: fromAddress,
+          to: email,
+          subject: t.subject(siteName),
+          text: t.textEmail(siteName, url),
+          html: generateHtmlEmail(siteName, url, locale),
         });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('Mailgun API error:', response.status, errorText);
-          throw new Error(`Mailgun API error: ${response.status}`);
-        }
       } catch (error) {
-        console.error('Mailgun send error:', error);
+        console.error('Magic link send error:', error);
         throw new Error('Failed to send verification email');
       }
     },
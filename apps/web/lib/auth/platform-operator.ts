@@ -0,0 +1,25 @@
+/**
+ * Platform Operators for ZeitPal
+ *
+ * Scheduled jobs run across all organizations, so running them and
+ * reading their history is left to whoever operates the deployment, not
+ * to organization admins. Operators are listed by email, comma-separated,
+ * in PLATFORM_OPERATOR_EMAILS; without it nobody is an operator.
+ */
+
+export interface PlatformOperatorEnv {
+  PLATFORM_OPERATOR_EMAILS?: string;
+}
+
+export function isPlatformOperator(
+  env: PlatformOperatorEnv,
+  email: string | null | undefined
+): boolean {
+  if (!email || !env.PLATFORM_OPERATOR_EMAILS) {
+    return false;
+  }
+
+  return env.PLATFORM_OPERATOR_EMAILS.split(',')
+    .map((operator) => operator.trim().toLowerCase())
+    .includes(email.toLowerCase());
+}
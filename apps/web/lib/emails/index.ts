@@ -15,14 +15,20 @@ export { sendMemberInvitationEmail } from './templates/member-invitation';
 
 // Reminder Emails
 export { sendLeaveReminderEmail } from './templates/leave-reminder';
+export { sendDocumentReminderEmail } from './templates/document-reminder';
 
 // Team Emails
 export { sendTeamAbsenceNotificationEmail } from './templates/team-absence-notification';
 
+// Digest Emails
+export { sendEmailDigestEmail } from './templates/email-digest';
+
 // Re-export types from email service
 export type {
   LeaveRequestEmailData,
   InviteEmailData,
   LeaveReminderEmailData,
+  DocumentReminderEmailData,
   TeamAbsenceEmailData,
+  EmailDigestData,
 } from '~/lib/services/email.service';
@@ -0,0 +1,123 @@
+// CloudflareEnv is defined globally in env.d.ts
+import {
+  sendEmail,
+  formatDate,
+  wrapEmailHtml,
+  createEmailButton,
+  createInfoBox,
+  createDetailRow,
+  getEmailTranslator,
+  getRecipientLocale,
+  type EmailTranslator,
+  type Locale,
+  type DocumentReminderEmailData,
+} from '~/lib/services/email.service';
+
+/**
+ * Generate the due date message, with HTML emphasis
+ */
+function getMessage(
+  data: DocumentReminderEmailData,
+  locale: Locale,
+  t: EmailTranslator
+): string {
+  return t(
+    data.isOverdue
+      ? 'documentReminder.messageOverdue'
+      : 'documentReminder.message',
+    { date: formatDate(data.dueDate, locale) }
+  );
+}
+
+/**
+ * Generate HTML content for document reminder email
+ */
+function generateHtml(
+  data: DocumentReminderEmailData,
+  locale: Locale,
+  t: EmailTranslator
+): string {
+  const dateRange = `${formatDate(data.startDate, locale)} - ${formatDate(data.endDate, locale)}`;
+  const formattedDueDate = formatDate(data.dueDate, locale);
+
+  const content = `
+    <h2 style="color: #EF4444; margin-top: 0;">📄 ${t('documentReminder.heading')}</h2>
+
+    <p style="color: #4b5563;">
+      ${t('documentReminder.intro', { name: data.employeeName })}
+    </p>
+
+    <div style="background: #FEF2F2; border-left: 4px solid #EF4444; padding: 15px 20px; margin: 20px 0; border-radius: 0 8px 8px 0;">
+      <p style="margin: 0; color: #991B1B;">
+        ${getMessage(data, locale, t)}
+      </p>
+    </div>
+
+    ${createInfoBox(`
+      ${createDetailRow(t('documentReminder.leaveType'), data.leaveType)}
+      ${createDetailRow(t('documentReminder.dateRange'), dateRange)}
+      ${createDetailRow(t('documentReminder.dueDate'), formattedDueDate)}
+    `)}
+
+    ${createEmailButton(t('documentReminder.buttonText'), data.requestUrl, '#EF4444')}
+
+    <p style="color: #6b7280; font-size: 14px;">
+      ${t('documentReminder.footer')}
+    </p>
+  `;
+
+  return wrapEmailHtml(content, locale, t);
+}
+
+/**
+ * Generate plain text content for document reminder email
+ */
+function generateText(
+  data: DocumentReminderEmailData,
+  locale: Locale,
+  t: EmailTranslator
+): string {
+  const dateRange = `${formatDate(data.startDate, locale)} - ${formatDate(data.endDate, locale)}`;
+  const formattedDueDate = formatDate(data.dueDate, locale);
+  // Strip HTML tags for plain text version
+  const messageClean = getMessage(data, locale, t).replace(/<[^>]*>/g, '');
+
+  return `
+${t('documentReminder.heading')}
+
+${t('documentReminder.intro', { name: data.employeeName })}
+
+${messageClean}
+
+${t('documentReminder.leaveType')}: ${data.leaveType}
+${t('documentReminder.dateRange')}: ${dateRange}
+${t('documentReminder.dueDate')}: ${formattedDueDate}
+
+${t('documentReminder.buttonText')}: ${data.requestUrl}
+
+${t('documentReminder.footer')}
+  `.trim();
+}
+
+/**
+ * Send missing document reminder email to employee, in the employee's
+ * locale
+ */
+export async function sendDocumentReminderEmail(
+  env: CloudflareEnv,
+  data: DocumentReminderEmailData
+): Promise<void> {
+  const locale = await getRecipientLocale(env, data.employeeEmail);
+  const t = await getEmailTranslator(locale);
+
+  await sendEmail(env, {
+    to: data.employeeEmail,
+    subject: t(
+      data.isOverdue
+        ? 'documentReminder.subjectOverdue'
+        : 'documentReminder.subject'
+    ),
+    html: generateHtml(data, locale, t),
+    text: generateText(data, locale, t),
+  });
+}
@@ -0,0 +1,142 @@
+// CloudflareEnv is defined globally in env.d.ts
+import {
+  type EmailDigestData,
+  type EmailTranslator,
+  type Locale,
+  createEmailButton,
+  createInfoBox,
+  formatDate,
+  getEmailTranslator,
+  getRecipientLocale,
+  getSiteUrl,
+  sendEmail,
+  wrapEmailHtml,
+} from '~/lib/services/email.service';
+import { formatWorkDays } from '~/lib/utils/leave-calculations';
+
+const formatRange = (startDate: string, endDate: string, locale: Locale) =>
+  startDate === endDate
+    ? formatDate(startDate, locale)
+    : `${formatDate(startDate, locale)} - ${formatDate(endDate, locale)}`;
+
+/**
+ * The digest's sections as lists of lines, skipping empty sections
+ */
+function getSections(
+  data: EmailDigestData,
+  locale: Locale,
+  t: EmailTranslator
+) {
+  return [
+    {
+      title: t('digest.awaitingApproval'),
+      lines: data.awaitingApproval.map(
+        (request) =>
+          `${request.employeeName} · ${request.leaveType} · ${formatRange(request.startDate, request.endDate, locale)} (${formatWorkDays(request.workDays, locale)})`
+      ),
+    },
+    {
+      title: t('digest.decisions'),
+      lines: data.decisions.map(
+        (request) =>
+          `${t(`leave:status.${request.status}`, { defaultValue: request.status })} · ${request.leaveType} · ${formatRange(request.startDate, request.endDate, locale)}`
+      ),
+    },
+    {
+      title: t(`digest.teamAbsences.${data.frequency}`),
+      lines: data.teamAbsences.map(
+        (absence) =>
+          `${absence.employeeName} · ${absence.leaveType} · ${formatRange(absence.startDate, absence.endDate, locale)}`
+      ),
+    },
+  ].filter((section) => section.lines.length > 0);
+}
+
+/**
+ * Generate HTML content for the digest email
+ */
+function generateHtml(
+  data: EmailDigestData,
+  locale: Locale,
+  t: EmailTranslator
+): string {
+  const homeUrl = `${getSiteUrl()}/home`;
+
+  const sections = getSections(data, locale, t)
+    .map(
+      (section) => `
+    <h3 style="color: #1f2937; margin-bottom: 0;">${section.title}</h3>
+    ${createInfoBox(
+      section.lines
+        .map((line) => `<p style="margin: 8px 0; color: #4b5563;">${line}</p>`)
+        .join('')
+    )}`
+    )
+    .join('');
+
+  const content = `
+    <h2 style="color: #3B82F6; margin-top: 0;">${t(`digest.heading.${data.frequency}`)}</h2>
+
+    <p style="color: #4b5563;">
+      ${t('digest.intro', { name: data.recipientName })}
+    </p>
+
+    ${sections}
+
+    ${createEmailButton(t('digest.buttonText'), homeUrl)}
+
+    <p style="color: #6b7280; font-size: 14px;">
+      ${t('digest.footer')}
+    </p>
+  `;
+
+  return wrapEmailHtml(content, locale, t);
+}
+
+/**
+ * Generate plain text content for the digest email
+ */
+function generateText(
+  data: EmailDigestData,
+  locale: Locale,
+  t: EmailTranslator
+): string {
+  const homeUrl = `${getSiteUrl()}/home`;
+
+  const sections = getSections(data, locale, t)
+    .map(
+      (section) =>
+        `${section.title}\n${section.lines.map((line) => `- ${line}`).join('\n')}`
+    )
+    .join('\n\n');
+
+  return `
+${t(`digest.heading.${data.frequency}`)}
+
+${t('digest.intro', { name: data.recipientName })}
+
+${sections}
+
+${t('digest.buttonText')}: ${homeUrl}
+
+${t('digest.footer')}
+  `.trim();
+}
+
+/**
+ * Send a daily or weekly digest email, in the recipient's locale
+ */
+export async function sendEmailDigestEmail(
+  env: CloudflareEnv,
+  data: EmailDigestData
+): Promise<void> {
+  const locale = await getRecipientLocale(env, data.recipientEmail);
+  const t = await getEmailTranslator(locale);
+
+  await sendEmail(env, {
+    to: data.recipientEmail,
+    subject: t(`digest.subject.${data.frequency}`),
+    html: generateHtml(data, locale, t),
+    text: generateText(data, locale, t),
+  });
+}
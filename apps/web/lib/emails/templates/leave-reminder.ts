@@ -7,139 +7,124 @@ import {
   createEmailButton,
   createInfoBox,
   createDetailRow,
-  getLocale,
+  getEmailTranslator,
+  getRecipientLocale,
+  type EmailTranslator,
   type Locale,
   type LeaveReminderEmailData,
 } from '~/lib/services/email.service';
+import { formatWorkDays } from '~/lib/utils/leave-calculations';
 
 /**
- * Email translations for leave reminder (carryover expiry)
+ * Generate the carryover expiry message, with HTML emphasis
  */
-const translations = {
-  en: {
-    subject: (days: number) =>
-      `Reminder: ${days} leave days expiring soon`,
-    heading: 'Leave Balance Reminder',
-    intro: (name: string) =>
-      `Hi ${name}, this is a friendly reminder about your leave balance.`,
-    remainingDays: 'Days Remaining',
-    leaveType: 'Leave Type',
-    expiryDate: 'Expiry Date',
-    message: (days: number, date: string) =>
-      `You have <strong>${days} day${days === 1 ? '' : 's'}</strong> of carried-over leave that will expire on <strong>${date}</strong>.`,
-    buttonText: 'Request Leave',
-    footer:
-      "Don't let your leave days go to waste! Plan your time off today.",
-    tip: 'Tip: You can also view your full leave balance in the ZeitPal dashboard.',
-  },
-  de: {
-    subject: (days: number) =>
-      `Erinnerung: ${days} Urlaubstage laufen bald ab`,
-    heading: 'Erinnerung an Ihren Urlaubsanspruch',
-    intro: (name: string) =>
-      `Hallo ${name}, dies ist eine freundliche Erinnerung an Ihren Urlaubsanspruch.`,
-    remainingDays: 'Verbleibende Tage',
-    leaveType: 'Abwesenheitsart',
-    expiryDate: 'Verfallsdatum',
-    message: (days: number, date: string) =>
-      `Sie haben <strong>${days} ${days === 1 ? 'Tag' : 'Tage'}</strong> übertragenen Urlaub, der am <strong>${date}</strong> verfällt.`,
-    buttonText: 'Urlaub beantragen',
-    footer:
-      'Lassen Sie Ihre Urlaubstage nicht verfallen! Planen Sie Ihre Auszeit heute.',
-    tip: 'Tipp: Sie können Ihren vollständigen Urlaubsanspruch auch im ZeitPal-Dashboard einsehen.',
-  },
-};
+function getMessage(
+  data: LeaveReminderEmailData,
+  locale: Locale,
+  t: EmailTranslator
+): string {
+  return t('leaveReminder.message', {
+    days: formatWorkDays(data.remainingDays, locale),
+    date: formatDate(data.expiryDate, locale),
+  });
+}
 
 /**
  * Generate HTML content for leave reminder email
  */
-function generateHtml(data: LeaveReminderEmailData, locale: Locale): string {
-  const t = translations[locale];
+function generateHtml(
+  data: LeaveReminderEmailData,
+  locale: Locale,
+  t: EmailTranslator
+): string {
   const siteUrl = getSiteUrl();
   const requestUrl = `${siteUrl}/home/leave/request`;
 
   const formattedExpiryDate = formatDate(data.expiryDate, locale);
 
   const content = `
-    <h2 style="color: #F59E0B; margin-top: 0;">⏰ ${t.heading}</h2>
+    <h2 style="color: #F59E0B; margin-top: 0;">⏰ ${t('leaveReminder.heading')}</h2>
 
     <p style="color: #4b5563;">
-      ${t.intro(data.employeeName)}
+      ${t('leaveReminder.intro', { name: data.employeeName })}
     </p>
 
     <div style="background: #FFFBEB; border-left: 4px solid #F59E0B; padding: 15px 20px; margin: 20px 0; border-radius: 0 8px 8px 0;">
       <p style="margin: 0; color: #92400E;">
-        ${t.message(data.remainingDays, formattedExpiryDate)}
+        ${getMessage(data, locale, t)}
       </p>
     </div>
 
     ${createInfoBox(`
-      ${createDetailRow(t.leaveType, data.leaveType)}
-      ${createDetailRow(t.remainingDays, data.remainingDays.toString())}
-      ${createDetailRow(t.expiryDate, formattedExpiryDate)}
+      ${createDetailRow(t('leaveReminder.leaveType'), data.leaveType)}
+      ${createDetailRow(t('leaveReminder.remainingDays'), formatWorkDays(data.remainingDays, locale))}
+      ${createDetailRow(t('leaveReminder.expiryDate'), formattedExpiryDate)}
     `)}
 
-    ${createEmailButton(t.buttonText, requestUrl, '#F59E0B')}
+    ${createEmailButton(t('leaveReminder.buttonText'), requestUrl, '#F59E0B')}
 
     <p style="color: #6b7280; font-size: 14px;">
-      ${t.footer}
+      ${t('leaveReminder.footer')}
     </p>
 
     <p style="color: #9ca3af; font-size: 12px; font-style: italic;">
-      ${t.tip}
+      ${t('leaveReminder.tip')}
     </p>
   `;
 
-  return wrapEmailHtml(content, locale);
+  return wrapEmailHtml(content, locale, t);
 }
 
 /**
  * Generate plain text content for leave reminder email
  */
-function generateText(data: LeaveReminderEmailData, locale: Locale): string {
-  const t = translations[locale];
+function generateText(
+  data: LeaveReminderEmailData,
+  locale: Locale,
+  t: EmailTranslator
+): string {
   const siteUrl = getSiteUrl();
   const requestUrl = `${siteUrl}/home/leave/request`;
 
   const formattedExpiryDate = formatDate(data.expiryDate, locale);
   // Strip HTML tags for plain text version
-  const messageClean = t
-    .message(data.remainingDays, formattedExpiryDate)
-    .replace(/<[^>]*>/g, '');
+  const messageClean = getMessage(data, locale, t).replace(/<[^>]*>/g, '');
 
   return `
-${t.heading}
+${t('leaveReminder.heading')}
 
-${t.intro(data.employeeName)}
+${t('leaveReminder.intro', { name: data.employeeName })}
 
 ${messageClean}
 
-${t.leaveType}: ${data.leaveType}
-${t.remainingDays}: ${data.remainingDays}
-${t.expiryDate}: ${formattedExpiryDate}
+${t('leaveReminder.leaveType')}: ${data.leaveType}
+${t('leaveReminder.remainingDays')}: ${formatWorkDays(data.remainingDays, locale)}
+${t('leaveReminder.expiryDate')}: ${formattedExpiryDate}
 
-${t.buttonText}: ${requestUrl}
+${t('leaveReminder.buttonText')}: ${requestUrl}
 
-${t.footer}
+${t('leaveReminder.footer')}
 
-${t.tip}
+${t('leaveReminder.tip')}
   `.trim();
 }
 
 /**
- * Send leave reminder email to employee
+ * Send leave reminder email to employee, in the employee's locale
  */
 export async function sendLeaveReminderEmail(
   env: CloudflareEnv,
   data: LeaveReminderEmailData
 ): Promise<void> {
-  const locale = getLocale();
-  const t = translations[locale];
+  const locale = await getRecipientLocale(env, data.employeeEmail);
+  const t = await getEmailTranslator(locale);
 
   await sendEmail(env, {
     to: data.employeeEmail,
-    subject: t.subject(data.remainingDays),
-    html: generateHtml(data, locale),
-    text: generateText(data, locale),
+    subject: t('leaveReminder.subject', {
+      days: data.remainingDays.toLocaleString(locale),
+    }),
+    html: generateHtml(data, locale, t),
+    text: generateText(data, locale, t),
   });
 }
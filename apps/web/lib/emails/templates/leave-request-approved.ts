@@ -7,84 +7,55 @@ import {
   createEmailButton,
   createInfoBox,
   createDetailRow,
-  getLocale,
+  getEmailTranslator,
+  getRecipientLocale,
+  type EmailTranslator,
   type Locale,
   type LeaveRequestEmailData,
 } from '~/lib/services/email.service';
-
-/**
- * Email translations for leave request approved notification
- */
-const translations = {
-  en: {
-    subject: 'Your Leave Request Has Been Approved',
-    heading: 'Leave Request Approved',
-    intro: 'Great news! Your leave request has been approved.',
-    approvedBy: 'Approved by',
-    leaveType: 'Leave Type',
-    dateRange: 'Date Range',
-    workDays: 'Working Days',
-    buttonText: 'View Details',
-    footer: 'Enjoy your time off!',
-    comment: 'Comment',
-  },
-  de: {
-    subject: 'Ihr Urlaubsantrag wurde genehmigt',
-    heading: 'Urlaubsantrag genehmigt',
-    intro: 'Gute Nachrichten! Ihr Urlaubsantrag wurde genehmigt.',
-    approvedBy: 'Genehmigt von',
-    leaveType: 'Abwesenheitsart',
-    dateRange: 'Zeitraum',
-    workDays: 'Arbeitstage',
-    buttonText: 'Details anzeigen',
-    footer: 'Genießen Sie Ihre freie Zeit!',
-    comment: 'Kommentar',
-  },
-};
+import { pickLocalizedName } from '~/lib/services/translation.service';
+import { formatWorkDays } from '~/lib/utils/leave-calculations';
 
 /**
  * Generate HTML content for leave request approved email
  */
 function generateHtml(
   data: LeaveRequestEmailData & { comment?: string },
-  locale: Locale
+  locale: Locale,
+  t: EmailTranslator
 ): string {
-  const t = translations[locale];
   const siteUrl = getSiteUrl();
   const requestUrl = data.requestUrl || `${siteUrl}/home/leave`;
 
   const dateRange = `${formatDate(data.startDate, locale)} - ${formatDate(data.endDate, locale)}`;
-  const workDaysText = locale === 'de'
-    ? `${data.workDays} ${data.workDays === 1 ? 'Tag' : 'Tage'}`
-    : `${data.workDays} ${data.workDays === 1 ? 'day' : 'days'}`;
 
   const commentSection = data.comment
-    ? createDetailRow(t.comment, data.comment)
+    ? createDetailRow(t('leaveRequestApproved.comment'), data.comment)
     : '';
 
   const content = `
-    <h2 style="color: #059669; margin-top: 0;">✓ ${t.heading}</h2>
+    <h2 style="color: #059669; margin-top: 0;">✓ ${t('leaveRequestApproved.heading')}</h2>
 
     <p style="color: #4b5563;">
-      ${t.intro}
+      ${t('leaveRequestApproved.intro')}
     </p>
 
     ${createInfoBox(`
-      ${createDetailRow(t.leaveType, data.leaveType)}
-      ${createDetailRow(t.dateRange, dateRange)}
-      ${createDetailRow(t.workDays, workDaysText)}
-      ${data.approverName ? createDetailRow(t.approvedBy, data.approverName) : ''}
+      ${createDetailRow(t('leaveRequestApproved.leaveType'), pickLocalizedName(data.leaveType, locale))}
+      ${createDetailRow(t('leaveRequestApproved.dateRange'), dateRange)}
+      ${createDetailRow(t('leaveRequestApproved.workDays'), formatWorkDays(data.workDays, locale))}
+      ${data.approverName ? createDetailRow(t('leaveRequestApproved.approvedBy'), data.approverName) : ''}
       ${commentSection}
     `)}
 
-    ${createEmailButton(t.buttonText, requestUrl, '#059669')}
+    ${createEmailButton(t('leaveRequestApproved.buttonText'), requestUrl, '#059669')}
 
     <p style="color: #6b7280; font-size: 14px;">
-      ${t.footer}
+      ${t('leaveRequestApproved.footer')}
     </p>
   `;
 
-  return wrapEmailHtml(content, locale);
+  return wrapEmailHtml(content, locale, t);
 }
 
 /**
@@ -92,49 +63,50 @@ function generateHtml(
  */
 function generateText(
   data: LeaveRequestEmailData & { comment?: string },
-  locale: Locale
+  locale: Locale,
+  t: EmailTranslator
 ): string {
-  const t = translations[locale];
   const siteUrl = getSiteUrl();
   const requestUrl = data.requestUrl || `${siteUrl}/home/leave`;
 
   const dateRange = `${formatDate(data.startDate, locale)} - ${formatDate(data.endDate, locale)}`;
-  const workDaysText = locale === 'de'
-    ? `${data.workDays} ${data.workDays === 1 ? 'Tag' : 'Tage'}`
-    : `${data.workDays} ${data.workDays === 1 ? 'day' : 'days'}`;
 
-  const commentLine = data.comment ? `\n${t.comment}: ${data.comment}` : '';
+  const commentLine = data.comment
+    ? `\n${t('leaveRequestApproved.comment')}: ${data.comment}`
+    : '';
 
   return `
-${t.heading}
+${t('leaveRequestApproved.heading')}
 
-${t.intro}
+${t('leaveRequestApproved.intro')}
 
-${t.leaveType}: ${data.leaveType}
-${t.dateRange}: ${dateRange}
-${t.workDays}: ${workDaysText}
-${data.approverName ? `${t.approvedBy}: ${data.approverName}` : ''}${commentLine}
+${t('leaveRequestApproved.leaveType')}: ${pickLocalizedName(data.leaveType, locale)}
+${t('leaveRequestApproved.dateRange')}: ${dateRange}
+${t('leaveRequestApproved.workDays')}: ${formatWorkDays(data.workDays, locale)}
+${data.approverName ? `${t('leaveRequestApproved.approvedBy')}: ${data.approverName}` : ''}${commentLine}
 
-${t.buttonText}: ${requestUrl}
+${t('leaveRequestApproved.buttonText')}: ${requestUrl}
 
-${t.footer}
+${t('leaveRequestApproved.footer')}
   `.trim();
 }
 
 /**
- * Send leave request approved notification email to employee
+ * Send leave request approved notification email to employee, in the
+ * employee's locale
  */
 export async function sendLeaveRequestApprovedEmail(
   env: CloudflareEnv,
   data: LeaveRequestEmailData & { comment?: string }
 ): Promise<void> {
-  const locale = getLocale();
-  const t = translations[locale];
+  const locale = await getRecipientLocale(env, data.employeeEmail);
+  const t = await getEmailTranslator(locale);
 
   await sendEmail(env, {
     to: data.employeeEmail,
-    subject: t.subject,
-    html: generateHtml(data, locale),
-    text: generateText(data, locale),
+    subject: t('leaveRequestApproved.subject'),
+    html: generateHtml(data, locale, t),
+    text: generateText(data, locale, t),
+    preference: 'emailOnApproval',
   });
 }
@@ -7,130 +7,106 @@ import {
   createEmailButton,
   createInfoBox,
   createDetailRow,
-  getLocale,
+  getEmailTranslator,
+  getRecipientLocale,
+  type EmailTranslator,
   type Locale,
   type TeamAbsenceEmailData,
 } from '~/lib/services/email.service';
-
-/**
- * Email translations for team absence notification
- */
-const translations = {
-  en: {
-    subject: (employeeName: string, teamName: string) =>
-      `${employeeName} will be away from ${teamName}`,
-    heading: 'Team Member Absence',
-    intro: (recipientName: string) =>
-      `Hi ${recipientName}, this is to let you know about an upcoming absence on your team.`,
-    employee: 'Team Member',
-    team: 'Team',
-    leaveType: 'Absence Type',
-    dateRange: 'Date Range',
-    buttonText: 'View Team Calendar',
-    footer: 'Plan accordingly and reach out if you need to arrange coverage.',
-    coverageNote:
-      'Consider reviewing tasks and responsibilities during this period.',
-  },
-  de: {
-    subject: (employeeName: string, teamName: string) =>
-      `${employeeName} wird abwesend sein (${teamName})`,
-    heading: 'Teammitglied-Abwesenheit',
-    intro: (recipientName: string) =>
-      `Hallo ${recipientName}, hiermit informieren wir Sie über eine bevorstehende Abwesenheit in Ihrem Team.`,
-    employee: 'Teammitglied',
-    team: 'Team',
-    leaveType: 'Abwesenheitsart',
-    dateRange: 'Zeitraum',
-    buttonText: 'Team-Kalender anzeigen',
-    footer:
-      'Planen Sie entsprechend und wenden Sie sich bei Bedarf wegen einer Vertretung an die zuständigen Personen.',
-    coverageNote:
-      'Überprüfen Sie die Aufgaben und Verantwortlichkeiten während dieses Zeitraums.',
-  },
-};
+import { pickLocalizedName } from '~/lib/services/translation.service';
 
 /**
  * Generate HTML content for team absence notification email
  */
-function generateHtml(data: TeamAbsenceEmailData, locale: Locale): string {
-  const t = translations[locale];
+function generateHtml(
+  data: TeamAbsenceEmailData,
+  locale: Locale,
+  t: EmailTranslator
+): string {
   const siteUrl = getSiteUrl();
   const calendarUrl = `${siteUrl}/home/calendar`;
 
   const dateRange = `${formatDate(data.startDate, locale)} - ${formatDate(data.endDate, locale)}`;
 
   const content = `
-    <h2 style="color: #6366F1; margin-top: 0;">📅 ${t.heading}</h2>
+    <h2 style="color: #6366F1; margin-top: 0;">📅 ${t('teamAbsence.heading')}</h2>
 
     <p style="color: #4b5563;">
-      ${t.intro(data.recipientName)}
+      ${t('teamAbsence.intro', { name: data.recipientName })}
     </p>
 
     ${createInfoBox(`
-      ${createDetailRow(t.employee, data.employeeName)}
-      ${createDetailRow(t.team, data.teamName)}
-      ${createDetailRow(t.leaveType, data.leaveType)}
-      ${createDetailRow(t.dateRange, dateRange)}
+      ${createDetailRow(t('teamAbsence.employee'), data.employeeName)}
+      ${createDetailRow(t('teamAbsence.team'), data.teamName)}
+      ${createDetailRow(t('teamAbsence.leaveType'), pickLocalizedName(data.leaveType, locale))}
+      ${createDetailRow(t('teamAbsence.dateRange'), dateRange)}
     `)}
 
     <div style="background: #EEF2FF; border-left: 4px solid #6366F1; padding: 15px 20px; margin: 20px 0; border-radius: 0 8px 8px 0;">
       <p style="margin: 0; color: #4338CA; font-size: 14px;">
-        💡 ${t.coverageNote}
+        💡 ${t('teamAbsence.coverageNote')}
       </p>
     </div>
 
-    ${createEmailButton(t.buttonText, calendarUrl, '#6366F1')}
+    ${createEmailButton(t('teamAbsence.buttonText'), calendarUrl, '#6366F1')}
 
     <p style="color: #6b7280; font-size: 14px;">
-      ${t.footer}
+      ${t('teamAbsence.footer')}
     </p>
   `;
 
-  return wrapEmailHtml(content, locale);
+  return wrapEmailHtml(content, locale, t);
 }
 
 /**
  * Generate plain text content for team absence notification email
  */
-function generateText(data: TeamAbsenceEmailData, locale: Locale): string {
-  const t = translations[locale];
+function generateText(
+  data: TeamAbsenceEmailData,
+  locale: Locale,
+  t: EmailTranslator
+): string {
   const siteUrl = getSiteUrl();
   const calendarUrl = `${siteUrl}/home/calendar`;
 
   const dateRange = `${formatDate(data.startDate, locale)} - ${formatDate(data.endDate, locale)}`;
 
   return `
-${t.heading}
+${t('teamAbsence.heading')}
 
-${t.intro(data.recipientName)}
+${t('teamAbsence.intro', { name: data.recipientName })}
 
-${t.employee}: ${data.employeeName}
-${t.team}: ${data.teamName}
-${t.leaveType}: ${data.leaveType}
-${t.dateRange}: ${dateRange}
+${t('teamAbsence.employee')}: ${data.employeeName}
+${t('teamAbsence.team')}: ${data.teamName}
+${t('teamAbsence.leaveType')}: ${pickLocalizedName(data.leaveType, locale)}
+${t('teamAbsence.dateRange')}: ${dateRange}
 
-${t.coverageNote}
+${t('teamAbsence.coverageNote')}
 
-${t.buttonText}: ${calendarUrl}
+${t('teamAbsence.buttonText')}: ${calendarUrl}
 
-${t.footer}
+${t('teamAbsence.footer')}
   `.trim();
 }
 
 /**
- * Send team absence notification email
+ * Send team absence notification email, in the recipient's locale
  */
 export async function sendTeamAbsenceNotificationEmail(
   env: CloudflareEnv,
   data: TeamAbsenceEmailData
 ): Promise<void> {
-  const locale = getLocale();
-  const t = translations[locale];
+  const locale = await getRecipientLocale(env, data.recipientEmail);
+  const t = await getEmailTranslator(locale);
 
   await sendEmail(env, {
     to: data.recipientEmail,
-    subject: t.subject(data.employeeName, data.teamName),
-    html: generateHtml(data, locale),
-    text: generateText(data, locale),
+    subject: t('teamAbsence.subject', {
+      employeeName: data.employeeName,
+      teamName: data.teamName,
+    }),
+    html: generateHtml(data, locale, t),
+    text: generateText(data, locale, t),
+    preference: 'emailOnTeamAbsence',
   });
 }
@@ -6,7 +6,13 @@ export {
 } from './use-organization';
 
 // Leave Balances
-export { useLeaveBalances } from './use-leave-balances';
+export {
+  useAdjustBalance,
+  useBalanceHistory,
+  useLeaveBalances,
+  useRolloverPreview,
+  useRunRollover,
+} from './use-leave-balances';
 
 // Leave Types
 export { useLeaveTypes } from './use-leave-types';
@@ -21,6 +27,12 @@ export {
   useUpdateLeaveRequest,
   useWithdrawLeaveRequest,
   useCancelLeaveRequest,
+  useUploadLeaveDocument,
+  useDeleteLeaveDocument,
+  useMissingLeaveDocuments,
+  useSendDocumentReminder,
+  InsufficientBalanceError,
+  HalfDayRuleError,
 } from './use-leave-requests';
 
 // Approvals
@@ -36,7 +48,7 @@ export { useHolidays } from './use-holidays';
 export { useCalendarEvents } from './use-calendar-events';
 
 // Teams
-export { useTeams } from './use-teams';
+export { useTeamCoverage, useTeams } from './use-teams';
 
 // Members
 export {
@@ -45,3 +57,23 @@ export {
   useUpdateMember,
   useRemoveMember,
 } from './use-members';
+
+// Scheduled Jobs
+export { useJobs, useJobRuns, useRunJob } from './use-jobs';
+
+// Work Schedules
+export {
+  useWorkSchedules,
+  useSaveWorkSchedule,
+  useDeleteWorkSchedule,
+} from './use-work-schedules';
+
+// Audit Log
+export { getAuditLogSearchParams, useAuditLogs } from './use-audit-logs';
+
+// Notifications
+export {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotifications,
+} from './use-notifications';
@@ -58,6 +58,7 @@ export function useApproveLeaveRequest() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['leave-requests'] });
       queryClient.invalidateQueries({ queryKey: ['leave-balances'] });
+      queryClient.invalidateQueries({ queryKey: ['team-coverage'] });
     },
   });
 }
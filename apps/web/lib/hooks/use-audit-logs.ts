@@ -0,0 +1,66 @@
+'use client';
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+  PaginatedResponse,
+} from '~/lib/types';
+
+export interface AuditLogFilters {
+  userId?: string;
+  entityType?: AuditEntityType;
+  action?: AuditAction;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Query string for the audit log filters, shared by the log viewer and
+ * the CSV export link.
+ */
+export function getAuditLogSearchParams(filters: AuditLogFilters) {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) {
+      params.set(key, value);
+    }
+  }
+
+  return params;
+}
+
+async function fetchAuditLogs(
+  filters: AuditLogFilters,
+  page: number,
+  pageSize: number
+): Promise<PaginatedResponse<AuditLogEntry>> {
+  const params = getAuditLogSearchParams(filters);
+  params.set('page', page.toString());
+  params.set('pageSize', pageSize.toString());
+
+  const response = await fetch(`/api/audit-logs?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch audit log');
+  }
+
+  return response.json();
+}
+
+export function useAuditLogs(
+  filters: AuditLogFilters,
+  page: number,
+  pageSize = 25
+) {
+  return useQuery({
+    queryKey: ['audit-logs', filters, page, pageSize],
+    queryFn: () => fetchAuditLogs(filters, page, pageSize),
+    // Keep the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+  });
+}
@@ -6,6 +6,8 @@ interface CalendarEvent {
   id: string;
   startDate: string;
   endDate: string;
+  /** Days of the absence the member is not scheduled to work */
+  offDates: string[];
   user: {
     id: string;
     name: string | null;
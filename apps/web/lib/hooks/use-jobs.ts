@@ -0,0 +1,92 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import type { JobRun, JobRunStatus, JobSchedule } from '~/lib/types';
+import { getCsrfToken } from '~/lib/utils/csrf';
+
+interface ScheduledJob {
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  hour: number;
+  currentPeriod: string;
+  lastRun: JobRun | null;
+}
+
+interface JobRunOutcome {
+  jobName: string;
+  periodKey: string;
+  status: JobRunStatus | 'skipped';
+  processed: number;
+  error: string | null;
+}
+
+async function fetchJobs(): Promise<ScheduledJob[]> {
+  const response = await fetch('/api/jobs');
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch scheduled jobs');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+async function fetchJobRuns(name: string): Promise<JobRun[]> {
+  const response = await fetch(`/api/jobs/${name}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch job runs');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+async function runJob(name: string): Promise<JobRunOutcome> {
+  const response = await fetch(`/api/jobs/${name}/run`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-csrf-token': getCsrfToken(),
+    },
+    body: JSON.stringify({}),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to run job');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+export function useJobs() {
+  return useQuery({
+    queryKey: ['jobs'],
+    queryFn: fetchJobs,
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useJobRuns(name: string | null) {
+  return useQuery({
+    queryKey: ['jobs', name, 'runs'],
+    queryFn: () => fetchJobRuns(name!),
+    enabled: !!name,
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useRunJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: runJob,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+    },
+  });
+}
@@ -1,13 +1,61 @@
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 
-import type { LeaveBalance } from '~/lib/types';
+import type {
+  BalanceAdjustment,
+  BalanceAdjustmentKind,
+  BalanceLedgerEntry,
+  JobRunTrigger,
+  LeaveBalance,
+} from '~/lib/types';
+import { getCsrfToken } from '~/lib/utils/csrf';
 
 interface LeaveBalancesResponse {
   data: LeaveBalance[];
 }
 
+interface RolloverPreview {
+  fromYear: number;
+  toYear: number;
+  policy: {
+    carryoverEnabled: boolean;
+    carryoverMaxDays: number | null;
+    carryoverExpiryDate: string;
+  };
+  items: Array<{
+    userId: string;
+    userName: string | null;
+    userEmail: string;
+    leaveTypeId: string;
+    leaveTypeCode: string;
+    leaveTypeName: string;
+    previousRemaining: number;
+    entitled: number;
+    carriedOver: number;
+    forfeited: number;
+    action: 'created' | 'updated' | 'unchanged';
+  }>;
+  totals: {
+    balancesCreated: number;
+    balancesUpdated: number;
+    carriedOver: number;
+    forfeited: number;
+  };
+  history: Array<{
+    id: string;
+    fromYear: number;
+    toYear: number;
+    trigger: JobRunTrigger;
+    triggeredBy: { id: string; name: string | null } | null;
+    balancesCreated: number;
+    balancesUpdated: number;
+    totalCarriedOver: number;
+    totalForfeited: number;
+    createdAt: string;
+  }>;
+}
+
 interface UseLeaveBalancesOptions {
   userId?: string;
   year?: number;
@@ -39,6 +87,75 @@ async function fetchLeaveBalances(
   return result.data;
 }
 
+async function fetchRolloverPreview(fromYear: number): Promise<RolloverPreview> {
+  const response = await fetch(`/api/leave-balances/rollover?fromYear=${fromYear}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load rollover preview');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+async function runRollover(fromYear: number): Promise<void> {
+  const response = await fetch('/api/leave-balances/rollover', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-csrf-token': getCsrfToken(),
+    },
+    body: JSON.stringify({ fromYear }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to run rollover');
+  }
+}
+
+interface AdjustBalanceInput {
+  balanceId: string;
+  kind: BalanceAdjustmentKind;
+  days: number;
+  reason: string;
+}
+
+async function fetchBalanceHistory(balanceId: string): Promise<BalanceLedgerEntry[]> {
+  const response = await fetch(`/api/leave-balances/${balanceId}/history`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load balance history');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+async function adjustBalance({
+  balanceId,
+  ...input
+}: AdjustBalanceInput): Promise<BalanceAdjustment> {
+  const response = await fetch(`/api/leave-balances/${balanceId}/adjustments`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-csrf-token': getCsrfToken(),
+    },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to adjust leave balance');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
 export function useLeaveBalances(options: UseLeaveBalancesOptions = {}) {
   const { userId, year = new Date().getFullYear() } = options;
 
@@ -48,3 +165,41 @@ export function useLeaveBalances(options: UseLeaveBalancesOptions = {}) {
     staleTime: 2 * 60 * 1000, // 2 minutes
   });
 }
+
+export function useRolloverPreview(fromYear: number) {
+  return useQuery({
+    queryKey: ['leave-balances', 'rollover', fromYear],
+    queryFn: () => fetchRolloverPreview(fromYear),
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useRunRollover() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: runRollover,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave-balances'] });
+    },
+  });
+}
+
+export function useBalanceHistory(balanceId: string | null) {
+  return useQuery({
+    queryKey: ['leave-balances', 'history', balanceId],
+    queryFn: () => fetchBalanceHistory(balanceId!),
+    enabled: Boolean(balanceId),
+  });
+}
+
+export function useAdjustBalance() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: adjustBalance,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave-balances'] });
+    },
+  });
+}
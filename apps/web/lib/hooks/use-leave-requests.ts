@@ -2,8 +2,46 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 
-import type { LeaveRequest, LeaveRequestStatus } from '~/lib/types';
+import type {
+  BalanceShortfall,
+  DocumentStatus,
+  LeaveRequest,
+  LeaveRequestStatus,
+} from '~/lib/types';
 import { getCsrfToken } from '~/lib/utils/csrf';
+import {
+  HALF_DAY_ERRORS,
+  type HalfDayError,
+} from '~/lib/utils/leave-calculations';
+
+/**
+ * Thrown when a new leave request asks for more days than the balance
+ * has left, so the form can show a localized message.
+ */
+export class InsufficientBalanceError extends Error {
+  constructor(
+    message: string,
+    readonly leaveTypeCode: string,
+    readonly shortfalls: BalanceShortfall[]
+  ) {
+    super(message);
+    this.name = 'InsufficientBalanceError';
+  }
+}
+
+/**
+ * Thrown when a new leave request breaks the half-day rules, so the form
+ * can show a localized message.
+ */
+export class HalfDayRuleError extends Error {
+  constructor(
+    message: string,
+    readonly reason: HalfDayError
+  ) {
+    super(message);
+    this.name = 'HalfDayRuleError';
+  }
+}
 
 interface LeaveRequestsResponse {
   data: LeaveRequest[];
@@ -18,11 +56,57 @@ interface LeaveRequestsResponse {
 interface LeaveRequestDetailApproval {
   id: string;
   action: string;
+  level: number;
   comment: string | null;
   createdAt: string;
+  /** Recorded by the system on submission, not by an approver */
+  isAutomatic: boolean;
+  approver: {
+    id: string;
+    name: string | null;
+  };
+}
+
+interface LeaveRequestApprovalStep {
+  level: number;
+  ruleName: string | null;
+  approverType: string | null;
+  status: 'approved' | 'rejected' | 'current' | 'upcoming';
+  decidedAt: string | null;
   approver: {
     id: string;
     name: string | null;
+  } | null;
+}
+
+interface LeaveRequestDocument {
+  fileName: string;
+  uploadedAt: string | null;
+  url: string;
+}
+
+interface MissingLeaveDocument {
+  id: string;
+  userId: string;
+  startDate: string;
+  endDate: string;
+  workDays: number;
+  status: LeaveRequestStatus;
+  documentDueDate: string | null;
+  documentStatus: DocumentStatus;
+  documentReminderSentAt: string | null;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+    avatarUrl: string | null;
+  };
+  leaveType: {
+    id: string;
+    code: string;
+    nameEn: string;
+    nameDe: string;
+    color: string;
   };
 }
 
@@ -37,10 +121,15 @@ interface LeaveRequestDetailResponse {
     leaveType: {
       id: string;
       code: string;
+      name: string;
       nameEn: string;
       nameDe: string;
       color: string;
     };
+    document: LeaveRequestDocument | null;
+    hasDocument: boolean;
+    canManageDocument: boolean;
+    approvalSteps: LeaveRequestApprovalStep[];
     approvals: LeaveRequestDetailApproval[];
   };
 }
@@ -137,6 +226,19 @@ async function createLeaveRequest(
 
   if (!response.ok) {
     const error = await response.json();
+
+    if (error.details?.reason === 'insufficient_balance') {
+      throw new InsufficientBalanceError(
+        error.error,
+        error.details.leaveType,
+        error.details.shortfalls
+      );
+    }
+
+    if (HALF_DAY_ERRORS.includes(error.details?.reason)) {
+      throw new HalfDayRuleError(error.error, error.details.reason);
+    }
+
     throw new Error(error.error || 'Failed to create leave request');
   }
 
@@ -174,6 +276,72 @@ async function cancelLeaveRequest(id: string): Promise<LeaveRequest> {
   return updateLeaveRequest({ id, status: 'cancelled' });
 }
 
+async function uploadLeaveDocument(input: {
+  id: string;
+  file: File;
+}): Promise<LeaveRequestDocument> {
+  // The file is sent as the raw body, so the server can stream it to storage
+  const response = await fetch(`/api/leave-requests/${input.id}/document`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': input.file.type || 'application/octet-stream',
+      'x-csrf-token': getCsrfToken(),
+      'x-file-name': encodeURIComponent(input.file.name),
+    },
+    body: input.file,
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to upload document');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+async function deleteLeaveDocument(id: string): Promise<void> {
+  const response = await fetch(`/api/leave-requests/${id}/document`, {
+    method: 'DELETE',
+    headers: {
+      'x-csrf-token': getCsrfToken(),
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to remove document');
+  }
+}
+
+async function fetchMissingDocuments(): Promise<MissingLeaveDocument[]> {
+  const response = await fetch('/api/leave-requests/missing-documents');
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch missing documents');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+async function sendDocumentReminder(id: string): Promise<void> {
+  const response = await fetch(
+    `/api/leave-requests/${id}/document/reminder`,
+    {
+      method: 'POST',
+      headers: {
+        'x-csrf-token': getCsrfToken(),
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to send reminder');
+  }
+}
+
 export function useLeaveRequest(id: string | undefined) {
   return useQuery({
     queryKey: ['leave-request', id],
@@ -256,3 +424,49 @@ export function useCancelLeaveRequest() {
     },
   });
 }
+
+export function useUploadLeaveDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: uploadLeaveDocument,
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['leave-request', id] });
+      queryClient.invalidateQueries({
+        queryKey: ['leave-requests', 'missing-documents'],
+      });
+    },
+  });
+}
+
+export function useDeleteLeaveDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteLeaveDocument,
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ['leave-request', id] });
+    },
+  });
+}
+
+export function useMissingLeaveDocuments() {
+  return useQuery({
+    queryKey: ['leave-requests', 'missing-documents'],
+    queryFn: fetchMissingDocuments,
+    staleTime: 1 * 60 * 1000,
+  });
+}
+
+export function useSendDocumentReminder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: sendDocumentReminder,
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ['leave-requests', 'missing-documents'],
+      });
+    },
+  });
+}
@@ -2,13 +2,13 @@
 
 import { useQuery } from '@tanstack/react-query';
 
-import type { LeaveType } from '~/lib/types';
+import type { LocalizedLeaveType } from '~/lib/types';
 
 interface LeaveTypesResponse {
-  data: LeaveType[];
+  data: LocalizedLeaveType[];
 }
 
-async function fetchLeaveTypes(): Promise<LeaveType[]> {
+async function fetchLeaveTypes(): Promise<LocalizedLeaveType[]> {
   const response = await fetch('/api/leave-types');
 
   if (!response.ok) {
@@ -0,0 +1,84 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import type { Notification } from '~/lib/types';
+import { getCsrfToken } from '~/lib/utils/csrf';
+
+interface NotificationsResponse {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+async function fetchNotifications(): Promise<NotificationsResponse> {
+  const response = await fetch('/api/notifications');
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch notifications');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+async function markNotificationRead(id: string): Promise<void> {
+  const response = await fetch(`/api/notifications/${id}/read`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-csrf-token': getCsrfToken(),
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to mark notification as read');
+  }
+}
+
+async function markAllNotificationsRead(): Promise<void> {
+  const response = await fetch('/api/notifications/read-all', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-csrf-token': getCsrfToken(),
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to mark notifications as read');
+  }
+}
+
+export function useNotifications() {
+  return useQuery({
+    queryKey: ['notifications'],
+    queryFn: fetchNotifications,
+    staleTime: 30 * 1000,
+    // Pick up new notifications while the app stays open
+    refetchInterval: 60 * 1000,
+  });
+}
+
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: markNotificationRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: markAllNotificationsRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+}
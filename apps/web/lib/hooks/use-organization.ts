@@ -25,9 +25,11 @@ interface UpdateOrganizationInput {
   carryoverEnabled?: boolean;
   carryoverMaxDays?: number;
   carryoverExpiryDate?: string;
+  carryoverReminderDays?: number;
   sickLeaveAuThreshold?: number;
   requireApproval?: boolean;
   autoApproveThreshold?: number | null;
+  blockBelowMinCoverage?: boolean;
 }
 
 async function fetchOrganization(): Promise<Organization | null> {
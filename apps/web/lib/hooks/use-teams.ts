@@ -2,7 +2,7 @@
 
 import { useQuery } from '@tanstack/react-query';
 
-import type { Team } from '~/lib/types';
+import type { CoverageConflict, Team } from '~/lib/types';
 
 interface TeamsResponse {
   data: Team[];
@@ -29,3 +29,49 @@ export function useTeams() {
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 }
+
+interface TeamCoverage {
+  conflicts: CoverageConflict[];
+  isBlocking: boolean;
+}
+
+interface UseTeamCoverageOptions {
+  userId?: string;
+  startDate?: string;
+  endDate?: string;
+  leaveRequestId?: string;
+}
+
+async function fetchTeamCoverage(
+  options: UseTeamCoverageOptions
+): Promise<TeamCoverage> {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(options)) {
+    if (value) {
+      params.set(key, value);
+    }
+  }
+
+  const response = await fetch(`/api/team-coverage?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch team coverage');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get the days on which a member's absence would leave one of their
+ * teams below its minimum coverage.
+ */
+export function useTeamCoverage(options: UseTeamCoverageOptions) {
+  return useQuery({
+    queryKey: ['team-coverage', options],
+    queryFn: () => fetchTeamCoverage(options),
+    enabled: Boolean(options.startDate && options.endDate),
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import type { WorkSchedule } from '~/lib/types';
+import { getCsrfToken } from '~/lib/utils/csrf';
+
+interface SaveWorkScheduleInput {
+  userId: string;
+  effectiveFrom: string;
+  weekdayHours: number[];
+  alternateWeekdayHours: number[] | null;
+}
+
+async function fetchWorkSchedules(userId?: string): Promise<WorkSchedule[]> {
+  const params = userId ? `?userId=${encodeURIComponent(userId)}` : '';
+  const response = await fetch(`/api/work-schedules${params}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch work schedules');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+async function saveWorkSchedule(
+  input: SaveWorkScheduleInput
+): Promise<WorkSchedule[]> {
+  const response = await fetch('/api/work-schedules', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-csrf-token': getCsrfToken(),
+    },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to save work schedule');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+async function deleteWorkSchedule(id: string): Promise<void> {
+  const response = await fetch(`/api/work-schedules/${id}`, {
+    method: 'DELETE',
+    headers: {
+      'x-csrf-token': getCsrfToken(),
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to delete work schedule');
+  }
+}
+
+/**
+ * Get a member's work schedules (default: the current user's).
+ */
+export function useWorkSchedules(userId?: string) {
+  return useQuery({
+    queryKey: ['work-schedules', userId ?? 'me'],
+    queryFn: () => fetchWorkSchedules(userId),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useSaveWorkSchedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveWorkSchedule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['work-schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['calendar'] });
+    },
+  });
+}
+
+export function useDeleteWorkSchedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteWorkSchedule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['work-schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['calendar'] });
+    },
+  });
+}
@@ -0,0 +1,67 @@
+// CloudflareEnv is defined globally in env.d.ts
+import { applyRollover } from '~/lib/services/rollover.service';
+
+import type { JobDefinition } from './types';
+
+/**
+ * Roll every organization's leave balances over into the new year:
+ * create the new balances and carry over unused days. Each organization
+ * is committed on its own, so a retry skips the ones already rolled over
+ * in this period.
+ */
+export const balanceRolloverJob: JobDefinition = {
+  name: 'balance-rollover',
+  description: 'Create new-year leave balances and carry over unused days',
+  schedule: 'yearly',
+  async run(env, { periodKey, now, trigger, triggeredBy }) {
+    const db = env.DB;
+    const fromYear = now.getUTCFullYear() - 1;
+
+    const organizations = await db
+      .prepare('SELECT id FROM organizations')
+      .all<{ id: string }>();
+
+    const done = await db
+      .prepare(
+        `SELECT organization_id FROM balance_rollovers
+         WHERE job_period_key = ?`
+      )
+      .bind(periodKey)
+      .all<{ organization_id: string }>();
+    const doneIds = new Set(
+      done.results.map(
+        (row: { organization_id: string }) => row.organization_id
+      )
+    );
+
+    let processed = 0;
+    let carriedOver = 0;
+    let skipped = 0;
+
+    for (const { id } of organizations.results) {
+      if (doneIds.has(id)) {
+        skipped++;
+        continue;
+      }
+
+      const { plan } = await applyRollover(db, id, fromYear, {
+        trigger,
+        triggeredBy,
+        jobPeriodKey: periodKey,
+      });
+
+      processed += plan.totals.balancesCreated + plan.totals.balancesUpdated;
+      carriedOver += plan.totals.carriedOver;
+    }
+
+    return {
+      processed,
+      details: {
+        fromYear,
+        organizations: organizations.results.length,
+        skipped,
+        carriedOver,
+      },
+    };
+  },
+};
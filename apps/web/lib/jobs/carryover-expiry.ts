@@ -0,0 +1,25 @@
+// CloudflareEnv is defined globally in env.d.ts
+import { format } from 'date-fns';
+
+import { expireCarryover } from '~/lib/services/carryover.service';
+
+import type { JobDefinition } from './types';
+
+/**
+ * Forfeit carried-over days that were not taken by the carryover expiry
+ * date. Runs before the reminders so expired balances are never warned.
+ */
+export const carryoverExpiryJob: JobDefinition = {
+  name: 'carryover-expiry',
+  description: 'Forfeit unused carried-over days after their expiry date',
+  schedule: 'daily',
+  hour: 1,
+  async run(env, { now }) {
+    const { processed, forfeited } = await expireCarryover(
+      env.DB,
+      format(now, 'yyyy-MM-dd')
+    );
+
+    return { processed, details: { forfeited } };
+  },
+};
@@ -0,0 +1,51 @@
+// CloudflareEnv is defined globally in env.d.ts
+import { format } from 'date-fns';
+
+import { sendCarryoverReminder } from '~/lib/services/carryover.service';
+
+import type { JobDefinition } from './types';
+
+/**
+ * Warn employees with unused carried-over days once the expiry date is
+ * within the organization's carryover_reminder_days (0 disables it).
+ */
+export const carryoverRemindersJob: JobDefinition = {
+  name: 'carryover-reminders',
+  description: 'Warn employees about carried-over days that expire soon',
+  schedule: 'daily',
+  hour: 8,
+  async run(env, { now }) {
+    const db = env.DB;
+    const today = format(now, 'yyyy-MM-dd');
+
+    const result = await db
+      .prepare(
+        `SELECT lb.id FROM leave_balances lb
+         JOIN organizations o ON lb.organization_id = o.id
+         WHERE lb.carried_over > 0
+           AND lb.carryover_expired_at IS NULL
+           AND lb.carryover_reminder_sent_at IS NULL
+           AND COALESCE(o.carryover_reminder_days, 30) > 0
+           AND lb.carryover_expires_at >= ?
+           AND lb.carryover_expires_at <= date(?, '+' || COALESCE(o.carryover_reminder_days, 30) || ' days')`
+      )
+      .bind(today, today)
+      .all<{ id: string }>();
+
+    let processed = 0;
+    let failed = 0;
+
+    for (const { id } of result.results) {
+      try {
+        if (await sendCarryoverReminder(env, id, today)) {
+          processed++;
+        }
+      } catch (error) {
+        console.error(`Failed to send carryover reminder for ${id}:`, error);
+        failed++;
+      }
+    }
+
+    return { processed, details: { candidates: result.results.length, failed } };
+  },
+};
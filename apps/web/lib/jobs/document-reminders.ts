@@ -0,0 +1,56 @@
+// CloudflareEnv is defined globally in env.d.ts
+import { addDays, format } from 'date-fns';
+
+import { sendDocumentReminder } from '~/lib/services/document.service';
+
+import type { JobDefinition } from './types';
+
+// Minimum number of days between two reminders for the same request
+const REMINDER_INTERVAL_DAYS = 3;
+
+/**
+ * Remind employees of required documents (e.g. sick notes) that are due
+ * tomorrow or overdue and have not been provided yet.
+ */
+export const documentRemindersJob: JobDefinition = {
+  name: 'document-reminders',
+  description: 'Remind employees of missing sick notes and other documents',
+  schedule: 'daily',
+  hour: 7,
+  async run(env, { now }) {
+    const db = env.DB;
+    const tomorrow = format(addDays(now, 1), 'yyyy-MM-dd');
+    const lastReminderBefore = addDays(
+      now,
+      -REMINDER_INTERVAL_DAYS
+    ).toISOString();
+
+    const result = await db
+      .prepare(
+        `SELECT id FROM leave_requests
+         WHERE status IN ('pending', 'approved')
+           AND document_required = 1
+           AND document_url IS NULL
+           AND document_due_date <= ?
+           AND (document_reminder_sent_at IS NULL OR document_reminder_sent_at < ?)`
+      )
+      .bind(tomorrow, lastReminderBefore)
+      .all<{ id: string }>();
+
+    let processed = 0;
+    let failed = 0;
+
+    for (const { id } of result.results) {
+      try {
+        if (await sendDocumentReminder(env, id)) {
+          processed++;
+        }
+      } catch (error) {
+        console.error(`Failed to send document reminder for ${id}:`, error);
+        failed++;
+      }
+    }
+
+    return { processed, details: { candidates: result.results.length, failed } };
+  },
+};
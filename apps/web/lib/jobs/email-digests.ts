@@ -0,0 +1,56 @@
+// CloudflareEnv is defined globally in env.d.ts
+import {
+  type DigestFrequency,
+  sendEmailDigest,
+} from '~/lib/services/digest.service';
+
+import type { JobContext, JobDefinition, JobResult } from './types';
+
+/**
+ * Send every user on the given digest their summary of the leave requests
+ * they were notified about and their team's upcoming absences.
+ */
+async function runEmailDigests(
+  env: CloudflareEnv,
+  frequency: DigestFrequency,
+  { now }: JobContext
+): Promise<JobResult> {
+  const result = await env.DB.prepare(
+    `SELECT id FROM users
+     WHERE json_extract(notification_preferences, '$.emailDigestFrequency') = ?`
+  )
+    .bind(frequency)
+    .all<{ id: string }>();
+
+  let processed = 0;
+  let failed = 0;
+
+  for (const { id } of result.results) {
+    try {
+      if (await sendEmailDigest(env, id, frequency, now)) {
+        processed++;
+      }
+    } catch (error) {
+      console.error(`Failed to send ${frequency} digest to ${id}:`, error);
+      failed++;
+    }
+  }
+
+  return { processed, details: { candidates: result.results.length, failed } };
+}
+
+export const dailyDigestJob: JobDefinition = {
+  name: 'daily-digest',
+  description: 'Send the daily email digest to users who chose it',
+  schedule: 'daily',
+  hour: 6,
+  run: (env, context) => runEmailDigests(env, 'daily', context),
+};
+
+export const weeklyDigestJob: JobDefinition = {
+  name: 'weekly-digest',
+  description: 'Send the weekly email digest to users who chose it',
+  schedule: 'weekly',
+  hour: 6,
+  run: (env, context) => runEmailDigests(env, 'weekly', context),
+};
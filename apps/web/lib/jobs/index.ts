@@ -0,0 +1,25 @@
+import { balanceRolloverJob } from './balance-rollover';
+import { carryoverExpiryJob } from './carryover-expiry';
+import { carryoverRemindersJob } from './carryover-reminders';
+import { documentRemindersJob } from './document-reminders';
+import { dailyDigestJob, weeklyDigestJob } from './email-digests';
+import type { JobDefinition } from './types';
+
+export type { JobContext, JobDefinition, JobResult } from './types';
+
+/**
+ * Registry of scheduled jobs, run by the worker's `scheduled` handler.
+ * Register new jobs here; names must be unique and stable.
+ */
+export const JOBS: JobDefinition[] = [
+  balanceRolloverJob,
+  carryoverExpiryJob,
+  carryoverRemindersJob,
+  documentRemindersJob,
+  dailyDigestJob,
+  weeklyDigestJob,
+];
+
+export function getJob(name: string): JobDefinition | undefined {
+  return JOBS.find((job) => job.name === name);
+}
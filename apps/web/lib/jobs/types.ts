@@ -0,0 +1,26 @@
+import type { JobRunTrigger, JobSchedule } from '~/lib/types';
+
+export interface JobContext {
+  /** Period the run covers, see getPeriodKey() */
+  periodKey: string;
+  /** Time the run was triggered at */
+  now: Date;
+  trigger: JobRunTrigger;
+  triggeredBy: string | null;
+}
+
+export interface JobResult {
+  /** Number of records the job acted on */
+  processed: number;
+  details?: Record<string, unknown>;
+}
+
+export interface JobDefinition {
+  /** Unique, stable name - used as key in job_runs */
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  /** Earliest hour (UTC) in the period the job runs at, defaults to 0 */
+  hour?: number;
+  run(env: CloudflareEnv, context: JobContext): Promise<JobResult>;
+}
@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+
+import type { ApprovalRule } from '~/lib/types';
+
+import {
+  canApprove,
+  getAutoApprovalReason,
+  getCurrentApprovalStep,
+  resolveApprovalChain,
+  resolveApprovers,
+  snapshotApprovalChain,
+  type ApprovalContext,
+  type ApprovalSubject,
+} from '../approval.service';
+
+function createRule(overrides: Partial<ApprovalRule> = {}): ApprovalRule {
+  return {
+    id: 'rule-1',
+    organizationId: 'org-1',
+    name: 'Default',
+    conditions: {},
+    approverType: 'any_admin',
+    approverUserId: null,
+    level: 1,
+    priority: 0,
+    isActive: true,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function createContext(rules: ApprovalRule[] = []): ApprovalContext {
+  return {
+    rules,
+    members: [
+      { userId: 'admin-1', role: 'admin' },
+      { userId: 'manager-1', role: 'manager' },
+      { userId: 'hr-1', role: 'hr' },
+      { userId: 'lead-1', role: 'employee' },
+      { userId: 'employee-1', role: 'employee' },
+    ],
+    teamMembers: [
+      { teamId: 'team-1', userId: 'lead-1', isLead: true },
+      { teamId: 'team-1', userId: 'employee-1', isLead: false },
+    ],
+  };
+}
+
+const vacationRequest: ApprovalSubject = {
+  userId: 'employee-1',
+  leaveTypeId: 'lt_vacation',
+  leaveTypeCode: 'vacation',
+  workDays: 5,
+};
+
+describe('approval.service', () => {
+  describe('resolveApprovalChain', () => {
+    function ruleFor(rules: ApprovalRule[]) {
+      return resolveApprovalChain(createContext(rules), vacationRequest)[0]!
+        .rule;
+    }
+
+    it('should skip inactive rules', () => {
+      expect(ruleFor([createRule({ isActive: false })])).toBeNull();
+    });
+
+    it('should pick the highest priority matching rule per level', () => {
+      const low = createRule({ id: 'low', priority: 1 });
+      const high = createRule({ id: 'high', priority: 10 });
+
+      expect(ruleFor([low, high])?.id).toBe('high');
+    });
+
+    it('should match leave types by code or id', () => {
+      const byCode = createRule({ conditions: { leaveTypes: ['vacation'] } });
+      const byId = createRule({
+        conditions: { leaveTypes: ['lt_vacation' as 'vacation'] },
+      });
+      const other = createRule({ conditions: { leaveTypes: ['sick'] } });
+
+      expect(ruleFor([byCode])).not.toBeNull();
+      expect(ruleFor([byId])).not.toBeNull();
+      expect(ruleFor([other])).toBeNull();
+    });
+
+    it('should respect min and max days', () => {
+      const longLeave = createRule({ conditions: { minDays: 10 } });
+      const shortLeave = createRule({ conditions: { maxDays: 5 } });
+
+      expect(ruleFor([longLeave])).toBeNull();
+      expect(ruleFor([shortLeave])).not.toBeNull();
+    });
+
+    it('should order steps by level', () => {
+      const context = createContext([
+        createRule({ id: 'hr', approverType: 'hr', level: 2 }),
+        createRule({ id: 'lead', approverType: 'team_lead', level: 1 }),
+      ]);
+
+      const chain = resolveApprovalChain(context, vacationRequest);
+
+      expect(chain.map((step) => step.rule?.id)).toEqual(['lead', 'hr']);
+      expect(chain.map((step) => step.approverIds)).toEqual([
+        ['lead-1'],
+        ['hr-1'],
+      ]);
+    });
+
+    it('should only add levels whose rules match the request', () => {
+      const context = createContext([
+        createRule({ approverType: 'team_lead', level: 1 }),
+        createRule({
+          approverType: 'hr',
+          level: 2,
+          conditions: { minDays: 10 },
+        }),
+      ]);
+
+      expect(resolveApprovalChain(context, vacationRequest)).toHaveLength(1);
+      expect(
+        resolveApprovalChain(context, { ...vacationRequest, workDays: 12 })
+      ).toHaveLength(2);
+    });
+
+    it('should keep the snapshotted chain when the rules change', () => {
+      const submitted = resolveApprovalChain(
+        createContext([
+          createRule({ id: 'lead', approverType: 'team_lead', level: 1 }),
+          createRule({ id: 'hr', approverType: 'hr', level: 2 }),
+        ]),
+        vacationRequest
+      );
+
+      const chain = resolveApprovalChain(createContext([]), {
+        ...vacationRequest,
+        approvalChain: snapshotApprovalChain(submitted),
+      });
+
+      expect(chain.map((step) => step.rule?.id)).toEqual(['lead', 'hr']);
+      expect(chain.map((step) => step.approverIds)).toEqual([
+        ['lead-1'],
+        ['hr-1'],
+      ]);
+    });
+  });
+
+  describe('getCurrentApprovalStep', () => {
+    it('should return the first level that has not approved yet', () => {
+      const chain = resolveApprovalChain(
+        createContext([
+          createRule({ approverType: 'team_lead', level: 1 }),
+          createRule({ approverType: 'hr', level: 2 }),
+        ]),
+        vacationRequest
+      );
+
+      expect(getCurrentApprovalStep(chain, [])?.level).toBe(1);
+      expect(getCurrentApprovalStep(chain, [1])?.level).toBe(2);
+      expect(getCurrentApprovalStep(chain, [1, 2])).toBeNull();
+    });
+  });
+
+  describe('resolveApprovers', () => {
+    it('should fall back to admins and managers without rules', () => {
+      const { rule, approverIds } = resolveApprovers(
+        createContext(),
+        vacationRequest
+      );
+
+      expect(rule).toBeNull();
+      expect(approverIds).toEqual(['admin-1', 'manager-1']);
+    });
+
+    it('should resolve the team lead of the requester', () => {
+      const context = createContext([
+        createRule({ approverType: 'team_lead' }),
+      ]);
+
+      expect(resolveApprovers(context, vacationRequest).approverIds).toEqual([
+        'lead-1',
+      ]);
+      expect(canApprove(context, vacationRequest, 'admin-1')).toBe(false);
+    });
+
+    it('should fall back to admins when a rule resolves to nobody', () => {
+      const context = createContext([
+        createRule({ approverType: 'team_lead' }),
+      ]);
+      const request = { ...vacationRequest, userId: 'hr-1' };
+
+      expect(resolveApprovers(context, request).approverIds).toEqual([
+        'admin-1',
+      ]);
+    });
+
+    it('should only let the current level act', () => {
+      const context = createContext([
+        createRule({ approverType: 'team_lead', level: 1 }),
+        createRule({ approverType: 'hr', level: 2 }),
+      ]);
+
+      expect(canApprove(context, vacationRequest, 'hr-1')).toBe(false);
+      expect(canApprove(context, vacationRequest, 'hr-1', [1])).toBe(true);
+      expect(canApprove(context, vacationRequest, 'lead-1', [1])).toBe(false);
+    });
+
+    it('should never resolve the requester as their own approver', () => {
+      const context = createContext([
+        createRule({ approverType: 'specific_user', approverUserId: 'hr-1' }),
+      ]);
+
+      expect(canApprove(context, vacationRequest, 'hr-1')).toBe(true);
+      expect(
+        canApprove(context, { ...vacationRequest, userId: 'hr-1' }, 'hr-1')
+      ).toBe(false);
+    });
+  });
+
+  describe('getAutoApprovalReason', () => {
+    const policy = {
+      requireApproval: true,
+      autoApproveThreshold: null,
+      leaveTypeRequiresApproval: true,
+    };
+
+    it('should require approval by default', () => {
+      expect(getAutoApprovalReason(policy, 1)).toBeNull();
+    });
+
+    it('should approve when the organization or leave type needs no approval', () => {
+      expect(
+        getAutoApprovalReason({ ...policy, requireApproval: false }, 10)
+      ).toBe('approval_not_required');
+      expect(
+        getAutoApprovalReason({ ...policy, leaveTypeRequiresApproval: false }, 10)
+      ).toBe('leave_type_not_requiring_approval');
+    });
+
+    it('should approve requests within the threshold', () => {
+      const withThreshold = { ...policy, autoApproveThreshold: 2 };
+
+      expect(getAutoApprovalReason(withThreshold, 1.5)).toBe('within_threshold');
+      expect(getAutoApprovalReason(withThreshold, 2)).toBe('within_threshold');
+      expect(getAutoApprovalReason(withThreshold, 2.5)).toBeNull();
+      expect(
+        getAutoApprovalReason({ ...policy, autoApproveThreshold: 0 }, 1)
+      ).toBeNull();
+    });
+  });
+});
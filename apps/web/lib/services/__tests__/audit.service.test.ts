@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  buildAuditLogFilter,
+  getAuditRequestContext,
+  getChangedValues,
+} from '../audit.service';
+
+describe('audit.service', () => {
+  describe('getChangedValues', () => {
+    it('should keep only the fields that changed', () => {
+      const result = getChangedValues(
+        { name: 'Support', color: '#fff', minCoverage: 2 },
+        { name: 'Support', color: '#000', minCoverage: 3 }
+      );
+
+      expect(result).toEqual({
+        oldValues: { color: '#fff', minCoverage: 2 },
+        newValues: { color: '#000', minCoverage: 3 },
+      });
+    });
+
+    it('should ignore fields that were not part of the update', () => {
+      const result = getChangedValues(
+        { role: 'employee', status: 'active' },
+        { role: 'manager', status: undefined }
+      );
+
+      expect(result).toEqual({
+        oldValues: { role: 'employee' },
+        newValues: { role: 'manager' },
+      });
+    });
+
+    it('should compare nested values by content', () => {
+      const result = getChangedValues(
+        { leaveTypeIds: ['vacation'], approverId: null },
+        { leaveTypeIds: ['vacation'], approverId: 'user-1' }
+      );
+
+      expect(result).toEqual({
+        oldValues: { approverId: null },
+        newValues: { approverId: 'user-1' },
+      });
+    });
+
+    it('should record missing previous values as null', () => {
+      const result = getChangedValues({}, { region: 'BY' });
+
+      expect(result).toEqual({
+        oldValues: { region: null },
+        newValues: { region: 'BY' },
+      });
+    });
+  });
+
+  describe('getAuditRequestContext', () => {
+    it('should prefer the Cloudflare client IP', () => {
+      const request = new Request('https://zeitpal.test', {
+        headers: {
+          'cf-connecting-ip': '203.0.113.7',
+          'x-forwarded-for': '198.51.100.1',
+          'user-agent': 'Mozilla/5.0',
+        },
+      });
+
+      expect(getAuditRequestContext(request)).toEqual({
+        ipAddress: '203.0.113.7',
+        userAgent: 'Mozilla/5.0',
+      });
+    });
+
+    it('should fall back to the first forwarded address', () => {
+      const request = new Request('https://zeitpal.test', {
+        headers: { 'x-forwarded-for': '198.51.100.1, 10.0.0.1' },
+      });
+
+      expect(getAuditRequestContext(request)).toEqual({
+        ipAddress: '198.51.100.1',
+        userAgent: null,
+      });
+    });
+
+    it('should return nulls without client headers', () => {
+      const request = new Request('https://zeitpal.test');
+
+      expect(getAuditRequestContext(request)).toEqual({
+        ipAddress: null,
+        userAgent: null,
+      });
+    });
+  });
+
+  describe('buildAuditLogFilter', () => {
+    it('should always limit entries to the organization', () => {
+      expect(buildAuditLogFilter('org-1', {})).toEqual({
+        where: 'WHERE al.organization_id = ?',
+        params: ['org-1'],
+      });
+    });
+
+    it('should combine the given filters', () => {
+      const { where, params } = buildAuditLogFilter('org-1', {
+        userId: 'user-1',
+        entityType: 'leave_request',
+        action: 'leave_request.approved',
+        startDate: '2026-01-01',
+        endDate: '2026-01-31',
+      });
+
+      expect(where).toBe(
+        'WHERE al.organization_id = ? AND al.user_id = ? AND al.entity_type = ? ' +
+          "AND al.action = ? AND al.created_at >= ? AND al.created_at < date(?, '+1 day')"
+      );
+      expect(params).toEqual([
+        'org-1',
+        'user-1',
+        'leave_request',
+        'leave_request.approved',
+        '2026-01-01',
+        '2026-01-31',
+      ]);
+    });
+  });
+});
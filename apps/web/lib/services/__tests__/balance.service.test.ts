@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  buildBalanceLedger,
+  findBalanceShortfalls,
+  parseWorkDaysByYear,
+} from '../balance.service';
+
+describe('balance.service', () => {
+  describe('findBalanceShortfalls', () => {
+    it('should accept requests within the remaining balance', () => {
+      expect(findBalanceShortfalls({ '2026': 5 }, { '2026': 5 }, 2026)).toEqual(
+        []
+      );
+    });
+
+    it('should report the years that run out of days', () => {
+      expect(
+        findBalanceShortfalls(
+          { '2025': 2, '2026': 30 },
+          { '2025': 3, '2026': 2 },
+          2026
+        )
+      ).toEqual([{ year: 2025, available: 2, requested: 3 }]);
+    });
+
+    it('should report a negative balance as nothing available', () => {
+      expect(
+        findBalanceShortfalls({ '2026': -1.5 }, { '2026': 0.5 }, 2026)
+      ).toEqual([
+        { year: 2026, available: 0, requested: 0.5 },
+      ]);
+    });
+
+    it('should treat a missing current year balance as nothing available', () => {
+      expect(findBalanceShortfalls({}, { '2026': 15 }, 2026)).toEqual([
+        { year: 2026, available: 0, requested: 15 },
+      ]);
+    });
+
+    it('should skip future years without a balance', () => {
+      expect(findBalanceShortfalls({ '2025': 10 }, { '2026': 15 }, 2025)).toEqual(
+        []
+      );
+    });
+  });
+
+  describe('parseWorkDaysByYear', () => {
+    it('should fall back to the start year', () => {
+      expect(parseWorkDaysByYear(null, '2026-03-02', 4)).toEqual({ '2026': 4 });
+      expect(parseWorkDaysByYear('{"2025":1,"2026":2}', '2025-12-31', 3)).toEqual({
+        '2025': 1,
+        '2026': 2,
+      });
+    });
+  });
+
+  describe('buildBalanceLedger', () => {
+    it('should replay the year with a running balance', () => {
+      const ledger = buildBalanceLedger({
+        year: 2026,
+        entitled: 30,
+        carriedOver: 2,
+        carryoverExpired: 3,
+        carryoverExpiresAt: '2026-03-31',
+        adjustments: [
+          {
+            id: 'adjustment-1',
+            balanceId: 'balance-1',
+            userId: 'employee-1',
+            kind: 'payout',
+            days: -1.5,
+            reason: 'Paid out on request',
+            createdBy: null,
+            createdAt: '2026-06-01T09:00:00.000Z',
+          },
+        ],
+        leaveRequests: [
+          { id: 'request-2', startDate: '2026-05-04', endDate: '2026-05-08', workDays: 5 },
+          { id: 'request-1', startDate: '2025-12-29', endDate: '2026-01-02', workDays: 1 },
+        ],
+      });
+
+      expect(
+        ledger.map(({ id, date, days, balance }) => ({ id, date, days, balance }))
+      ).toEqual([
+        { id: 'entitlement', date: '2026-01-01', days: 30, balance: 30 },
+        { id: 'carryover', date: '2026-01-01', days: 5, balance: 35 },
+        { id: 'request-1', date: '2026-01-01', days: -1, balance: 34 },
+        { id: 'carryover_expired', date: '2026-03-31', days: -3, balance: 31 },
+        { id: 'request-2', date: '2026-05-04', days: -5, balance: 26 },
+        { id: 'adjustment-1', date: '2026-06-01', days: -1.5, balance: 24.5 },
+      ]);
+    });
+  });
+});
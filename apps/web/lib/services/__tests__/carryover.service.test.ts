@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  type CarryoverBalance,
+  type CarryoverLeaveRequest,
+  type CarryoverState,
+  getCarryoverStatus,
+  getDaysTakenBeforeExpiry,
+} from '../carryover.service';
+
+function createState(overrides: Partial<CarryoverState> = {}): CarryoverState {
+  return {
+    carriedOver: 5,
+    expiresAt: '2026-03-31',
+    expiredAt: null,
+    expired: 0,
+    daysTakenBeforeExpiry: 0,
+    ...overrides,
+  };
+}
+
+describe('getCarryoverStatus', () => {
+  it('uses carried-over days before the entitlement', () => {
+    expect(
+      getCarryoverStatus(createState({ daysTakenBeforeExpiry: 2 }), '2026-02-01')
+    ).toEqual({
+      expiresAt: '2026-03-31',
+      used: 2,
+      expiring: 3,
+      expired: 0,
+      isExpired: false,
+    });
+    expect(
+      getCarryoverStatus(createState({ daysTakenBeforeExpiry: 8 }), '2026-02-01')
+    ).toMatchObject({ used: 5, expiring: 0 });
+  });
+
+  it('keeps the carryover usable on the expiry date itself', () => {
+    expect(getCarryoverStatus(createState(), '2026-03-31')).toMatchObject({
+      expiring: 5,
+      isExpired: false,
+    });
+  });
+
+  it('forfeits unused carryover after the expiry date', () => {
+    expect(
+      getCarryoverStatus(
+        createState({ daysTakenBeforeExpiry: 1.5 }),
+        '2026-04-01'
+      )
+    ).toEqual({
+      expiresAt: '2026-03-31',
+      used: 1.5,
+      expiring: 0,
+      expired: 3.5,
+      isExpired: true,
+    });
+  });
+
+  it('reports the stored values once the expiry was applied', () => {
+    expect(
+      getCarryoverStatus(
+        createState({
+          carriedOver: 1.5,
+          expiredAt: '2026-04-01T01:00:00.000Z',
+          expired: 3.5,
+          daysTakenBeforeExpiry: 1.5,
+        }),
+        '2026-06-01'
+      )
+    ).toEqual({
+      expiresAt: '2026-03-31',
+      used: 1.5,
+      expiring: 0,
+      expired: 3.5,
+      isExpired: true,
+    });
+  });
+});
+
+describe('getDaysTakenBeforeExpiry', () => {
+  const balance: CarryoverBalance = {
+    id: 'balance-1',
+    organizationId: 'org-1',
+    userId: 'employee-1',
+    leaveTypeId: 'vacation',
+    year: 2026,
+    expiresAt: '2026-03-31',
+  };
+
+  function createRequest(
+    overrides: Partial<CarryoverLeaveRequest> = {}
+  ): CarryoverLeaveRequest {
+    return {
+      userId: 'employee-1',
+      leaveTypeId: 'vacation',
+      status: 'approved',
+      // Mon Mar 2 - Fri Mar 6, 2026
+      startDate: '2026-03-02',
+      endDate: '2026-03-06',
+      startHalfDay: null,
+      workDaysByYear: { '2026': 5 },
+      ...overrides,
+    };
+  }
+
+  it('counts approved requests before the expiry date', () => {
+    expect(getDaysTakenBeforeExpiry(balance, [createRequest()], [])).toBe(5);
+  });
+
+  it('only counts the days up to the expiry date', () => {
+    // Sat Mar 28 - Fri Apr 10: only Mon Mar 30 and Tue Mar 31 count
+    const request = createRequest({
+      startDate: '2026-03-28',
+      endDate: '2026-04-10',
+      workDaysByYear: { '2026': 8 },
+    });
+
+    expect(getDaysTakenBeforeExpiry(balance, [request], ['2026-04-03'])).toBe(
+      2
+    );
+    expect(
+      getDaysTakenBeforeExpiry(
+        balance,
+        [{ ...request, startDate: '2026-03-31', startHalfDay: 'afternoon' }],
+        []
+      )
+    ).toBe(0.5);
+  });
+
+  it('does not count pending requests', () => {
+    expect(
+      getDaysTakenBeforeExpiry(
+        balance,
+        [createRequest({ status: 'pending' })],
+        []
+      )
+    ).toBe(0);
+  });
+
+  it('only counts the days of the balance year', () => {
+    const request = createRequest({
+      startDate: '2025-12-29',
+      endDate: '2026-01-02',
+      workDaysByYear: { '2025': 3, '2026': 1 },
+    });
+
+    expect(getDaysTakenBeforeExpiry(balance, [request], [])).toBe(1);
+  });
+});
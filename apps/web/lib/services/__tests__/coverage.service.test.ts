@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+
+import type { WorkSchedule } from '~/lib/types';
+
+import { findCoverageConflicts, type CoverageInput } from '../coverage.service';
+
+function createInput(overrides: Partial<CoverageInput> = {}): CoverageInput {
+  return {
+    userId: 'employee-1',
+    // Mon Mar 2 - Wed Mar 4, 2026
+    startDate: '2026-03-02',
+    endDate: '2026-03-04',
+    holidays: [],
+    teams: [
+      {
+        id: 'team-1',
+        name: 'Support',
+        minCoverage: 2,
+        memberIds: ['employee-1', 'employee-2', 'employee-3'],
+      },
+    ],
+    absences: [],
+    workSchedules: new Map(),
+    ...overrides,
+  };
+}
+
+describe('coverage.service', () => {
+  describe('findCoverageConflicts', () => {
+    it('should not report conflicts while enough members are working', () => {
+      expect(findCoverageConflicts(createInput())).toEqual([]);
+    });
+
+    it('should report days where approved absences drop the team below its minimum', () => {
+      const conflicts = findCoverageConflicts(
+        createInput({
+          absences: [
+            { userId: 'employee-2', startDate: '2026-03-03', endDate: '2026-03-10' },
+          ],
+        })
+      );
+
+      expect(conflicts).toEqual([
+        {
+          date: '2026-03-03',
+          teamId: 'team-1',
+          teamName: 'Support',
+          minCoverage: 2,
+          available: 1,
+        },
+        {
+          date: '2026-03-04',
+          teamId: 'team-1',
+          teamName: 'Support',
+          minCoverage: 2,
+          available: 1,
+        },
+      ]);
+    });
+
+    it('should count members not scheduled to work as unavailable', () => {
+      const mondaysOff: WorkSchedule = {
+        id: 'schedule-1',
+        userId: 'employee-3',
+        effectiveFrom: '2026-01-01',
+        weekdayHours: [0, 8, 8, 8, 8, 0, 0],
+        alternateWeekdayHours: null,
+        createdBy: null,
+        createdAt: '2026-01-01T00:00:00.000Z',
+      };
+
+      const conflicts = findCoverageConflicts(
+        createInput({ workSchedules: new Map([['employee-3', [mondaysOff]]]) })
+      );
+
+      expect(conflicts.map((conflict) => conflict.date)).toEqual(['2026-03-02']);
+    });
+
+    it('should skip holidays and days off of the requester', () => {
+      const conflicts = findCoverageConflicts(
+        createInput({
+          // Fri Mar 6 - Mon Mar 9, 2026
+          startDate: '2026-03-06',
+          endDate: '2026-03-09',
+          holidays: ['2026-03-06'],
+          absences: [
+            { userId: 'employee-2', startDate: '2026-03-01', endDate: '2026-03-31' },
+          ],
+        })
+      );
+
+      expect(conflicts.map((conflict) => conflict.date)).toEqual(['2026-03-09']);
+    });
+
+    it('should check the mornings of half-day holidays', () => {
+      const conflicts = findCoverageConflicts(
+        createInput({
+          // Thu Dec 24 - Fri Dec 25, 2026
+          startDate: '2026-12-24',
+          endDate: '2026-12-25',
+          holidays: [
+            { date: '2026-12-24', isHalfDay: true },
+            { date: '2026-12-25', isHalfDay: false },
+          ],
+          absences: [
+            { userId: 'employee-2', startDate: '2026-12-21', endDate: '2026-12-31' },
+          ],
+        })
+      );
+
+      expect(conflicts.map((conflict) => conflict.date)).toEqual(['2026-12-24']);
+    });
+
+    it('should not check teams too small to keep their minimum', () => {
+      const conflicts = findCoverageConflicts(
+        createInput({
+          teams: [
+            { id: 'team-1', name: 'Solo', minCoverage: 1, memberIds: ['employee-1'] },
+            {
+              id: 'team-2',
+              name: 'Pair',
+              minCoverage: 2,
+              memberIds: ['employee-1', 'employee-2'],
+            },
+          ],
+        })
+      );
+
+      expect(conflicts).toEqual([]);
+    });
+  });
+});
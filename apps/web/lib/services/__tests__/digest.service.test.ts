@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  type DigestNotificationRow,
+  type DigestTeamAbsence,
+  buildEmailDigest,
+  getDigestPeriod,
+  getDigestSection,
+  isEmailDigestEmpty,
+} from '../digest.service';
+import { parseNotificationPreferences } from '../notification.service';
+
+const row = (
+  overrides: Partial<DigestNotificationRow>
+): DigestNotificationRow => ({
+  id: 'n-1',
+  type: 'approval_needed',
+  leave_request_id: 'lr-1',
+  employee_name: 'Anna Schmidt',
+  employee_email: 'anna@example.com',
+  leave_type_name: 'Vacation',
+  start_date: '2026-08-03',
+  end_date: '2026-08-07',
+  work_days: 5,
+  status: 'pending',
+  ...overrides,
+});
+
+const absence: DigestTeamAbsence = {
+  employeeName: 'Ben Meyer',
+  leaveType: 'Vacation',
+  startDate: '2026-08-04',
+  endDate: '2026-08-05',
+};
+
+const preferences = parseNotificationPreferences(
+  JSON.stringify({ emailDigestFrequency: 'daily', emailOnTeamAbsence: true })
+);
+
+describe('digest.service', () => {
+  describe('getDigestPeriod', () => {
+    const now = new Date('2026-08-03T06:00:00Z');
+
+    it('should cover the past day and the next two days for daily digests', () => {
+      expect(getDigestPeriod('daily', now)).toEqual({
+        since: '2026-08-02T06:00:00.000Z',
+        from: '2026-08-03',
+        to: '2026-08-04',
+      });
+    });
+
+    it('should cover the past week and the coming week for weekly digests', () => {
+      expect(getDigestPeriod('weekly', now)).toEqual({
+        since: '2026-07-27T06:00:00.000Z',
+        from: '2026-08-03',
+        to: '2026-08-09',
+      });
+    });
+  });
+
+  describe('getDigestSection', () => {
+    it('should place notifications the digest covers', () => {
+      expect(getDigestSection(row({}), preferences)).toBe('awaitingApproval');
+      expect(
+        getDigestSection(
+          row({ type: 'leave_rejected', status: 'rejected' }),
+          preferences
+        )
+      ).toBe('decisions');
+      expect(getDigestSection(row({ type: 'team_absence' }), preferences)).toBe(
+        'teamAbsences'
+      );
+    });
+
+    it('should leave out handled requests and opted-out notifications', () => {
+      expect(
+        getDigestSection(row({ status: 'cancelled' }), preferences)
+      ).toBeNull();
+      expect(
+        getDigestSection(row({ type: 'team_absence' }), {
+          ...preferences,
+          emailOnTeamAbsence: false,
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe('buildEmailDigest', () => {
+    it('should sort notifications into their sections', () => {
+      const digest = buildEmailDigest(
+        [
+          row({}),
+          row({
+            type: 'leave_approved',
+            leave_request_id: 'lr-2',
+            status: 'approved',
+          }),
+        ],
+        [absence],
+        preferences
+      );
+
+      expect(digest.awaitingApproval.map((r) => r.id)).toEqual(['lr-1']);
+      expect(digest.decisions.map((r) => r.id)).toEqual(['lr-2']);
+      expect(digest.teamAbsences).toEqual([absence]);
+    });
+
+    it('should leave out requests that were handled in the meantime', () => {
+      const digest = buildEmailDigest(
+        [
+          row({ status: 'approved' }),
+          row({
+            type: 'leave_approved',
+            leave_request_id: 'lr-2',
+            status: 'cancelled',
+          }),
+        ],
+        [],
+        preferences
+      );
+
+      expect(isEmailDigestEmpty(digest)).toBe(true);
+    });
+
+    it('should list a request once', () => {
+      const digest = buildEmailDigest([row({}), row({})], [], preferences);
+
+      expect(digest.awaitingApproval).toHaveLength(1);
+    });
+
+    it('should respect the preferences', () => {
+      const digest = buildEmailDigest(
+        [
+          row({}),
+          row({
+            type: 'leave_rejected',
+            leave_request_id: 'lr-2',
+            status: 'rejected',
+          }),
+        ],
+        [absence],
+        {
+          ...preferences,
+          emailOnApprovalNeeded: false,
+          emailOnRejection: false,
+          emailOnTeamAbsence: false,
+        }
+      );
+
+      expect(isEmailDigestEmpty(digest)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  getDocumentRequirement,
+  getDocumentStatus,
+  type DocumentRequirementPolicy,
+} from '../document.service';
+
+function createPolicy(
+  overrides: Partial<DocumentRequirementPolicy> = {}
+): DocumentRequirementPolicy {
+  return {
+    leaveTypeCode: 'sick',
+    requiresDocument: true,
+    documentRequiredAfterDays: 3,
+    sickLeaveAuThreshold: null,
+    ...overrides,
+  };
+}
+
+describe('getDocumentRequirement', () => {
+  it('does not require a document for leave types without requires_document', () => {
+    expect(
+      getDocumentRequirement(
+        createPolicy({ requiresDocument: false }),
+        '2025-03-03',
+        '2025-03-14'
+      )
+    ).toEqual({ required: false, dueDate: null });
+  });
+
+  it('does not require a document up to the threshold', () => {
+    expect(
+      getDocumentRequirement(createPolicy(), '2025-03-03', '2025-03-05')
+    ).toEqual({ required: false, dueDate: null });
+  });
+
+  it('requires a document due the day after the threshold', () => {
+    expect(
+      getDocumentRequirement(createPolicy(), '2025-03-03', '2025-03-06')
+    ).toEqual({ required: true, dueDate: '2025-03-06' });
+  });
+
+  it('counts calendar days, including weekends', () => {
+    // Friday to Monday
+    expect(
+      getDocumentRequirement(createPolicy(), '2025-03-07', '2025-03-10')
+    ).toEqual({ required: true, dueDate: '2025-03-10' });
+  });
+
+  it('prefers the organization AU threshold for sick leave', () => {
+    expect(
+      getDocumentRequirement(
+        createPolicy({ sickLeaveAuThreshold: 0 }),
+        '2025-03-03',
+        '2025-03-03'
+      )
+    ).toEqual({ required: true, dueDate: '2025-03-03' });
+  });
+
+  it('ignores the AU threshold for other leave types', () => {
+    expect(
+      getDocumentRequirement(
+        createPolicy({
+          leaveTypeCode: 'child_sick',
+          sickLeaveAuThreshold: 0,
+          documentRequiredAfterDays: 1,
+        }),
+        '2025-03-03',
+        '2025-03-03'
+      )
+    ).toEqual({ required: false, dueDate: null });
+  });
+});
+
+describe('getDocumentStatus', () => {
+  it('reports an uploaded document as provided', () => {
+    expect(getDocumentStatus(true, '2025-03-06', 'key', '2025-03-10')).toBe(
+      'provided'
+    );
+  });
+
+  it('reports not_required when no document is needed', () => {
+    expect(getDocumentStatus(false, null, null, '2025-03-10')).toBe(
+      'not_required'
+    );
+  });
+
+  it('reports missing until the due date has passed', () => {
+    expect(getDocumentStatus(true, '2025-03-06', null, '2025-03-06')).toBe(
+      'missing'
+    );
+    expect(getDocumentStatus(true, '2025-03-06', null, '2025-03-07')).toBe(
+      'overdue'
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  type EmailMessage,
+  clearOutbox,
+  getEmailTransport,
+  getOutbox,
+} from '../email-transport.service';
+
+const message: EmailMessage = {
+  from: 'ZeitPal <hello@example.com>',
+  to: 'anna@example.com',
+  subject: 'Your Leave Request Has Been Approved',
+  html: '<p>Approved</p>',
+  text: 'Approved',
+};
+
+describe('email-transport.service', () => {
+  afterEach(() => {
+    clearOutbox();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('getEmailTransport', () => {
+    it('should default to Mailgun', () => {
+      expect(getEmailTransport({ MAILGUN_API_KEY: 'key' })?.name).toBe(
+        'mailgun'
+      );
+    });
+
+    it('should pick the configured transport', () => {
+      expect(getEmailTransport({ EMAIL_TRANSPORT: 'outbox' })?.name).toBe(
+        'outbox'
+      );
+      expect(
+        getEmailTransport({
+          EMAIL_TRANSPORT: 'http',
+          EMAIL_HTTP_URL: 'https://api.postmarkapp.com/email',
+        })?.name
+      ).toBe('http');
+    });
+
+    it('should return null without the settings a transport needs', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      expect(getEmailTransport({})).toBeNull();
+      expect(getEmailTransport({ EMAIL_TRANSPORT: 'http' })).toBeNull();
+      expect(getEmailTransport({ EMAIL_TRANSPORT: 'smtp' })).toBeNull();
+    });
+  });
+
+  describe('outbox transport', () => {
+    it('should keep sent messages by recipient', async () => {
+      const transport = getEmailTransport({ EMAIL_TRANSPORT: 'outbox' });
+
+      await transport?.send(message);
+      await transport?.send({ ...message, to: 'ben@example.com' });
+
+      expect(getOutbox()).toHaveLength(2);
+      expect(getOutbox('Anna@example.com')).toMatchObject([
+        { to: 'anna@example.com', subject: message.subject },
+      ]);
+    });
+  });
+
+  describe('http transport', () => {
+    it('should post the message as JSON with the auth header', async () => {
+      const fetch = vi.fn().mockResolvedValue(new Response('{}'));
+      vi.stubGlobal('fetch', fetch);
+
+      await getEmailTransport({
+        EMAIL_TRANSPORT: 'http',
+        EMAIL_HTTP_URL: 'https://api.postmarkapp.com/email',
+        EMAIL_HTTP_AUTH_HEADER: 'X-Postmark-Server-Token',
+        EMAIL_HTTP_AUTH_TOKEN: 'token',
+      })?.send(message);
+
+      const [url, init] = fetch.mock.calls[0]!;
+      expect(url).toBe('https://api.postmarkapp.com/email');
+      expect(init.headers['X-Postmark-Server-Token']).toBe('token');
+      expect(JSON.parse(init.body)).toEqual({
+        From: message.from,
+        To: message.to,
+        Subject: message.subject,
+        HtmlBody: message.html,
+        TextBody: message.text,
+      });
+    });
+
+    it('should throw when the API rejects the message', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(new Response('Invalid', { status: 422 }))
+      );
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(
+        getEmailTransport({
+          EMAIL_TRANSPORT: 'http',
+          EMAIL_HTTP_URL: 'https://mail.example.com/send',
+        })?.send(message)
+      ).rejects.toThrow('Email API error: 422');
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import {
+  type NotificationParams,
+  type NotificationTranslator,
+  getEmailSkipReason,
+  getNotificationContent,
+  getNotificationTranslator,
+  parseNotificationPreferences,
+} from '../notification.service';
+
+const params: NotificationParams = {
+  employeeName: 'Anna Schmidt',
+  leaveType: { en: 'Vacation', de: 'Urlaub', es: 'Vacaciones' },
+  startDate: '2026-08-03',
+  endDate: '2026-08-07',
+  workDays: 5,
+};
+
+describe('notification.service', () => {
+  describe('getNotificationContent', () => {
+    let en: NotificationTranslator;
+    let de: NotificationTranslator;
+
+    beforeAll(async () => {
+      en = await getNotificationTranslator('en');
+      de = await getNotificationTranslator('de');
+    });
+
+    it('should ask approvers to review the request', () => {
+      expect(
+        getNotificationContent('approval_needed', params, 'en', en)
+      ).toEqual({
+        title: 'Leave request awaiting your approval',
+        body: 'Anna Schmidt requested Vacation for Aug 3, 2026 - Aug 7, 2026 (5 days).',
+      });
+    });
+
+    it("should render the message in the reader's locale", () => {
+      expect(
+        getNotificationContent('approval_needed', params, 'de', de)
+      ).toEqual({
+        title: 'Urlaubsantrag wartet auf Ihre Genehmigung',
+        body: 'Anna Schmidt hat Urlaub für 3. Aug. 2026 - 7. Aug. 2026 beantragt (5 Tage).',
+      });
+    });
+
+    it('should name the approver when there is one', () => {
+      expect(
+        getNotificationContent(
+          'leave_approved',
+          { ...params, approverName: 'Max Weber' },
+          'en',
+          en
+        )?.body
+      ).toBe('Max Weber approved your Vacation for Aug 3, 2026 - Aug 7, 2026.');
+
+      expect(
+        getNotificationContent('leave_approved', params, 'en', en)?.body
+      ).toBe('Your Vacation for Aug 3, 2026 - Aug 7, 2026 was approved.');
+    });
+
+    it('should include the rejection reason', () => {
+      expect(
+        getNotificationContent(
+          'leave_rejected',
+          { ...params, approverName: 'Max Weber', reason: 'Release week' },
+          'en',
+          en
+        )?.body
+      ).toBe(
+        'Max Weber rejected your Vacation for Aug 3, 2026 - Aug 7, 2026: Release week'
+      );
+    });
+
+    it('should show a single day once', () => {
+      expect(
+        getNotificationContent(
+          'team_absence',
+          { ...params, endDate: '2026-08-03', workDays: 1 },
+          'en',
+          en
+        )
+      ).toEqual({
+        title: 'Anna Schmidt will be absent',
+        body: 'Anna Schmidt is on Vacation for Aug 3, 2026.',
+      });
+    });
+
+    it('should tell expired from expiring carryover', () => {
+      const carryover: NotificationParams = {
+        leaveType: params.leaveType,
+        days: 3,
+        date: '2026-03-31',
+      };
+
+      expect(
+        getNotificationContent(
+          'carryover_expiry',
+          { ...carryover, expired: true },
+          'en',
+          en
+        )
+      ).toEqual({
+        title: 'Carried-over leave expired',
+        body: '3 days of carried-over Vacation expired on Mar 31, 2026.',
+      });
+      expect(
+        getNotificationContent('carryover_expiry', carryover, 'en', en)?.title
+      ).toBe('Carried-over leave expiring soon');
+    });
+
+    it('should name the leave type a document is required for', () => {
+      const document: NotificationParams = {
+        startDate: '2026-08-03',
+        endDate: '2026-08-07',
+        date: '2026-08-06',
+      };
+
+      expect(
+        getNotificationContent(
+          'document_required',
+          { ...document, leaveType: { en: 'Sick Leave', de: 'Krankheit' } },
+          'de',
+          de
+        )?.body
+      ).toBe(
+        'Bitte laden Sie Ihre Bescheinigung für Krankheit vom 3. Aug. 2026 - 7. Aug. 2026 hoch (fällig am 6. Aug. 2026).'
+      );
+      expect(
+        getNotificationContent('document_required', document, 'en', en)?.body
+      ).toBe(
+        'Please upload your certificate for Aug 3, 2026 - Aug 7, 2026 (due Aug 6, 2026).'
+      );
+    });
+
+    it('should leave types without a message to their stored text', () => {
+      expect(getNotificationContent('welcome', {}, 'en', en)).toBeNull();
+    });
+  });
+
+  describe('parseNotificationPreferences', () => {
+    it('should fill in defaults for unset preferences', () => {
+      const preferences = parseNotificationPreferences(
+        JSON.stringify({ emailOnApproval: false })
+      );
+
+      expect(preferences.emailOnApproval).toBe(false);
+      expect(preferences.emailOnRejection).toBe(true);
+      expect(preferences.emailOnTeamAbsence).toBe(false);
+      expect(preferences.emailDigestFrequency).toBe('immediate');
+    });
+
+    it('should fall back to defaults for missing or invalid JSON', () => {
+      expect(parseNotificationPreferences(null)).toEqual(
+        parseNotificationPreferences('{not json')
+      );
+    });
+  });
+
+  describe('getEmailSkipReason', () => {
+    it('should send emails the user has turned on', () => {
+      const preferences = parseNotificationPreferences(null);
+
+      expect(
+        getEmailSkipReason(preferences, 'emailOnApprovalNeeded')
+      ).toBeNull();
+    });
+
+    it('should skip emails the user has turned off', () => {
+      const preferences = parseNotificationPreferences(null);
+
+      expect(getEmailSkipReason(preferences, 'emailOnTeamAbsence')).toBe(
+        'emailOnTeamAbsence is turned off'
+      );
+    });
+
+    it('should leave emails to the digest for digest users', () => {
+      const preferences = parseNotificationPreferences(
+        JSON.stringify({ emailDigestFrequency: 'weekly' })
+      );
+
+      expect(getEmailSkipReason(preferences, 'emailOnApproval')).toBe(
+        'queued for the weekly digest'
+      );
+      expect(getEmailSkipReason(preferences, 'emailOnTeamAbsence')).toBe(
+        'emailOnTeamAbsence is turned off'
+      );
+    });
+
+    it('should skip all emails when the user wants none', () => {
+      const preferences = parseNotificationPreferences(
+        JSON.stringify({ emailDigestFrequency: 'none' })
+      );
+
+      expect(getEmailSkipReason(preferences, 'emailOnApproval')).toBe(
+        'emails are turned off'
+      );
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+
+import { getRolloverCarryover, type CarryoverPolicy } from '../rollover.service';
+
+function createPolicy(overrides: Partial<CarryoverPolicy> = {}): CarryoverPolicy {
+  return {
+    carryoverEnabled: true,
+    organizationMaxDays: 5,
+    allowCarryover: true,
+    leaveTypeMaxDays: null,
+    expiryDate: '03-31',
+    ...overrides,
+  };
+}
+
+describe('getRolloverCarryover', () => {
+  it('carries over remaining days up to the organization maximum', () => {
+    expect(getRolloverCarryover(3, createPolicy(), 2026)).toEqual({
+      carriedOver: 3,
+      forfeited: 0,
+    });
+    expect(getRolloverCarryover(8.5, createPolicy(), 2026)).toEqual({
+      carriedOver: 5,
+      forfeited: 3.5,
+    });
+  });
+
+  it('applies the stricter of the organization and leave type maximum', () => {
+    expect(
+      getRolloverCarryover(8, createPolicy({ leaveTypeMaxDays: 2 }), 2026)
+    ).toEqual({ carriedOver: 2, forfeited: 6 });
+    expect(
+      getRolloverCarryover(
+        8,
+        createPolicy({ organizationMaxDays: null, leaveTypeMaxDays: null }),
+        2026
+      )
+    ).toEqual({ carriedOver: 8, forfeited: 0 });
+  });
+
+  it('forfeits everything if carryover is disabled', () => {
+    expect(
+      getRolloverCarryover(4, createPolicy({ carryoverEnabled: false }), 2026)
+    ).toEqual({ carriedOver: 0, forfeited: 4 });
+    expect(
+      getRolloverCarryover(4, createPolicy({ allowCarryover: false }), 2026)
+    ).toEqual({ carriedOver: 0, forfeited: 4 });
+  });
+
+  it('never carries over a negative balance', () => {
+    expect(getRolloverCarryover(-2, createPolicy(), 2026)).toEqual({
+      carriedOver: 0,
+      forfeited: 0,
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  localize,
+  pickLocalizedName,
+  resolveLocale,
+} from '../translation.service';
+
+describe('translation.service', () => {
+  describe('resolveLocale', () => {
+    it('should keep supported locales', () => {
+      expect(resolveLocale('es')).toBe('es');
+      expect(resolveLocale('de')).toBe('de');
+    });
+
+    it('should fall back to the default locale', () => {
+      expect(resolveLocale('fr')).toBe('en');
+      expect(resolveLocale(null)).toBe('en');
+      expect(resolveLocale(undefined)).toBe('en');
+    });
+  });
+
+  describe('localize', () => {
+    it('should prefer the translation', () => {
+      expect(localize('Vacation', 'Urlaub', 'es', 'Vacaciones')).toBe(
+        'Vacaciones'
+      );
+    });
+
+    it('should use the German column for German', () => {
+      expect(localize('Vacation', 'Urlaub', 'de')).toBe('Urlaub');
+    });
+
+    it('should fall back to English without a translation', () => {
+      expect(localize('Vacation', 'Urlaub', 'es', null)).toBe('Vacation');
+      expect(localize(null, null, 'es')).toBeNull();
+    });
+  });
+
+  describe('pickLocalizedName', () => {
+    it('should pick the name in the locale, else English', () => {
+      const names = { en: 'Vacation', de: 'Urlaub' };
+
+      expect(pickLocalizedName({ ...names, es: 'Vacaciones' }, 'es')).toBe(
+        'Vacaciones'
+      );
+      expect(pickLocalizedName(names, 'de')).toBe('Urlaub');
+      expect(pickLocalizedName(names, 'es')).toBe('Vacation');
+    });
+  });
+});
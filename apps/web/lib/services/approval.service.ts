@@ -0,0 +1,471 @@
+// CloudflareEnv is defined globally in env.d.ts
+import type {
+  ApprovalConditions,
+  ApprovalRule,
+  ApproverType,
+  MemberRole,
+} from '~/lib/types';
+
+/**
+ * Approval Rule Engine for ZeitPal
+ *
+ * Matches leave requests against the organization's configured
+ * approval_rules and resolves the sequential chain of approvers, one
+ * step per approval level. Falls back to admins and managers when no
+ * rule matches.
+ *
+ * The chain's levels and rules are snapshotted on the request when it is
+ * submitted (leave_requests.approval_chain), so editing the rules does not
+ * change the chain of requests in flight. Approvers are still resolved
+ * from the current members and teams.
+ */
+
+type ApprovalDb = CloudflareEnv['DB'];
+
+export interface ApprovalSubject {
+  userId: string;
+  leaveTypeId: string;
+  leaveTypeCode: string;
+  workDays: number;
+  /** leave_requests.approval_chain, the chain snapshotted on submission */
+  approvalChain?: string | null;
+}
+
+export interface ApprovalContext {
+  rules: ApprovalRule[];
+  members: Array<{ userId: string; role: MemberRole }>;
+  teamMembers: Array<{ teamId: string; userId: string; isLead: boolean }>;
+}
+
+export interface ApprovalStep {
+  level: number;
+  rule: ApprovalRule | null;
+  approverIds: string[];
+}
+
+/** A chain's levels and rules, as stored on the request */
+type ApprovalChainSnapshot = Array<Pick<ApprovalStep, 'level' | 'rule'>>;
+
+/**
+ * Settings that decide whether a request is approved on submission.
+ */
+export interface AutoApprovalPolicy {
+  /** organizations.require_approval */
+  requireApproval: boolean;
+  /** organizations.auto_approve_threshold, in work days */
+  autoApproveThreshold: number | null;
+  /** leave_types.requires_approval */
+  leaveTypeRequiresApproval: boolean;
+}
+
+export type AutoApprovalReason =
+  | 'approval_not_required'
+  | 'leave_type_not_requiring_approval'
+  | 'within_threshold';
+
+interface ApprovalRuleRow {
+  id: string;
+  organization_id: string;
+  name: string;
+  conditions: string;
+  approver_type: string;
+  approver_user_id: string | null;
+  level: number;
+  priority: number;
+  is_active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Roles that may approve when no approval rule applies
+const DEFAULT_APPROVER_ROLES: MemberRole[] = ['admin', 'manager'];
+
+function parseConditions(raw: string | null): ApprovalConditions {
+  try {
+    return JSON.parse(raw || '{}') as ApprovalConditions;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Load everything needed to evaluate approval rules for an organization.
+ * Only active rules are returned, highest priority first.
+ */
+export async function loadApprovalContext(
+  db: ApprovalDb,
+  organizationId: string
+): Promise<ApprovalContext> {
+  const [rules, members, teamMembers] = await Promise.all([
+    db
+      .prepare(
+        `SELECT * FROM approval_rules
+         WHERE organization_id = ? AND is_active = 1
+         ORDER BY priority DESC, level ASC, created_at ASC`
+      )
+      .bind(organizationId)
+      .all<ApprovalRuleRow>(),
+    db
+      .prepare(
+        `SELECT user_id, role FROM organization_members
+         WHERE organization_id = ? AND status = 'active'`
+      )
+      .bind(organizationId)
+      .all<{ user_id: string; role: MemberRole }>(),
+    db
+      .prepare(
+        `SELECT tm.team_id, tm.user_id, tm.is_lead
+         FROM team_members tm
+         JOIN teams t ON tm.team_id = t.id
+         WHERE t.organization_id = ?`
+      )
+      .bind(organizationId)
+      .all<{ team_id: string; user_id: string; is_lead: number }>(),
+  ]);
+
+  return {
+    rules: rules.results.map((row: ApprovalRuleRow) => ({
+      id: row.id,
+      organizationId: row.organization_id,
+      name: row.name,
+      conditions: parseConditions(row.conditions),
+      approverType: row.approver_type as ApproverType,
+      approverUserId: row.approver_user_id,
+      level: row.level,
+      priority: row.priority,
+      isActive: Boolean(row.is_active),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    })),
+    members: members.results.map(
+      (row: { user_id: string; role: MemberRole }) => ({
+        userId: row.user_id,
+        role: row.role,
+      })
+    ),
+    teamMembers: teamMembers.results.map(
+      (row: { team_id: string; user_id: string; is_lead: number }) => ({
+        teamId: row.team_id,
+        userId: row.user_id,
+        isLead: row.is_lead === 1,
+      })
+    ),
+  };
+}
+
+/**
+ * Load the levels that have already approved each of the given requests.
+ */
+export async function loadApprovedLevels(
+  db: ApprovalDb,
+  leaveRequestIds: string[]
+): Promise<Map<string, number[]>> {
+  const approvedLevels = new Map<string, number[]>();
+
+  if (leaveRequestIds.length === 0) {
+    return approvedLevels;
+  }
+
+  const placeholders = leaveRequestIds.map(() => '?').join(',');
+  const result = await db
+    .prepare(
+      `SELECT leave_request_id, level FROM leave_approvals
+       WHERE decision = 'approved' AND leave_request_id IN (${placeholders})`
+    )
+    .bind(...leaveRequestIds)
+    .all<{ leave_request_id: string; level: number }>();
+
+  for (const row of result.results) {
+    const levels = approvedLevels.get(row.leave_request_id) ?? [];
+    levels.push(row.level);
+    approvedLevels.set(row.leave_request_id, levels);
+  }
+
+  return approvedLevels;
+}
+
+/**
+ * Check whether a rule's conditions apply to a leave request.
+ * Leave types may be referenced either by code or by id.
+ */
+export function ruleMatches(
+  rule: ApprovalRule,
+  subject: ApprovalSubject
+): boolean {
+  if (!rule.isActive) {
+    return false;
+  }
+
+  const { leaveTypes, minDays, maxDays } = rule.conditions;
+
+  if (
+    leaveTypes &&
+    leaveTypes.length > 0 &&
+    !leaveTypes.some(
+      (type: string) =>
+        type === subject.leaveTypeCode || type === subject.leaveTypeId
+    )
+  ) {
+    return false;
+  }
+
+  if (minDays != null && subject.workDays < minDays) {
+    return false;
+  }
+
+  if (maxDays != null && subject.workDays > maxDays) {
+    return false;
+  }
+
+  return true;
+}
+
+function membersWithRoles(
+  context: ApprovalContext,
+  roles: MemberRole[]
+): string[] {
+  return context.members
+    .filter((member) => roles.includes(member.role))
+    .map((member) => member.userId);
+}
+
+/**
+ * Resolve the user ids a rule designates as approvers for a request.
+ * The requester is never their own approver.
+ */
+export function resolveRuleApprovers(
+  rule: ApprovalRule,
+  subject: ApprovalSubject,
+  context: ApprovalContext
+): string[] {
+  let approverIds: string[];
+
+  switch (rule.approverType) {
+    case 'team_lead': {
+      const requesterTeams = new Set(
+        context.teamMembers
+          .filter((tm) => tm.userId === subject.userId)
+          .map((tm) => tm.teamId)
+      );
+      approverIds = context.teamMembers
+        .filter((tm) => tm.isLead && requesterTeams.has(tm.teamId))
+        .map((tm) => tm.userId);
+      break;
+    }
+    case 'manager':
+      approverIds = membersWithRoles(context, ['manager']);
+      break;
+    case 'hr':
+      approverIds = membersWithRoles(context, ['hr']);
+      break;
+    case 'specific_user':
+      approverIds = context.members
+        .filter((member) => member.userId === rule.approverUserId)
+        .map((member) => member.userId);
+      break;
+    case 'any_admin':
+    default:
+      approverIds = membersWithRoles(context, ['admin']);
+      break;
+  }
+
+  return [...new Set(approverIds)].filter((id) => id !== subject.userId);
+}
+
+function parseApprovalChain(raw: string | null | undefined) {
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const snapshot = JSON.parse(raw) as ApprovalChainSnapshot;
+    return Array.isArray(snapshot) && snapshot.length > 0 ? snapshot : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serialize a chain's levels and rules for leave_requests.approval_chain.
+ */
+export function snapshotApprovalChain(chain: ApprovalStep[]): string {
+  const snapshot: ApprovalChainSnapshot = chain.map(({ level, rule }) => ({
+    level,
+    rule,
+  }));
+
+  return JSON.stringify(snapshot);
+}
+
+/**
+ * Resolve who approves a step of the chain. If its rule resolves to
+ * nobody (e.g. the requester has no team lead), admins are used so the
+ * request can't get stuck. Steps without a rule go to admins and managers.
+ */
+function resolveStepApprovers(
+  rule: ApprovalRule | null,
+  subject: ApprovalSubject,
+  context: ApprovalContext
+): string[] {
+  if (!rule) {
+    return membersWithRoles(context, DEFAULT_APPROVER_ROLES).filter(
+      (id) => id !== subject.userId
+    );
+  }
+
+  const approverIds = resolveRuleApprovers(rule, subject, context);
+
+  return approverIds.length > 0
+    ? approverIds
+    : membersWithRoles(context, ['admin']).filter(
+        (id) => id !== subject.userId
+      );
+}
+
+/**
+ * Resolve the sequential approval chain for a leave request.
+ *
+ * Requests with a snapshotted chain keep its levels and rules. Otherwise
+ * each level is governed by its highest-priority matching rule, and
+ * without any matching rule the chain is a single step approved by admins
+ * and managers.
+ */
+export function resolveApprovalChain(
+  context: ApprovalContext,
+  subject: ApprovalSubject
+): ApprovalStep[] {
+  const snapshot = parseApprovalChain(subject.approvalChain);
+
+  if (snapshot) {
+    return snapshot.map(({ level, rule }) => ({
+      level,
+      rule,
+      approverIds: resolveStepApprovers(rule, subject, context),
+    }));
+  }
+
+  const rulesByLevel = new Map<number, ApprovalRule>();
+
+  for (const rule of context.rules) {
+    if (!ruleMatches(rule, subject)) {
+      continue;
+    }
+
+    const current = rulesByLevel.get(rule.level);
+
+    if (!current || rule.priority > current.priority) {
+      rulesByLevel.set(rule.level, rule);
+    }
+  }
+
+  if (rulesByLevel.size === 0) {
+    return [
+      {
+        level: 1,
+        rule: null,
+        approverIds: resolveStepApprovers(null, subject, context),
+      },
+    ];
+  }
+
+  return [...rulesByLevel.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([level, rule]) => ({
+      level,
+      rule,
+      approverIds: resolveStepApprovers(rule, subject, context),
+    }));
+}
+
+/**
+ * Check whether a request is approved right away on submission, and why.
+ * Returns null if it has to go through the approval chain.
+ */
+export function getAutoApprovalReason(
+  policy: AutoApprovalPolicy,
+  workDays: number
+): AutoApprovalReason | null {
+  if (!policy.requireApproval) {
+    return 'approval_not_required';
+  }
+
+  if (!policy.leaveTypeRequiresApproval) {
+    return 'leave_type_not_requiring_approval';
+  }
+
+  if (
+    policy.autoApproveThreshold !== null &&
+    policy.autoApproveThreshold > 0 &&
+    workDays <= policy.autoApproveThreshold
+  ) {
+    return 'within_threshold';
+  }
+
+  return null;
+}
+
+/**
+ * Get the first step of the chain that has not been approved yet.
+ * Returns null once every level has approved.
+ */
+export function getCurrentApprovalStep(
+  chain: ApprovalStep[],
+  approvedLevels: number[]
+): ApprovalStep | null {
+  return chain.find((step) => !approvedLevels.includes(step.level)) ?? null;
+}
+
+/**
+ * Resolve who may act on a leave request right now, given the levels
+ * that have already approved it.
+ */
+export function resolveApprovers(
+  context: ApprovalContext,
+  subject: ApprovalSubject,
+  approvedLevels: number[] = []
+): ApprovalStep {
+  const chain = resolveApprovalChain(context, subject);
+
+  return getCurrentApprovalStep(chain, approvedLevels) ?? chain[chain.length - 1]!;
+}
+
+/**
+ * Check whether a user is an approver for the current level of a request.
+ */
+export function canApprove(
+  context: ApprovalContext,
+  subject: ApprovalSubject,
+  userId: string,
+  approvedLevels: number[] = []
+): boolean {
+  return resolveApprovers(context, subject, approvedLevels).approverIds.includes(
+    userId
+  );
+}
+
+/**
+ * Check whether a user could approve anything at all in the organization,
+ * either through their role, a team lead position or a specific_user rule.
+ */
+export function isPotentialApprover(
+  context: ApprovalContext,
+  userId: string
+): boolean {
+  const member = context.members.find((m) => m.userId === userId);
+
+  if (!member) {
+    return false;
+  }
+
+  if (['admin', 'manager', 'hr'].includes(member.role)) {
+    return true;
+  }
+
+  return (
+    context.teamMembers.some((tm) => tm.isLead && tm.userId === userId) ||
+    context.rules.some(
+      (rule) =>
+        rule.approverType === 'specific_user' && rule.approverUserId === userId
+    )
+  );
+}
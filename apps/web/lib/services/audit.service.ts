@@ -0,0 +1,205 @@
+// CloudflareEnv is defined globally in env.d.ts
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+} from '~/lib/types';
+
+/**
+ * Audit Trail for ZeitPal
+ *
+ * Every state-changing API action records who changed what in
+ * audit_logs, with the previous and new values and the client's IP
+ * address and user agent. Audit statements are meant to be added to the
+ * batch that makes the change, so the change and its log entry are
+ * written together or not at all.
+ */
+
+type AuditDb = CloudflareEnv['DB'];
+
+export interface AuditEntry {
+  organizationId: string | null;
+  /** The user who made the change */
+  userId: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  oldValues?: Record<string, unknown> | null;
+  newValues?: Record<string, unknown> | null;
+}
+
+export interface AuditRequestContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Read the client's IP address and user agent from a request. Cloudflare
+ * sets cf-connecting-ip; x-forwarded-for covers local development.
+ */
+export function getAuditRequestContext(request: Request): AuditRequestContext {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+
+  return {
+    ipAddress:
+      request.headers.get('cf-connecting-ip') ??
+      forwardedFor?.split(',')[0]?.trim() ??
+      request.headers.get('x-real-ip') ??
+      null,
+    userAgent: request.headers.get('user-agent'),
+  };
+}
+
+/**
+ * Reduce a before/after pair to the fields that changed, so updates only
+ * log what they touched. Values are compared by their JSON form.
+ */
+export function getChangedValues(
+  oldValues: Record<string, unknown>,
+  newValues: Record<string, unknown>
+): { oldValues: Record<string, unknown>; newValues: Record<string, unknown> } {
+  const changed = {
+    oldValues: {} as Record<string, unknown>,
+    newValues: {} as Record<string, unknown>,
+  };
+
+  for (const [key, value] of Object.entries(newValues)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    if (JSON.stringify(oldValues[key] ?? null) !== JSON.stringify(value)) {
+      changed.oldValues[key] = oldValues[key] ?? null;
+      changed.newValues[key] = value;
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Build the statement that writes an audit log entry.
+ */
+export function prepareAuditLog(
+  db: AuditDb,
+  entry: AuditEntry,
+  context: AuditRequestContext,
+  now: string = new Date().toISOString()
+): ReturnType<AuditDb['prepare']> {
+  return db
+    .prepare(
+      `INSERT INTO audit_logs (
+         id, organization_id, user_id, action, entity_type, entity_id,
+         old_values, new_values, ip_address, user_agent, created_at
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      crypto.randomUUID(),
+      entry.organizationId,
+      entry.userId,
+      entry.action,
+      entry.entityType,
+      entry.entityId,
+      entry.oldValues ? JSON.stringify(entry.oldValues) : null,
+      entry.newValues ? JSON.stringify(entry.newValues) : null,
+      context.ipAddress,
+      context.userAgent,
+      now
+    );
+}
+
+export interface AuditLogFilters {
+  /** The user who made the change */
+  userId?: string;
+  entityType?: AuditEntityType;
+  action?: AuditAction;
+  /** First day to include, as YYYY-MM-DD */
+  startDate?: string;
+  /** Last day to include, as YYYY-MM-DD */
+  endDate?: string;
+}
+
+/**
+ * Build the WHERE clause that limits audit_logs (aliased `al`) to an
+ * organization and the given filters. Shared by the log viewer and the
+ * CSV export so both list the same entries.
+ */
+export function buildAuditLogFilter(
+  organizationId: string,
+  filters: AuditLogFilters
+): { where: string; params: string[] } {
+  const conditions = ['al.organization_id = ?'];
+  const params = [organizationId];
+
+  if (filters.userId) {
+    conditions.push('al.user_id = ?');
+    params.push(filters.userId);
+  }
+
+  if (filters.entityType) {
+    conditions.push('al.entity_type = ?');
+    params.push(filters.entityType);
+  }
+
+  if (filters.action) {
+    conditions.push('al.action = ?');
+    params.push(filters.action);
+  }
+
+  if (filters.startDate) {
+    conditions.push('al.created_at >= ?');
+    params.push(filters.startDate);
+  }
+
+  // created_at is a full timestamp, so include the whole end day
+  if (filters.endDate) {
+    conditions.push("al.created_at < date(?, '+1 day')");
+    params.push(filters.endDate);
+  }
+
+  return { where: `WHERE ${conditions.join(' AND ')}`, params };
+}
+
+export interface AuditLogRow {
+  id: string;
+  organization_id: string | null;
+  user_id: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  old_values: string | null;
+  new_values: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  user_name: string | null;
+  user_email: string | null;
+}
+
+/**
+ * Columns for AuditLogRow, to be selected from audit_logs `al` with a
+ * LEFT JOIN on users `u`.
+ */
+export const AUDIT_LOG_COLUMNS = `al.id, al.organization_id, al.user_id, al.action,
+  al.entity_type, al.entity_id, al.old_values, al.new_values, al.ip_address,
+  al.user_agent, al.created_at, u.name AS user_name, u.email AS user_email`;
+
+export function mapAuditLogRow(row: AuditLogRow): AuditLogEntry {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    userId: row.user_id,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    oldValues: row.old_values ? JSON.parse(row.old_values) : null,
+    newValues: row.new_values ? JSON.parse(row.new_values) : null,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    createdAt: row.created_at,
+    user:
+      row.user_id && row.user_email
+        ? { id: row.user_id, name: row.user_name, email: row.user_email }
+        : null,
+  };
+}
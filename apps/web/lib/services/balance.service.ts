@@ -0,0 +1,393 @@
+// CloudflareEnv is defined globally in env.d.ts
+import type {
+  BalanceAdjustment,
+  BalanceAdjustmentKind,
+  BalanceLedgerEntry,
+  BalanceShortfall,
+  WorkDaysByYear,
+} from '~/lib/types';
+
+/**
+ * Leave Balance Bookings for ZeitPal
+ *
+ * Moves a leave request's days between the `pending` and `used` columns
+ * of the matching leave_balances rows. Requests spanning New Year are
+ * booked against each year's balance using the request's
+ * `work_days_by_year` breakdown, so every status change reverses exactly
+ * what was booked before.
+ *
+ * Before booking, requests for leave types with an allowance are checked
+ * against each year's remaining balance
+ * (entitled + carried_over + adjustment - used - pending).
+ *
+ * Manual changes are posted as entries in leave_balance_adjustments;
+ * `adjustment` is their running sum. A balance's ledger replays the year
+ * from the entitlement through carryover, adjustments and approved leave.
+ */
+
+type BalanceDb = CloudflareEnv['DB'];
+
+export interface BalanceBookingTarget {
+  userId: string;
+  leaveTypeId: string;
+  workDaysByYear: WorkDaysByYear;
+  /**
+   * Only book while this leave request is still pending. Put the booking
+   * before the statement that changes the request's status, so both see
+   * the same status within the batch.
+   */
+  pendingRequestId?: string;
+}
+
+/**
+ * Signed multipliers for the request's days, e.g. approving a request is
+ * `{ pending: -1, used: 1 }`.
+ */
+export interface BalanceBookingChange {
+  pending?: -1 | 0 | 1;
+  used?: -1 | 0 | 1;
+}
+
+/**
+ * Read a request's stored per-year breakdown. Requests without one are
+ * booked entirely against their start year.
+ */
+export function parseWorkDaysByYear(
+  value: string | null | undefined,
+  startDate: string,
+  workDays: number
+): WorkDaysByYear {
+  if (value) {
+    try {
+      const parsed = JSON.parse(value) as WorkDaysByYear;
+
+      if (parsed && typeof parsed === 'object') {
+        return parsed;
+      }
+    } catch {
+      // Fall back to the start year below
+    }
+  }
+
+  return { [startDate.slice(0, 4)]: workDays };
+}
+
+/**
+ * Build the statements that book a request's days against its balances,
+ * one per year. Meant to be added to the batch that changes the request.
+ */
+export function prepareBalanceBooking(
+  db: BalanceDb,
+  target: BalanceBookingTarget,
+  change: BalanceBookingChange,
+  now: string = new Date().toISOString()
+): ReturnType<BalanceDb['prepare']>[] {
+  return Object.entries(target.workDaysByYear)
+    .filter(([, workDays]) => workDays !== 0)
+    .map(([year, workDays]) =>
+      db
+        .prepare(
+          `UPDATE leave_balances
+           SET pending = pending + ?,
+               used = used + ?,
+               updated_at = ?
+           WHERE user_id = ? AND leave_type_id = ? AND year = ?${
+             target.pendingRequestId
+               ? ` AND EXISTS (
+                   SELECT 1 FROM leave_requests
+                   WHERE id = ? AND status = 'pending'
+                 )`
+               : ''
+           }`
+        )
+        .bind(
+          workDays * (change.pending ?? 0),
+          workDays * (change.used ?? 0),
+          now,
+          target.userId,
+          target.leaveTypeId,
+          Number(year),
+          ...(target.pendingRequestId ? [target.pendingRequestId] : [])
+        )
+    );
+}
+
+const roundDays = (days: number) => Math.round(days * 100) / 100;
+
+/**
+ * Compare a request's days per year with the remaining balance of each
+ * year. Up to the current year, a year without a balance row has nothing
+ * available. Later years without one are not checked: their entitlement
+ * is only known once the year-end rollover has created them.
+ */
+export function findBalanceShortfalls(
+  remainingByYear: Record<string, number>,
+  workDaysByYear: WorkDaysByYear,
+  currentYear: number
+): BalanceShortfall[] {
+  return Object.entries(workDaysByYear)
+    .map(([year, workDays]) => ({
+      year: Number(year),
+      remaining:
+        remainingByYear[year] ?? (Number(year) <= currentYear ? 0 : null),
+      workDays,
+    }))
+    .filter(
+      ({ remaining, workDays }) => remaining !== null && workDays > remaining
+    )
+    .map(({ year, remaining, workDays }) => ({
+      year,
+      available: roundDays(Math.max(0, remaining!)),
+      requested: workDays,
+    }));
+}
+
+/**
+ * Get the years in which a request would exceed the remaining balance.
+ */
+export async function getBalanceShortfalls(
+  db: BalanceDb,
+  target: BalanceBookingTarget,
+  currentYear: number = new Date().getFullYear()
+): Promise<BalanceShortfall[]> {
+  const years = Object.keys(target.workDaysByYear).map(Number);
+
+  if (years.length === 0) {
+    return [];
+  }
+
+  const result = await db
+    .prepare(
+      `SELECT year,
+              entitled + carried_over + adjustment - used - pending as remaining
+       FROM leave_balances
+       WHERE user_id = ? AND leave_type_id = ?
+         AND year IN (${years.map(() => '?').join(',')})`
+    )
+    .bind(target.userId, target.leaveTypeId, ...years)
+    .all<{ year: number; remaining: number }>();
+
+  const remainingByYear: Record<string, number> = {};
+
+  for (const row of result.results) {
+    remainingByYear[String(row.year)] = row.remaining;
+  }
+
+  return findBalanceShortfalls(
+    remainingByYear,
+    target.workDaysByYear,
+    currentYear
+  );
+}
+
+export interface BalanceLedgerInput {
+  year: number;
+  entitled: number;
+  /** leave_balances.carried_over, i.e. without the expired days */
+  carriedOver: number;
+  carryoverExpired: number;
+  carryoverExpiresAt: string | null;
+  adjustments: BalanceAdjustment[];
+  /** Approved requests with the days they booked in this year */
+  leaveRequests: Array<{
+    id: string;
+    startDate: string;
+    endDate: string;
+    workDays: number;
+  }>;
+}
+
+const LEDGER_ENTRY_ORDER: Record<BalanceLedgerEntry['type'], number> = {
+  entitlement: 0,
+  carryover: 1,
+  adjustment: 2,
+  leave: 3,
+  carryover_expired: 4,
+};
+
+/**
+ * Build a balance's transaction history in date order, with the running
+ * balance after each entry. Requests reaching into the year from the
+ * previous one are dated to January 1.
+ */
+export function buildBalanceLedger(input: BalanceLedgerInput): BalanceLedgerEntry[] {
+  const yearStart = `${input.year}-01-01`;
+  const entries: Omit<BalanceLedgerEntry, 'balance'>[] = [
+    { id: 'entitlement', type: 'entitlement', date: yearStart, days: input.entitled },
+  ];
+
+  if (input.carriedOver + input.carryoverExpired > 0) {
+    entries.push({
+      id: 'carryover',
+      type: 'carryover',
+      date: yearStart,
+      days: roundDays(input.carriedOver + input.carryoverExpired),
+    });
+  }
+
+  if (input.carryoverExpired > 0) {
+    entries.push({
+      id: 'carryover_expired',
+      type: 'carryover_expired',
+      date: input.carryoverExpiresAt ?? yearStart,
+      days: -input.carryoverExpired,
+    });
+  }
+
+  for (const adjustment of input.adjustments) {
+    entries.push({
+      id: adjustment.id,
+      type: 'adjustment',
+      date: adjustment.createdAt.slice(0, 10),
+      days: adjustment.days,
+      adjustment,
+    });
+  }
+
+  for (const request of input.leaveRequests) {
+    entries.push({
+      id: request.id,
+      type: 'leave',
+      date: request.startDate > yearStart ? request.startDate : yearStart,
+      days: -request.workDays,
+      leaveRequest: {
+        id: request.id,
+        startDate: request.startDate,
+        endDate: request.endDate,
+      },
+    });
+  }
+
+  entries.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      LEDGER_ENTRY_ORDER[a.type] - LEDGER_ENTRY_ORDER[b.type]
+  );
+
+  let balance = 0;
+
+  return entries.map((entry) => {
+    balance = roundDays(balance + entry.days);
+
+    return { ...entry, balance };
+  });
+}
+
+interface AdjustmentRow {
+  id: string;
+  balance_id: string;
+  user_id: string;
+  kind: string;
+  days: number;
+  reason: string;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+function toBalanceAdjustment(row: AdjustmentRow): BalanceAdjustment {
+  return {
+    id: row.id,
+    balanceId: row.balance_id,
+    userId: row.user_id,
+    kind: row.kind as BalanceAdjustmentKind,
+    days: row.days,
+    reason: row.reason,
+    createdBy: row.created_by
+      ? { id: row.created_by, name: row.created_by_name }
+      : null,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Get the adjustments posted to a balance, oldest first.
+ */
+export async function getBalanceAdjustments(
+  db: BalanceDb,
+  balanceId: string
+): Promise<BalanceAdjustment[]> {
+  const result = await db
+    .prepare(
+      `SELECT a.*, u.name as created_by_name
+       FROM leave_balance_adjustments a
+       LEFT JOIN users u ON u.id = a.created_by
+       WHERE a.balance_id = ?
+       ORDER BY a.created_at`
+    )
+    .bind(balanceId)
+    .all<AdjustmentRow>();
+
+  return result.results.map(toBalanceAdjustment);
+}
+
+/**
+ * Get the transaction history of a balance.
+ */
+export async function getBalanceLedger(
+  db: BalanceDb,
+  balance: {
+    id: string;
+    user_id: string;
+    leave_type_id: string;
+    year: number;
+    entitled: number;
+    carried_over: number;
+    carryover_expired: number;
+    carryover_expires_at: string | null;
+  }
+): Promise<BalanceLedgerEntry[]> {
+  const [adjustments, requests] = await Promise.all([
+    getBalanceAdjustments(db, balance.id),
+    db
+      .prepare(
+        `SELECT id, start_date, end_date, work_days, work_days_by_year
+         FROM leave_requests
+         WHERE user_id = ? AND leave_type_id = ? AND status = 'approved'
+           AND start_date <= ? AND end_date >= ?`
+      )
+      .bind(
+        balance.user_id,
+        balance.leave_type_id,
+        `${balance.year}-12-31`,
+        `${balance.year}-01-01`
+      )
+      .all<{
+        id: string;
+        start_date: string;
+        end_date: string;
+        work_days: number;
+        work_days_by_year: string | null;
+      }>(),
+  ]);
+
+  return buildBalanceLedger({
+    year: balance.year,
+    entitled: balance.entitled,
+    carriedOver: balance.carried_over,
+    carryoverExpired: balance.carryover_expired,
+    carryoverExpiresAt: balance.carryover_expires_at,
+    adjustments,
+    leaveRequests: requests.results
+      .map(
+        (row: {
+          id: string;
+          start_date: string;
+          end_date: string;
+          work_days: number;
+          work_days_by_year: string | null;
+        }) => ({
+          id: row.id,
+          startDate: row.start_date,
+          endDate: row.end_date,
+          workDays:
+            parseWorkDaysByYear(
+              row.work_days_by_year,
+              row.start_date,
+              row.work_days
+            )[String(balance.year)] ?? 0,
+        })
+      )
+      .filter((request: { workDays: number }) => request.workDays !== 0),
+  });
+}
@@ -0,0 +1,542 @@
+// CloudflareEnv is defined globally in env.d.ts
+import { sendLeaveReminderEmail } from '~/lib/emails';
+import { parseWorkDaysByYear } from '~/lib/services/balance.service';
+import { getHolidays } from '~/lib/services/holiday.service';
+import {
+  joinLeaveTypeTranslation,
+  leaveTypeNameSql,
+} from '~/lib/services/leave-type.service';
+import {
+  getNotificationTranslator,
+  prepareNotification,
+} from '~/lib/services/notification.service';
+import {
+  getLocalizedNames,
+  getTranslations,
+  toLocalizedNames,
+} from '~/lib/services/translation.service';
+import { loadWorkSchedules } from '~/lib/services/work-schedule.service';
+import type { CarryoverStatus, HalfDayType, WorkDaysByYear } from '~/lib/types';
+import {
+  type HolidayDay,
+  calculateWorkDays,
+} from '~/lib/utils/leave-calculations';
+import { getWorkDayPredicate } from '~/lib/utils/work-schedule';
+
+/**
+ * Carryover Expiry for ZeitPal
+ *
+ * Days carried over from the previous year are used before the year's
+ * own entitlement. Whatever has not been taken by the carryover expiry
+ * date (organizations.carryover_expiry_date, stored per balance in
+ * `carryover_expires_at` by the rollover) is forfeited: it is moved from
+ * `carried_over` to `carryover_expired`, so `remaining` stays
+ * entitled + carried_over + adjustment - used - pending everywhere.
+ *
+ * Carryover counts as taken by the work days of approved requests from
+ * the start of the balance's year up to and including the expiry date.
+ * A request running past the expiry date only counts its days up to it.
+ * Pending requests do not count: days still waiting for approval at the
+ * expiry date do not hold on to carryover.
+ */
+
+type CarryoverDb = CloudflareEnv['DB'];
+
+export interface CarryoverState {
+  carriedOver: number;
+  /** leave_balances.carryover_expires_at (YYYY-MM-DD) */
+  expiresAt: string | null;
+  /** leave_balances.carryover_expired_at, set once the expiry was applied */
+  expiredAt: string | null;
+  /** leave_balances.carryover_expired */
+  expired: number;
+  /** Days of the balance's leave type taken on or before the expiry date */
+  daysTakenBeforeExpiry: number;
+}
+
+export interface CarryoverBalance {
+  id: string;
+  organizationId: string;
+  userId: string;
+  leaveTypeId: string;
+  year: number;
+  /** leave_balances.carryover_expires_at (YYYY-MM-DD) */
+  expiresAt: string | null;
+}
+
+export interface CarryoverLeaveRequest {
+  userId: string;
+  leaveTypeId: string;
+  status: string;
+  startDate: string;
+  endDate: string;
+  startHalfDay: HalfDayType;
+  workDaysByYear: WorkDaysByYear;
+}
+
+const roundDays = (days: number) => Math.round(days * 100) / 100;
+
+/**
+ * Get the date carried-over days expire in a year.
+ *
+ * @param expiryDate - organizations.carryover_expiry_date (MM-DD)
+ */
+export function getCarryoverExpiresAt(year: number, expiryDate: string): string {
+  return `${year}-${expiryDate}`;
+}
+
+/**
+ * Count the days of a balance's leave type taken from the start of its
+ * year up to and including the carryover expiry date.
+ *
+ * @param holidays - Holidays up to the expiry date
+ * @param isWorkDay - Whether the employee works on a day
+ */
+export function getDaysTakenBeforeExpiry(
+  balance: CarryoverBalance,
+  requests: CarryoverLeaveRequest[],
+  holidays: Array<string | HolidayDay>,
+  isWorkDay?: (day: Date) => boolean
+): number {
+  if (!balance.expiresAt) {
+    return 0;
+  }
+
+  const yearStart = `${balance.year}-01-01`;
+  let days = 0;
+
+  for (const request of requests) {
+    if (
+      request.status !== 'approved' ||
+      request.userId !== balance.userId ||
+      request.leaveTypeId !== balance.leaveTypeId ||
+      request.endDate < yearStart ||
+      request.startDate > balance.expiresAt
+    ) {
+      continue;
+    }
+
+    if (request.endDate <= balance.expiresAt) {
+      days += request.workDaysByYear[balance.year] ?? 0;
+      continue;
+    }
+
+    const from = request.startDate < yearStart ? yearStart : request.startDate;
+    days += calculateWorkDays(
+      from,
+      balance.expiresAt,
+      holidays,
+      from === request.startDate ? request.startHalfDay : null,
+      null,
+      isWorkDay
+    );
+  }
+
+  return roundDays(days);
+}
+
+/**
+ * Get the days taken before the carryover expiry date of balances, keyed
+ * by balance id.
+ */
+export async function loadCarryoverDaysTaken(
+  db: CarryoverDb,
+  balances: CarryoverBalance[]
+): Promise<Map<string, number>> {
+  const daysTaken = new Map<string, number>();
+  const expiring = balances.filter((balance) => balance.expiresAt);
+  const organizationIds = new Set(
+    expiring.map((balance) => balance.organizationId)
+  );
+
+  for (const organizationId of organizationIds) {
+    await addOrganizationDaysTaken(
+      db,
+      organizationId,
+      expiring.filter((balance) => balance.organizationId === organizationId),
+      daysTaken
+    );
+  }
+
+  return daysTaken;
+}
+
+async function addOrganizationDaysTaken(
+  db: CarryoverDb,
+  organizationId: string,
+  expiring: CarryoverBalance[],
+  daysTaken: Map<string, number>
+): Promise<void> {
+  const from = `${Math.min(...expiring.map((balance) => balance.year))}-01-01`;
+  const until = expiring
+    .map((balance) => balance.expiresAt!)
+    .reduce((latest, date) => (date > latest ? date : latest));
+
+  const org = await db
+    .prepare(
+      'SELECT country, region, bundesland FROM organizations WHERE id = ?'
+    )
+    .bind(organizationId)
+    .first<{
+      country: string | null;
+      region: string | null;
+      bundesland: string | null;
+    }>();
+
+  const [requestRows, holidays, workSchedules] = await Promise.all([
+    db
+      .prepare(
+        `SELECT user_id, leave_type_id, status, start_date, end_date,
+                start_half_day, work_days, work_days_by_year
+         FROM leave_requests
+         WHERE organization_id = ?
+           AND status = 'approved'
+           AND start_date <= ? AND end_date >= ?`
+      )
+      .bind(organizationId, until, from)
+      .all<{
+        user_id: string;
+        leave_type_id: string;
+        status: string;
+        start_date: string;
+        end_date: string;
+        start_half_day: HalfDayType;
+        work_days: number;
+        work_days_by_year: string | null;
+      }>(),
+    getHolidays(db, {
+      country: org?.country ?? 'DE',
+      region: org?.region ?? org?.bundesland ?? null,
+      organizationId,
+      startDate: from,
+      endDate: until,
+    }),
+    loadWorkSchedules(db, organizationId),
+  ]);
+
+  const requests: CarryoverLeaveRequest[] = requestRows.results.map(
+    (row: {
+      user_id: string;
+      leave_type_id: string;
+      status: string;
+      start_date: string;
+      end_date: string;
+      start_half_day: HalfDayType;
+      work_days: number;
+      work_days_by_year: string | null;
+    }) => ({
+      userId: row.user_id,
+      leaveTypeId: row.leave_type_id,
+      status: row.status,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      startHalfDay: row.start_half_day,
+      workDaysByYear: parseWorkDaysByYear(
+        row.work_days_by_year,
+        row.start_date,
+        row.work_days
+      ),
+    })
+  );
+
+  for (const balance of expiring) {
+    daysTaken.set(
+      balance.id,
+      getDaysTakenBeforeExpiry(
+        balance,
+        requests,
+        holidays,
+        getWorkDayPredicate(workSchedules.get(balance.userId) ?? [])
+      )
+    );
+  }
+}
+
+/**
+ * Split a balance's carryover into used, expiring and expired days.
+ *
+ * @param today - Current date in YYYY-MM-DD format
+ */
+export function getCarryoverStatus(
+  state: CarryoverState,
+  today: string = new Date().toISOString().split('T')[0]!
+): CarryoverStatus {
+  const carriedOver = Math.max(0, state.carriedOver);
+
+  // Once applied, carried_over only holds the days that were taken in time
+  if (state.expiredAt) {
+    return {
+      expiresAt: state.expiresAt,
+      used: carriedOver,
+      expiring: 0,
+      expired: state.expired,
+      isExpired: true,
+    };
+  }
+
+  const used = roundDays(
+    Math.min(carriedOver, Math.max(0, state.daysTakenBeforeExpiry))
+  );
+  const unused = roundDays(carriedOver - used);
+  const isExpired = state.expiresAt !== null && today > state.expiresAt;
+
+  return {
+    expiresAt: state.expiresAt,
+    used,
+    expiring: isExpired ? 0 : unused,
+    expired: isExpired ? unused : 0,
+    isExpired,
+  };
+}
+
+/**
+ * Forfeit the unused carryover of all balances whose expiry date has
+ * passed. Returns the number of balances that lost days.
+ *
+ * @param today - Current date in YYYY-MM-DD format
+ */
+export async function expireCarryover(
+  db: CarryoverDb,
+  today: string
+): Promise<{ processed: number; forfeited: number }> {
+  const result = await db
+    .prepare(
+      `SELECT lb.id, lb.organization_id, lb.user_id, lb.year,
+              lb.carried_over, lb.carryover_expires_at, lb.leave_type_id,
+              lt.name_en as leave_type_name_en,
+              lt.name_de as leave_type_name_de
+       FROM leave_balances lb
+       JOIN leave_types lt ON lb.leave_type_id = lt.id
+       WHERE lb.carryover_expires_at < ?
+         AND lb.carryover_expired_at IS NULL
+         AND lb.carried_over > 0`
+    )
+    .bind(today)
+    .all<{
+      id: string;
+      organization_id: string;
+      user_id: string;
+      year: number;
+      carried_over: number;
+      carryover_expires_at: string;
+      leave_type_id: string;
+      leave_type_name_en: string;
+      leave_type_name_de: string;
+    }>();
+
+  const daysTaken = await loadCarryoverDaysTaken(
+    db,
+    result.results.map(
+      (balance: {
+        id: string;
+        organization_id: string;
+        user_id: string;
+        leave_type_id: string;
+        year: number;
+        carryover_expires_at: string;
+      }) => ({
+        id: balance.id,
+        organizationId: balance.organization_id,
+        userId: balance.user_id,
+        leaveTypeId: balance.leave_type_id,
+        year: balance.year,
+        expiresAt: balance.carryover_expires_at,
+      })
+    )
+  );
+
+  const translations = await getTranslations(db, 'leave_type', [
+    ...new Set<string>(
+      result.results.map(
+        (balance: { leave_type_id: string }) => balance.leave_type_id
+      )
+    ),
+  ]);
+  const t = await getNotificationTranslator('en');
+  const now = new Date().toISOString();
+  const statements = [];
+  let processed = 0;
+  let forfeited = 0;
+
+  for (const balance of result.results) {
+    const status = getCarryoverStatus(
+      {
+        carriedOver: balance.carried_over,
+        expiresAt: balance.carryover_expires_at,
+        expiredAt: null,
+        expired: 0,
+        daysTakenBeforeExpiry: daysTaken.get(balance.id) ?? 0,
+      },
+      today
+    );
+
+    statements.push(
+      db
+        .prepare(
+          `UPDATE leave_balances
+           SET carried_over = ?, carryover_expired = ?,
+               carryover_expired_at = ?, updated_at = ?
+           WHERE id = ? AND carryover_expired_at IS NULL`
+        )
+        .bind(status.used, status.expired, now, now, balance.id)
+    );
+
+    if (status.expired > 0) {
+      statements.push(
+        prepareNotification(
+          db,
+          {
+            userId: balance.user_id,
+            organizationId: balance.organization_id,
+            type: 'carryover_expiry',
+            params: {
+              leaveType: toLocalizedNames(
+                balance.leave_type_name_en,
+                balance.leave_type_name_de,
+                translations.get(balance.leave_type_id)
+              ),
+              days: status.expired,
+              date: balance.carryover_expires_at,
+              expired: true,
+            },
+            entityType: 'leave_balance',
+            entityId: balance.id,
+          },
+          t,
+          now
+        )
+      );
+      processed++;
+      forfeited += status.expired;
+    }
+  }
+
+  if (statements.length > 0) {
+    await db.batch(statements);
+  }
+
+  return { processed, forfeited: roundDays(forfeited) };
+}
+
+/**
+ * Warn an employee that carried-over days of a balance are about to
+ * expire. Sends the leave reminder email, then records an in-app
+ * notification and stamps carryover_reminder_sent_at, so a failed send
+ * is retried. Returns false if no carryover is left to expire.
+ */
+export async function sendCarryoverReminder(
+  env: CloudflareEnv,
+  leaveBalanceId: string,
+  today: string = new Date().toISOString().split('T')[0]!
+): Promise<boolean> {
+  const db = env.DB;
+
+  const balance = await db
+    .prepare(
+      `SELECT lb.id, lb.organization_id, lb.user_id, lb.year,
+              lb.carried_over, lb.carryover_expires_at,
+              lb.carryover_expired_at, lb.carryover_expired,
+              u.name as user_name, u.email as user_email,
+              lb.leave_type_id, lt.name_en as leave_type_name_en,
+              lt.name_de as leave_type_name_de,
+              ${leaveTypeNameSql('u.locale')} as leave_type_localized_name
+       FROM leave_balances lb
+       JOIN users u ON lb.user_id = u.id
+       JOIN leave_types lt ON lb.leave_type_id = lt.id
+       ${joinLeaveTypeTranslation('u.locale')}
+       WHERE lb.id = ?`
+    )
+    .bind(leaveBalanceId)
+    .first<{
+      id: string;
+      organization_id: string;
+      user_id: string;
+      year: number;
+      carried_over: number;
+      carryover_expires_at: string | null;
+      carryover_expired_at: string | null;
+      carryover_expired: number;
+      user_name: string | null;
+      user_email: string;
+      leave_type_id: string;
+      leave_type_name_en: string;
+      leave_type_name_de: string;
+      leave_type_localized_name: string;
+    }>();
+
+  if (!balance?.carryover_expires_at) {
+    return false;
+  }
+
+  const daysTaken = await loadCarryoverDaysTaken(db, [
+    {
+      id: balance.id,
+      organizationId: balance.organization_id,
+      userId: balance.user_id,
+      leaveTypeId: balance.leave_type_id,
+      year: balance.year,
+      expiresAt: balance.carryover_expires_at,
+    },
+  ]);
+
+  const status = getCarryoverStatus(
+    {
+      carriedOver: balance.carried_over,
+      expiresAt: balance.carryover_expires_at,
+      expiredAt: balance.carryover_expired_at,
+      expired: balance.carryover_expired,
+      daysTakenBeforeExpiry: daysTaken.get(balance.id) ?? 0,
+    },
+    today
+  );
+
+  if (status.expiring <= 0) {
+    return false;
+  }
+
+  await sendLeaveReminderEmail(env, {
+    employeeName: balance.user_name || balance.user_email,
+    employeeEmail: balance.user_email,
+    remainingDays: status.expiring,
+    expiryDate: balance.carryover_expires_at,
+    leaveType: balance.leave_type_localized_name,
+  });
+
+  const leaveTypeNames = await getLocalizedNames(
+    db,
+    'leave_type',
+    balance.leave_type_id,
+    balance.leave_type_name_en,
+    balance.leave_type_name_de
+  );
+  const t = await getNotificationTranslator('en');
+  const now = new Date().toISOString();
+
+  await db.batch([
+    prepareNotification(
+      db,
+      {
+        userId: balance.user_id,
+        organizationId: balance.organization_id,
+        type: 'carryover_expiry',
+        params: {
+          leaveType: leaveTypeNames,
+          days: status.expiring,
+          date: balance.carryover_expires_at,
+          expired: false,
+        },
+        entityType: 'leave_balance',
+        entityId: balance.id,
+      },
+      t,
+      now
+    ),
+    db
+      .prepare(
+        `UPDATE leave_balances SET carryover_reminder_sent_at = ? WHERE id = ?`
+      )
+      .bind(now, balance.id),
+  ]);
+
+  return true;
+}
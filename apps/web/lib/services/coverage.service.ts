@@ -0,0 +1,202 @@
+// CloudflareEnv is defined globally in env.d.ts
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+
+import { loadWorkSchedules } from '~/lib/services/work-schedule.service';
+import type { CoverageConflict, WorkSchedule } from '~/lib/types';
+import type { HolidayDay } from '~/lib/utils/leave-calculations';
+import { isScheduledWorkDay } from '~/lib/utils/work-schedule';
+
+/**
+ * Team Coverage for ZeitPal
+ *
+ * Checks, day by day, how many members of each of a requester's teams
+ * would still be working if a leave request were granted, against the
+ * team's min_coverage. Members count as unavailable on days they have
+ * approved leave or are not scheduled to work. Public holidays are not
+ * checked, except half-day holidays: their mornings still need covering.
+ */
+
+type CoverageDb = CloudflareEnv['DB'];
+
+export interface CoverageTeam {
+  id: string;
+  name: string;
+  minCoverage: number;
+  memberIds: string[];
+}
+
+export interface CoverageAbsence {
+  userId: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface CoverageInput {
+  /** The requester, counted as absent on every requested day */
+  userId: string;
+  startDate: string;
+  endDate: string;
+  /**
+   * Public holidays in the range (YYYY-MM-DD), or holidays with their
+   * half-day flag. Nobody needs covering on full-day holidays
+   */
+  holidays: Array<string | HolidayDay>;
+  teams: CoverageTeam[];
+  /** Other members' approved absences overlapping the range */
+  absences: CoverageAbsence[];
+  workSchedules: Map<string, WorkSchedule[]>;
+}
+
+export interface CoverageCheck {
+  organizationId: string;
+  userId: string;
+  startDate: string;
+  endDate: string;
+  holidays: Array<string | HolidayDay>;
+  /** The request being checked, if it already exists */
+  excludeLeaveRequestId?: string;
+}
+
+/**
+ * Find the days on which a team would drop below its minimum coverage.
+ * Only days the requester would otherwise work are checked. Teams too
+ * small to keep their minimum while any member is away, such as a team
+ * of one, are not checked.
+ */
+export function findCoverageConflicts(input: CoverageInput): CoverageConflict[] {
+  const conflicts: CoverageConflict[] = [];
+  const requesterSchedules = input.workSchedules.get(input.userId) ?? [];
+  const fullDayHolidays = new Set(
+    input.holidays
+      .filter((holiday) => typeof holiday === 'string' || !holiday.isHalfDay)
+      .map((holiday) => (typeof holiday === 'string' ? holiday : holiday.date))
+  );
+
+  const days = eachDayOfInterval({
+    start: parseISO(input.startDate),
+    end: parseISO(input.endDate),
+  })
+    .map((day) => format(day, 'yyyy-MM-dd'))
+    .filter(
+      (day) =>
+        !fullDayHolidays.has(day) &&
+        isScheduledWorkDay(requesterSchedules, day)
+    );
+
+  for (const day of days) {
+    const absentIds = new Set(
+      input.absences
+        .filter((absence) => absence.startDate <= day && absence.endDate >= day)
+        .map((absence) => absence.userId)
+    );
+
+    for (const team of input.teams) {
+      if (team.minCoverage >= team.memberIds.length) {
+        continue;
+      }
+
+      const available = team.memberIds.filter(
+        (memberId) =>
+          memberId !== input.userId &&
+          !absentIds.has(memberId) &&
+          isScheduledWorkDay(input.workSchedules.get(memberId) ?? [], day)
+      ).length;
+
+      if (available < team.minCoverage) {
+        conflicts.push({
+          date: day,
+          teamId: team.id,
+          teamName: team.name,
+          minCoverage: team.minCoverage,
+          available,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Check a leave request's range against the coverage of the requester's
+ * teams.
+ */
+export async function getCoverageConflicts(
+  db: CoverageDb,
+  check: CoverageCheck
+): Promise<CoverageConflict[]> {
+  const teamRows = await db
+    .prepare(
+      `SELECT t.id, t.name, COALESCE(t.min_coverage, 0) as min_coverage,
+              GROUP_CONCAT(om.user_id) as member_ids
+       FROM teams t
+       JOIN team_members mine ON mine.team_id = t.id AND mine.user_id = ?
+       JOIN team_members tm ON tm.team_id = t.id
+       JOIN organization_members om
+         ON om.user_id = tm.user_id
+        AND om.organization_id = t.organization_id
+        AND om.status = 'active'
+       WHERE t.organization_id = ?
+       GROUP BY t.id, t.name, t.min_coverage`
+    )
+    .bind(check.userId, check.organizationId)
+    .all<{
+      id: string;
+      name: string;
+      min_coverage: number;
+      member_ids: string | null;
+    }>();
+
+  const teams: CoverageTeam[] = teamRows.results
+    .map((row: { id: string; name: string; min_coverage: number; member_ids: string | null }) => ({
+      id: row.id,
+      name: row.name,
+      minCoverage: row.min_coverage,
+      memberIds: row.member_ids ? row.member_ids.split(',') : [],
+    }))
+    .filter((team: CoverageTeam) => team.minCoverage > 0);
+
+  if (teams.length === 0) {
+    return [];
+  }
+
+  const memberIds = [...new Set(teams.flatMap((team) => team.memberIds))];
+  const placeholders = memberIds.map(() => '?').join(',');
+
+  const [absenceRows, workSchedules] = await Promise.all([
+    db
+      .prepare(
+        `SELECT user_id, start_date, end_date FROM leave_requests
+         WHERE organization_id = ?
+           AND status = 'approved'
+           AND start_date <= ? AND end_date >= ?
+           AND id != ?
+           AND user_id IN (${placeholders})`
+      )
+      .bind(
+        check.organizationId,
+        check.endDate,
+        check.startDate,
+        check.excludeLeaveRequestId ?? '',
+        ...memberIds
+      )
+      .all<{ user_id: string; start_date: string; end_date: string }>(),
+    loadWorkSchedules(db, check.organizationId, memberIds),
+  ]);
+
+  return findCoverageConflicts({
+    userId: check.userId,
+    startDate: check.startDate,
+    endDate: check.endDate,
+    holidays: check.holidays,
+    teams,
+    absences: absenceRows.results.map(
+      (row: { user_id: string; start_date: string; end_date: string }) => ({
+        userId: row.user_id,
+        startDate: row.start_date,
+        endDate: row.end_date,
+      })
+    ),
+    workSchedules,
+  });
+}
@@ -0,0 +1,339 @@
+// CloudflareEnv is defined globally in env.d.ts
+import { addDays, format } from 'date-fns';
+
+import { sendEmailDigestEmail } from '~/lib/emails';
+import type {
+  EmailDigestData,
+  EmailDigestLeaveRequest,
+} from '~/lib/services/email.service';
+import type { NotificationPreferences } from '~/lib/types';
+
+import {
+  joinLeaveTypeTranslation,
+  leaveTypeNameSql,
+} from './leave-type.service';
+import {
+  type LeaveNotificationType,
+  parseNotificationPreferences,
+} from './notification.service';
+import { resolveLocale } from './translation.service';
+
+/**
+ * Email Digests for ZeitPal
+ *
+ * Users on a daily or weekly digest do not get the leave request emails
+ * right away. The in-app notifications that were not emailed yet are the
+ * queue: the digest job sums them up in one email per user and marks them
+ * as emailed.
+ */
+
+export type DigestFrequency = EmailDigestData['frequency'];
+
+// Notifications a digest covers
+const DIGEST_NOTIFICATION_TYPES: LeaveNotificationType[] = [
+  'approval_needed',
+  'leave_approved',
+  'leave_rejected',
+  'team_absence',
+];
+
+const DIGEST_TYPES_SQL = DIGEST_NOTIFICATION_TYPES.map(
+  (type) => `'${type}'`
+).join(', ');
+
+// D1 allows at most 100 bound parameters per statement
+const MAX_BOUND_IDS = 99;
+
+export interface DigestPeriod {
+  /** Only notifications created since then are included */
+  since: string;
+  /** First and last day of the team absences shown */
+  from: string;
+  to: string;
+}
+
+/**
+ * Period a digest sent at `now` covers: the past day or week for the
+ * queued notifications, and today and the coming day or week for the
+ * team absences.
+ */
+export function getDigestPeriod(
+  frequency: DigestFrequency,
+  now: Date
+): DigestPeriod {
+  const days = frequency === 'daily' ? 1 : 7;
+
+  return {
+    since: addDays(now, -days).toISOString(),
+    from: format(now, 'yyyy-MM-dd'),
+    to: format(addDays(now, frequency === 'daily' ? 1 : 6), 'yyyy-MM-dd'),
+  };
+}
+
+export interface DigestNotificationRow {
+  id: string;
+  type: LeaveNotificationType;
+  leave_request_id: string;
+  employee_name: string | null;
+  employee_email: string;
+  leave_type_name: string;
+  start_date: string;
+  end_date: string;
+  work_days: number;
+  /** Current status of the leave request */
+  status: string;
+}
+
+interface DigestTeamAbsenceRow {
+  employee_name: string | null;
+  employee_email: string;
+  leave_type_name: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface DigestTeamAbsence {
+  employeeName: string;
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+}
+
+export type EmailDigestContent = Pick<
+  EmailDigestData,
+  'awaitingApproval' | 'decisions' | 'teamAbsences'
+>;
+
+/**
+ * Get the digest section a queued notification belongs in, or null if
+ * the digest leaves it out. Requests that were handled in the meantime
+ * are no longer awaiting approval, and the recipient's preferences decide
+ * which sections they get. Team absence notifications are covered by the
+ * team absences section.
+ */
+export function getDigestSection(
+  row: DigestNotificationRow,
+  preferences: Required<NotificationPreferences>
+): keyof EmailDigestContent | null {
+  switch (row.type) {
+    case 'approval_needed':
+      return row.status === 'pending' && preferences.emailOnApprovalNeeded
+        ? 'awaitingApproval'
+        : null;
+    case 'leave_approved':
+      return row.status === 'approved' && preferences.emailOnApproval
+        ? 'decisions'
+        : null;
+    case 'leave_rejected':
+      return row.status === 'rejected' && preferences.emailOnRejection
+        ? 'decisions'
+        : null;
+    case 'team_absence':
+      return preferences.emailOnTeamAbsence ? 'teamAbsences' : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Sort queued notifications into the digest's sections.
+ */
+export function buildEmailDigest(
+  notifications: DigestNotificationRow[],
+  teamAbsences: DigestTeamAbsence[],
+  preferences: Required<NotificationPreferences>
+): EmailDigestContent {
+  const awaitingApproval = new Map<string, EmailDigestLeaveRequest>();
+  const decisions = new Map<string, EmailDigestLeaveRequest>();
+
+  for (const row of notifications) {
+    const request: EmailDigestLeaveRequest = {
+      id: row.leave_request_id,
+      employeeName: row.employee_name || row.employee_email,
+      leaveType: row.leave_type_name,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      workDays: row.work_days,
+      status: row.status,
+    };
+
+    const section = getDigestSection(row, preferences);
+
+    if (section === 'awaitingApproval') {
+      awaitingApproval.set(request.id, request);
+    }
+
+    if (section === 'decisions') {
+      decisions.set(request.id, request);
+    }
+  }
+
+  return {
+    awaitingApproval: [...awaitingApproval.values()],
+    decisions: [...decisions.values()],
+    teamAbsences: preferences.emailOnTeamAbsence ? teamAbsences : [],
+  };
+}
+
+export function isEmailDigestEmpty(content: EmailDigestContent): boolean {
+  return (
+    content.awaitingApproval.length === 0 &&
+    content.decisions.length === 0 &&
+    content.teamAbsences.length === 0
+  );
+}
+
+/**
+ * Mark queued notifications as emailed.
+ */
+async function markNotificationsEmailed(
+  db: CloudflareEnv['DB'],
+  notificationIds: string[],
+  sentAt: string
+): Promise<void> {
+  if (notificationIds.length === 0) {
+    return;
+  }
+
+  const statements = [];
+
+  for (let i = 0; i < notificationIds.length; i += MAX_BOUND_IDS) {
+    const ids = notificationIds.slice(i, i + MAX_BOUND_IDS);
+
+    statements.push(
+      db
+        .prepare(
+          `UPDATE notifications SET email_sent = 1, email_sent_at = ?
+           WHERE id IN (${ids.map(() => '?').join(', ')})`
+        )
+        .bind(sentAt, ...ids)
+    );
+  }
+
+  await db.batch(statements);
+}
+
+/**
+ * Send a user their digest and mark the notifications it covers as
+ * emailed once it went out. If sending fails they stay queued for the
+ * next digest. Returns false if the user is not on this digest or there is
+ * nothing to tell them.
+ */
+export async function sendEmailDigest(
+  env: CloudflareEnv,
+  userId: string,
+  frequency: DigestFrequency,
+  now: Date = new Date()
+): Promise<boolean> {
+  const db = env.DB;
+
+  const user = await db
+    .prepare(
+      'SELECT id, name, email, locale, notification_preferences FROM users WHERE id = ?'
+    )
+    .bind(userId)
+    .first<{
+      id: string;
+      name: string | null;
+      email: string;
+      locale: string | null;
+      notification_preferences: string | null;
+    }>();
+
+  if (!user) {
+    return false;
+  }
+
+  const preferences = parseNotificationPreferences(
+    user.notification_preferences
+  );
+
+  if (preferences.emailDigestFrequency !== frequency) {
+    return false;
+  }
+
+  const period = getDigestPeriod(frequency, now);
+  const until = now.toISOString();
+  // Leave types are named in the recipient's locale, not the employee's
+  const locale = resolveLocale(user.locale);
+
+  const notifications = await db
+    .prepare(
+      `SELECT n.id, n.type, lr.id as leave_request_id,
+              u.name as employee_name, u.email as employee_email,
+              ${leaveTypeNameSql('?')} as leave_type_name,
+              lr.start_date, lr.end_date, lr.work_days, lr.status
+       FROM notifications n
+       JOIN leave_requests lr ON n.entity_type = 'leave_request' AND n.entity_id = lr.id
+       JOIN users u ON lr.user_id = u.id
+       JOIN leave_types lt ON lr.leave_type_id = lt.id
+       ${joinLeaveTypeTranslation('?')}
+       WHERE n.user_id = ?
+         AND n.email_sent = 0
+         AND n.created_at >= ? AND n.created_at <= ?
+         AND n.type IN (${DIGEST_TYPES_SQL})
+       ORDER BY n.created_at`
+    )
+    .bind(locale, locale, user.id, period.since, until)
+    .all<DigestNotificationRow>();
+
+  const teamAbsences = await db
+    .prepare(
+      `SELECT u.name as employee_name, u.email as employee_email,
+              ${leaveTypeNameSql('?')} as leave_type_name,
+              lr.start_date, lr.end_date
+       FROM leave_requests lr
+       JOIN users u ON lr.user_id = u.id
+       JOIN leave_types lt ON lr.leave_type_id = lt.id
+       ${joinLeaveTypeTranslation('?')}
+       WHERE lr.status = 'approved'
+         AND lr.user_id != ?
+         AND lr.start_date <= ? AND lr.end_date >= ?
+         AND lr.user_id IN (
+           SELECT tm.user_id FROM team_members tm
+           WHERE tm.team_id IN (SELECT team_id FROM team_members WHERE user_id = ?)
+         )
+       ORDER BY lr.start_date, u.name`
+    )
+    .bind(locale, locale, user.id, period.to, period.from, user.id)
+    .all<DigestTeamAbsenceRow>();
+
+  const content = buildEmailDigest(
+    notifications.results,
+    teamAbsences.results.map((row: DigestTeamAbsenceRow) => ({
+      employeeName: row.employee_name || row.employee_email,
+      leaveType: row.leave_type_name,
+      startDate: row.start_date,
+      endDate: row.end_date,
+    })),
+    preferences
+  );
+
+  const includedIds: string[] = [];
+  const skippedIds: string[] = [];
+
+  for (const row of notifications.results) {
+    (getDigestSection(row, preferences) ? includedIds : skippedIds).push(
+      row.id
+    );
+  }
+
+  if (isEmailDigestEmpty(content)) {
+    await markNotificationsEmailed(db, [...includedIds, ...skippedIds], until);
+    return false;
+  }
+
+  // Notifications the digest leaves out are done with all the same
+  await markNotificationsEmailed(db, skippedIds, until);
+
+  await sendEmailDigestEmail(env, {
+    recipientName: user.name || user.email,
+    recipientEmail: user.email,
+    frequency,
+    ...content,
+  });
+
+  await markNotificationsEmailed(db, includedIds, until);
+
+  return true;
+}
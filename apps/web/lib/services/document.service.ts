@@ -0,0 +1,373 @@
+// CloudflareEnv is defined globally in env.d.ts
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+import { sendDocumentReminderEmail } from '~/lib/emails';
+import {
+  loadApprovalContext,
+  resolveApprovalChain,
+} from '~/lib/services/approval.service';
+import { getSiteUrl } from '~/lib/services/email.service';
+import {
+  joinLeaveTypeTranslation,
+  leaveTypeNameSql,
+} from '~/lib/services/leave-type.service';
+import {
+  getNotificationTranslator,
+  prepareNotification,
+} from '~/lib/services/notification.service';
+import { getLocalizedNames } from '~/lib/services/translation.service';
+import type { DocumentStatus, MemberRole } from '~/lib/types';
+import { requiresMedicalCertificate } from '~/lib/utils/leave-calculations';
+
+/**
+ * Leave Document Storage for ZeitPal
+ *
+ * Stores supporting documents for leave requests (e.g. sick notes / AU)
+ * in the R2 bucket. `leave_requests.document_url` holds the object key;
+ * clients only ever see the access-checked download route.
+ */
+
+type DocumentDb = CloudflareEnv['DB'];
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10 MB
+
+export const ALLOWED_DOCUMENT_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+] as const;
+
+export type DocumentContentType = (typeof ALLOWED_DOCUMENT_TYPES)[number];
+
+// Roles that may access and manage documents of any member
+const DOCUMENT_MANAGER_ROLES: MemberRole[] = ['hr'];
+
+export interface DocumentRequirementPolicy {
+  leaveTypeCode: string;
+  requiresDocument: boolean;
+  documentRequiredAfterDays: number | null;
+  /** organizations.sick_leave_au_threshold, applies to sick leave */
+  sickLeaveAuThreshold: number | null;
+}
+
+export interface DocumentRequirement {
+  required: boolean;
+  dueDate: string | null;
+}
+
+export interface LeaveDocumentSubject {
+  id: string;
+  organizationId: string;
+  userId: string;
+  leaveTypeId: string;
+  leaveTypeCode: string;
+  workDays: number;
+  /** leave_requests.approval_chain */
+  approvalChain?: string | null;
+}
+
+export interface LeaveDocumentInfo {
+  fileName: string;
+  uploadedAt: string | null;
+  url: string;
+}
+
+/**
+ * Determine whether a leave request needs a supporting document.
+ *
+ * A document is required once the absence lasts longer than the threshold
+ * (in calendar days, like the AU rule of the EFZG) and is due on the day
+ * after the threshold. For sick leave the organization's AU threshold
+ * takes precedence over the leave type's default.
+ */
+export function getDocumentRequirement(
+  policy: DocumentRequirementPolicy,
+  startDate: string,
+  endDate: string
+): DocumentRequirement {
+  if (!policy.requiresDocument) {
+    return { required: false, dueDate: null };
+  }
+
+  const threshold =
+    policy.leaveTypeCode === 'sick'
+      ? (policy.sickLeaveAuThreshold ?? policy.documentRequiredAfterDays ?? 0)
+      : (policy.documentRequiredAfterDays ?? 0);
+  const calendarDays =
+    differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1;
+
+  if (!requiresMedicalCertificate(calendarDays, threshold)) {
+    return { required: false, dueDate: null };
+  }
+
+  return {
+    required: true,
+    dueDate: format(addDays(parseISO(startDate), threshold), 'yyyy-MM-dd'),
+  };
+}
+
+/**
+ * Get the document status of a leave request: not_required, provided,
+ * missing (needed but not due yet) or overdue.
+ *
+ * @param today - Current date in YYYY-MM-DD format
+ */
+export function getDocumentStatus(
+  documentRequired: boolean,
+  documentDueDate: string | null,
+  documentKey: string | null,
+  today: string = new Date().toISOString().split('T')[0]!
+): DocumentStatus {
+  if (documentKey) {
+    return 'provided';
+  }
+
+  if (!documentRequired) {
+    return 'not_required';
+  }
+
+  return documentDueDate && documentDueDate < today ? 'overdue' : 'missing';
+}
+
+/**
+ * Check a file's leading bytes against the signature of its declared type,
+ * so a renamed executable can't be stored as a "PDF".
+ */
+export function matchesFileSignature(
+  contentType: DocumentContentType,
+  bytes: Uint8Array
+): boolean {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+
+  switch (contentType) {
+    case 'application/pdf':
+      return startsWith([0x25, 0x50, 0x44, 0x46]); // %PDF
+    case 'image/jpeg':
+      return startsWith([0xff, 0xd8, 0xff]);
+    case 'image/png':
+      return startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    case 'image/webp':
+      // RIFF....WEBP
+      return (
+        startsWith([0x52, 0x49, 0x46, 0x46]) &&
+        startsWith([0x57, 0x45, 0x42, 0x50], 8)
+      );
+    default:
+      return false;
+  }
+}
+
+export function isAllowedDocumentType(
+  contentType: string
+): contentType is DocumentContentType {
+  return (ALLOWED_DOCUMENT_TYPES as readonly string[]).includes(contentType);
+}
+
+/**
+ * Strip path separators and unusual characters from an uploaded file name.
+ */
+export function sanitizeFileName(fileName: string): string {
+  const baseName = fileName.split(/[\\/]/).pop() ?? '';
+  const sanitized = baseName
+    .replace(/[^\w.\- ]+/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(-100);
+
+  return sanitized || 'document';
+}
+
+/**
+ * Build the R2 object key for a leave request document.
+ * The key ends in the file name so it can be shown without an R2 lookup.
+ */
+export function getDocumentKey(
+  organizationId: string,
+  leaveRequestId: string,
+  fileName: string
+): string {
+  return `leave-documents/${organizationId}/${leaveRequestId}/${crypto.randomUUID()}/${sanitizeFileName(fileName)}`;
+}
+
+/**
+ * Get the display info for a stored document, or null if there is none.
+ */
+export function getDocumentInfo(
+  leaveRequestId: string,
+  documentKey: string | null,
+  uploadedAt: string | null
+): LeaveDocumentInfo | null {
+  if (!documentKey) {
+    return null;
+  }
+
+  return {
+    fileName: documentKey.split('/').pop() ?? 'document',
+    uploadedAt,
+    url: `/api/leave-requests/${leaveRequestId}/document`,
+  };
+}
+
+/**
+ * Check whether a user may upload or remove the document of a request:
+ * the employee themselves and HR.
+ */
+export function canManageLeaveDocument(
+  subject: LeaveDocumentSubject,
+  userId: string,
+  role: MemberRole
+): boolean {
+  return subject.userId === userId || DOCUMENT_MANAGER_ROLES.includes(role);
+}
+
+/**
+ * Check whether a user may download the document of a request: the
+ * employee, HR, anyone in the request's approval chain and anyone who
+ * has already decided on it.
+ */
+export async function canAccessLeaveDocument(
+  db: DocumentDb,
+  subject: LeaveDocumentSubject,
+  userId: string,
+  role: MemberRole
+): Promise<boolean> {
+  if (canManageLeaveDocument(subject, userId, role)) {
+    return true;
+  }
+
+  const approvalContext = await loadApprovalContext(db, subject.organizationId);
+  const chain = resolveApprovalChain(approvalContext, {
+    userId: subject.userId,
+    leaveTypeId: subject.leaveTypeId,
+    leaveTypeCode: subject.leaveTypeCode,
+    workDays: subject.workDays,
+    approvalChain: subject.approvalChain,
+  });
+
+  if (chain.some((step) => step.approverIds.includes(userId))) {
+    return true;
+  }
+
+  const decision = await db
+    .prepare(
+      `SELECT id FROM leave_approvals
+       WHERE leave_request_id = ? AND approver_id = ?
+       LIMIT 1`
+    )
+    .bind(subject.id, userId)
+    .first();
+
+  return decision !== null;
+}
+
+/**
+ * Remind an employee to provide the missing document of a leave request.
+ * Sends the reminder email, then records an in-app notification and
+ * stamps document_reminder_sent_at, so a failed send is retried. Returns
+ * false if no document is outstanding.
+ */
+export async function sendDocumentReminder(
+  env: CloudflareEnv,
+  leaveRequestId: string
+): Promise<boolean> {
+  const db = env.DB;
+
+  const leaveRequest = await db
+    .prepare(
+      `SELECT lr.id, lr.organization_id, lr.user_id, lr.start_date, lr.end_date,
+              lr.document_required, lr.document_due_date, lr.document_url,
+              lr.leave_type_id, lt.name_en as leave_type_name_en,
+              lt.name_de as leave_type_name_de,
+              u.name as user_name, u.email as user_email,
+              ${leaveTypeNameSql('u.locale')} as leave_type_name
+       FROM leave_requests lr
+       JOIN users u ON lr.user_id = u.id
+       JOIN leave_types lt ON lr.leave_type_id = lt.id
+       ${joinLeaveTypeTranslation('u.locale')}
+       WHERE lr.id = ? AND lr.status IN ('pending', 'approved')`
+    )
+    .bind(leaveRequestId)
+    .first<{
+      id: string;
+      organization_id: string;
+      user_id: string;
+      start_date: string;
+      end_date: string;
+      document_required: number;
+      document_due_date: string | null;
+      document_url: string | null;
+      leave_type_id: string;
+      leave_type_name_en: string;
+      leave_type_name_de: string;
+      user_name: string | null;
+      user_email: string;
+      leave_type_name: string;
+    }>();
+
+  if (!leaveRequest) {
+    return false;
+  }
+
+  const status = getDocumentStatus(
+    Boolean(leaveRequest.document_required),
+    leaveRequest.document_due_date,
+    leaveRequest.document_url
+  );
+
+  if (status !== 'missing' && status !== 'overdue') {
+    return false;
+  }
+
+  const dueDate = leaveRequest.document_due_date ?? leaveRequest.start_date;
+
+  await sendDocumentReminderEmail(env, {
+    employeeName: leaveRequest.user_name || leaveRequest.user_email,
+    employeeEmail: leaveRequest.user_email,
+    leaveType: leaveRequest.leave_type_name,
+    startDate: leaveRequest.start_date,
+    endDate: leaveRequest.end_date,
+    dueDate,
+    isOverdue: status === 'overdue',
+    requestUrl: `${getSiteUrl()}/home/leave/${leaveRequest.id}`,
+  });
+
+  const leaveTypeNames = await getLocalizedNames(
+    db,
+    'leave_type',
+    leaveRequest.leave_type_id,
+    leaveRequest.leave_type_name_en,
+    leaveRequest.leave_type_name_de
+  );
+  const t = await getNotificationTranslator('en');
+  const now = new Date().toISOString();
+
+  await db.batch([
+    prepareNotification(
+      db,
+      {
+        userId: leaveRequest.user_id,
+        organizationId: leaveRequest.organization_id,
+        type: 'document_required',
+        params: {
+          leaveType: leaveTypeNames,
+          startDate: leaveRequest.start_date,
+          endDate: leaveRequest.end_date,
+          date: dueDate,
+        },
+        entityType: 'leave_request',
+        entityId: leaveRequest.id,
+      },
+      t,
+      now
+    ),
+    db
+      .prepare(
+        `UPDATE leave_requests SET document_reminder_sent_at = ? WHERE id = ?`
+      )
+      .bind(now, leaveRequest.id),
+  ]);
+
+  return true;
+}
@@ -0,0 +1,216 @@
+/**
+ * Email Transports for ZeitPal
+ *
+ * Rendered emails leave through a transport, chosen with EMAIL_TRANSPORT:
+ * - `mailgun` (default): the Mailgun HTTP API
+ * - `http`: a generic HTTP email API that takes Postmark-style JSON, for
+ *   self-hosting without Mailgun
+ * - `outbox`: keeps messages in memory and, with EMAIL_OUTBOX_DIR, writes
+ *   them to local files, for development and e2e tests
+ *
+ * The Mailgun and HTTP transports use native fetch for edge runtime
+ * compatibility.
+ */
+
+export type EmailTransportName = 'mailgun' | 'http' | 'outbox';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Environment variables the transports read. Both the Cloudflare env and
+ * process.env fit.
+ */
+export interface EmailTransportEnv {
+  EMAIL_TRANSPORT?: string;
+  MAILGUN_API_KEY?: string;
+  MAILGUN_DOMAIN?: string;
+  /** Endpoint of the HTTP email API, e.g. https://api.postmarkapp.com/email */
+  EMAIL_HTTP_URL?: string;
+  /** Header the HTTP email API authenticates with, Authorization by default */
+  EMAIL_HTTP_AUTH_HEADER?: string;
+  /** Value of that header, e.g. `Bearer <token>` or a Postmark server token */
+  EMAIL_HTTP_AUTH_TOKEN?: string;
+  /** Directory the outbox also writes messages to, one JSON file each */
+  EMAIL_OUTBOX_DIR?: string;
+}
+
+export interface OutboxMessage extends EmailMessage {
+  id: string;
+  sentAt: string;
+}
+
+const outbox: OutboxMessage[] = [];
+
+/**
+ * Get the messages the outbox transport sent from this process, oldest
+ * first, optionally only those to one recipient.
+ */
+export function getOutbox(to?: string): OutboxMessage[] {
+  return to
+    ? outbox.filter((message) => message.to.toLowerCase() === to.toLowerCase())
+    : [...outbox];
+}
+
+export function clearOutbox(): void {
+  outbox.length = 0;
+}
+
+export function createMailgunTransport(options: {
+  apiKey: string;
+  domain: string;
+}): EmailTransport {
+  return {
+    name: 'mailgun',
+    async send(message) {
+      const formData = new FormData();
+      formData.append('from', message.from);
+      formData.append('to', message.to);
+      formData.append('subject', message.subject);
+      formData.append('text', message.text);
+      formData.append('html', message.html);
+
+      const response = await fetch(
+        `https://api.eu.mailgun.net/v3/${options.domain}/messages`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${btoa(`api:${options.apiKey}`)}`,
+          },
+          body: formData,
+        }
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('Mailgun API error:', response.status, errorText);
+        throw new Error(`Mailgun API error: ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Transport for HTTP email APIs that take a JSON message with From, To,
+ * Subject, HtmlBody and TextBody, as Postmark does, or a relay in front of
+ * SES or an SMTP server that takes the same.
+ */
+export function createHttpTransport(options: {
+  url: string;
+  authHeader?: string;
+  authToken?: string;
+}): EmailTransport {
+  return {
+    name: 'http',
+    async send(message) {
+      const headers: Record<string, string> = {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+      };
+
+      if (options.authToken) {
+        headers[options.authHeader || 'Authorization'] = options.authToken;
+      }
+
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          From: message.from,
+          To: message.to,
+          Subject: message.subject,
+          HtmlBody: message.html,
+          TextBody: message.text,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('Email API error:', response.status, errorText);
+        throw new Error(`Email API error: ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Transport that sends nothing. Messages go to the in-memory outbox and
+ * the log, and to a JSON file per message if a directory is given, which
+ * needs a Node.js runtime.
+ */
+export function createOutboxTransport(options: {
+  dir?: string;
+}): EmailTransport {
+  return {
+    name: 'outbox',
+    async send(message) {
+      const sentAt = new Date().toISOString();
+      const outboxMessage: OutboxMessage = {
+        ...message,
+        id: crypto.randomUUID(),
+        sentAt,
+      };
+
+      outbox.push(outboxMessage);
+      console.info(`Outbox: "${message.subject}" to ${message.to}`);
+
+      if (options.dir) {
+        const { mkdir, writeFile } = await import('node:fs/promises');
+        const { join } = await import('node:path');
+
+        await mkdir(options.dir, { recursive: true });
+        await writeFile(
+          join(
+            options.dir,
+            `${sentAt.replace(/[:.]/g, '-')}-${outboxMessage.id}.json`
+          ),
+          JSON.stringify(outboxMessage, null, 2)
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Get the transport EMAIL_TRANSPORT names, or null if it lacks the
+ * settings it needs.
+ */
+export function getEmailTransport(
+  env: EmailTransportEnv
+): EmailTransport | null {
+  switch (env.EMAIL_TRANSPORT ?? 'mailgun') {
+    case 'mailgun':
+      return env.MAILGUN_API_KEY
+        ? createMailgunTransport({
+            apiKey: env.MAILGUN_API_KEY,
+            domain: env.MAILGUN_DOMAIN ?? 'mg.zeitpal.com',
+          })
+        : null;
+
+    case 'http':
+      return env.EMAIL_HTTP_URL
+        ? createHttpTransport({
+            url: env.EMAIL_HTTP_URL,
+            authHeader: env.EMAIL_HTTP_AUTH_HEADER,
+            authToken: env.EMAIL_HTTP_AUTH_TOKEN,
+          })
+        : null;
+
+    case 'outbox':
+      return createOutboxTransport({ dir: env.EMAIL_OUTBOX_DIR });
+
+    default:
+      console.error(`Unknown email transport: ${env.EMAIL_TRANSPORT}`);
+      return null;
+  }
+}
@@ -1,26 +1,58 @@
 // CloudflareEnv is defined globally in env.d.ts
+import { initializeServerI18n } from '@kit/i18n/server';
+
+import { i18nResolver } from '~/lib/i18n/i18n.resolver';
+import { getI18nSettings } from '~/lib/i18n/i18n.settings';
+import type { Locale } from '~/lib/i18n/locales.config';
+import { getEmailTransport } from '~/lib/services/email-transport.service';
+import {
+  type EmailPreference,
+  getEmailSkipReason,
+  parseNotificationPreferences,
+} from '~/lib/services/notification.service';
+import {
+  type LocalizedNames,
+  resolveLocale,
+} from '~/lib/services/translation.service';
 
 /**
  * Email Service for ZeitPal
  *
- * Handles all transactional email sending via Mailgun.
- * Uses native fetch API for edge runtime compatibility.
- * Supports English and German locales.
+ * Handles all transactional email sending through the configured
+ * transport (see email-transport.service), Mailgun by default.
+ * Emails are rendered in the recipient's locale, with strings from the
+ * `emails` namespace in public/locales. Emails that users can turn off
+ * name their preference and are skipped for users who turned them off.
  */
 
-export type Locale = 'en' | 'de';
+export type { Locale };
+
+/** Translate a key of the `emails` namespace, or `ns:key` of another */
+export type EmailTranslator = (
+  key: string,
+  values?: Record<string, string | number>
+) => string;
+
+const DATE_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  de: 'de-DE',
+  es: 'es-ES',
+};
 
 export interface EmailOptions {
   to: string;
   subject: string;
   html: string;
   text: string;
+  /** The recipient's preference that turns this email on or off */
+  preference?: EmailPreference;
 }
 
 export interface LeaveRequestEmailData {
   employeeName: string;
   employeeEmail: string;
-  leaveType: string;
+  /** Named in every locale, as approvers may each use another one */
+  leaveType: LocalizedNames;
   startDate: string;
   endDate: string;
   workDays: number;
@@ -39,6 +71,8 @@ export interface InviteEmailData {
   role: string;
   inviteUrl: string;
   expiresAt: string;
+  /** Locale for invitees without an account, usually the inviter's */
+  locale?: Locale;
 }
 
 export interface LeaveReminderEmailData {
@@ -46,79 +80,181 @@ export interface LeaveReminderEmailData {
   employeeEmail: string;
   remainingDays: number;
   expiryDate: string;
+  /** Named in the employee's locale */
   leaveType: string;
 }
 
+export interface DocumentReminderEmailData {
+  employeeName: string;
+  employeeEmail: string;
+  /** Named in the employee's locale */
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+  dueDate: string;
+  isOverdue: boolean;
+  requestUrl: string;
+}
+
 export interface TeamAbsenceEmailData {
   recipientName: string;
   recipientEmail: string;
   employeeName: string;
-  leaveType: string;
+  /** Named in every locale, as team members may each use another one */
+  leaveType: LocalizedNames;
   startDate: string;
   endDate: string;
   teamName: string;
 }
 
+export interface EmailDigestLeaveRequest {
+  id: string;
+  employeeName: string;
+  /** Named in the recipient's locale */
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+  workDays: number;
+  status: string;
+}
+
+export interface EmailDigestData {
+  recipientName: string;
+  recipientEmail: string;
+  frequency: 'daily' | 'weekly';
+  /** Requests still waiting for the recipient's approval */
+  awaitingApproval: EmailDigestLeaveRequest[];
+  /** Approvals and rejections of the recipient's own requests */
+  decisions: EmailDigestLeaveRequest[];
+  /** Team members who are out in the coming day or week */
+  teamAbsences: Array<{
+    employeeName: string;
+    leaveType: string;
+    startDate: string;
+    endDate: string;
+  }>;
+}
+
 /**
- * Get Mailgun configuration from environment
+ * Get the sender address from environment
  */
-function getMailgunConfig(env: CloudflareEnv) {
-  return {
-    apiKey: env.MAILGUN_API_KEY ?? '',
-    domain: env.MAILGUN_DOMAIN ?? 'mg.zeitpal.com',
-    from: env.AUTH_EMAIL_FROM ?? 'ZeitPal <hello@mg.zeitpal.com>',
-  };
+function getEmailFrom(env: CloudflareEnv): string {
+  return env.AUTH_EMAIL_FROM ?? 'ZeitPal <hello@mg.zeitpal.com>';
+}
+
+/**
+ * Check the recipient's notification preferences. Recipients without an
+ * account, such as invitees, always get the email.
+ */
+async function getRecipientSkipReason(
+  env: CloudflareEnv,
+  email: string,
+  preference: EmailPreference
+): Promise<string | null> {
+  const recipient = await env.DB.prepare(
+    'SELECT notification_preferences FROM users WHERE email = ? COLLATE NOCASE'
+  )
+    .bind(email)
+    .first<{ notification_preferences: string | null }>();
+
+  if (!recipient) {
+    return null;
+  }
+
+  return getEmailSkipReason(
+    parseNotificationPreferences(recipient.notification_preferences),
+    preference
+  );
+}
+
+/**
+ * Get the locale to write to a recipient in: their own if they have an
+ * account, else the fallback or the site's default locale.
+ */
+export async function getRecipientLocale(
+  env: CloudflareEnv,
+  email: string,
+  fallback?: Locale
+): Promise<Locale> {
+  const recipient = await env.DB.prepare(
+    'SELECT locale FROM users WHERE email = ? COLLATE NOCASE'
+  )
+    .bind(email)
+    .first<{ locale: string | null }>();
+
+  return recipient ? resolveLocale(recipient.locale) : fallback ?? getLocale();
 }
 
 /**
- * Send an email via Mailgun using native fetch (edge-compatible)
+ * Get a translator for emails in a locale. Values are not escaped, as
+ * the same strings render the plain text version.
+ */
+export async function getEmailTranslator(
+  locale: Locale
+): Promise<EmailTranslator> {
+  const i18n = await initializeServerI18n(
+    {
+      ...getI18nSettings(locale, ['emails', 'leave']),
+      interpolation: { escapeValue: false },
+    },
+    i18nResolver
+  );
+  const t = i18n.getFixedT(locale, 'emails');
+
+  return (key, values) => t(key, values);
+}
+
+/**
+ * Send an email through the configured transport.
+ * Resolves to false if the recipient's preferences skipped it.
  */
 export async function sendEmail(
   env: CloudflareEnv,
   options: EmailOptions
-): Promise<void> {
-  const config = getMailgunConfig(env);
+): Promise<boolean> {
+  if (options.preference) {
+    const skipReason = await getRecipientSkipReason(
+      env,
+      options.to,
+      options.preference
+    );
 
-  if (!config.apiKey) {
-    console.error('Mailgun API key not configured');
-    throw new Error('Email service not configured');
+    if (skipReason) {
+      console.info(
+        `Skipped email "${options.subject}" to ${options.to}: ${skipReason}`
+      );
+      return false;
+    }
   }
 
-  const url = `https://api.eu.mailgun.net/v3/${config.domain}/messages`;
+  const transport = getEmailTransport(env);
 
-  const formData = new FormData();
-  formData.append('from', config.from);
-  formData.append('to', options.to);
-  formData.append('subject', options.subject);
-  formData.append('text', options.text);
-  formData.append('html', options.html);
+  if (!transport) {
+    console.error('Email transport not configured');
+    throw new Error('Email service not configured');
+  }
 
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        Authorization: `Basic ${btoa(`api:${config.apiKey}`)}`,
-      },
-      body: formData,
+    await transport.send({
+      from: getEmailFrom(env),
+      to: options.to,
+      subject: options.subject,
+      html: options.html,
+      text: options.text,
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Mailgun API error:', response.status, errorText);
-      throw new Error(`Mailgun API error: ${response.status}`);
-    }
   } catch (error) {
     console.error('Failed to send email:', error);
     throw new Error('Failed to send email');
   }
+
+  return true;
 }
 
 /**
- * Get current locale from environment
+ * Get the site's default locale from environment
  */
 export function getLocale(): Locale {
-  const defaultLocale = process.env.NEXT_PUBLIC_DEFAULT_LOCALE ?? 'en';
-  return defaultLocale === 'de' ? 'de' : 'en';
+  return resolveLocale(process.env.NEXT_PUBLIC_DEFAULT_LOCALE);
 }
 
 /**
@@ -132,7 +268,7 @@ export function formatDate(dateString: string, locale: Locale): string {
     month: 'long',
     day: 'numeric',
   };
-  return date.toLocaleDateString(locale === 'de' ? 'de-DE' : 'en-US', options);
+  return date.toLocaleDateString(DATE_LOCALES[locale], options);
 }
 
 /**
@@ -154,7 +290,8 @@ export function getSiteName(): string {
  */
 export function wrapEmailHtml(
   content: string,
-  locale: Locale = 'en'
+  locale: Locale,
+  t: EmailTranslator
 ): string {
   const siteName = getSiteName();
 
@@ -175,7 +312,7 @@ export function wrapEmailHtml(
   </div>
 
   <div style="text-align: center; padding: 20px; color: #9ca3af; font-size: 12px;">
-    <p style="margin: 0;">&copy; ${new Date().getFullYear()} ${siteName}. ${locale === 'de' ? 'Alle Rechte vorbehalten.' : 'All rights reserved.'}</p>
+    <p style="margin: 0;">&copy; ${new Date().getFullYear()} ${siteName}. ${t('rightsReserved')}</p>
     <p style="margin: 5px 0 0 0;">
       <a href="${getSiteUrl()}" style="color: #6b7280; text-decoration: none;">${getSiteUrl()}</a>
     </p>
@@ -0,0 +1,162 @@
+// CloudflareEnv is defined globally in env.d.ts
+import { DEFAULT_LOCALE, type Locale } from '~/lib/i18n/locales.config';
+import type { HolidayType } from '~/lib/types';
+import { resolveHolidayRule } from '~/lib/utils/holiday-rules';
+
+import { joinTranslation, localize } from './translation.service';
+
+/**
+ * Holiday Engine for ZeitPal
+ *
+ * Expands the recurring system holidays in public_holidays into concrete
+ * dates for any year, and merges them with one-off holidays such as
+ * company holidays. For recurring rows, `date` is the day the rule takes
+ * effect and `recurrence_rule` describes when it falls each year.
+ */
+
+type HolidayDb = CloudflareEnv['DB'];
+
+export interface ResolvedHoliday {
+  id: string;
+  organizationId: string | null;
+  date: string;
+  /** Name in the query's locale */
+  name: string;
+  nameEn: string;
+  nameDe: string;
+  region: string | null;
+  type: HolidayType;
+  isHalfDay: boolean;
+  isRecurring: boolean;
+}
+
+export interface HolidayQuery {
+  country: string;
+  /**
+   * Region code. Holidays of other regions are excluded; null returns
+   * nationwide holidays only and undefined returns every region.
+   */
+  region?: string | null;
+  /** Include this organization's company holidays */
+  organizationId?: string | null;
+  startDate: string;
+  endDate: string;
+  /** Locale the holiday names are resolved to, English by default */
+  locale?: Locale;
+}
+
+interface HolidayRow {
+  id: string;
+  organization_id: string | null;
+  date: string;
+  name_en: string;
+  name_de: string;
+  bundesland: string | null;
+  type: string;
+  is_half_day: number;
+  is_recurring: number;
+  recurrence_rule: string | null;
+  translated_name?: string | null;
+}
+
+function toResolvedHoliday(
+  row: HolidayRow,
+  date: string,
+  id: string,
+  locale: Locale
+): ResolvedHoliday {
+  return {
+    id,
+    organizationId: row.organization_id,
+    date,
+    name: localize(row.name_en, row.name_de, locale, row.translated_name),
+    nameEn: row.name_en,
+    nameDe: row.name_de,
+    region: row.bundesland,
+    type: row.type as HolidayType,
+    isHalfDay: Boolean(row.is_half_day),
+    isRecurring: Boolean(row.is_recurring),
+  };
+}
+
+/**
+ * Expand a holiday row into its occurrences within a date range.
+ * Recurring rows get a per-year id so they stay unique in lists.
+ */
+export function expandHoliday(
+  row: HolidayRow,
+  startDate: string,
+  endDate: string,
+  locale: Locale = DEFAULT_LOCALE
+): ResolvedHoliday[] {
+  if (!row.is_recurring || !row.recurrence_rule) {
+    return row.date >= startDate && row.date <= endDate
+      ? [toResolvedHoliday(row, row.date, row.id, locale)]
+      : [];
+  }
+
+  const holidays: ResolvedHoliday[] = [];
+  const firstYear = Number(startDate.slice(0, 4));
+  const lastYear = Number(endDate.slice(0, 4));
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    const date = resolveHolidayRule(row.recurrence_rule, year);
+
+    if (date && date >= row.date && date >= startDate && date <= endDate) {
+      holidays.push(toResolvedHoliday(row, date, `${row.id}_${year}`, locale));
+    }
+  }
+
+  return holidays;
+}
+
+/**
+ * Get all holidays that apply within a date range, sorted by date.
+ */
+export async function getHolidays(
+  db: HolidayDb,
+  query: HolidayQuery
+): Promise<ResolvedHoliday[]> {
+  const {
+    country,
+    region,
+    organizationId,
+    startDate,
+    endDate,
+    locale = DEFAULT_LOCALE,
+  } = query;
+
+  let sql = `SELECT ph.*, t.name as translated_name FROM public_holidays ph
+    ${joinTranslation('holiday', 't', 'ph.id', '?')}
+    WHERE ((is_recurring = 1 AND recurrence_rule IS NOT NULL AND date <= ?)
+      OR ((is_recurring = 0 OR recurrence_rule IS NULL) AND date BETWEEN ? AND ?))`;
+  const params: (string | null)[] = [locale, endDate, startDate, endDate];
+
+  if (organizationId) {
+    // System holidays for the country + the organization's own holidays
+    sql += ' AND ((organization_id IS NULL AND country = ?) OR organization_id = ?)';
+    params.push(country, organizationId);
+  } else {
+    sql += ' AND organization_id IS NULL AND country = ?';
+    params.push(country);
+  }
+
+  if (region !== undefined) {
+    // Nationwide holidays plus those specific to the region
+    sql += ' AND (bundesland IS NULL OR bundesland = ?)';
+    params.push(region);
+  }
+
+  const result = await db
+    .prepare(sql)
+    .bind(...params)
+    .all<HolidayRow>();
+
+  return result.results
+    .flatMap((row: HolidayRow) =>
+      expandHoliday(row, startDate, endDate, locale)
+    )
+    .sort((a: ResolvedHoliday, b: ResolvedHoliday) =>
+      a.date.localeCompare(b.date)
+    );
+}
@@ -0,0 +1,256 @@
+// CloudflareEnv is defined globally in env.d.ts
+import { JOBS, type JobDefinition } from '~/lib/jobs';
+import type { JobRun, JobRunStatus, JobRunTrigger } from '~/lib/types';
+import { getPeriodKey, isJobDue } from '~/lib/utils/job-schedule';
+
+/**
+ * Scheduled Job Runner for ZeitPal
+ *
+ * Runs registered jobs and records each run in `job_runs`. A job runs at
+ * most once per period: the (job_name, period_key) row is claimed before
+ * the job starts, so overlapping cron ticks and retries are no-ops.
+ * Failed runs are retried on the next tick.
+ */
+
+type JobDb = CloudflareEnv['DB'];
+
+// A run still marked as running after this long is considered crashed
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+export interface RunJobOptions {
+  now?: Date;
+  trigger?: JobRunTrigger;
+  triggeredBy?: string | null;
+  /** Run again even if the job already succeeded for the period */
+  force?: boolean;
+}
+
+export interface JobRunOutcome {
+  jobName: string;
+  periodKey: string;
+  status: JobRunStatus | 'skipped';
+  processed: number;
+  error: string | null;
+}
+
+interface JobRunRow {
+  id: string;
+  job_name: string;
+  period_key: string;
+  status: JobRunStatus;
+  trigger: JobRunTrigger;
+  triggered_by: string | null;
+  attempts: number;
+  processed_count: number;
+  result: string | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+function mapJobRun(row: JobRunRow): JobRun {
+  return {
+    id: row.id,
+    jobName: row.job_name,
+    periodKey: row.period_key,
+    status: row.status,
+    trigger: row.trigger,
+    triggeredBy: row.triggered_by,
+    attempts: row.attempts,
+    processedCount: row.processed_count,
+    result: row.result ? JSON.parse(row.result) : null,
+    error: row.error,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+/**
+ * Claim the run of a job for a period. Returns false if the period was
+ * already handled or another run is in progress.
+ */
+async function claimJobRun(
+  db: JobDb,
+  job: JobDefinition,
+  periodKey: string,
+  options: Required<Omit<RunJobOptions, 'now'>> & { now: Date }
+): Promise<boolean> {
+  const startedAt = options.now.toISOString();
+  const staleBefore = new Date(
+    options.now.getTime() - STALE_RUN_MS
+  ).toISOString();
+
+  const result = await db
+    .prepare(
+      `INSERT INTO job_runs (
+        id, job_name, period_key, status, trigger, triggered_by, attempts, started_at
+      ) VALUES (?, ?, ?, 'running', ?, ?, 1, ?)
+      ON CONFLICT(job_name, period_key) DO UPDATE SET
+        status = 'running',
+        trigger = excluded.trigger,
+        triggered_by = excluded.triggered_by,
+        attempts = job_runs.attempts + 1,
+        processed_count = 0,
+        result = NULL,
+        error = NULL,
+        started_at = excluded.started_at,
+        finished_at = NULL
+      WHERE job_runs.status = 'failed'
+        OR (job_runs.status = 'running' AND job_runs.started_at < ?)
+        OR (? = 1 AND job_runs.status = 'succeeded')`
+    )
+    .bind(
+      crypto.randomUUID(),
+      job.name,
+      periodKey,
+      options.trigger,
+      options.triggeredBy,
+      startedAt,
+      staleBefore,
+      options.force ? 1 : 0
+    )
+    .run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Run a single job for the period containing `options.now`.
+ */
+export async function runJob(
+  env: CloudflareEnv,
+  job: JobDefinition,
+  options: RunJobOptions = {}
+): Promise<JobRunOutcome> {
+  const db = env.DB;
+  const now = options.now ?? new Date();
+  const trigger = options.trigger ?? 'cron';
+  const triggeredBy = options.triggeredBy ?? null;
+  const periodKey = getPeriodKey(job.schedule, now);
+
+  const claimed = await claimJobRun(db, job, periodKey, {
+    now,
+    trigger,
+    triggeredBy,
+    force: options.force ?? false,
+  });
+
+  if (!claimed) {
+    return {
+      jobName: job.name,
+      periodKey,
+      status: 'skipped',
+      processed: 0,
+      error: null,
+    };
+  }
+
+  try {
+    const result = await job.run(env, { periodKey, now, trigger, triggeredBy });
+
+    await db
+      .prepare(
+        `UPDATE job_runs
+         SET status = 'succeeded', processed_count = ?, result = ?, finished_at = ?
+         WHERE job_name = ? AND period_key = ?`
+      )
+      .bind(
+        result.processed,
+        result.details ? JSON.stringify(result.details) : null,
+        new Date().toISOString(),
+        job.name,
+        periodKey
+      )
+      .run();
+
+    return {
+      jobName: job.name,
+      periodKey,
+      status: 'succeeded',
+      processed: result.processed,
+      error: null,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Job ${job.name} failed for ${periodKey}:`, error);
+
+    await db
+      .prepare(
+        `UPDATE job_runs
+         SET status = 'failed', error = ?, finished_at = ?
+         WHERE job_name = ? AND period_key = ?`
+      )
+      .bind(message, new Date().toISOString(), job.name, periodKey)
+      .run();
+
+    return {
+      jobName: job.name,
+      periodKey,
+      status: 'failed',
+      processed: 0,
+      error: message,
+    };
+  }
+}
+
+/**
+ * Run all registered jobs that are due at the given time, one after
+ * another. Called from the worker's `scheduled` handler.
+ */
+export async function runDueJobs(
+  env: CloudflareEnv,
+  now: Date = new Date()
+): Promise<JobRunOutcome[]> {
+  const outcomes: JobRunOutcome[] = [];
+
+  for (const job of JOBS) {
+    if (!isJobDue(job.hour, now)) {
+      continue;
+    }
+
+    outcomes.push(await runJob(env, job, { now }));
+  }
+
+  return outcomes;
+}
+
+/**
+ * Get the latest run of every job that has run at least once.
+ */
+export async function getLatestJobRuns(
+  db: JobDb
+): Promise<Record<string, JobRun>> {
+  const result = await db
+    .prepare(
+      `SELECT jr.* FROM job_runs jr
+       WHERE jr.started_at = (
+         SELECT MAX(started_at) FROM job_runs WHERE job_name = jr.job_name
+       )`
+    )
+    .all<JobRunRow>();
+
+  return Object.fromEntries(
+    result.results.map((row: JobRunRow) => [row.job_name, mapJobRun(row)])
+  );
+}
+
+/**
+ * Get the run history of a job, newest first.
+ */
+export async function getJobRuns(
+  db: JobDb,
+  jobName: string,
+  limit = 20
+): Promise<JobRun[]> {
+  const result = await db
+    .prepare(
+      `SELECT * FROM job_runs
+       WHERE job_name = ?
+       ORDER BY started_at DESC
+       LIMIT ?`
+    )
+    .bind(jobName, limit)
+    .all<JobRunRow>();
+
+  return result.results.map(mapJobRun);
+}
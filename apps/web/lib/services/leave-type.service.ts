@@ -0,0 +1,387 @@
+// CloudflareEnv is defined globally in env.d.ts
+import type { Locale } from '~/lib/i18n/locales.config';
+import type { LeaveType, LocalizedLeaveType } from '~/lib/types';
+
+import { joinTranslation, localize } from './translation.service';
+
+/**
+ * Leave Types for ZeitPal
+ *
+ * System leave types (organization_id IS NULL) are shared by all
+ * organizations, so organizations never change them. Instead they store
+ * overrides in organization_leave_type_settings, which are merged over the
+ * system defaults wherever leave types are resolved. Organizations can also
+ * create their own leave types, which they edit directly and archive when
+ * they no longer need them.
+ */
+
+type LeaveTypeDb = CloudflareEnv['DB'];
+
+/** leave_types columns an organization can override */
+export const LEAVE_TYPE_SETTING_COLUMNS = [
+  'is_active',
+  'color',
+  'default_days_per_year',
+  'allow_half_days',
+  'allow_negative',
+  'allow_carryover',
+  'max_carryover_days',
+  'sort_order',
+] as const;
+
+export type LeaveTypeSettingColumn =
+  (typeof LEAVE_TYPE_SETTING_COLUMNS)[number];
+
+/**
+ * SQL join of an organization's overrides for the leave type aliased as
+ * `lt`. The overrides are aliased as `lts`; `organizationIdSql` is the SQL
+ * for the organization's id, e.g. `?` or `lr.organization_id`.
+ */
+export function joinLeaveTypeSettings(organizationIdSql: string): string {
+  return `LEFT JOIN organization_leave_type_settings lts
+    ON lts.leave_type_id = lt.id AND lts.organization_id = ${organizationIdSql}`;
+}
+
+/**
+ * SQL expression for a leave type column with the organization's override
+ * applied. Expects joinLeaveTypeSettings() in the query.
+ */
+export function leaveTypeSetting(column: LeaveTypeSettingColumn): string {
+  return `COALESCE(lts.${column}, lt.${column})`;
+}
+
+/**
+ * SQL condition for the leave types an organization can use: the system
+ * defaults and its own. Expects the leave type to be aliased as `lt`.
+ */
+export function leaveTypeAvailableSql(organizationIdSql: string): string {
+  return `(lt.organization_id IS NULL OR lt.organization_id = ${organizationIdSql})`;
+}
+
+/**
+ * Columns of a leave type as the organization sees it, for a SELECT.
+ * Expects joinLeaveTypeSettings() in the query.
+ */
+export const LEAVE_TYPE_COLUMNS_SQL = [
+  'lt.id',
+  'lt.organization_id',
+  'lt.code',
+  'lt.name_en',
+  'lt.name_de',
+  'lt.description_en',
+  'lt.description_de',
+  'lt.icon',
+  'lt.is_paid',
+  'lt.requires_approval',
+  'lt.requires_document',
+  'lt.document_required_after_days',
+  'lt.has_allowance',
+  'lt.archived_at',
+  'lt.created_at',
+  'lt.updated_at',
+  ...LEAVE_TYPE_SETTING_COLUMNS.map(
+    (column) => `${leaveTypeSetting(column)} as ${column}`
+  ),
+].join(', ');
+
+export interface LeaveTypeRow {
+  id: string;
+  organization_id: string | null;
+  code: string;
+  name_en: string;
+  name_de: string;
+  description_en: string | null;
+  description_de: string | null;
+  color: string;
+  icon: string | null;
+  is_paid: number | null;
+  requires_approval: number | null;
+  requires_document: number | null;
+  document_required_after_days: number | null;
+  has_allowance: number | null;
+  default_days_per_year: number | null;
+  allow_negative: number | null;
+  allow_half_days: number | null;
+  allow_carryover: number | null;
+  max_carryover_days: number | null;
+  sort_order: number | null;
+  is_active: number | null;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function mapLeaveTypeRow(row: LeaveTypeRow): LeaveType {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    code: row.code,
+    nameEn: row.name_en,
+    nameDe: row.name_de,
+    descriptionEn: row.description_en,
+    descriptionDe: row.description_de,
+    color: row.color,
+    icon: row.icon ?? 'calendar',
+    isPaid: Boolean(row.is_paid),
+    requiresApproval: Boolean(row.requires_approval),
+    requiresDocument: Boolean(row.requires_document),
+    documentRequiredAfterDays: row.document_required_after_days,
+    hasAllowance: Boolean(row.has_allowance),
+    defaultDaysPerYear: row.default_days_per_year,
+    allowNegative: Boolean(row.allow_negative),
+    allowHalfDays: Boolean(row.allow_half_days),
+    allowCarryover: Boolean(row.allow_carryover),
+    maxCarryoverDays: row.max_carryover_days,
+    sortOrder: row.sort_order ?? 0,
+    isActive: Boolean(row.is_active),
+    archivedAt: row.archived_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * SQL join of the leave type's translation in a locale, aliased as `ltt`.
+ * Expects the leave type to be aliased as `lt`.
+ */
+export function joinLeaveTypeTranslation(localeSql: string): string {
+  return joinTranslation('leave_type', 'ltt', 'lt.id', localeSql);
+}
+
+/** Translated columns for a SELECT; expects joinLeaveTypeTranslation() */
+export const LEAVE_TYPE_TRANSLATION_COLUMNS_SQL =
+  'ltt.name as translated_name, ltt.description as translated_description';
+
+/**
+ * SQL for the leave type's name in a locale, falling back like localize().
+ * Expects joinLeaveTypeTranslation() with the same `localeSql`.
+ */
+export function leaveTypeNameSql(localeSql: string): string {
+  return `COALESCE(ltt.name, CASE WHEN ${localeSql} = 'de' THEN lt.name_de ELSE lt.name_en END)`;
+}
+
+export interface LocalizedLeaveTypeRow extends LeaveTypeRow {
+  translated_name: string | null;
+  translated_description: string | null;
+}
+
+export function mapLocalizedLeaveTypeRow(
+  row: LocalizedLeaveTypeRow,
+  locale: Locale
+): LocalizedLeaveType {
+  const leaveType = mapLeaveTypeRow(row);
+
+  return {
+    ...leaveType,
+    name: localize(leaveType.nameEn, leaveType.nameDe, locale, row.translated_name),
+    description: localize(
+      leaveType.descriptionEn,
+      leaveType.descriptionDe,
+      locale,
+      row.translated_description
+    ),
+  };
+}
+
+export type LeaveTypeSettings = Partial<
+  Pick<
+    LeaveType,
+    | 'isActive'
+    | 'color'
+    | 'defaultDaysPerYear'
+    | 'allowHalfDays'
+    | 'allowNegative'
+    | 'allowCarryover'
+    | 'maxCarryoverDays'
+    | 'sortOrder'
+  >
+>;
+
+/** What organizations can change about their own leave types only */
+export type LeaveTypeDefinition = Partial<
+  Pick<
+    LeaveType,
+    | 'nameEn'
+    | 'nameDe'
+    | 'descriptionEn'
+    | 'descriptionDe'
+    | 'icon'
+    | 'isPaid'
+    | 'requiresApproval'
+    | 'requiresDocument'
+    | 'documentRequiredAfterDays'
+  >
+>;
+
+export type LeaveTypeChanges = LeaveTypeSettings & LeaveTypeDefinition;
+
+const SETTING_COLUMNS: Record<keyof LeaveTypeSettings, string> = {
+  isActive: 'is_active',
+  color: 'color',
+  defaultDaysPerYear: 'default_days_per_year',
+  allowHalfDays: 'allow_half_days',
+  allowNegative: 'allow_negative',
+  allowCarryover: 'allow_carryover',
+  maxCarryoverDays: 'max_carryover_days',
+  sortOrder: 'sort_order',
+};
+
+const DEFINITION_COLUMNS: Record<keyof LeaveTypeDefinition, string> = {
+  nameEn: 'name_en',
+  nameDe: 'name_de',
+  descriptionEn: 'description_en',
+  descriptionDe: 'description_de',
+  icon: 'icon',
+  isPaid: 'is_paid',
+  requiresApproval: 'requires_approval',
+  requiresDocument: 'requires_document',
+  documentRequiredAfterDays: 'document_required_after_days',
+};
+
+const toColumnValue = (value: unknown) =>
+  typeof value === 'boolean' ? (value ? 1 : 0) : (value ?? null);
+
+/** Column/value pairs of the changes that were made */
+function getColumnValues(
+  columns: Record<string, string>,
+  changes: Record<string, unknown>
+): Array<[string, unknown]> {
+  return Object.entries(columns)
+    .filter(([key]) => changes[key] !== undefined)
+    .map(([key, column]) => [column, toColumnValue(changes[key])]);
+}
+
+/**
+ * Build the statement that stores an organization's changes to a leave
+ * type, for use in a batch. System leave types get an override for the
+ * organization, limited to the settings; the organization's own leave
+ * types are updated in place.
+ */
+export function prepareLeaveTypeUpdate(
+  db: LeaveTypeDb,
+  organizationId: string,
+  leaveType: Pick<LeaveType, 'id' | 'organizationId'>,
+  changes: LeaveTypeChanges
+): ReturnType<LeaveTypeDb['prepare']> {
+  if (leaveType.organizationId) {
+    const entries = getColumnValues(
+      { ...SETTING_COLUMNS, ...DEFINITION_COLUMNS },
+      changes
+    );
+
+    return db
+      .prepare(
+        `UPDATE leave_types
+         SET ${entries.map(([column]) => `${column} = ?, `).join('')}updated_at = datetime('now')
+         WHERE id = ? AND organization_id = ?`
+      )
+      .bind(
+        ...entries.map(([, value]) => value),
+        leaveType.id,
+        organizationId
+      );
+  }
+
+  const entries = getColumnValues(SETTING_COLUMNS, changes);
+  const columns = entries.map(([column]) => column);
+
+  return db
+    .prepare(
+      `INSERT INTO organization_leave_type_settings (
+        organization_id, leave_type_id${columns.map((column) => `, ${column}`).join('')}
+      ) VALUES (?, ?${columns.map(() => ', ?').join('')})
+      ON CONFLICT(organization_id, leave_type_id) DO UPDATE SET
+        ${columns.map((column) => `${column} = excluded.${column}, `).join('')}updated_at = datetime('now')`
+    )
+    .bind(
+      organizationId,
+      leaveType.id,
+      ...entries.map(([, value]) => value)
+    );
+}
+
+export type NewLeaveType = Omit<
+  LeaveType,
+  | 'id'
+  | 'organizationId'
+  | 'sortOrder'
+  | 'isActive'
+  | 'archivedAt'
+  | 'createdAt'
+  | 'updatedAt'
+>;
+
+/**
+ * Build the statement that creates an organization's own leave type, for
+ * use in a batch. It is sorted after the leave types the organization
+ * already has.
+ */
+export function prepareCreateLeaveType(
+  db: LeaveTypeDb,
+  organizationId: string,
+  id: string,
+  leaveType: NewLeaveType
+): ReturnType<LeaveTypeDb['prepare']> {
+  return db
+    .prepare(
+      `INSERT INTO leave_types (
+        id, organization_id, code, name_en, name_de, description_en,
+        description_de, color, icon, is_paid, requires_approval,
+        requires_document, document_required_after_days, has_allowance,
+        default_days_per_year, allow_negative, allow_half_days,
+        allow_carryover, max_carryover_days, sort_order, is_active
+      )
+      SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+             COALESCE(MAX(${leaveTypeSetting('sort_order')}), 0) + 1, 1
+      FROM leave_types lt
+      ${joinLeaveTypeSettings('?')}
+      WHERE ${leaveTypeAvailableSql('?')}`
+    )
+    .bind(
+      id,
+      organizationId,
+      leaveType.code,
+      leaveType.nameEn,
+      leaveType.nameDe,
+      leaveType.descriptionEn,
+      leaveType.descriptionDe,
+      leaveType.color,
+      leaveType.icon,
+      toColumnValue(leaveType.isPaid),
+      toColumnValue(leaveType.requiresApproval),
+      toColumnValue(leaveType.requiresDocument),
+      leaveType.documentRequiredAfterDays,
+      toColumnValue(leaveType.hasAllowance),
+      leaveType.defaultDaysPerYear,
+      toColumnValue(leaveType.allowNegative),
+      toColumnValue(leaveType.allowHalfDays),
+      toColumnValue(leaveType.allowCarryover),
+      leaveType.maxCarryoverDays,
+      organizationId,
+      organizationId
+    );
+}
+
+/**
+ * Build the statement that gives every active member of the organization
+ * a balance for a new leave type, for use in a batch.
+ */
+export function prepareLeaveTypeBalances(
+  db: LeaveTypeDb,
+  organizationId: string,
+  leaveTypeId: string,
+  year: number,
+  entitled: number
+): ReturnType<LeaveTypeDb['prepare']> {
+  return db
+    .prepare(
+      `INSERT OR IGNORE INTO leave_balances (
+        organization_id, user_id, leave_type_id, year,
+        entitled, carried_over, adjustment, used, pending
+      )
+      SELECT organization_id, user_id, ?, ?, ?, 0, 0, 0, 0
+      FROM organization_members
+      WHERE organization_id = ? AND status = 'active'`
+    )
+    .bind(leaveTypeId, year, entitled, organizationId);
+}
@@ -0,0 +1,387 @@
+// CloudflareEnv is defined globally in env.d.ts
+import { initializeServerI18n } from '@kit/i18n/server';
+
+import { i18nResolver } from '~/lib/i18n/i18n.resolver';
+import { getI18nSettings } from '~/lib/i18n/i18n.settings';
+import type { Locale } from '~/lib/i18n/locales.config';
+import {
+  type LocalizedNames,
+  pickLocalizedName,
+} from '~/lib/services/translation.service';
+import {
+  type AuditEntityType,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type Notification,
+  type NotificationPreferences,
+  type NotificationType,
+} from '~/lib/types';
+import { formatWorkDays } from '~/lib/utils/leave-calculations';
+
+/**
+ * In-App Notifications for ZeitPal
+ *
+ * Notifications are written alongside the transactional emails and shown
+ * in the notification center. Like the emails, they are a side effect of
+ * the change, so they are created after the change is committed. Users
+ * choose which emails they get in their notification preferences.
+ *
+ * A notification stores its type and the params its message is rendered
+ * from, with strings from the `notifications` namespace in public/locales.
+ * The notification center renders it in the reader's locale; title and
+ * body keep the English text for notifications without params.
+ */
+
+type NotificationDb = CloudflareEnv['DB'];
+
+/** Translate a key of the `notifications` namespace */
+export type NotificationTranslator = (
+  key: string,
+  values?: Record<string, string | number>
+) => string;
+
+/** Values a notification's message is rendered from */
+export interface NotificationParams {
+  employeeName?: string;
+  leaveType?: LocalizedNames;
+  startDate?: string;
+  endDate?: string;
+  workDays?: number;
+  /** Who approved or rejected the request */
+  approverName?: string | null;
+  /** Rejection reason */
+  reason?: string | null;
+  /** Carried-over days that expired or are about to */
+  days?: number;
+  /** Expiry or due date */
+  date?: string;
+  /** Whether the carried-over days already expired */
+  expired?: boolean;
+}
+
+/** Notification types that are rendered from their params */
+export type NotificationMessageType = Extract<
+  NotificationType,
+  | 'approval_needed'
+  | 'leave_approved'
+  | 'leave_rejected'
+  | 'team_absence'
+  | 'carryover_expiry'
+  | 'document_required'
+>;
+
+export interface NotificationInput {
+  userId: string;
+  organizationId: string | null;
+  type: NotificationMessageType;
+  params: NotificationParams;
+  entityType?: AuditEntityType | null;
+  entityId?: string | null;
+}
+
+export async function getNotificationTranslator(
+  locale: Locale
+): Promise<NotificationTranslator> {
+  const i18n = await initializeServerI18n(
+    {
+      ...getI18nSettings(locale, ['notifications']),
+      interpolation: { escapeValue: false },
+    },
+    i18nResolver
+  );
+  const t = i18n.getFixedT(locale, 'notifications');
+
+  return (key, values) => t(key, values);
+}
+
+const formatNotificationDate = (date: string, locale: Locale) =>
+  new Date(date).toLocaleDateString(locale, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const formatPeriod = (
+  { startDate = '', endDate = startDate }: NotificationParams,
+  locale: Locale
+) =>
+  startDate === endDate
+    ? formatNotificationDate(startDate, locale)
+    : `${formatNotificationDate(startDate, locale)} - ${formatNotificationDate(endDate, locale)}`;
+
+/**
+ * Title and body of a notification in a locale, or null for types that
+ * are not rendered from params.
+ */
+export function getNotificationContent(
+  type: NotificationType,
+  params: NotificationParams,
+  locale: Locale,
+  t: NotificationTranslator
+): { title: string; body: string } | null {
+  const values = {
+    employeeName: params.employeeName ?? '',
+    leaveType: params.leaveType
+      ? pickLocalizedName(params.leaveType, locale)
+      : '',
+    period: params.startDate ? formatPeriod(params, locale) : '',
+    days: formatWorkDays(params.days ?? params.workDays ?? 0, locale),
+    date: params.date ? formatNotificationDate(params.date, locale) : '',
+    approverName: params.approverName ?? '',
+    reason: params.reason ?? '',
+  };
+
+  switch (type) {
+    case 'approval_needed':
+      return {
+        title: t('approvalNeeded.title', values),
+        body: t('approvalNeeded.body', values),
+      };
+    case 'leave_approved':
+      return {
+        title: t('leaveApproved.title', values),
+        body: t(
+          params.approverName
+            ? 'leaveApproved.bodyWithApprover'
+            : 'leaveApproved.body',
+          values
+        ),
+      };
+    case 'leave_rejected':
+      return {
+        title: t('leaveRejected.title', values),
+        body: t(
+          params.reason ? 'leaveRejected.bodyWithReason' : 'leaveRejected.body',
+          {
+            ...values,
+            approverName:
+              params.approverName || t('leaveRejected.yourApprover'),
+          }
+        ),
+      };
+    case 'team_absence':
+      return {
+        title: t('teamAbsence.title', values),
+        body: t('teamAbsence.body', values),
+      };
+    case 'carryover_expiry': {
+      const key = params.expired ? 'carryoverExpired' : 'carryoverExpiring';
+
+      return {
+        title: t(`${key}.title`, values),
+        body: t(`${key}.body`, values),
+      };
+    }
+    case 'document_required':
+      return {
+        title: t('documentRequired.title', values),
+        body: t(
+          params.leaveType
+            ? 'documentRequired.bodyWithLeaveType'
+            : 'documentRequired.body',
+          values
+        ),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the statement that creates a notification, for use in a batch.
+ * `t` renders the stored title and body, so pass the English translator.
+ */
+export function prepareNotification(
+  db: NotificationDb,
+  input: NotificationInput,
+  t: NotificationTranslator,
+  now: string = new Date().toISOString()
+): ReturnType<NotificationDb['prepare']> {
+  const content = getNotificationContent(input.type, input.params, 'en', t);
+
+  return db
+    .prepare(
+      `INSERT INTO notifications (
+        id, user_id, organization_id, type, title, body, params,
+        entity_type, entity_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      crypto.randomUUID(),
+      input.userId,
+      input.organizationId,
+      input.type,
+      content?.title ?? input.type,
+      content?.body ?? null,
+      JSON.stringify(input.params),
+      input.entityType ?? null,
+      input.entityId ?? null,
+      now
+    );
+}
+
+export type LeaveNotificationType = Extract<
+  NotificationType,
+  'approval_needed' | 'leave_approved' | 'leave_rejected' | 'team_absence'
+>;
+
+export interface LeaveNotificationDetails {
+  employeeName: string;
+  leaveType: LocalizedNames;
+  startDate: string;
+  endDate: string;
+  workDays: number;
+  /** Who approved or rejected the request */
+  approverName?: string | null;
+  /** Rejection reason */
+  reason?: string | null;
+}
+
+/**
+ * Notify users about a leave request. Each user is notified once, even
+ * when they are listed more than once (e.g. through several teams).
+ */
+export async function notifyLeaveRequest(
+  db: NotificationDb,
+  input: {
+    organizationId: string;
+    leaveRequestId: string;
+    type: LeaveNotificationType;
+    userIds: string[];
+    details: LeaveNotificationDetails;
+  }
+): Promise<void> {
+  const userIds = [...new Set(input.userIds)];
+
+  if (userIds.length === 0) {
+    return;
+  }
+
+  const t = await getNotificationTranslator('en');
+  const now = new Date().toISOString();
+
+  await db.batch(
+    userIds.map((userId) =>
+      prepareNotification(
+        db,
+        {
+          userId,
+          organizationId: input.organizationId,
+          type: input.type,
+          params: input.details,
+          entityType: 'leave_request',
+          entityId: input.leaveRequestId,
+        },
+        t,
+        now
+      )
+    )
+  );
+}
+
+export interface NotificationRow {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  params: string | null;
+  entity_type: AuditEntityType | null;
+  entity_id: string | null;
+  read_at: string | null;
+  email_sent: number | null;
+  email_sent_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Map a notification row, rendering its title and body in the reader's
+ * locale. Rows without params keep their stored text.
+ */
+export function mapNotificationRow(
+  row: NotificationRow,
+  locale: Locale,
+  t: NotificationTranslator
+): Notification {
+  let content: { title: string; body: string | null } | null = null;
+
+  if (row.params) {
+    try {
+      content = getNotificationContent(
+        row.type,
+        JSON.parse(row.params),
+        locale,
+        t
+      );
+    } catch {
+      // Invalid JSON, show the stored text
+    }
+  }
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    organizationId: row.organization_id,
+    type: row.type,
+    title: content?.title ?? row.title,
+    body: content?.body ?? row.body,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    readAt: row.read_at,
+    emailSent: Boolean(row.email_sent),
+    emailSentAt: row.email_sent_at,
+    createdAt: row.created_at,
+  };
+}
+
+/** Preferences that turn a kind of email on or off */
+export type EmailPreference = Exclude<
+  keyof NotificationPreferences,
+  'emailDigestFrequency'
+>;
+
+/**
+ * Read a user's stored notification preferences, filling in the defaults
+ * for anything they have not set.
+ */
+export function parseNotificationPreferences(
+  raw: string | null
+): Required<NotificationPreferences> {
+  let stored: NotificationPreferences = {};
+
+  if (raw) {
+    try {
+      stored = JSON.parse(raw);
+    } catch {
+      // Invalid JSON, use the defaults
+    }
+  }
+
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...stored };
+}
+
+/**
+ * Why an email should not be sent right away to a user with these
+ * preferences, or null if it should be sent. Users on a daily or weekly
+ * digest get the event in their next digest instead; the unsent in-app
+ * notification is what queues it.
+ */
+export function getEmailSkipReason(
+  preferences: Required<NotificationPreferences>,
+  preference: EmailPreference
+): string | null {
+  if (preferences.emailDigestFrequency === 'none') {
+    return 'emails are turned off';
+  }
+
+  if (!preferences[preference]) {
+    return `${preference} is turned off`;
+  }
+
+  if (preferences.emailDigestFrequency !== 'immediate') {
+    return `queued for the ${preferences.emailDigestFrequency} digest`;
+  }
+
+  return null;
+}
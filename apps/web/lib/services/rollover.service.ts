@@ -0,0 +1,498 @@
+// CloudflareEnv is defined globally in env.d.ts
+import type { JobRunTrigger } from '~/lib/types';
+import { calculateCarryover } from '~/lib/utils/leave-calculations';
+
+import { getCarryoverExpiresAt } from './carryover.service';
+import {
+  joinLeaveTypeSettings,
+  leaveTypeAvailableSql,
+  leaveTypeSetting,
+} from './leave-type.service';
+
+/**
+ * Year-End Balance Rollover for ZeitPal
+ *
+ * Creates next year's leave balances from the members' entitlements and
+ * carries over unused days of leave types that allow it, capped by the
+ * organization's and the leave type's maximum. Every run is recorded in
+ * balance_rollovers / balance_rollover_items.
+ *
+ * New balances start with the days already booked against the new year by
+ * requests spanning New Year (see balance.service).
+ *
+ * Re-running a rollover is safe: existing balances keep their entitlement
+ * and adjustments, only `carried_over` is recalculated (less any days that
+ * already expired, see carryover.service). The yearly job rolls each
+ * organization over once per period, so a retry skips the organizations
+ * an earlier attempt already recorded.
+ */
+
+type RolloverDb = CloudflareEnv['DB'];
+
+export type RolloverAction = 'created' | 'updated' | 'unchanged';
+
+export interface CarryoverPolicy {
+  carryoverEnabled: boolean;
+  /** organizations.carryover_max_days */
+  organizationMaxDays: number | null;
+  /** leave_types.allow_carryover */
+  allowCarryover: boolean;
+  /** leave_types.max_carryover_days */
+  leaveTypeMaxDays: number | null;
+  /** organizations.carryover_expiry_date (MM-DD) */
+  expiryDate: string;
+}
+
+export interface RolloverItem {
+  userId: string;
+  userName: string | null;
+  userEmail: string;
+  leaveTypeId: string;
+  leaveTypeCode: string;
+  leaveTypeName: string;
+  leaveBalanceId: string | null;
+  previousRemaining: number;
+  entitled: number;
+  carriedOver: number;
+  forfeited: number;
+  action: RolloverAction;
+}
+
+export interface RolloverPlan {
+  organizationId: string;
+  fromYear: number;
+  toYear: number;
+  policy: {
+    carryoverEnabled: boolean;
+    carryoverMaxDays: number | null;
+    carryoverExpiryDate: string;
+  };
+  items: RolloverItem[];
+  totals: {
+    balancesCreated: number;
+    balancesUpdated: number;
+    carriedOver: number;
+    forfeited: number;
+  };
+}
+
+export interface RolloverRecord {
+  id: string;
+  fromYear: number;
+  toYear: number;
+  trigger: JobRunTrigger;
+  triggeredBy: { id: string; name: string | null } | null;
+  balancesCreated: number;
+  balancesUpdated: number;
+  totalCarriedOver: number;
+  totalForfeited: number;
+  createdAt: string;
+}
+
+interface BalanceRow {
+  id: string;
+  user_id: string;
+  leave_type_id: string;
+  entitled: number;
+  carried_over: number;
+  adjustment: number;
+  used: number;
+  pending: number;
+  carryover_expired: number;
+}
+
+const roundDays = (days: number) => Math.round(days * 100) / 100;
+
+/**
+ * Get the number of days carried over from a remaining balance, and the
+ * number of days forfeited because they exceed the cap.
+ */
+export function getRolloverCarryover(
+  remainingDays: number,
+  policy: CarryoverPolicy,
+  toYear: number
+): { carriedOver: number; forfeited: number } {
+  const remaining = Math.max(0, roundDays(remainingDays));
+
+  if (!policy.carryoverEnabled || !policy.allowCarryover || remaining === 0) {
+    return { carriedOver: 0, forfeited: remaining };
+  }
+
+  const maxDays = Math.min(
+    policy.organizationMaxDays ?? Infinity,
+    policy.leaveTypeMaxDays ?? Infinity
+  );
+
+  // Evaluated as of January 1st, when the carried-over days become available
+  const { carryoverAmount } = calculateCarryover(
+    remaining,
+    maxDays,
+    policy.expiryDate,
+    new Date(toYear, 0, 1)
+  );
+
+  return {
+    carriedOver: carryoverAmount,
+    forfeited: roundDays(remaining - carryoverAmount),
+  };
+}
+
+/**
+ * Calculate the rollover of an organization's balances from `fromYear` to
+ * the following year without changing anything.
+ */
+export async function planRollover(
+  db: RolloverDb,
+  organizationId: string,
+  fromYear: number
+): Promise<RolloverPlan> {
+  const toYear = fromYear + 1;
+
+  const [organization, members, leaveTypes, previousBalances, nextBalances] =
+    await Promise.all([
+      db
+        .prepare(
+          `SELECT default_vacation_days, carryover_enabled, carryover_max_days,
+                  carryover_expiry_date
+           FROM organizations WHERE id = ?`
+        )
+        .bind(organizationId)
+        .first<{
+          default_vacation_days: number | null;
+          carryover_enabled: number | null;
+          carryover_max_days: number | null;
+          carryover_expiry_date: string | null;
+        }>(),
+      db
+        .prepare(
+          `SELECT om.user_id, om.custom_vacation_days, u.name, u.email
+           FROM organization_members om
+           JOIN users u ON om.user_id = u.id
+           WHERE om.organization_id = ? AND om.status = 'active'
+           ORDER BY u.name, u.email`
+        )
+        .bind(organizationId)
+        .all<{
+          user_id: string;
+          custom_vacation_days: number | null;
+          name: string | null;
+          email: string;
+        }>(),
+      db
+        .prepare(
+          `SELECT lt.id, lt.code, lt.name_en,
+                  ${leaveTypeSetting('default_days_per_year')} as default_days_per_year,
+                  ${leaveTypeSetting('allow_carryover')} as allow_carryover,
+                  ${leaveTypeSetting('max_carryover_days')} as max_carryover_days
+           FROM leave_types lt
+           ${joinLeaveTypeSettings('?')}
+           WHERE ${leaveTypeAvailableSql('?')}
+             AND ${leaveTypeSetting('is_active')} = 1 AND lt.has_allowance = 1
+           ORDER BY ${leaveTypeSetting('sort_order')}`
+        )
+        .bind(organizationId, organizationId)
+        .all<{
+          id: string;
+          code: string;
+          name_en: string;
+          default_days_per_year: number | null;
+          allow_carryover: number;
+          max_carryover_days: number | null;
+        }>(),
+      db
+        .prepare(
+          `SELECT id, user_id, leave_type_id, entitled, carried_over, adjustment,
+                  used, pending, carryover_expired
+           FROM leave_balances
+           WHERE organization_id = ? AND year = ?`
+        )
+        .bind(organizationId, fromYear)
+        .all<BalanceRow>(),
+      db
+        .prepare(
+          `SELECT id, user_id, leave_type_id, entitled, carried_over, adjustment,
+                  used, pending, carryover_expired
+           FROM leave_balances
+           WHERE organization_id = ? AND year = ?`
+        )
+        .bind(organizationId, toYear)
+        .all<BalanceRow>(),
+    ]);
+
+  const policy = {
+    carryoverEnabled: Boolean(organization?.carryover_enabled),
+    carryoverMaxDays: organization?.carryover_max_days ?? null,
+    carryoverExpiryDate: organization?.carryover_expiry_date ?? '03-31',
+  };
+
+  const balanceKey = (userId: string, leaveTypeId: string) =>
+    `${userId}:${leaveTypeId}`;
+  const previousByKey = new Map<string, BalanceRow>(
+    previousBalances.results.map((row: BalanceRow) => [
+      balanceKey(row.user_id, row.leave_type_id),
+      row,
+    ])
+  );
+  const nextByKey = new Map<string, BalanceRow>(
+    nextBalances.results.map((row: BalanceRow) => [
+      balanceKey(row.user_id, row.leave_type_id),
+      row,
+    ])
+  );
+
+  const items: RolloverItem[] = [];
+
+  for (const member of members.results) {
+    for (const leaveType of leaveTypes.results) {
+      const key = balanceKey(member.user_id, leaveType.id);
+      const previous = previousByKey.get(key);
+      const next = nextByKey.get(key);
+
+      const previousRemaining = previous
+        ? roundDays(
+            previous.entitled +
+              previous.carried_over +
+              previous.adjustment -
+              previous.used -
+              previous.pending
+          )
+        : 0;
+
+      const { carriedOver, forfeited } = getRolloverCarryover(
+        previousRemaining,
+        {
+          carryoverEnabled: policy.carryoverEnabled,
+          organizationMaxDays: policy.carryoverMaxDays,
+          allowCarryover: Boolean(leaveType.allow_carryover),
+          leaveTypeMaxDays: leaveType.max_carryover_days,
+          expiryDate: policy.carryoverExpiryDate,
+        },
+        toYear
+      );
+
+      // Existing balances keep their entitlement (it may have been edited)
+      const entitled = next
+        ? next.entitled
+        : leaveType.code === 'vacation'
+          ? (member.custom_vacation_days ??
+            organization?.default_vacation_days ??
+            leaveType.default_days_per_year ??
+            0)
+          : (leaveType.default_days_per_year ?? 0);
+
+      items.push({
+        userId: member.user_id,
+        userName: member.name,
+        userEmail: member.email,
+        leaveTypeId: leaveType.id,
+        leaveTypeCode: leaveType.code,
+        leaveTypeName: leaveType.name_en,
+        leaveBalanceId: next?.id ?? null,
+        previousRemaining,
+        entitled,
+        carriedOver,
+        forfeited,
+        action: !next
+          ? 'created'
+          : next.carried_over + next.carryover_expired === carriedOver
+            ? 'unchanged'
+            : 'updated',
+      });
+    }
+  }
+
+  return {
+    organizationId,
+    fromYear,
+    toYear,
+    policy,
+    items,
+    totals: {
+      balancesCreated: items.filter((item) => item.action === 'created').length,
+      balancesUpdated: items.filter((item) => item.action === 'updated').length,
+      carriedOver: roundDays(
+        items.reduce((sum, item) => sum + item.carriedOver, 0)
+      ),
+      forfeited: roundDays(items.reduce((sum, item) => sum + item.forfeited, 0)),
+    },
+  };
+}
+
+/**
+ * Roll an organization's balances over from `fromYear` to the following
+ * year and record the run. Returns the applied plan and the record id.
+ * Runs of the yearly job pass their period key, which is recorded once
+ * per organization (a second run for the same period fails).
+ */
+export async function applyRollover(
+  db: RolloverDb,
+  organizationId: string,
+  fromYear: number,
+  options: {
+    trigger: JobRunTrigger;
+    triggeredBy: string | null;
+    jobPeriodKey?: string;
+  }
+): Promise<{ rolloverId: string; plan: RolloverPlan }> {
+  const plan = await planRollover(db, organizationId, fromYear);
+  const rolloverId = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  const statements = [
+    db
+      .prepare(
+        `INSERT INTO balance_rollovers (
+          id, organization_id, from_year, to_year, trigger, triggered_by,
+          carryover_enabled, carryover_max_days, carryover_expiry_date,
+          balances_created, balances_updated, total_carried_over, total_forfeited,
+          job_period_key, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        rolloverId,
+        organizationId,
+        plan.fromYear,
+        plan.toYear,
+        options.trigger,
+        options.triggeredBy,
+        plan.policy.carryoverEnabled ? 1 : 0,
+        plan.policy.carryoverMaxDays,
+        plan.policy.carryoverExpiryDate,
+        plan.totals.balancesCreated,
+        plan.totals.balancesUpdated,
+        plan.totals.carriedOver,
+        plan.totals.forfeited,
+        options.jobPeriodKey ?? null,
+        now
+      ),
+  ];
+
+  for (const item of plan.items) {
+    const balanceId = item.leaveBalanceId ?? crypto.randomUUID();
+    const carryoverExpiresAt =
+      item.carriedOver > 0
+        ? getCarryoverExpiresAt(plan.toYear, plan.policy.carryoverExpiryDate)
+        : null;
+
+    if (item.action === 'created') {
+      statements.push(
+        db
+          .prepare(
+            `INSERT INTO leave_balances (
+              id, organization_id, user_id, leave_type_id, year,
+              entitled, carried_over, adjustment, used, pending,
+              carryover_expires_at, created_at, updated_at
+            )
+            SELECT ?, ?, ?, ?, ?, ?, ?, 0,
+              COALESCE(SUM(CASE WHEN status = 'approved' THEN days END), 0),
+              COALESCE(SUM(CASE WHEN status = 'pending' THEN days END), 0),
+              ?, ?, ?
+            FROM (
+              SELECT status, json_extract(work_days_by_year, ?) as days
+              FROM leave_requests
+              WHERE user_id = ? AND leave_type_id = ?
+                AND status IN ('pending', 'approved')
+            )
+            WHERE true
+            ON CONFLICT(user_id, leave_type_id, year) DO UPDATE SET
+              carried_over = MAX(0, excluded.carried_over - carryover_expired),
+              carryover_expires_at = excluded.carryover_expires_at,
+              updated_at = excluded.updated_at`
+          )
+          .bind(
+            balanceId,
+            organizationId,
+            item.userId,
+            item.leaveTypeId,
+            plan.toYear,
+            item.entitled,
+            item.carriedOver,
+            carryoverExpiresAt,
+            now,
+            now,
+            `$."${plan.toYear}"`,
+            item.userId,
+            item.leaveTypeId
+          )
+      );
+    } else if (item.action === 'updated') {
+      statements.push(
+        db
+          .prepare(
+            `UPDATE leave_balances
+             SET carried_over = MAX(0, ? - carryover_expired),
+                 carryover_expires_at = ?, updated_at = ?
+             WHERE id = ?`
+          )
+          .bind(item.carriedOver, carryoverExpiresAt, now, balanceId)
+      );
+    }
+
+    statements.push(
+      db
+        .prepare(
+          `INSERT INTO balance_rollover_items (
+            id, rollover_id, user_id, leave_type_id, leave_balance_id,
+            previous_remaining, entitled, carried_over, forfeited, action,
+            created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          crypto.randomUUID(),
+          rolloverId,
+          item.userId,
+          item.leaveTypeId,
+          balanceId,
+          item.previousRemaining,
+          item.entitled,
+          item.carriedOver,
+          item.forfeited,
+          item.action,
+          now
+        )
+    );
+  }
+
+  await db.batch(statements);
+
+  return { rolloverId, plan };
+}
+
+/**
+ * Get the recorded rollover runs of an organization, newest first.
+ */
+export async function getRolloverHistory(
+  db: RolloverDb,
+  organizationId: string,
+  limit = 20
+): Promise<RolloverRecord[]> {
+  const result = await db
+    .prepare(
+      `SELECT br.*, u.name as triggered_by_name
+       FROM balance_rollovers br
+       LEFT JOIN users u ON br.triggered_by = u.id
+       WHERE br.organization_id = ?
+       ORDER BY br.created_at DESC
+       LIMIT ?`
+    )
+    .bind(organizationId, limit)
+    .all<Record<string, unknown>>();
+
+  return result.results.map((row: Record<string, unknown>) => ({
+    id: row.id as string,
+    fromYear: row.from_year as number,
+    toYear: row.to_year as number,
+    trigger: row.trigger as JobRunTrigger,
+    triggeredBy: row.triggered_by
+      ? {
+          id: row.triggered_by as string,
+          name: row.triggered_by_name as string | null,
+        }
+      : null,
+    balancesCreated: row.balances_created as number,
+    balancesUpdated: row.balances_updated as number,
+    totalCarriedOver: row.total_carried_over as number,
+    totalForfeited: row.total_forfeited as number,
+    createdAt: row.created_at as string,
+  }));
+}
@@ -0,0 +1,204 @@
+// CloudflareEnv is defined globally in env.d.ts
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  type Locale,
+  isValidLocale,
+} from '~/lib/i18n/locales.config';
+import type { Translation } from '~/lib/types';
+
+/**
+ * Translations for ZeitPal
+ *
+ * Leave types and holidays carry their English and German names in
+ * name_en/name_de. Names in other locales live in the translations table,
+ * keyed by entity and locale. APIs resolve names to the user's locale and
+ * fall back to English where a translation is missing.
+ */
+
+type TranslationDb = CloudflareEnv['DB'];
+
+export type TranslatableEntity = 'leave_type' | 'holiday';
+
+/** An entity's name in each locale that has one; English is always set */
+export type LocalizedNames = { en: string } & Partial<Record<Locale, string>>;
+
+/** Locales that have no name_* column and are only stored as translations */
+export const TRANSLATION_LOCALES = LOCALES.filter(
+  (locale) => locale !== 'en' && locale !== 'de'
+);
+
+interface TranslationRow {
+  entity_id: string;
+  locale: string;
+  name: string;
+  description: string | null;
+}
+
+export function resolveLocale(locale: string | null | undefined): Locale {
+  return locale && isValidLocale(locale) ? locale : DEFAULT_LOCALE;
+}
+
+/**
+ * Get the locale names are resolved to for a user.
+ */
+export async function getUserLocale(
+  db: TranslationDb,
+  userId: string
+): Promise<Locale> {
+  const user = await db
+    .prepare('SELECT locale FROM users WHERE id = ?')
+    .bind(userId)
+    .first<{ locale: string | null }>();
+
+  return resolveLocale(user?.locale);
+}
+
+/**
+ * SQL join of the translation in one locale for an entity, aliased as
+ * `alias`. `entityIdSql` is the SQL for the entity's id, e.g. `lt.id`, and
+ * `localeSql` the SQL for the locale, e.g. `?`.
+ */
+export function joinTranslation(
+  entityType: TranslatableEntity,
+  alias: string,
+  entityIdSql: string,
+  localeSql: string
+): string {
+  return `LEFT JOIN translations ${alias}
+    ON ${alias}.entity_type = '${entityType}'
+    AND ${alias}.entity_id = ${entityIdSql}
+    AND ${alias}.locale = ${localeSql}`;
+}
+
+/**
+ * Pick the text for a locale: its translation if there is one, else the
+ * German column for German and the English column for anything else.
+ */
+export function localize<T extends string | null>(
+  en: T,
+  de: T,
+  locale: Locale,
+  translation?: T | null
+): T {
+  if (translation) {
+    return translation;
+  }
+
+  return locale === 'de' ? de : en;
+}
+
+/**
+ * Pick the name for a locale from an entity's names, falling back to
+ * English.
+ */
+export function pickLocalizedName(
+  names: LocalizedNames,
+  locale: Locale
+): string {
+  return names[locale] ?? names.en;
+}
+
+/**
+ * Get an entity's name in every locale, for messages that go to several
+ * users who may each use a different locale.
+ */
+export async function getLocalizedNames(
+  db: TranslationDb,
+  entityType: TranslatableEntity,
+  entityId: string,
+  en: string,
+  de: string
+): Promise<LocalizedNames> {
+  const translations = await getTranslations(db, entityType, [entityId]);
+
+  return toLocalizedNames(en, de, translations.get(entityId));
+}
+
+/**
+ * Combine an entity's name columns and translations into its names.
+ */
+export function toLocalizedNames(
+  en: string,
+  de: string,
+  translations: Translation[] = []
+): LocalizedNames {
+  const names: LocalizedNames = { en, de };
+
+  for (const translation of translations) {
+    names[translation.locale as Locale] = translation.name;
+  }
+
+  return names;
+}
+
+/**
+ * Get the translations of several entities, by entity id.
+ */
+export async function getTranslations(
+  db: TranslationDb,
+  entityType: TranslatableEntity,
+  entityIds: string[]
+): Promise<Map<string, Translation[]>> {
+  const translations = new Map<string, Translation[]>();
+
+  if (entityIds.length === 0) {
+    return translations;
+  }
+
+  const result = await db
+    .prepare(
+      `SELECT entity_id, locale, name, description FROM translations
+       WHERE entity_type = ? AND entity_id IN (${entityIds.map(() => '?').join(', ')})
+       ORDER BY locale`
+    )
+    .bind(entityType, ...entityIds)
+    .all<TranslationRow>();
+
+  for (const row of result.results) {
+    if (!isValidLocale(row.locale)) continue;
+
+    const list = translations.get(row.entity_id) ?? [];
+    list.push({
+      locale: row.locale,
+      name: row.name,
+      description: row.description,
+    });
+    translations.set(row.entity_id, list);
+  }
+
+  return translations;
+}
+
+/**
+ * Build the statements that replace an entity's translations, for use in
+ * a batch. Locales that are left out lose their translation.
+ */
+export function prepareTranslations(
+  db: TranslationDb,
+  entityType: TranslatableEntity,
+  entityId: string,
+  translations: Translation[]
+): ReturnType<TranslationDb['prepare']>[] {
+  return [
+    db
+      .prepare(
+        'DELETE FROM translations WHERE entity_type = ? AND entity_id = ?'
+      )
+      .bind(entityType, entityId),
+    ...translations.map((translation) =>
+      db
+        .prepare(
+          `INSERT INTO translations (entity_type, entity_id, locale, name, description)
+           VALUES (?, ?, ?, ?, ?)`
+        )
+        .bind(
+          entityType,
+          entityId,
+          translation.locale,
+          translation.name,
+          translation.description
+        )
+    ),
+  ];
+}
@@ -0,0 +1,89 @@
+// CloudflareEnv is defined globally in env.d.ts
+import type { WorkSchedule } from '~/lib/types';
+
+/**
+ * Work Schedules for ZeitPal
+ *
+ * Loads the members' effective-dated work schedules (see
+ * lib/utils/work-schedule for how they are applied to a day).
+ */
+
+type WorkScheduleDb = CloudflareEnv['DB'];
+
+interface WorkScheduleRow {
+  id: string;
+  user_id: string;
+  effective_from: string;
+  weekday_hours: string;
+  alternate_weekday_hours: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+function mapWorkSchedule(row: WorkScheduleRow): WorkSchedule {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    effectiveFrom: row.effective_from,
+    weekdayHours: JSON.parse(row.weekday_hours) as number[],
+    alternateWeekdayHours: row.alternate_weekday_hours
+      ? (JSON.parse(row.alternate_weekday_hours) as number[])
+      : null,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Get the work schedules of several members, oldest first, keyed by user.
+ * Members without a schedule are missing from the map.
+ */
+export async function loadWorkSchedules(
+  db: WorkScheduleDb,
+  organizationId: string,
+  userIds?: string[]
+): Promise<Map<string, WorkSchedule[]>> {
+  if (userIds && userIds.length === 0) {
+    return new Map();
+  }
+
+  const userFilter = userIds
+    ? `AND user_id IN (${userIds.map(() => '?').join(',')})`
+    : '';
+
+  const result = await db
+    .prepare(
+      `SELECT id, user_id, effective_from, weekday_hours,
+              alternate_weekday_hours, created_by, created_at
+       FROM work_schedules
+       WHERE organization_id = ? ${userFilter}
+       ORDER BY effective_from`
+    )
+    .bind(organizationId, ...(userIds ?? []))
+    .all<WorkScheduleRow>();
+
+  const schedules = new Map<string, WorkSchedule[]>();
+
+  for (const row of result.results) {
+    const schedule = mapWorkSchedule(row);
+    schedules.set(schedule.userId, [
+      ...(schedules.get(schedule.userId) ?? []),
+      schedule,
+    ]);
+  }
+
+  return schedules;
+}
+
+/**
+ * Get the work schedules of a member, oldest first.
+ */
+export async function getWorkSchedules(
+  db: WorkScheduleDb,
+  organizationId: string,
+  userId: string
+): Promise<WorkSchedule[]> {
+  const schedules = await loadWorkSchedules(db, organizationId, [userId]);
+
+  return schedules.get(userId) ?? [];
+}
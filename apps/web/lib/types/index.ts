@@ -323,11 +323,43 @@ export interface User {
   updatedAt: Timestamp;
 }
 
+export type EmailDigestFrequency = 'immediate' | 'daily' | 'weekly' | 'none';
+
 export interface NotificationPreferences {
   emailOnApproval?: boolean;
   emailOnRejection?: boolean;
+  emailOnRequestSubmitted?: boolean;
   emailOnTeamAbsence?: boolean;
-  dailyDigest?: boolean;
+  emailOnApprovalNeeded?: boolean;
+  emailOnUpcomingLeave?: boolean;
+  emailDigestFrequency?: EmailDigestFrequency;
+}
+
+/** Preferences of users who have not changed their notification settings */
+export const DEFAULT_NOTIFICATION_PREFERENCES: Required<NotificationPreferences> = {
+  emailOnApproval: true,
+  emailOnRejection: true,
+  emailOnRequestSubmitted: true,
+  emailOnTeamAbsence: false,
+  emailOnApprovalNeeded: true,
+  emailOnUpcomingLeave: true,
+  emailDigestFrequency: 'immediate',
+};
+
+// ============================================================
+// WORK SCHEDULES
+// ============================================================
+
+export interface WorkSchedule {
+  id: string;
+  userId: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  // Working hours per weekday, Monday first (0 = day off)
+  weekdayHours: number[];
+  // Hours of every other week, counted from the week of effectiveFrom
+  alternateWeekdayHours: number[] | null;
+  createdBy: string | null;
+  createdAt: Timestamp;
 }
 
 // ============================================================
@@ -346,9 +378,11 @@ export interface Organization {
   carryoverEnabled: boolean;
   carryoverMaxDays: number;
   carryoverExpiryDate: string; // MM-DD format
+  carryoverReminderDays: number; // 0 = no expiry warning
   sickLeaveAuThreshold: number;
   requireApproval: boolean;
   autoApproveThreshold: number | null;
+  blockBelowMinCoverage: boolean; // Reject requests below team coverage
   memberRole?: MemberRole;
   plan: 'free' | 'starter' | 'professional' | 'enterprise';
   planExpiresAt: Timestamp | null;
@@ -405,6 +439,15 @@ export interface Team {
   members?: TeamMember[];
 }
 
+// A day on which a team would have fewer members working than minCoverage
+export interface CoverageConflict {
+  date: string; // YYYY-MM-DD
+  teamId: string;
+  teamName: string;
+  minCoverage: number;
+  available: number;
+}
+
 export interface TeamMember {
   id: string;
   teamId: string;
@@ -435,7 +478,7 @@ export type LeaveTypeCode =
 export interface LeaveType {
   id: string;
   organizationId: string | null; // null = system default
-  code: LeaveTypeCode;
+  code: string; // LeaveTypeCode for system defaults, chosen by the organization otherwise
   nameEn: string;
   nameDe: string;
   descriptionEn: string | null;
@@ -454,10 +497,25 @@ export interface LeaveType {
   maxCarryoverDays: number | null;
   sortOrder: number;
   isActive: boolean;
+  archivedAt: Timestamp | null;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+// Name of a leave type or holiday in a locale without a name_* column
+export interface Translation {
+  locale: string;
+  name: string;
+  description: string | null;
+}
+
+// Leave type as returned by the API, named in the requester's locale
+export interface LocalizedLeaveType extends LeaveType {
+  name: string;
+  description: string | null;
+  translations?: Translation[]; // Only for the organization's own types
+}
+
 // ============================================================
 // LEAVE BALANCE
 // ============================================================
@@ -478,8 +536,48 @@ export interface LeaveBalance {
   updatedAt: Timestamp;
   // Computed property
   remaining?: number; // entitled + carriedOver + adjustment - used - pending
+  carryover?: CarryoverStatus;
   // Joined data
-  leaveType?: LeaveType;
+  leaveType?: LocalizedLeaveType;
+}
+
+export interface CarryoverStatus {
+  expiresAt: string | null; // YYYY-MM-DD
+  used: number; // carried-over days already taken
+  expiring: number; // carried-over days forfeited unless taken before expiresAt
+  expired: number; // carried-over days forfeited
+  isExpired: boolean;
+}
+
+export type BalanceAdjustmentKind = 'bonus' | 'correction' | 'payout';
+
+export interface BalanceAdjustment {
+  id: string;
+  balanceId: string;
+  userId: string;
+  kind: BalanceAdjustmentKind;
+  days: number; // signed
+  reason: string;
+  createdBy: { id: string; name: string | null } | null;
+  createdAt: Timestamp;
+}
+
+export type BalanceLedgerEntryType =
+  | 'entitlement'
+  | 'carryover'
+  | 'carryover_expired'
+  | 'adjustment'
+  | 'leave';
+
+// One transaction in a balance's history, with the balance after it
+export interface BalanceLedgerEntry {
+  id: string;
+  type: BalanceLedgerEntryType;
+  date: string; // YYYY-MM-DD
+  days: number; // signed
+  balance: number;
+  adjustment?: BalanceAdjustment;
+  leaveRequest?: { id: string; startDate: string; endDate: string };
 }
 
 // ============================================================
@@ -496,6 +594,18 @@ export type LeaveRequestStatus =
 
 export type HalfDayType = 'morning' | 'afternoon' | null;
 
+export type DocumentStatus = 'not_required' | 'provided' | 'missing' | 'overdue';
+
+// Work days of a request per calendar year, e.g. { "2025": 2, "2026": 3 }
+export type WorkDaysByYear = Record<string, number>;
+
+// A year in which a request asks for more days than the balance has left
+export interface BalanceShortfall {
+  year: number;
+  available: number;
+  requested: number;
+}
+
 export interface LeaveRequest {
   id: string;
   organizationId: string;
@@ -506,10 +616,16 @@ export interface LeaveRequest {
   startHalfDay: HalfDayType;
   endHalfDay: HalfDayType;
   workDays: number;
+  workDaysByYear: WorkDaysByYear;
+  exceedsBalance: boolean; // Over the remaining balance (allow_negative types)
   reason: string | null;
   status: LeaveRequestStatus;
   documentUrl: string | null;
   documentUploadedAt: Timestamp | null;
+  documentRequired: boolean;
+  documentDueDate: string | null; // YYYY-MM-DD
+  documentReminderSentAt: Timestamp | null;
+  documentStatus?: DocumentStatus;
   cancelledAt: Timestamp | null;
   cancelledBy: string | null;
   cancellationReason: string | null;
@@ -518,7 +634,7 @@ export interface LeaveRequest {
   updatedAt: Timestamp;
   // Joined data
   user?: User;
-  leaveType?: LeaveType;
+  leaveType?: LocalizedLeaveType;
   approvals?: LeaveApproval[];
 }
 
@@ -577,6 +693,7 @@ export interface PublicHoliday {
   organizationId: string | null; // null = system-wide
   region: string | null; // null = nationwide
   date: string; // YYYY-MM-DD
+  name: string; // In the requester's locale
   nameEn: string;
   nameDe: string;
   type: HolidayType;
@@ -590,32 +707,59 @@ export interface PublicHoliday {
 // AUDIT LOG
 // ============================================================
 
-export type AuditAction =
-  | 'leave_request.created'
-  | 'leave_request.updated'
-  | 'leave_request.submitted'
-  | 'leave_request.approved'
-  | 'leave_request.rejected'
-  | 'leave_request.cancelled'
-  | 'leave_request.withdrawn'
-  | 'user.created'
-  | 'user.updated'
-  | 'organization.created'
-  | 'organization.updated'
-  | 'member.invited'
-  | 'member.joined'
-  | 'member.removed'
-  | 'team.created'
-  | 'team.updated'
-  | 'balance.adjusted';
-
-export type AuditEntityType =
-  | 'leave_request'
-  | 'user'
-  | 'organization'
-  | 'organization_member'
-  | 'team'
-  | 'leave_balance';
+export const AUDIT_ACTIONS = [
+  'leave_request.created',
+  'leave_request.updated',
+  'leave_request.submitted',
+  'leave_request.approved',
+  'leave_request.rejected',
+  'leave_request.cancelled',
+  'leave_request.withdrawn',
+  'user.created',
+  'user.updated',
+  'organization.created',
+  'organization.updated',
+  'member.invited',
+  'member.invite_updated',
+  'member.joined',
+  'member.updated',
+  'member.removed',
+  'team.created',
+  'team.updated',
+  'team.deleted',
+  'team.member_added',
+  'team.member_removed',
+  'balance.adjusted',
+  'holiday.created',
+  'holiday.updated',
+  'holiday.deleted',
+  'leave_type.created',
+  'leave_type.updated',
+  'leave_type.archived',
+  'approval_rule.created',
+  'approval_rule.updated',
+  'approval_rule.deleted',
+  'work_schedule.saved',
+  'work_schedule.deleted',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ENTITY_TYPES = [
+  'leave_request',
+  'user',
+  'organization',
+  'organization_member',
+  'member_invite',
+  'team',
+  'leave_balance',
+  'holiday',
+  'leave_type',
+  'approval_rule',
+  'work_schedule',
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
 
 export interface AuditLog {
   id: string;
@@ -631,6 +775,15 @@ export interface AuditLog {
   createdAt: Timestamp;
 }
 
+export interface AuditLogEntry extends AuditLog {
+  /** The user who made the change */
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+  } | null;
+}
+
 // ============================================================
 // NOTIFICATION
 // ============================================================
@@ -661,6 +814,29 @@ export interface Notification {
   createdAt: Timestamp;
 }
 
+// ============================================================
+// SCHEDULED JOBS
+// ============================================================
+
+export type JobSchedule = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+export type JobRunTrigger = 'cron' | 'manual';
+
+export interface JobRun {
+  id: string;
+  jobName: string;
+  periodKey: string;
+  status: JobRunStatus;
+  trigger: JobRunTrigger;
+  triggeredBy: string | null;
+  attempts: number;
+  processedCount: number;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  startedAt: Timestamp;
+  finishedAt: Timestamp | null;
+}
+
 // ============================================================
 // API TYPES
 // ============================================================
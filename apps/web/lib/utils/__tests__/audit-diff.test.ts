@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+
+import { diffAuditValues, formatAuditValue } from '../audit-diff';
+
+describe('diffAuditValues', () => {
+  it('marks every field as added for a created entity', () => {
+    expect(diffAuditValues(null, { name: 'Support', minCoverage: 2 })).toEqual([
+      { field: 'name', kind: 'added', oldValue: null, newValue: 'Support' },
+      { field: 'minCoverage', kind: 'added', oldValue: null, newValue: 2 },
+    ]);
+  });
+
+  it('marks every field as removed for a deleted entity', () => {
+    expect(diffAuditValues({ date: '2026-12-24' }, null)).toEqual([
+      { field: 'date', kind: 'removed', oldValue: '2026-12-24', newValue: null },
+    ]);
+  });
+
+  it('separates changed from unchanged fields', () => {
+    expect(
+      diffAuditValues(
+        { status: 'pending', level: 1 },
+        { status: 'approved', level: 1, comment: 'Enjoy' }
+      )
+    ).toEqual([
+      { field: 'status', kind: 'changed', oldValue: 'pending', newValue: 'approved' },
+      { field: 'level', kind: 'unchanged', oldValue: 1, newValue: 1 },
+      { field: 'comment', kind: 'added', oldValue: null, newValue: 'Enjoy' },
+    ]);
+  });
+
+  it('treats a value cleared to null as a change', () => {
+    expect(diffAuditValues({ teamId: 'team-1' }, { teamId: null })).toEqual([
+      { field: 'teamId', kind: 'changed', oldValue: 'team-1', newValue: null },
+    ]);
+  });
+
+  it('compares nested values by content', () => {
+    const diff = diffAuditValues(
+      { weekdayHours: [8, 8, 8, 8, 8, 0, 0] },
+      { weekdayHours: [8, 8, 8, 8, 8, 0, 0] }
+    );
+
+    expect(diff[0]?.kind).toBe('unchanged');
+  });
+});
+
+describe('formatAuditValue', () => {
+  it('formats empty, scalar and structured values', () => {
+    expect(formatAuditValue(null)).toBe('—');
+    expect(formatAuditValue(true)).toBe('true');
+    expect(formatAuditValue(0.5)).toBe('0.5');
+    expect(formatAuditValue(['a', 'b'])).toBe('["a","b"]');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  getEasterSunday,
+  isValidHolidayRule,
+  resolveHolidayRule,
+} from '../holiday-rules';
+
+describe('holiday-rules', () => {
+  describe('getEasterSunday', () => {
+    it('should calculate Easter Sunday', () => {
+      expect(getEasterSunday(2024)).toBe('2024-03-31');
+      expect(getEasterSunday(2025)).toBe('2025-04-20');
+      expect(getEasterSunday(2027)).toBe('2027-03-28');
+      expect(getEasterSunday(2038)).toBe('2038-04-25');
+    });
+  });
+
+  describe('resolveHolidayRule', () => {
+    it('should resolve fixed dates', () => {
+      expect(resolveHolidayRule('12-25', 2027)).toBe('2027-12-25');
+      expect(resolveHolidayRule('02-29', 2028)).toBe('2028-02-29');
+      expect(resolveHolidayRule('02-29', 2027)).toBeNull();
+    });
+
+    it('should resolve Easter offsets', () => {
+      expect(resolveHolidayRule('easter', 2027)).toBe('2027-03-28');
+      expect(resolveHolidayRule('easter-2', 2027)).toBe('2027-03-26');
+      expect(resolveHolidayRule('easter+1', 2027)).toBe('2027-03-29');
+      expect(resolveHolidayRule('easter+39', 2027)).toBe('2027-05-06');
+      expect(resolveHolidayRule('easter+60', 2027)).toBe('2027-05-27');
+    });
+
+    it('should resolve Buß- und Bettag as the Wednesday before Nov 23', () => {
+      expect(resolveHolidayRule('wed<11-23', 2024)).toBe('2024-11-20');
+      expect(resolveHolidayRule('wed<11-23', 2025)).toBe('2025-11-19');
+      expect(resolveHolidayRule('wed<11-23', 2027)).toBe('2027-11-17');
+      // Nov 23, 2033 is a Wednesday itself
+      expect(resolveHolidayRule('wed<11-23', 2033)).toBe('2033-11-16');
+      expect(resolveHolidayRule('wed<=11-23', 2033)).toBe('2033-11-23');
+    });
+
+    it('should resolve weekdays on or after a date', () => {
+      // First Monday in May
+      expect(resolveHolidayRule('mon>=05-01', 2027)).toBe('2027-05-03');
+      // Fourth Thursday in November
+      expect(resolveHolidayRule('thu>=11-22', 2027)).toBe('2027-11-25');
+      expect(resolveHolidayRule('sat>05-01', 2027)).toBe('2027-05-08');
+    });
+
+    it('should reject unknown rules', () => {
+      expect(resolveHolidayRule('christmas', 2027)).toBeNull();
+      expect(resolveHolidayRule('fri<13-01', 2027)).toBeNull();
+      expect(isValidHolidayRule('easter+1')).toBe(true);
+      expect(isValidHolidayRule('easter*2')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+
+import { getPeriodKey, isJobDue } from '../job-schedule';
+
+describe('getPeriodKey', () => {
+  const date = new Date('2025-03-14T10:30:00.000Z');
+
+  it('uses the UTC date for daily jobs', () => {
+    expect(getPeriodKey('daily', date)).toBe('2025-03-14');
+    expect(getPeriodKey('daily', new Date('2025-03-14T23:59:59.000Z'))).toBe(
+      '2025-03-14'
+    );
+  });
+
+  it('uses the ISO week for weekly jobs', () => {
+    expect(getPeriodKey('weekly', date)).toBe('2025-W11');
+    // Monday and Sunday of the same ISO week
+    expect(getPeriodKey('weekly', new Date('2025-03-10T00:00:00.000Z'))).toBe(
+      '2025-W11'
+    );
+    expect(getPeriodKey('weekly', new Date('2025-03-16T23:00:00.000Z'))).toBe(
+      '2025-W11'
+    );
+  });
+
+  it('assigns days around new year to the ISO week-numbering year', () => {
+    expect(getPeriodKey('weekly', new Date('2024-12-30T12:00:00.000Z'))).toBe(
+      '2025-W01'
+    );
+    expect(getPeriodKey('weekly', new Date('2021-01-03T12:00:00.000Z'))).toBe(
+      '2020-W53'
+    );
+  });
+
+  it('uses the month and year for monthly and yearly jobs', () => {
+    expect(getPeriodKey('monthly', date)).toBe('2025-03');
+    expect(getPeriodKey('yearly', date)).toBe('2025');
+  });
+});
+
+describe('isJobDue', () => {
+  it('runs jobs without an hour on every tick', () => {
+    expect(isJobDue(undefined, new Date('2025-03-14T00:00:00.000Z'))).toBe(true);
+  });
+
+  it('waits for the configured hour (UTC)', () => {
+    expect(isJobDue(7, new Date('2025-03-14T06:00:00.000Z'))).toBe(false);
+    expect(isJobDue(7, new Date('2025-03-14T07:00:00.000Z'))).toBe(true);
+    expect(isJobDue(7, new Date('2025-03-14T22:00:00.000Z'))).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  calculateWorkDays,
+  calculateWorkDaysByYear,
+  formatWorkDays,
+  validateHalfDays,
+} from '../leave-calculations';
+
+describe('calculateWorkDays', () => {
+  it('counts a single day as half a day with one half selected', () => {
+    expect(calculateWorkDays('2026-03-02', '2026-03-02', [], 'morning', null)).toBe(0.5);
+    expect(calculateWorkDays('2026-03-02', '2026-03-02', [], 'morning', 'morning')).toBe(0.5);
+  });
+
+  it('counts morning and afternoon of a single day as the full day', () => {
+    expect(
+      calculateWorkDays('2026-03-02', '2026-03-02', [], 'morning', 'afternoon')
+    ).toBe(1);
+  });
+
+  it('counts half-day holidays as half a day', () => {
+    const christmasEve = { date: '2026-12-24', isHalfDay: true };
+
+    // Wed Dec 23 - Thu Dec 24, 2026
+    expect(calculateWorkDays('2026-12-23', '2026-12-24', [christmasEve])).toBe(1.5);
+    expect(
+      calculateWorkDays('2026-12-24', '2026-12-24', [christmasEve], 'morning', null)
+    ).toBe(0.5);
+    expect(
+      calculateWorkDays('2026-12-24', '2026-12-24', [christmasEve], 'afternoon', null)
+    ).toBe(0);
+  });
+});
+
+describe('validateHalfDays', () => {
+  it('rejects half days for leave types that do not allow them', () => {
+    expect(
+      validateHalfDays('2026-03-02', '2026-03-02', 'morning', null, false)
+    ).toBe('half_days_not_allowed');
+    expect(validateHalfDays('2026-03-02', '2026-03-06', null, null, false)).toBeNull();
+  });
+
+  it('only allows starting in the afternoon and ending in the morning over several days', () => {
+    expect(
+      validateHalfDays('2026-03-02', '2026-03-06', 'afternoon', 'morning', true)
+    ).toBeNull();
+    expect(
+      validateHalfDays('2026-03-02', '2026-03-06', 'morning', null, true)
+    ).toBe('invalid_start_half_day');
+    expect(
+      validateHalfDays('2026-03-02', '2026-03-06', null, 'afternoon', true)
+    ).toBe('invalid_end_half_day');
+  });
+
+  it('only allows one half or the morning plus the afternoon on a single day', () => {
+    expect(
+      validateHalfDays('2026-03-02', '2026-03-02', 'afternoon', null, true)
+    ).toBeNull();
+    expect(
+      validateHalfDays('2026-03-02', '2026-03-02', null, 'morning', true)
+    ).toBeNull();
+    expect(
+      validateHalfDays('2026-03-02', '2026-03-02', 'morning', 'afternoon', true)
+    ).toBeNull();
+    expect(
+      validateHalfDays('2026-03-02', '2026-03-02', 'morning', 'morning', true)
+    ).toBe('invalid_single_day_half_days');
+    expect(
+      validateHalfDays('2026-03-02', '2026-03-02', 'afternoon', 'morning', true)
+    ).toBe('invalid_single_day_half_days');
+  });
+});
+
+describe('calculateWorkDaysByYear', () => {
+  it('keeps requests within one year in that year', () => {
+    expect(calculateWorkDaysByYear('2026-03-02', '2026-03-06', [])).toEqual({
+      '2026': 5,
+    });
+  });
+
+  it('splits requests spanning New Year by calendar year', () => {
+    // Mon Dec 29, 2025 - Mon Jan 5, 2026 with New Year's Day off
+    expect(
+      calculateWorkDaysByYear('2025-12-29', '2026-01-05', ['2026-01-01'])
+    ).toEqual({ '2025': 3, '2026': 2 });
+  });
+
+  it('applies half days to the first and last year only', () => {
+    const byYear = calculateWorkDaysByYear(
+      '2025-12-31',
+      '2026-01-02',
+      ['2026-01-01'],
+      'afternoon',
+      'morning'
+    );
+
+    expect(byYear).toEqual({ '2025': 0.5, '2026': 0.5 });
+    expect(byYear['2025']! + byYear['2026']!).toBe(
+      calculateWorkDays(
+        '2025-12-31',
+        '2026-01-02',
+        ['2026-01-01'],
+        'afternoon',
+        'morning'
+      )
+    );
+  });
+
+  it('leaves out years without working days', () => {
+    // Fri Dec 31, 2021 - Sun Jan 2, 2022: only the weekend falls in 2022
+    expect(calculateWorkDaysByYear('2021-12-31', '2022-01-02', [])).toEqual({
+      '2021': 1,
+    });
+  });
+});
+
+describe('formatWorkDays', () => {
+  it('should format days per locale', () => {
+    expect(formatWorkDays(1, 'en')).toBe('1 day');
+    expect(formatWorkDays(2.5, 'de')).toBe('2,5 Tage');
+    expect(formatWorkDays(1, 'es')).toBe('1 día');
+    expect(formatWorkDays(3.5, 'es')).toBe('3,5 días');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+
+import { calculateWorkDays } from '../leave-calculations';
+import {
+  getEffectiveSchedule,
+  getScheduledHours,
+  getScheduleSummary,
+  getWorkDayPredicate,
+} from '../work-schedule';
+
+const fullTime = {
+  effectiveFrom: '2000-01-01',
+  weekdayHours: [8, 8, 8, 8, 8, 0, 0],
+  alternateWeekdayHours: null,
+};
+
+// Mon/Wed/Fri from March 2026
+const partTime = {
+  effectiveFrom: '2026-03-02',
+  weekdayHours: [8, 0, 8, 0, 8, 0, 0],
+  alternateWeekdayHours: null,
+};
+
+// Mon-Fri and Mon-Thu in alternating weeks, counted from the week of Wed Mar 4, 2026
+const alternating = {
+  effectiveFrom: '2026-03-04',
+  weekdayHours: [8, 8, 8, 8, 8, 0, 0],
+  alternateWeekdayHours: [8, 8, 8, 8, 0, 0, 0],
+};
+
+describe('getEffectiveSchedule', () => {
+  it('picks the latest schedule starting on or before the day', () => {
+    const schedules = [fullTime, partTime];
+
+    expect(getEffectiveSchedule(schedules, '2026-03-01')).toBe(fullTime);
+    expect(getEffectiveSchedule(schedules, '2026-03-02')).toBe(partTime);
+    expect(getEffectiveSchedule([partTime], '2026-01-01')).toBeNull();
+  });
+});
+
+describe('getScheduledHours', () => {
+  it('falls back to Monday to Friday without a schedule', () => {
+    expect(getScheduledHours([], '2026-03-06')).toBe(8);
+    expect(getScheduledHours([], '2026-03-07')).toBe(0);
+  });
+
+  it('alternates weeks counted from the effective week', () => {
+    expect(getScheduledHours([alternating], '2026-03-06')).toBe(8);
+    expect(getScheduledHours([alternating], '2026-03-13')).toBe(0);
+    expect(getScheduledHours([alternating], '2026-03-20')).toBe(8);
+  });
+});
+
+describe('calculateWorkDays with a work schedule', () => {
+  it('only counts the scheduled days', () => {
+    // Mon Mar 2 - Fri Mar 6, 2026
+    expect(
+      calculateWorkDays(
+        '2026-03-02',
+        '2026-03-06',
+        [],
+        null,
+        null,
+        getWorkDayPredicate([fullTime, partTime])
+      )
+    ).toBe(3);
+  });
+
+  it('applies each schedule to its own period', () => {
+    // Wed Feb 25 - Wed Mar 4, 2026: Wed-Fri full-time, then Mon and Wed
+    expect(
+      calculateWorkDays(
+        '2026-02-25',
+        '2026-03-04',
+        [],
+        null,
+        null,
+        getWorkDayPredicate([fullTime, partTime])
+      )
+    ).toBe(5);
+  });
+});
+
+describe('getScheduleSummary', () => {
+  it('averages alternating weeks', () => {
+    expect(getScheduleSummary(alternating)).toEqual({
+      weeklyHours: 36,
+      workDaysPerWeek: 4.5,
+    });
+  });
+});
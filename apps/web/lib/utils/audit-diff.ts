@@ -0,0 +1,65 @@
+/**
+ * Audit Log Diff
+ *
+ * Lines up the old and new values of an audit log entry field by field,
+ * so the log viewer can show what an action changed.
+ */
+
+export type AuditValueChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface AuditValueChange {
+  field: string;
+  kind: AuditValueChangeKind;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+const isSet = (values: Record<string, unknown>, field: string) =>
+  field in values && values[field] !== null && values[field] !== undefined;
+
+/**
+ * Compare the old and new values of an audit log entry. Fields keep the
+ * order they first appear in, old values first.
+ */
+export function diffAuditValues(
+  oldValues: Record<string, unknown> | null,
+  newValues: Record<string, unknown> | null
+): AuditValueChange[] {
+  const before = oldValues ?? {};
+  const after = newValues ?? {};
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return fields.map((field) => {
+    const oldValue = before[field] ?? null;
+    const newValue = after[field] ?? null;
+    let kind: AuditValueChangeKind;
+
+    if (!isSet(before, field) && isSet(after, field)) {
+      kind = 'added';
+    } else if (isSet(before, field) && !isSet(after, field)) {
+      // A value cleared to null is a change; a missing one was removed
+      kind = field in after ? 'changed' : 'removed';
+    } else if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      kind = 'changed';
+    } else {
+      kind = 'unchanged';
+    }
+
+    return { field, kind, oldValue, newValue };
+  });
+}
+
+/**
+ * Display form of a logged value.
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+}
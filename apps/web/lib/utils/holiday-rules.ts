@@ -0,0 +1,143 @@
+/**
+ * Holiday Rule Utilities
+ *
+ * Resolves the recurrence rules stored in `public_holidays.recurrence_rule`
+ * into concrete dates for a given year. Supported rule formats:
+ *
+ * - `MM-DD`            fixed date, e.g. `12-25` for Christmas Day
+ * - `easter[+-N]`      offset from Easter Sunday, e.g. `easter+1`
+ * - `DOW<MM-DD`        last weekday strictly before a date,
+ *                      e.g. `wed<11-23` for Buß- und Bettag
+ * - `DOW<=MM-DD`       last weekday on or before a date
+ * - `DOW>MM-DD`        first weekday strictly after a date
+ * - `DOW>=MM-DD`       first weekday on or after a date,
+ *                      e.g. `mon>=05-01` for the first Monday in May
+ *
+ * DOW is one of mon, tue, wed, thu, fri, sat, sun.
+ */
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+const FIXED_RULE = /^(\d{2})-(\d{2})$/;
+const EASTER_RULE = /^easter(?:([+-])(\d+))?$/;
+const WEEKDAY_RULE = /^(mon|tue|wed|thu|fri|sat|sun)(<=|>=|<|>)(\d{2})-(\d{2})$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function utcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  // Reject overflowing dates such as 02-30
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Calculate Easter Sunday for a year (Gregorian calendar).
+ * Uses the anonymous Gregorian algorithm (Meeus/Jones/Butcher).
+ *
+ * @param year - Year to calculate for
+ * @returns Easter Sunday in YYYY-MM-DD format
+ */
+export function getEasterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return toDateString(new Date(Date.UTC(year, month - 1, day)));
+}
+
+/**
+ * Check whether a recurrence rule can be resolved.
+ *
+ * @param rule - Recurrence rule
+ * @returns true if the rule uses a supported format
+ */
+export function isValidHolidayRule(rule: string): boolean {
+  return resolveHolidayRule(rule, 2000) !== null;
+}
+
+/**
+ * Resolve a recurrence rule to a concrete date.
+ *
+ * @param rule - Recurrence rule (see module docs for the supported formats)
+ * @param year - Year to resolve the rule for
+ * @returns Date in YYYY-MM-DD format, or null if the rule is invalid
+ *
+ * @example
+ * resolveHolidayRule('easter-2', 2027) // '2027-03-26' (Good Friday)
+ * resolveHolidayRule('wed<11-23', 2027) // '2027-11-17' (Buß- und Bettag)
+ */
+export function resolveHolidayRule(rule: string, year: number): string | null {
+  const normalized = rule.trim().toLowerCase();
+
+  const fixed = FIXED_RULE.exec(normalized);
+
+  if (fixed) {
+    const date = utcDate(year, Number(fixed[1]), Number(fixed[2]));
+    return date ? toDateString(date) : null;
+  }
+
+  const easter = EASTER_RULE.exec(normalized);
+
+  if (easter) {
+    const sign = easter[1] === '-' ? -1 : 1;
+    const offset = easter[2] ? sign * Number(easter[2]) : 0;
+    const easterSunday = new Date(`${getEasterSunday(year)}T00:00:00.000Z`);
+
+    return toDateString(new Date(easterSunday.getTime() + offset * DAY_MS));
+  }
+
+  const weekday = WEEKDAY_RULE.exec(normalized);
+
+  if (weekday) {
+    const targetDay = WEEKDAYS.indexOf(weekday[1] as (typeof WEEKDAYS)[number]);
+    const operator = weekday[2];
+    const anchor = utcDate(year, Number(weekday[3]), Number(weekday[4]));
+
+    if (!anchor) {
+      return null;
+    }
+
+    const anchorDay = anchor.getUTCDay();
+    let offset: number;
+
+    if (operator === '<' || operator === '<=') {
+      // Walk backwards to the target weekday
+      offset = -((anchorDay - targetDay + 7) % 7);
+
+      if (operator === '<' && offset === 0) {
+        offset = -7;
+      }
+    } else {
+      // Walk forwards to the target weekday
+      offset = (targetDay - anchorDay + 7) % 7;
+
+      if (operator === '>' && offset === 0) {
+        offset = 7;
+      }
+    }
+
+    return toDateString(new Date(anchor.getTime() + offset * DAY_MS));
+  }
+
+  return null;
+}
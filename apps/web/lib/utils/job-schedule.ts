@@ -0,0 +1,54 @@
+import type { JobSchedule } from '~/lib/types';
+
+/**
+ * Job Scheduling Helpers for ZeitPal
+ *
+ * The cron trigger fires every hour; each job runs at most once per
+ * period of its schedule. All computations use UTC, like the cron itself.
+ */
+
+/**
+ * Get the ISO 8601 week-numbering year and week of a date (UTC).
+ */
+function getIsoWeek(date: Date): { year: number; week: number } {
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  // Thursday of the current week decides the year
+  const dayOfWeek = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - dayOfWeek);
+
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+
+  return { year: day.getUTCFullYear(), week };
+}
+
+/**
+ * Get the key of the period a date falls into, e.g. '2025-03-14' (daily),
+ * '2025-W11' (weekly), '2025-03' (monthly) or '2025' (yearly).
+ */
+export function getPeriodKey(schedule: JobSchedule, date: Date): string {
+  const isoDate = date.toISOString();
+
+  switch (schedule) {
+    case 'daily':
+      return isoDate.slice(0, 10);
+    case 'weekly': {
+      const { year, week } = getIsoWeek(date);
+      return `${year}-W${String(week).padStart(2, '0')}`;
+    }
+    case 'monthly':
+      return isoDate.slice(0, 7);
+    case 'yearly':
+      return isoDate.slice(0, 4);
+  }
+}
+
+/**
+ * Check whether a job is due at the given time. Jobs run on the first
+ * cron tick of their period at or after their hour (UTC).
+ */
+export function isJobDue(hour: number | undefined, date: Date): boolean {
+  return date.getUTCHours() >= (hour ?? 0);
+}
@@ -10,7 +10,8 @@ import {
   parseISO,
 } from 'date-fns';
 
-import type { HalfDayType, LeaveBalance } from '~/lib/types';
+import type { Locale } from '~/lib/i18n/locales.config';
+import type { HalfDayType, LeaveBalance, WorkDaysByYear } from '~/lib/types';
 
 /**
  * Leave Calculation Utilities
@@ -19,15 +20,80 @@ import type { HalfDayType, LeaveBalance } from '~/lib/types';
  * and carryover rules.
  */
 
+/**
+ * A public or company holiday; half-day holidays (e.g. a company closing
+ * at noon on Dec 24) are off in the afternoon only.
+ */
+export interface HolidayDay {
+  date: string;
+  isHalfDay: boolean;
+}
+
+export const HALF_DAY_ERRORS = [
+  'half_days_not_allowed',
+  'invalid_single_day_half_days',
+  'invalid_start_half_day',
+  'invalid_end_half_day',
+] as const;
+
+export type HalfDayError = (typeof HALF_DAY_ERRORS)[number];
+
+/**
+ * Check the half-day options of a request. A single day is either one
+ * half, or the morning plus the afternoon (the full day). A request
+ * spanning several days can only start in the afternoon of its first day
+ * and end in the morning of its last day.
+ *
+ * @param allowHalfDays - leave_types.allow_half_days of the leave type
+ * @returns The broken rule, or null if the combination is valid
+ */
+export function validateHalfDays(
+  startDate: string,
+  endDate: string,
+  startHalfDay: HalfDayType,
+  endHalfDay: HalfDayType,
+  allowHalfDays: boolean,
+): HalfDayError | null {
+  if (!startHalfDay && !endHalfDay) {
+    return null;
+  }
+
+  if (!allowHalfDays) {
+    return 'half_days_not_allowed';
+  }
+
+  if (startDate === endDate) {
+    const isOneHalf = !startHalfDay || !endHalfDay;
+    const isFullDay = startHalfDay === 'morning' && endHalfDay === 'afternoon';
+
+    return isOneHalf || isFullDay ? null : 'invalid_single_day_half_days';
+  }
+
+  if (startHalfDay === 'morning') {
+    return 'invalid_start_half_day';
+  }
+
+  if (endHalfDay === 'afternoon') {
+    return 'invalid_end_half_day';
+  }
+
+  return null;
+}
+
 /**
  * Calculate the number of working days between two dates.
- * Excludes weekends and public holidays.
+ * Excludes weekends (or the employee's days off) and public holidays;
+ * half-day holidays count as half a day.
  *
  * @param startDate - Start date in YYYY-MM-DD format
  * @param endDate - End date in YYYY-MM-DD format
- * @param holidays - Array of holiday dates in YYYY-MM-DD format
+ * @param holidays - Holiday dates in YYYY-MM-DD format, or holidays with
+ *   their half-day flag
  * @param startHalfDay - Half day for start date (morning/afternoon/null)
- * @param endHalfDay - Half day for end date (morning/afternoon/null)
+ * @param endHalfDay - Half day for end date (morning/afternoon/null).
+ *   On a single day, morning plus afternoon is the full day
+ * @param isWorkDay - Whether the employee works on a day, e.g. from their
+ *   work schedule (default: Monday to Friday)
  * @returns Number of working days (can be decimal for half-days)
  *
  * @example
@@ -37,9 +103,10 @@ import type { HalfDayType, LeaveBalance } from '~/lib/types';
 export function calculateWorkDays(
   startDate: string,
   endDate: string,
-  holidays: string[],
+  holidays: Array<string | HolidayDay>,
   startHalfDay: HalfDayType = null,
   endHalfDay: HalfDayType = null,
+  isWorkDay: (day: Date) => boolean = (day) => !isWeekend(day),
 ): number {
   const start = parseISO(startDate);
   const end = parseISO(endDate);
@@ -48,7 +115,17 @@ export function calculateWorkDays(
     return 0;
   }
 
-  const holidaySet = new Set(holidays);
+  const holidaySet = new Set<string>();
+  const halfDayHolidaySet = new Set<string>();
+
+  for (const holiday of holidays) {
+    if (typeof holiday === 'string') {
+      holidaySet.add(holiday);
+    } else {
+      (holiday.isHalfDay ? halfDayHolidaySet : holidaySet).add(holiday.date);
+    }
+  }
+
   const days = eachDayOfInterval({ start, end });
 
   let workDays = 0;
@@ -57,8 +134,8 @@ export function calculateWorkDays(
     const day = days[i]!;
     const dateStr = format(day, 'yyyy-MM-dd');
 
-    // Skip weekends
-    if (isWeekend(day)) {
+    // Skip weekends and the employee's days off
+    if (!isWorkDay(day)) {
       continue;
     }
 
@@ -71,28 +148,70 @@ export function calculateWorkDays(
     const isFirstDay = i === 0;
     const isLastDay = i === days.length - 1;
     const isSingleDay = days.length === 1;
+    let halfDay: HalfDayType = null;
 
     if (isSingleDay) {
-      // Single day request
-      if (startHalfDay || endHalfDay) {
-        workDays += 0.5;
-      } else {
-        workDays += 1;
-      }
-    } else if (isFirstDay && startHalfDay) {
-      // First day is half day
-      workDays += 0.5;
-    } else if (isLastDay && endHalfDay) {
-      // Last day is half day
-      workDays += 0.5;
+      // Morning and afternoon of the same day make up the full day
+      halfDay =
+        startHalfDay && endHalfDay && startHalfDay !== endHalfDay
+          ? null
+          : (startHalfDay ?? endHalfDay);
+    } else if (isFirstDay) {
+      halfDay = startHalfDay;
+    } else if (isLastDay) {
+      halfDay = endHalfDay;
+    }
+
+    if (halfDayHolidaySet.has(dateStr)) {
+      // Only the morning of a half-day holiday is worked
+      workDays += halfDay === 'afternoon' ? 0 : 0.5;
     } else {
-      workDays += 1;
+      workDays += halfDay ? 0.5 : 1;
     }
   }
 
   return workDays;
 }
 
+/**
+ * Calculate the working days between two dates per calendar year, so a
+ * request spanning New Year can be debited from both years' balances.
+ * The values add up to calculateWorkDays() for the same range.
+ *
+ * @example
+ * calculateWorkDaysByYear('2025-12-29', '2026-01-02', ['2026-01-01'])
+ * // Returns { '2025': 3, '2026': 1 }
+ */
+export function calculateWorkDaysByYear(
+  startDate: string,
+  endDate: string,
+  holidays: Array<string | HolidayDay>,
+  startHalfDay: HalfDayType = null,
+  endHalfDay: HalfDayType = null,
+  isWorkDay?: (day: Date) => boolean,
+): WorkDaysByYear {
+  const startYear = parseISO(startDate).getFullYear();
+  const endYear = parseISO(endDate).getFullYear();
+  const workDaysByYear: WorkDaysByYear = {};
+
+  for (let year = startYear; year <= endYear; year++) {
+    const workDays = calculateWorkDays(
+      year === startYear ? startDate : `${year}-01-01`,
+      year === endYear ? endDate : `${year}-12-31`,
+      holidays,
+      year === startYear ? startHalfDay : null,
+      year === endYear ? endHalfDay : null,
+      isWorkDay,
+    );
+
+    if (workDays > 0) {
+      workDaysByYear[year] = workDays;
+    }
+  }
+
+  return workDaysByYear;
+}
+
 /**
  * Calculate pro-rata entitlement for employees who started mid-year.
  * German law requires proportional leave calculation based on months worked.
@@ -268,10 +387,10 @@ export function dateRangesOverlap(
  * Format work days for display (handles half days).
  *
  * @param days - Number of work days
- * @param locale - Locale for formatting ('en' or 'de')
+ * @param locale - Locale for formatting
  * @returns Formatted string
  */
-export function formatWorkDays(days: number, locale: 'en' | 'de' = 'en'): string {
+export function formatWorkDays(days: number, locale: Locale = 'en'): string {
   const isHalf = days % 1 !== 0;
   const fullDays = Math.floor(days);
 
@@ -282,6 +401,13 @@ export function formatWorkDays(days: number, locale: 'en' | 'de' = 'en'): string
     return `${fullDays} Tage`;
   }
 
+  if (locale === 'es') {
+    if (days === 0.5) return '0,5 días';
+    if (days === 1) return '1 día';
+    if (isHalf) return `${days.toString().replace('.', ',')} días`;
+    return `${fullDays} días`;
+  }
+
   if (days === 0.5) return '0.5 days';
   if (days === 1) return '1 day';
   return `${days} days`;
@@ -0,0 +1,122 @@
+import {
+  differenceInCalendarDays,
+  format,
+  getISODay,
+  parseISO,
+  startOfISOWeek,
+} from 'date-fns';
+
+import type { WorkSchedule } from '~/lib/types';
+
+/**
+ * Work Schedule Helpers for ZeitPal
+ *
+ * A member's schedule lists the working hours per weekday (Monday first),
+ * optionally alternating with a second week. Schedules are effective-dated:
+ * the latest one starting on or before a day applies to it. Members
+ * without a schedule work Monday to Friday.
+ */
+
+export const DEFAULT_WEEKDAY_HOURS = [8, 8, 8, 8, 8, 0, 0];
+
+type ScheduleLike = Pick<
+  WorkSchedule,
+  'effectiveFrom' | 'weekdayHours' | 'alternateWeekdayHours'
+>;
+
+const toDateString = (date: Date | string) =>
+  typeof date === 'string' ? date : format(date, 'yyyy-MM-dd');
+
+/**
+ * Get the schedule in effect on a day, or null if none applies yet.
+ */
+export function getEffectiveSchedule<T extends ScheduleLike>(
+  schedules: T[],
+  date: Date | string
+): T | null {
+  const day = toDateString(date);
+  let effective: T | null = null;
+
+  for (const schedule of schedules) {
+    if (
+      schedule.effectiveFrom <= day &&
+      (!effective || schedule.effectiveFrom > effective.effectiveFrom)
+    ) {
+      effective = schedule;
+    }
+  }
+
+  return effective;
+}
+
+/**
+ * Get the hours a member is scheduled to work on a day.
+ */
+export function getScheduledHours(
+  schedules: ScheduleLike[],
+  date: Date | string
+): number {
+  const day = typeof date === 'string' ? parseISO(date) : date;
+  const weekdayIndex = getISODay(day) - 1;
+  const schedule = getEffectiveSchedule(schedules, day);
+
+  if (!schedule) {
+    return DEFAULT_WEEKDAY_HOURS[weekdayIndex]!;
+  }
+
+  // Weeks are counted from the (ISO) week the schedule became effective
+  const weeksSinceStart = Math.round(
+    differenceInCalendarDays(
+      startOfISOWeek(day),
+      startOfISOWeek(parseISO(schedule.effectiveFrom))
+    ) / 7
+  );
+  const hours =
+    schedule.alternateWeekdayHours && weeksSinceStart % 2 === 1
+      ? schedule.alternateWeekdayHours
+      : schedule.weekdayHours;
+
+  return hours[weekdayIndex] ?? 0;
+}
+
+/**
+ * Check whether a member is scheduled to work on a day.
+ */
+export function isScheduledWorkDay(
+  schedules: ScheduleLike[],
+  date: Date | string
+): boolean {
+  return getScheduledHours(schedules, date) > 0;
+}
+
+/**
+ * Build the `isWorkDay` callback of calculateWorkDays from a member's
+ * schedules.
+ */
+export function getWorkDayPredicate(
+  schedules: ScheduleLike[]
+): (day: Date) => boolean {
+  return (day) => isScheduledWorkDay(schedules, day);
+}
+
+/**
+ * Get the average weekly hours and working days of a schedule.
+ */
+export function getScheduleSummary(
+  schedule: Pick<ScheduleLike, 'weekdayHours' | 'alternateWeekdayHours'>
+): { weeklyHours: number; workDaysPerWeek: number } {
+  const weeks = schedule.alternateWeekdayHours
+    ? [schedule.weekdayHours, schedule.alternateWeekdayHours]
+    : [schedule.weekdayHours];
+
+  const total = (pick: (hours: number) => number) =>
+    weeks.reduce(
+      (sum, week) => sum + week.reduce((weekSum, hours) => weekSum + pick(hours), 0),
+      0
+    ) / weeks.length;
+
+  return {
+    weeklyHours: Math.round(total((hours) => hours) * 100) / 100,
+    workDaysPerWeek: total((hours) => (hours > 0 ? 1 : 0)),
+  };
+}
@@ -0,0 +1,170 @@
+-- ZeitPal Recurring Holidays Migration
+-- Replaces the yearly 2024-2026 holiday rows with recurrence rules
+-- that are expanded for any year by the holiday engine
+-- ============================================================
+
+-- Recurring holidays store the date the rule takes effect in `date` and
+-- when the holiday falls each year in `recurrence_rule`:
+--   'MM-DD'       fixed date
+--   'easter+N'    offset from Easter Sunday (also 'easter' and 'easter-N')
+--   'DOW<MM-DD'   last weekday before a date, e.g. 'wed<11-23'
+--   'DOW>=MM-DD'  first weekday on or after a date, e.g. 'mon>=05-01'
+--                 ('DOW<=MM-DD' and 'DOW>MM-DD' work the same way)
+
+-- ============================================================
+-- REMOVE YEARLY SYSTEM HOLIDAYS
+-- Company holidays (organization_id IS NOT NULL) are kept
+-- ============================================================
+
+DELETE FROM public_holidays WHERE organization_id IS NULL;
+
+-- ============================================================
+-- GERMANY (DE): NATIONWIDE
+-- ============================================================
+
+INSERT OR IGNORE INTO public_holidays (id, country, bundesland, date, name_en, name_de, type, is_recurring, recurrence_rule) VALUES
+('ph_de_neujahr', 'DE', NULL, '2000-01-01', 'New Year''s Day', 'Neujahr', 'public', 1, '01-01'),
+('ph_de_karfreitag', 'DE', NULL, '2000-01-01', 'Good Friday', 'Karfreitag', 'public', 1, 'easter-2'),
+('ph_de_ostermontag', 'DE', NULL, '2000-01-01', 'Easter Monday', 'Ostermontag', 'public', 1, 'easter+1'),
+('ph_de_tag_arbeit', 'DE', NULL, '2000-01-01', 'Labour Day', 'Tag der Arbeit', 'public', 1, '05-01'),
+('ph_de_himmelfahrt', 'DE', NULL, '2000-01-01', 'Ascension Day', 'Christi Himmelfahrt', 'public', 1, 'easter+39'),
+('ph_de_pfingstmontag', 'DE', NULL, '2000-01-01', 'Whit Monday', 'Pfingstmontag', 'public', 1, 'easter+50'),
+('ph_de_einheit', 'DE', NULL, '2000-01-01', 'German Unity Day', 'Tag der Deutschen Einheit', 'public', 1, '10-03'),
+('ph_de_weihnachten1', 'DE', NULL, '2000-01-01', 'Christmas Day', '1. Weihnachtstag', 'public', 1, '12-25'),
+('ph_de_weihnachten2', 'DE', NULL, '2000-01-01', 'Boxing Day', '2. Weihnachtstag', 'public', 1, '12-26');
+
+-- ============================================================
+-- GERMANY (DE): STATE-SPECIFIC
+-- ============================================================
+
+INSERT OR IGNORE INTO public_holidays (id, country, bundesland, date, name_en, name_de, type, is_recurring, recurrence_rule) VALUES
+('ph_de_bw_drei_koenige', 'DE', 'BW', '2000-01-01', 'Epiphany', 'Heilige Drei Könige', 'public', 1, '01-06'),
+('ph_de_bw_fronleichnam', 'DE', 'BW', '2000-01-01', 'Corpus Christi', 'Fronleichnam', 'public', 1, 'easter+60'),
+('ph_de_bw_allerheiligen', 'DE', 'BW', '2000-01-01', 'All Saints'' Day', 'Allerheiligen', 'public', 1, '11-01'),
+('ph_de_by_drei_koenige', 'DE', 'BY', '2000-01-01', 'Epiphany', 'Heilige Drei Könige', 'public', 1, '01-06'),
+('ph_de_by_fronleichnam', 'DE', 'BY', '2000-01-01', 'Corpus Christi', 'Fronleichnam', 'public', 1, 'easter+60'),
+('ph_de_by_maria_himmelfahrt', 'DE', 'BY', '2000-01-01', 'Assumption Day', 'Mariä Himmelfahrt', 'public', 1, '08-15'),
+('ph_de_by_allerheiligen', 'DE', 'BY', '2000-01-01', 'All Saints'' Day', 'Allerheiligen', 'public', 1, '11-01'),
+('ph_de_be_frauentag', 'DE', 'BE', '2019-01-01', 'International Women''s Day', 'Internationaler Frauentag', 'public', 1, '03-08'),
+('ph_de_bb_reformation', 'DE', 'BB', '2000-01-01', 'Reformation Day', 'Reformationstag', 'public', 1, '10-31'),
+('ph_de_hb_reformation', 'DE', 'HB', '2018-01-01', 'Reformation Day', 'Reformationstag', 'public', 1, '10-31'),
+('ph_de_hh_reformation', 'DE', 'HH', '2018-01-01', 'Reformation Day', 'Reformationstag', 'public', 1, '10-31'),
+('ph_de_he_fronleichnam', 'DE', 'HE', '2000-01-01', 'Corpus Christi', 'Fronleichnam', 'public', 1, 'easter+60'),
+('ph_de_mv_frauentag', 'DE', 'MV', '2023-01-01', 'International Women''s Day', 'Internationaler Frauentag', 'public', 1, '03-08'),
+('ph_de_mv_reformation', 'DE', 'MV', '2000-01-01', 'Reformation Day', 'Reformationstag', 'public', 1, '10-31'),
+('ph_de_ni_reformation', 'DE', 'NI', '2018-01-01', 'Reformation Day', 'Reformationstag', 'public', 1, '10-31'),
+('ph_de_nw_fronleichnam', 'DE', 'NW', '2000-01-01', 'Corpus Christi', 'Fronleichnam', 'public', 1, 'easter+60'),
+('ph_de_nw_allerheiligen', 'DE', 'NW', '2000-01-01', 'All Saints'' Day', 'Allerheiligen', 'public', 1, '11-01'),
+('ph_de_rp_fronleichnam', 'DE', 'RP', '2000-01-01', 'Corpus Christi', 'Fronleichnam', 'public', 1, 'easter+60'),
+('ph_de_rp_allerheiligen', 'DE', 'RP', '2000-01-01', 'All Saints'' Day', 'Allerheiligen', 'public', 1, '11-01'),
+('ph_de_sl_fronleichnam', 'DE', 'SL', '2000-01-01', 'Corpus Christi', 'Fronleichnam', 'public', 1, 'easter+60'),
+('ph_de_sl_maria_himmelfahrt', 'DE', 'SL', '2000-01-01', 'Assumption Day', 'Mariä Himmelfahrt', 'public', 1, '08-15'),
+('ph_de_sl_allerheiligen', 'DE', 'SL', '2000-01-01', 'All Saints'' Day', 'Allerheiligen', 'public', 1, '11-01'),
+('ph_de_sn_reformation', 'DE', 'SN', '2000-01-01', 'Reformation Day', 'Reformationstag', 'public', 1, '10-31'),
+('ph_de_sn_busstag', 'DE', 'SN', '2000-01-01', 'Repentance Day', 'Buß- und Bettag', 'public', 1, 'wed<11-23'),
+('ph_de_st_drei_koenige', 'DE', 'ST', '2000-01-01', 'Epiphany', 'Heilige Drei Könige', 'public', 1, '01-06'),
+('ph_de_st_reformation', 'DE', 'ST', '2000-01-01', 'Reformation Day', 'Reformationstag', 'public', 1, '10-31'),
+('ph_de_sh_reformation', 'DE', 'SH', '2018-01-01', 'Reformation Day', 'Reformationstag', 'public', 1, '10-31'),
+('ph_de_th_kindertag', 'DE', 'TH', '2019-01-01', 'World Children''s Day', 'Weltkindertag', 'public', 1, '09-20'),
+('ph_de_th_reformation', 'DE', 'TH', '2000-01-01', 'Reformation Day', 'Reformationstag', 'public', 1, '10-31');
+
+-- ============================================================
+-- AUSTRIA (AT): NATIONWIDE
+-- ============================================================
+
+INSERT OR IGNORE INTO public_holidays (id, country, bundesland, date, name_en, name_de, type, is_recurring, recurrence_rule) VALUES
+('ph_at_neujahr', 'AT', NULL, '2000-01-01', 'New Year''s Day', 'Neujahr', 'public', 1, '01-01'),
+('ph_at_heilige_drei_koenige', 'AT', NULL, '2000-01-01', 'Epiphany', 'Heilige Drei Könige', 'public', 1, '01-06'),
+('ph_at_ostermontag', 'AT', NULL, '2000-01-01', 'Easter Monday', 'Ostermontag', 'public', 1, 'easter+1'),
+('ph_at_staatsfeiertag', 'AT', NULL, '2000-01-01', 'National Holiday', 'Staatsfeiertag', 'public', 1, '05-01'),
+('ph_at_himmelfahrt', 'AT', NULL, '2000-01-01', 'Ascension Day', 'Christi Himmelfahrt', 'public', 1, 'easter+39'),
+('ph_at_pfingstmontag', 'AT', NULL, '2000-01-01', 'Whit Monday', 'Pfingstmontag', 'public', 1, 'easter+50'),
+('ph_at_fronleichnam', 'AT', NULL, '2000-01-01', 'Corpus Christi', 'Fronleichnam', 'public', 1, 'easter+60'),
+('ph_at_maria_himmelfahrt', 'AT', NULL, '2000-01-01', 'Assumption Day', 'Mariä Himmelfahrt', 'public', 1, '08-15'),
+('ph_at_nationalfeiertag', 'AT', NULL, '2000-01-01', 'Austrian National Day', 'Nationalfeiertag', 'public', 1, '10-26'),
+('ph_at_allerheiligen', 'AT', NULL, '2000-01-01', 'All Saints'' Day', 'Allerheiligen', 'public', 1, '11-01'),
+('ph_at_maria_empfaengnis', 'AT', NULL, '2000-01-01', 'Immaculate Conception', 'Mariä Empfängnis', 'public', 1, '12-08'),
+('ph_at_christtag', 'AT', NULL, '2000-01-01', 'Christmas Day', 'Christtag', 'public', 1, '12-25'),
+('ph_at_stefanitag', 'AT', NULL, '2000-01-01', 'St. Stephen''s Day', 'Stefanitag', 'public', 1, '12-26');
+
+-- ============================================================
+-- SWITZERLAND (CH): NATIONWIDE
+-- ============================================================
+
+INSERT OR IGNORE INTO public_holidays (id, country, bundesland, date, name_en, name_de, type, is_recurring, recurrence_rule) VALUES
+('ph_ch_neujahr', 'CH', NULL, '2000-01-01', 'New Year''s Day', 'Neujahr', 'public', 1, '01-01'),
+('ph_ch_auffahrt', 'CH', NULL, '2000-01-01', 'Ascension Day', 'Auffahrt', 'public', 1, 'easter+39'),
+('ph_ch_bundesfeiertag', 'CH', NULL, '2000-01-01', 'Swiss National Day', 'Bundesfeiertag', 'public', 1, '08-01'),
+('ph_ch_weihnachten', 'CH', NULL, '2000-01-01', 'Christmas Day', 'Weihnachten', 'public', 1, '12-25');
+
+-- ============================================================
+-- UNITED KINGDOM (GB)
+-- ============================================================
+
+INSERT OR IGNORE INTO public_holidays (id, country, bundesland, date, name_en, name_de, type, is_recurring, recurrence_rule) VALUES
+('ph_gb_new_year', 'GB', NULL, '2000-01-01', 'New Year''s Day', 'Neujahr', 'public', 1, '01-01'),
+('ph_gb_good_friday', 'GB', NULL, '2000-01-01', 'Good Friday', 'Karfreitag', 'public', 1, 'easter-2'),
+('ph_gb_early_may', 'GB', NULL, '2000-01-01', 'Early May Bank Holiday', 'Bankfeiertag Anfang Mai', 'public', 1, 'mon>=05-01'),
+('ph_gb_spring', 'GB', NULL, '2000-01-01', 'Spring Bank Holiday', 'Bankfeiertag im Frühling', 'public', 1, 'mon<06-01'),
+('ph_gb_christmas', 'GB', NULL, '2000-01-01', 'Christmas Day', '1. Weihnachtstag', 'public', 1, '12-25'),
+('ph_gb_boxing_day', 'GB', NULL, '2000-01-01', 'Boxing Day', '2. Weihnachtstag', 'public', 1, '12-26'),
+('ph_gb_eng_easter_monday', 'GB', 'ENG', '2000-01-01', 'Easter Monday', 'Ostermontag', 'public', 1, 'easter+1'),
+('ph_gb_eng_summer', 'GB', 'ENG', '2000-01-01', 'Summer Bank Holiday', 'Bankfeiertag im Sommer', 'public', 1, 'mon<09-01'),
+('ph_gb_wls_easter_monday', 'GB', 'WLS', '2000-01-01', 'Easter Monday', 'Ostermontag', 'public', 1, 'easter+1'),
+('ph_gb_wls_summer', 'GB', 'WLS', '2000-01-01', 'Summer Bank Holiday', 'Bankfeiertag im Sommer', 'public', 1, 'mon<09-01'),
+('ph_gb_nir_easter_monday', 'GB', 'NIR', '2000-01-01', 'Easter Monday', 'Ostermontag', 'public', 1, 'easter+1'),
+('ph_gb_nir_summer', 'GB', 'NIR', '2000-01-01', 'Summer Bank Holiday', 'Bankfeiertag im Sommer', 'public', 1, 'mon<09-01'),
+('ph_gb_nir_st_patrick', 'GB', 'NIR', '2000-01-01', 'St. Patrick''s Day', 'St. Patrick''s Day', 'public', 1, '03-17'),
+('ph_gb_nir_boyne', 'GB', 'NIR', '2000-01-01', 'Battle of the Boyne', 'Schlacht am Boyne', 'public', 1, '07-12'),
+('ph_gb_sct_second_january', 'GB', 'SCT', '2000-01-01', '2nd January', '2. Januar', 'public', 1, '01-02'),
+('ph_gb_sct_summer', 'GB', 'SCT', '2000-01-01', 'Summer Bank Holiday', 'Bankfeiertag im Sommer', 'public', 1, 'mon>=08-01'),
+('ph_gb_sct_st_andrew', 'GB', 'SCT', '2000-01-01', 'St. Andrew''s Day', 'St. Andrew''s Day', 'public', 1, '11-30');
+
+-- ============================================================
+-- NETHERLANDS (NL)
+-- ============================================================
+
+INSERT OR IGNORE INTO public_holidays (id, country, bundesland, date, name_en, name_de, type, is_recurring, recurrence_rule) VALUES
+('ph_nl_nieuwjaarsdag', 'NL', NULL, '2000-01-01', 'New Year''s Day', 'Neujahr', 'public', 1, '01-01'),
+('ph_nl_eerste_paasdag', 'NL', NULL, '2000-01-01', 'Easter Sunday', 'Ostersonntag', 'public', 1, 'easter'),
+('ph_nl_tweede_paasdag', 'NL', NULL, '2000-01-01', 'Easter Monday', 'Ostermontag', 'public', 1, 'easter+1'),
+('ph_nl_koningsdag', 'NL', NULL, '2014-01-01', 'King''s Day', 'Königstag', 'public', 1, '04-27'),
+('ph_nl_hemelvaartsdag', 'NL', NULL, '2000-01-01', 'Ascension Day', 'Christi Himmelfahrt', 'public', 1, 'easter+39'),
+('ph_nl_eerste_pinksterdag', 'NL', NULL, '2000-01-01', 'Whit Sunday', 'Pfingstsonntag', 'public', 1, 'easter+49'),
+('ph_nl_tweede_pinksterdag', 'NL', NULL, '2000-01-01', 'Whit Monday', 'Pfingstmontag', 'public', 1, 'easter+50'),
+('ph_nl_eerste_kerstdag', 'NL', NULL, '2000-01-01', 'Christmas Day', '1. Weihnachtstag', 'public', 1, '12-25'),
+('ph_nl_tweede_kerstdag', 'NL', NULL, '2000-01-01', 'Boxing Day', '2. Weihnachtstag', 'public', 1, '12-26');
+
+-- ============================================================
+-- FRANCE (FR)
+-- ============================================================
+
+INSERT OR IGNORE INTO public_holidays (id, country, bundesland, date, name_en, name_de, type, is_recurring, recurrence_rule) VALUES
+('ph_fr_jour_an', 'FR', NULL, '2000-01-01', 'New Year''s Day', 'Neujahr', 'public', 1, '01-01'),
+('ph_fr_lundi_paques', 'FR', NULL, '2000-01-01', 'Easter Monday', 'Ostermontag', 'public', 1, 'easter+1'),
+('ph_fr_fete_travail', 'FR', NULL, '2000-01-01', 'Labour Day', 'Tag der Arbeit', 'public', 1, '05-01'),
+('ph_fr_victoire_1945', 'FR', NULL, '2000-01-01', 'Victory in Europe Day', 'Tag des Sieges', 'public', 1, '05-08'),
+('ph_fr_ascension', 'FR', NULL, '2000-01-01', 'Ascension Day', 'Christi Himmelfahrt', 'public', 1, 'easter+39'),
+('ph_fr_lundi_pentecote', 'FR', NULL, '2000-01-01', 'Whit Monday', 'Pfingstmontag', 'public', 1, 'easter+50'),
+('ph_fr_fete_nationale', 'FR', NULL, '2000-01-01', 'Bastille Day', 'Nationalfeiertag', 'public', 1, '07-14'),
+('ph_fr_assomption', 'FR', NULL, '2000-01-01', 'Assumption Day', 'Mariä Himmelfahrt', 'public', 1, '08-15'),
+('ph_fr_toussaint', 'FR', NULL, '2000-01-01', 'All Saints'' Day', 'Allerheiligen', 'public', 1, '11-01'),
+('ph_fr_armistice', 'FR', NULL, '2000-01-01', 'Armistice Day', 'Waffenstillstandstag', 'public', 1, '11-11'),
+('ph_fr_noel', 'FR', NULL, '2000-01-01', 'Christmas Day', 'Weihnachten', 'public', 1, '12-25');
+
+-- ============================================================
+-- UNITED STATES (US): FEDERAL
+-- ============================================================
+
+INSERT OR IGNORE INTO public_holidays (id, country, bundesland, date, name_en, name_de, type, is_recurring, recurrence_rule) VALUES
+('ph_us_new_year', 'US', NULL, '2000-01-01', 'New Year''s Day', 'Neujahr', 'public', 1, '01-01'),
+('ph_us_mlk_day', 'US', NULL, '2000-01-01', 'Martin Luther King Jr. Day', 'Martin Luther King Jr. Day', 'public', 1, 'mon>=01-15'),
+('ph_us_presidents_day', 'US', NULL, '2000-01-01', 'Presidents'' Day', 'Presidents'' Day', 'public', 1, 'mon>=02-15'),
+('ph_us_memorial_day', 'US', NULL, '2000-01-01', 'Memorial Day', 'Memorial Day', 'public', 1, 'mon<06-01'),
+('ph_us_juneteenth', 'US', NULL, '2021-01-01', 'Juneteenth', 'Juneteenth', 'public', 1, '06-19'),
+('ph_us_independence_day', 'US', NULL, '2000-01-01', 'Independence Day', 'Unabhängigkeitstag', 'public', 1, '07-04'),
+('ph_us_labor_day', 'US', NULL, '2000-01-01', 'Labor Day', 'Tag der Arbeit', 'public', 1, 'mon>=09-01'),
+('ph_us_columbus_day', 'US', NULL, '2000-01-01', 'Columbus Day', 'Columbus Day', 'public', 1, 'mon>=10-08'),
+('ph_us_veterans_day', 'US', NULL, '2000-01-01', 'Veterans Day', 'Veterans Day', 'public', 1, '11-11'),
+('ph_us_thanksgiving', 'US', NULL, '2000-01-01', 'Thanksgiving Day', 'Erntedankfest', 'public', 1, 'thu>=11-22'),
+('ph_us_christmas', 'US', NULL, '2000-01-01', 'Christmas Day', 'Weihnachten', 'public', 1, '12-25');
@@ -0,0 +1,58 @@
+-- ZeitPal Leave Document Requirements Migration
+-- Tracks which leave requests need a supporting document (e.g. a sick
+-- note / AU) and by when, so missing certificates can be followed up
+-- ============================================================
+
+-- ============================================================
+-- LEAVE_REQUESTS: Document requirement tracking
+-- ============================================================
+
+-- Whether the request needs a document, based on the leave type's
+-- requires_document / document_required_after_days and, for sick leave,
+-- the organization's sick_leave_au_threshold at the time of the request
+ALTER TABLE leave_requests ADD COLUMN document_required INTEGER DEFAULT 0;
+
+-- Date the document has to be provided by (YYYY-MM-DD)
+ALTER TABLE leave_requests ADD COLUMN document_due_date TEXT;
+
+-- Last time the employee was reminded to provide the document
+ALTER TABLE leave_requests ADD COLUMN document_reminder_sent_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_requests_document_due
+    ON leave_requests(organization_id, document_required, document_due_date);
+
+-- ============================================================
+-- BACKFILL: Apply the requirement to existing requests
+-- A document is required once the absence lasts longer than the
+-- threshold (in calendar days) and is due on the following day
+-- ============================================================
+
+UPDATE leave_requests
+SET document_required = 1,
+    document_due_date = date(
+        leave_requests.start_date,
+        '+' || (
+            SELECT CASE
+                WHEN lt.code = 'sick'
+                    THEN COALESCE(o.sick_leave_au_threshold, lt.document_required_after_days, 0)
+                ELSE COALESCE(lt.document_required_after_days, 0)
+            END
+            FROM leave_types lt, organizations o
+            WHERE lt.id = leave_requests.leave_type_id
+              AND o.id = leave_requests.organization_id
+        ) || ' days'
+    )
+WHERE EXISTS (
+    SELECT 1
+    FROM leave_types lt, organizations o
+    WHERE lt.id = leave_requests.leave_type_id
+      AND o.id = leave_requests.organization_id
+      AND lt.requires_document = 1
+      AND julianday(leave_requests.end_date) - julianday(leave_requests.start_date) + 1 > (
+          CASE
+              WHEN lt.code = 'sick'
+                  THEN COALESCE(o.sick_leave_au_threshold, lt.document_required_after_days, 0)
+              ELSE COALESCE(lt.document_required_after_days, 0)
+          END
+      )
+);
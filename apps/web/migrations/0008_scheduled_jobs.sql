@@ -0,0 +1,37 @@
+-- ZeitPal Scheduled Jobs Migration
+-- Run history for the cron-driven background jobs (reminders, year-end
+-- rollover, carryover expiry, ...)
+-- ============================================================
+
+-- ============================================================
+-- JOB_RUNS: One row per job and period
+-- The unique (job_name, period_key) pair makes every job run at most
+-- once per period; failed runs are retried by the next cron tick
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS job_runs (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    job_name TEXT NOT NULL,
+
+    -- Period the run covers, e.g. '2025-03-14' (daily), '2025-W11' (weekly),
+    -- '2025-03' (monthly) or '2025' (yearly)
+    period_key TEXT NOT NULL,
+
+    status TEXT NOT NULL DEFAULT 'running',  -- 'running', 'succeeded', 'failed'
+    trigger TEXT NOT NULL DEFAULT 'cron',  -- 'cron', 'manual'
+    triggered_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    attempts INTEGER NOT NULL DEFAULT 1,
+
+    -- Outcome
+    processed_count INTEGER NOT NULL DEFAULT 0,
+    result TEXT,  -- JSON details returned by the job
+    error TEXT,
+
+    started_at TEXT NOT NULL DEFAULT (datetime('now')),
+    finished_at TEXT,
+
+    UNIQUE(job_name, period_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job ON job_runs(job_name, started_at);
+CREATE INDEX IF NOT EXISTS idx_job_runs_status ON job_runs(status);
@@ -0,0 +1,56 @@
+-- ZeitPal Balance Rollover Migration
+-- Records the year-end rollover of leave balances: which balances were
+-- created for the new year and how many days were carried over
+-- ============================================================
+
+-- ============================================================
+-- BALANCE_ROLLOVERS: One row per rollover run and organization
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS balance_rollovers (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    from_year INTEGER NOT NULL,
+    to_year INTEGER NOT NULL,
+
+    trigger TEXT NOT NULL DEFAULT 'manual',  -- 'cron', 'manual'
+    triggered_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+
+    -- Organization carryover policy at the time of the run
+    carryover_enabled INTEGER NOT NULL,  -- boolean
+    carryover_max_days INTEGER,
+    carryover_expiry_date TEXT,  -- MM-DD format
+
+    -- Summary
+    balances_created INTEGER NOT NULL DEFAULT 0,
+    balances_updated INTEGER NOT NULL DEFAULT 0,
+    total_carried_over REAL NOT NULL DEFAULT 0,
+    total_forfeited REAL NOT NULL DEFAULT 0,
+
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_rollovers_org_year ON balance_rollovers(organization_id, from_year);
+
+-- ============================================================
+-- BALANCE_ROLLOVER_ITEMS: Per member and leave type outcome
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS balance_rollover_items (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    rollover_id TEXT NOT NULL REFERENCES balance_rollovers(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    leave_type_id TEXT NOT NULL REFERENCES leave_types(id) ON DELETE CASCADE,
+    leave_balance_id TEXT REFERENCES leave_balances(id) ON DELETE SET NULL,
+
+    previous_remaining REAL NOT NULL DEFAULT 0,  -- Remaining days in from_year
+    entitled REAL NOT NULL DEFAULT 0,  -- Entitlement of the to_year balance
+    carried_over REAL NOT NULL DEFAULT 0,
+    forfeited REAL NOT NULL DEFAULT 0,  -- Remaining days above the carryover cap
+
+    action TEXT NOT NULL,  -- 'created', 'updated', 'unchanged'
+
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_rollover_items_rollover ON balance_rollover_items(rollover_id);
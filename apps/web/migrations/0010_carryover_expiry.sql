@@ -0,0 +1,43 @@
+-- ZeitPal Carryover Expiry Migration
+-- Carried-over days are used before the year's entitlement and expire on
+-- the organization's carryover expiry date; employees are warned ahead
+-- ============================================================
+
+-- ============================================================
+-- ORGANIZATIONS: Expiry warning
+-- ============================================================
+
+-- Number of days before the expiry date employees with unused carryover
+-- are reminded
+ALTER TABLE organizations ADD COLUMN carryover_reminder_days INTEGER DEFAULT 30;
+
+-- ============================================================
+-- LEAVE_BALANCES: Carryover expiry tracking
+-- ============================================================
+
+-- Last day the carried-over days can be used (YYYY-MM-DD), set by the
+-- year-end rollover from organizations.carryover_expiry_date
+ALTER TABLE leave_balances ADD COLUMN carryover_expires_at TEXT;
+
+-- Carried-over days that were not used in time; they are deducted from
+-- carried_over when the carryover expires
+ALTER TABLE leave_balances ADD COLUMN carryover_expired REAL NOT NULL DEFAULT 0;
+ALTER TABLE leave_balances ADD COLUMN carryover_expired_at TEXT;
+
+-- When the employee was warned about the upcoming expiry
+ALTER TABLE leave_balances ADD COLUMN carryover_reminder_sent_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_balances_carryover_expiry
+    ON leave_balances(carryover_expires_at);
+
+-- ============================================================
+-- BACKFILL: Existing carryover expires on the current policy's date
+-- ============================================================
+
+UPDATE leave_balances
+SET carryover_expires_at = year || '-' || COALESCE(
+    (SELECT o.carryover_expiry_date FROM organizations o
+     WHERE o.id = leave_balances.organization_id),
+    '03-31'
+)
+WHERE carried_over > 0;
@@ -0,0 +1,20 @@
+-- ZeitPal Cross-Year Leave Requests Migration
+-- Stores the work days of a leave request per calendar year, so requests
+-- spanning New Year are debited from (and returned to) both years' balances
+-- ============================================================
+
+-- ============================================================
+-- LEAVE_REQUESTS: Work days per year
+-- ============================================================
+
+-- JSON object of year => work days, e.g. {"2025": 2, "2026": 3};
+-- the values add up to work_days
+ALTER TABLE leave_requests ADD COLUMN work_days_by_year TEXT;
+
+-- ============================================================
+-- BACKFILL: Existing requests were debited from their start year
+-- ============================================================
+
+UPDATE leave_requests
+SET work_days_by_year = json_object(strftime('%Y', start_date), work_days)
+WHERE work_days_by_year IS NULL;
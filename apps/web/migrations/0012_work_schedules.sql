@@ -0,0 +1,71 @@
+-- ZeitPal Work Schedules Migration
+-- Per-member working weekdays and hours, optionally alternating weekly,
+-- with effective-dated changes. Used to count leave days and to show
+-- who is working on a given day
+-- ============================================================
+
+-- ============================================================
+-- WORK_SCHEDULES: One row per member and effective date
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS work_schedules (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+    -- First day the schedule applies (YYYY-MM-DD); it applies until the
+    -- next schedule of the member takes effect
+    effective_from TEXT NOT NULL,
+
+    -- JSON array of 7 numbers: working hours Monday..Sunday (0 = day off)
+    weekday_hours TEXT NOT NULL,
+
+    -- Optional second week for alternating schedules (same format);
+    -- the week containing effective_from is the first week
+    alternate_weekday_hours TEXT,
+
+    created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+    UNIQUE(organization_id, user_id, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_schedules_user
+    ON work_schedules(organization_id, user_id, effective_from);
+
+-- ============================================================
+-- BACKFILL: Part-time members from users.work_days_per_week and
+-- weekly_hours, assuming they work the first days of the week. Members
+-- without weekly_hours work 8 hours a day
+-- ============================================================
+
+INSERT INTO work_schedules (
+    organization_id, user_id, effective_from, weekday_hours
+)
+SELECT
+    organization_id,
+    user_id,
+    '2000-01-01',
+    json_array(
+        CASE WHEN days >= 1 THEN round(weekly_hours / days, 2) ELSE 0 END,
+        CASE WHEN days >= 2 THEN round(weekly_hours / days, 2) ELSE 0 END,
+        CASE WHEN days >= 3 THEN round(weekly_hours / days, 2) ELSE 0 END,
+        CASE WHEN days >= 4 THEN round(weekly_hours / days, 2) ELSE 0 END,
+        CASE WHEN days >= 5 THEN round(weekly_hours / days, 2) ELSE 0 END,
+        CASE WHEN days >= 6 THEN round(weekly_hours / days, 2) ELSE 0 END,
+        CASE WHEN days >= 7 THEN round(weekly_hours / days, 2) ELSE 0 END
+    )
+FROM (
+    SELECT
+        om.organization_id,
+        om.user_id,
+        u.work_days_per_week AS days,
+        COALESCE(u.weekly_hours, 8.0 * u.work_days_per_week) AS weekly_hours
+    FROM organization_members om
+    JOIN users u ON om.user_id = u.id
+    WHERE u.work_days_per_week BETWEEN 1 AND 7
+)
+WHERE weekly_hours > 0
+  AND (days != 5 OR weekly_hours != 40)
+ON CONFLICT(organization_id, user_id, effective_from) DO NOTHING;
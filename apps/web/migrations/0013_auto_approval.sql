@@ -0,0 +1,13 @@
+-- ZeitPal Auto-Approval Migration
+-- Requests that need no approval (organization or leave type setting, or
+-- within the organization's auto-approve threshold) are approved on
+-- submission and recorded with a system approval
+-- ============================================================
+
+-- ============================================================
+-- LEAVE_APPROVALS: System approvals
+-- ============================================================
+
+-- Set for approvals recorded automatically on submission; approver_id
+-- then holds the member who submitted the request
+ALTER TABLE leave_approvals ADD COLUMN is_automatic INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,12 @@
+-- ZeitPal Team Coverage Migration
+-- Leave requests are checked against teams.min_coverage day by day;
+-- organizations choose whether shortfalls only warn or block the request
+-- ============================================================
+
+-- ============================================================
+-- ORGANIZATIONS: Coverage enforcement
+-- ============================================================
+
+-- Reject leave requests that would leave a team below its minimum
+-- coverage (otherwise they are submitted with a warning)
+ALTER TABLE organizations ADD COLUMN block_below_min_coverage INTEGER DEFAULT 0;
@@ -0,0 +1,13 @@
+-- ZeitPal Balance Limits Migration
+-- Requests for leave types with an allowance are checked against the
+-- remaining balance on submission. Types that allow a negative balance
+-- accept over-limit requests but flag them for the approvers
+-- ============================================================
+
+-- ============================================================
+-- LEAVE_REQUESTS: Over-limit flag
+-- ============================================================
+
+-- Set when the request booked more days than were left in a year's
+-- balance (only possible for leave types with allow_negative)
+ALTER TABLE leave_requests ADD COLUMN exceeds_balance INTEGER NOT NULL DEFAULT 0;
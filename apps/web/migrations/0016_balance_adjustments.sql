@@ -0,0 +1,39 @@
+-- ZeitPal Balance Adjustments Migration
+-- Manual changes to leave balances (bonus days, corrections, paid-out
+-- leave) are recorded as ledger entries; leave_balances.adjustment holds
+-- their sum
+-- ============================================================
+
+-- ============================================================
+-- LEAVE_BALANCE_ADJUSTMENTS: One row per posted adjustment
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS leave_balance_adjustments (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    balance_id TEXT NOT NULL REFERENCES leave_balances(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+    kind TEXT NOT NULL DEFAULT 'correction',  -- 'bonus', 'correction', 'payout'
+    days REAL NOT NULL,  -- Signed: positive adds days, negative removes them
+    reason TEXT NOT NULL,
+
+    created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_balance_adjustments_balance ON leave_balance_adjustments(balance_id);
+CREATE INDEX IF NOT EXISTS idx_balance_adjustments_user ON leave_balance_adjustments(user_id);
+
+-- ============================================================
+-- BACKFILL: Adjustments made before the ledger existed
+-- ============================================================
+
+INSERT INTO leave_balance_adjustments (
+    organization_id, balance_id, user_id, kind, days, reason, created_at
+)
+SELECT organization_id, id, user_id, 'correction', adjustment,
+       COALESCE(notes, 'Adjustment recorded before the balance ledger'),
+       updated_at
+FROM leave_balances
+WHERE adjustment != 0;
@@ -0,0 +1,57 @@
+-- ZeitPal Leave Type Settings Migration
+-- Organizations override system leave types (organization_id IS NULL)
+-- instead of changing them for every organization
+-- ============================================================
+
+-- ============================================================
+-- ORGANIZATION_LEAVE_TYPE_SETTINGS: One row per overridden leave type
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS organization_leave_type_settings (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    leave_type_id TEXT NOT NULL REFERENCES leave_types(id) ON DELETE CASCADE,
+
+    -- Overrides, NULL = use the leave type's value
+    is_active INTEGER,  -- boolean
+    color TEXT,
+    default_days_per_year INTEGER,
+    allow_half_days INTEGER,  -- boolean
+    allow_negative INTEGER,  -- boolean
+    allow_carryover INTEGER,  -- boolean
+    max_carryover_days INTEGER,
+    sort_order INTEGER,
+
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+    UNIQUE(organization_id, leave_type_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_type_settings_org ON organization_leave_type_settings(organization_id);
+
+-- ============================================================
+-- BACKFILL: System leave types turned on or off before the settings
+-- existed become overrides of the organization that did it, as far as
+-- the audit log records it. The system rows go back to their defaults.
+-- ============================================================
+
+INSERT OR IGNORE INTO organization_leave_type_settings (
+    organization_id, leave_type_id, is_active
+)
+SELECT al.organization_id, al.entity_id,
+       json_extract(al.new_values, '$.isActive')
+FROM audit_logs al
+JOIN leave_types lt ON lt.id = al.entity_id AND lt.organization_id IS NULL
+WHERE al.action = 'leave_type.updated'
+  AND al.organization_id IS NOT NULL
+  AND json_extract(al.new_values, '$.isActive') IS NOT NULL
+  AND al.created_at = (
+      SELECT MAX(latest.created_at) FROM audit_logs latest
+      WHERE latest.action = al.action
+        AND latest.organization_id = al.organization_id
+        AND latest.entity_id = al.entity_id
+  );
+
+UPDATE leave_types SET is_active = 1, updated_at = datetime('now')
+WHERE organization_id IS NULL AND is_active = 0;
@@ -0,0 +1,16 @@
+-- ZeitPal Custom Leave Types Migration
+-- Organizations create their own leave types. Types they no longer use
+-- are archived rather than deleted, so the requests and balances that
+-- reference them keep their history
+-- ============================================================
+
+-- ============================================================
+-- LEAVE_TYPES: Archiving
+-- ============================================================
+
+-- Set when an organization archived its leave type; archived types are
+-- inactive and no longer listed, but stay referenced by past requests
+ALTER TABLE leave_types ADD COLUMN archived_at TEXT;
+
+-- Codes are unique within an organization (system types have none)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leave_types_org_code ON leave_types(organization_id, code);
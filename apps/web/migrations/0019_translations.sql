@@ -0,0 +1,101 @@
+-- ZeitPal Translations Migration
+-- Names of leave types and holidays in locales beyond the name_en/name_de
+-- columns, resolved to the user's locale
+-- ============================================================
+
+-- ============================================================
+-- TRANSLATIONS: One row per entity and locale
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS translations (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    entity_type TEXT NOT NULL,  -- 'leave_type', 'holiday'
+    entity_id TEXT NOT NULL,
+    locale TEXT NOT NULL,  -- e.g. 'es'
+
+    name TEXT NOT NULL,
+    description TEXT,  -- Leave types only
+
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+    UNIQUE(entity_type, entity_id, locale)
+);
+
+CREATE INDEX IF NOT EXISTS idx_translations_entity ON translations(entity_type, entity_id);
+
+-- ============================================================
+-- SEED: Spanish names of the system leave types
+-- ============================================================
+
+INSERT OR IGNORE INTO translations (entity_type, entity_id, locale, name, description)
+SELECT 'leave_type', lt.id, 'es', t.name, t.description
+FROM leave_types lt
+JOIN (
+    SELECT 'vacation' as code, 'Vacaciones' as name, 'Vacaciones anuales retribuidas' as description
+    UNION ALL SELECT 'sick', 'Baja por enfermedad', 'Baja por enfermedad; se requiere certificado médico a partir de 3 días'
+    UNION ALL SELECT 'child_sick', 'Enfermedad de un hijo', 'Permiso para cuidar a un hijo enfermo (10 días por hijo y año)'
+    UNION ALL SELECT 'maternity', 'Baja por maternidad', 'Protección de la maternidad (6 semanas antes y 8 semanas después del parto)'
+    UNION ALL SELECT 'parental', 'Permiso parental', 'Permiso parental para el cuidado de los hijos (hasta 3 años)'
+    UNION ALL SELECT 'care', 'Permiso por cuidado de familiares', 'Permiso para cuidar a familiares (hasta 6 meses)'
+    UNION ALL SELECT 'special', 'Permiso especial', 'Permiso especial por acontecimientos (boda, fallecimiento, mudanza)'
+    UNION ALL SELECT 'overtime', 'Compensación de horas extra', 'Tiempo libre a cambio de horas extra trabajadas'
+    UNION ALL SELECT 'education', 'Permiso de formación', 'Permiso de formación retribuido (5 días al año, según el estado federado)'
+    UNION ALL SELECT 'unpaid', 'Permiso no retribuido', 'Ausencia no retribuida'
+) t ON t.code = lt.code
+WHERE lt.organization_id IS NULL;
+
+-- ============================================================
+-- SEED: Spanish names of the system holidays
+-- ============================================================
+
+INSERT OR IGNORE INTO translations (entity_type, entity_id, locale, name)
+SELECT 'holiday', ph.id, 'es', t.name
+FROM public_holidays ph
+JOIN (
+    SELECT '2nd January' as name_en, '2 de enero' as name
+    UNION ALL SELECT 'All Saints'' Day', 'Día de Todos los Santos'
+    UNION ALL SELECT 'Armistice Day', 'Día del Armisticio'
+    UNION ALL SELECT 'Ascension Day', 'Día de la Ascensión'
+    UNION ALL SELECT 'Assumption Day', 'Asunción de la Virgen'
+    UNION ALL SELECT 'Austrian National Day', 'Fiesta Nacional de Austria'
+    UNION ALL SELECT 'Bastille Day', 'Fiesta Nacional de Francia'
+    UNION ALL SELECT 'Battle of the Boyne', 'Batalla del Boyne'
+    UNION ALL SELECT 'Boxing Day', 'San Esteban'
+    UNION ALL SELECT 'Christmas Day', 'Navidad'
+    UNION ALL SELECT 'Columbus Day', 'Día de la Hispanidad'
+    UNION ALL SELECT 'Corpus Christi', 'Corpus Christi'
+    UNION ALL SELECT 'Early May Bank Holiday', 'Festivo bancario de principios de mayo'
+    UNION ALL SELECT 'Easter Monday', 'Lunes de Pascua'
+    UNION ALL SELECT 'Easter Sunday', 'Domingo de Pascua'
+    UNION ALL SELECT 'Epiphany', 'Epifanía'
+    UNION ALL SELECT 'German Unity Day', 'Día de la Unidad Alemana'
+    UNION ALL SELECT 'Good Friday', 'Viernes Santo'
+    UNION ALL SELECT 'Immaculate Conception', 'Inmaculada Concepción'
+    UNION ALL SELECT 'Independence Day', 'Día de la Independencia'
+    UNION ALL SELECT 'International Women''s Day', 'Día Internacional de la Mujer'
+    UNION ALL SELECT 'Juneteenth', 'Juneteenth'
+    UNION ALL SELECT 'King''s Day', 'Día del Rey'
+    UNION ALL SELECT 'Labor Day', 'Día del Trabajo'
+    UNION ALL SELECT 'Labour Day', 'Día del Trabajo'
+    UNION ALL SELECT 'Martin Luther King Jr. Day', 'Día de Martin Luther King Jr.'
+    UNION ALL SELECT 'Memorial Day', 'Día de los Caídos'
+    UNION ALL SELECT 'National Holiday', 'Fiesta Nacional'
+    UNION ALL SELECT 'New Year''s Day', 'Año Nuevo'
+    UNION ALL SELECT 'Presidents'' Day', 'Día de los Presidentes'
+    UNION ALL SELECT 'Reformation Day', 'Día de la Reforma'
+    UNION ALL SELECT 'Repentance Day', 'Día de Oración y Penitencia'
+    UNION ALL SELECT 'Spring Bank Holiday', 'Festivo bancario de primavera'
+    UNION ALL SELECT 'St. Andrew''s Day', 'San Andrés'
+    UNION ALL SELECT 'St. Patrick''s Day', 'San Patricio'
+    UNION ALL SELECT 'St. Stephen''s Day', 'San Esteban'
+    UNION ALL SELECT 'Summer Bank Holiday', 'Festivo bancario de verano'
+    UNION ALL SELECT 'Swiss National Day', 'Fiesta Nacional de Suiza'
+    UNION ALL SELECT 'Thanksgiving Day', 'Día de Acción de Gracias'
+    UNION ALL SELECT 'Veterans Day', 'Día de los Veteranos'
+    UNION ALL SELECT 'Victory in Europe Day', 'Día de la Victoria en Europa'
+    UNION ALL SELECT 'Whit Monday', 'Lunes de Pentecostés'
+    UNION ALL SELECT 'Whit Sunday', 'Domingo de Pentecostés'
+    UNION ALL SELECT 'World Children''s Day', 'Día Mundial de la Infancia'
+) t ON t.name_en = ph.name_en
+WHERE ph.organization_id IS NULL;
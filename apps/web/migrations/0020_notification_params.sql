@@ -0,0 +1,13 @@
+-- ZeitPal Notification Params Migration
+-- Notifications are rendered in the reader's locale from their type and
+-- params; title and body keep the English text as a fallback
+-- ============================================================
+
+-- ============================================================
+-- NOTIFICATIONS: Message params
+-- ============================================================
+
+-- JSON with the values the message is rendered from, e.g. the employee,
+-- the leave type's name in each locale and the dates. NULL for
+-- notifications created before, which show their stored text
+ALTER TABLE notifications ADD COLUMN params TEXT;
@@ -0,0 +1,22 @@
+-- ZeitPal Approval Chain Snapshots Migration
+-- Pending requests keep the approval chain they were submitted with, and
+-- each level of a request is decided only once
+-- ============================================================
+
+-- ============================================================
+-- LEAVE_REQUESTS: Approval chain snapshot
+-- ============================================================
+
+-- JSON array of the chain's levels with the rule governing each, taken on
+-- submission. NULL for requests submitted before, which resolve the chain
+-- from the current rules
+ALTER TABLE leave_requests ADD COLUMN approval_chain TEXT;
+
+-- ============================================================
+-- LEAVE_APPROVALS: One decision per level
+-- ============================================================
+
+-- Two approvers acting on the same level at once (or a double submit)
+-- can't both record a decision and book the balance twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approvals_request_level
+  ON leave_approvals(leave_request_id, level);
@@ -0,0 +1,17 @@
+-- ZeitPal Rollover Job Progress Migration
+-- The yearly rollover job records which organizations it rolled over, so a
+-- retry after a failure continues with the rest instead of running again
+-- ============================================================
+
+-- ============================================================
+-- BALANCE_ROLLOVERS: Job period
+-- ============================================================
+
+-- Period key of the job run that created the rollover (e.g. '2026'),
+-- NULL for rollovers run from the balances page
+ALTER TABLE balance_rollovers ADD COLUMN job_period_key TEXT;
+
+-- The job rolls each organization over once per period
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rollovers_org_job_period
+  ON balance_rollovers(organization_id, job_period_key)
+  WHERE job_period_key IS NOT NULL;
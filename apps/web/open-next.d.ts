@@ -0,0 +1,15 @@
+/**
+ * The worker generated by `opennextjs-cloudflare build`, which worker.ts
+ * wraps. It is build output, so it is not there to type-check against.
+ */
+declare module '*/.open-next/worker.js' {
+  const handler: {
+    fetch(
+      request: Request,
+      env: CloudflareEnv,
+      ctx: unknown
+    ): Promise<Response>;
+  };
+
+  export default handler;
+}
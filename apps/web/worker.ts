@@ -0,0 +1,41 @@
+/**
+ * Cloudflare Worker entry for ZeitPal
+ *
+ * Wraps the worker generated by OpenNext (which only handles `fetch`) and
+ * adds the `scheduled` handler that runs the background jobs registered in
+ * lib/jobs. Referenced as `main` in wrangler.toml.
+ *
+ * Locally, run `pnpm preview:cloudflare:scheduled` and trigger the cron with
+ * `curl "http://localhost:8787/__scheduled?cron=0+*+*+*+*"`.
+ */
+
+import { default as handler } from './.open-next/worker.js';
+import { runDueJobs } from './lib/services/job.service';
+
+/**
+ * Expose string bindings (vars and secrets) on process.env, like the
+ * OpenNext fetch handler does, so shared code such as the email service
+ * sees the same configuration in scheduled runs.
+ */
+function populateProcessEnv(env: CloudflareEnv) {
+  for (const [key, value] of Object.entries(env)) {
+    if (typeof value === 'string' && process.env[key] === undefined) {
+      process.env[key] = value;
+    }
+  }
+}
+
+export default {
+  fetch: handler.fetch,
+
+  async scheduled(
+    controller: { scheduledTime: number; cron: string },
+    env: CloudflareEnv,
+    ctx: { waitUntil(promise: Promise<unknown>): void }
+  ) {
+    populateProcessEnv(env);
+
+    // Outcomes are recorded in the job run history
+    ctx.waitUntil(runDueJobs(env, new Date(controller.scheduledTime)));
+  },
+};